@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
 import { BrowserRouter as Router, Routes, Route, Link, useLocation } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Home, Search, Send, Menu, X, Sun, Moon, Droplets, SendHorizontal } from 'lucide-react';
+import { Home, Search, Send, Menu, X, Sun, Moon, Droplets, SendHorizontal, Trophy } from 'lucide-react';
 import Hero from './components/Hero';
 import BalanceChecker from './components/BalanceChecker';
 import TransferForm from './components/TransferForm';
 import FaucetClaim from './components/FaucetClaim';
 import BatchTransferForm from './components/BatchTransferForm';
+import Leaderboard from './components/Leaderboard';
 import Button from './components/ui/Button';
 import { useDarkMode } from './hooks/useDarkMode';
 import { useTokenContract } from './contexts/TokenContractContext';
@@ -18,6 +19,7 @@ const navigation = [
   { path: '/transfer', label: 'Transfer', icon: Send },
   { path: '/faucet', label: 'Faucet', icon: Droplets },
   { path: '/batch-transfer', label: 'Batch Transfer', icon: SendHorizontal },
+  { path: '/leaderboard', label: 'Leaderboard', icon: Trophy },
 ];
 
 const Navigation: React.FC = () => {
@@ -34,7 +36,10 @@ const Navigation: React.FC = () => {
           <div className="flex items-center justify-between h-16">
             {/* Logo */}
             <div className="flex items-center space-x-3">
-              <div className="w-8 h-8 bg-gradient-to-br from-primary-600 to-secondary-600 rounded-lg flex items-center justify-center overflow-hidden">
+              <div
+                className="w-8 h-8 bg-gradient-to-br from-primary-600 to-secondary-600 rounded-lg flex items-center justify-center overflow-hidden"
+                title={tokenInfo?.tokenUri?.description}
+              >
                 {tokenInfo?.tokenUri?.image ? (
                   <img
                     src={tokenInfo.tokenUri.image}
@@ -196,6 +201,7 @@ const Navigation: React.FC = () => {
           <Route path="/transfer" element={<TransferForm />} />
           <Route path="/faucet" element={<FaucetClaim />} />
           <Route path="/batch-transfer" element={<BatchTransferForm />} />
+          <Route path="/leaderboard" element={<Leaderboard />} />
         </Routes>
       </main>
 
@@ -5,48 +5,79 @@ import Button from './ui/Button';
 import Card from './ui/Card';
 import Input from './ui/Input';
 import ContractStatusIndicator from './ContractStatusIndicator';
+import FeeSelector from './FeeSelector';
 import { useTokenContract } from '../contexts/TokenContractContext';
 import { formatLargeTokenAmount, formatAddress } from '../utils/formatting';
+import { useFeeEstimate } from '../hooks/useFeeEstimate';
+import { useBnsNames } from '../hooks/useBnsNames';
 import {
   tbbBatchTransferContract,
   tbbBatchTransferContractTestnet,
   type BatchTransferRecipient,
   type BatchTransferRequest,
+  getErrorMessage,
+  TokenAmount,
+  TOKEN_DECIMALS,
+  MAX_MEMO_BYTES,
+  isBnsName,
 } from 'contracts';
 
 interface Recipient {
   id: string;
+  /** Address or BNS name, as typed */
   address: string;
-  amount: number;
+  /** Owner of the BNS name typed in `address`, once resolved */
+  resolvedAddress?: string;
+  name?: string;
+  /** Why the name couldn't be resolved */
+  nameError?: string;
+  /** Amount in whole tokens, as typed */
+  amount: string;
+  /** Optional memo for this recipient only (e.g. a payroll or bounty tag) */
+  memo: string;
   isValid: boolean;
   validationError?: string;
 }
 
+const parseAmount = (value: string) => TokenAmount.tryParse(value, TOKEN_DECIMALS);
+
+const toContractRecipient = ({ address, resolvedAddress, amount, memo }: Pick<Recipient, 'address' | 'resolvedAddress' | 'amount' | 'memo'>): BatchTransferRecipient => ({
+  address: resolvedAddress || address,
+  amount: parseAmount(amount) ?? TokenAmount.zero(TOKEN_DECIMALS),
+  memo: memo || undefined
+});
+
 const BatchTransferForm: React.FC = () => {
-  const { wallet, connect, isConnecting, getExplorerUrl } = useTokenContract();
+  const { wallet, connect, isConnecting, getExplorerUrl, getNameService } = useTokenContract();
 
   // Contract instance
   const batchTransferContract = wallet.network === 'mainnet' ? tbbBatchTransferContract : tbbBatchTransferContractTestnet;
 
   const [recipients, setRecipients] = useState<Recipient[]>([
-    { id: '1', address: '', amount: 0, isValid: false }
+    { id: '1', address: '', amount: '', memo: '', isValid: false }
   ]);
   const [currentStep, setCurrentStep] = useState<'input' | 'review' | 'execute'>('input');
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadError, setUploadError] = useState<string>('');
   const [uploadSuccess, setUploadSuccess] = useState<string>('');
   const [executionResult, setExecutionResult] = useState<{ success: boolean; txId?: string; error?: string } | null>(null);
+  const fee = useFeeEstimate();
 
-  const maxAmount = Number(wallet.balance);
-  const totalAmount = recipients.reduce((sum, r) => sum + (r.amount || 0), 0);
-  const validRecipients = recipients.filter(r => r.address && r.amount > 0 && r.isValid);
+  const maxAmount = wallet.balance;
+  const totalAmount = batchTransferContract.calculateTotalAmount(
+    recipients.map(toContractRecipient)
+  );
+  const validRecipients = recipients.filter(r => r.address && parseAmount(r.amount)?.isPositive() && r.isValid);
+  const exceedsBalance = totalAmount.gt(maxAmount);
+  // Names for recipients entered as addresses, shown in the review table
+  const names = useBnsNames(currentStep === 'review' ? validRecipients.filter(r => !r.name).map(r => r.address) : []);
 
   // Get batch validation errors for display
   const getBatchValidationErrors = () => {
     if (!wallet.address || validRecipients.length === 0) return [];
 
     const batchRequest = {
-      recipients: validRecipients.map(r => ({ address: r.address, amount: r.amount })),
+      recipients: validRecipients.map(toContractRecipient),
       sender: wallet.address,
       memo: 'Batch transfer via faucet app'
     };
@@ -57,7 +88,7 @@ const BatchTransferForm: React.FC = () => {
 
   const addRecipient = () => {
     const newId = (Math.max(...recipients.map(r => parseInt(r.id))) + 1).toString();
-    setRecipients([...recipients, { id: newId, address: '', amount: 0, isValid: false }]);
+    setRecipients([...recipients, { id: newId, address: '', amount: '', memo: '', isValid: false }]);
     // Clear any upload messages when manually adding recipients
     setUploadError('');
     setUploadSuccess('');
@@ -69,42 +100,86 @@ const BatchTransferForm: React.FC = () => {
     }
   };
 
-  const updateRecipient = (id: string, field: keyof Recipient, value: any) => {
-    setRecipients(recipients.map(r => {
-      if (r.id === id) {
-        const updated = { ...r, [field]: value };
-        // Re-validate the entire recipient when any field changes
-        const finalAmount = field === 'amount' ? value : r.amount;
-        const finalAddress = field === 'address' ? value : r.address;
-
-        // First check individual recipient validation
-        const recipientValidation = batchTransferContract.validateRecipients([{
-          address: finalAddress,
-          amount: finalAmount || 0
-        }]);
-
-        let isValid = recipientValidation[0]?.isValid || false;
-        let validationError = recipientValidation[0]?.error;
-
-        // Also check if sending to self (if we have wallet address)
-        if (isValid && wallet.address && finalAddress) {
-          const batchValidation = batchTransferContract.validateBatchRequest({
-            recipients: [{ address: finalAddress, amount: finalAmount || 0 }],
-            sender: wallet.address,
-            memo: ''
-          });
-          isValid = batchValidation.isValid;
-          if (!isValid && batchValidation.errors.length > 0) {
-            validationError = batchValidation.errors[0]; // Use the first batch validation error
-          }
-        }
+  // Re-validate the entire recipient when any field changes
+  const validateRecipient = (recipient: Recipient): Recipient => {
+    const updated = { ...recipient };
+    if (isBnsName(updated.address) && !updated.resolvedAddress) {
+      updated.isValid = false;
+      updated.validationError = updated.nameError || 'Resolving name...';
+      return updated;
+    }
+
+    // First check individual recipient validation
+    const recipientValidation = batchTransferContract.validateRecipients([
+      toContractRecipient(updated)
+    ]);
 
-        updated.isValid = isValid;
-        updated.validationError = validationError;
-        return updated;
+    let isValid = recipientValidation[0]?.isValid || false;
+    let validationError = recipientValidation[0]?.error;
+
+    if (updated.amount.trim() && !parseAmount(updated.amount)) {
+      isValid = false;
+      validationError = TOKEN_DECIMALS === 0
+        ? 'Amount must be a whole number of tokens'
+        : `Amount cannot have more than ${TOKEN_DECIMALS} decimal places`;
+    }
+
+    // Also check if sending to self (if we have wallet address)
+    if (isValid && wallet.address && updated.address) {
+      const batchValidation = batchTransferContract.validateBatchRequest({
+        recipients: [toContractRecipient(updated)],
+        sender: wallet.address,
+        memo: ''
+      });
+      isValid = batchValidation.isValid;
+      if (!isValid && batchValidation.errors.length > 0) {
+        validationError = batchValidation.errors[0]; // Use the first batch validation error
       }
-      return r;
+    }
+
+    updated.isValid = isValid;
+    updated.validationError = validationError;
+    return updated;
+  };
+
+  const resolveRecipientName = async (id: string, input: string) => {
+    const resolution = await getNameService().resolveRecipient(input);
+    // Ignore the answer if the row was edited again while it was in flight
+    setRecipients(current => current.map(r => r.id === id && r.address === input
+      ? validateRecipient({
+          ...r,
+          resolvedAddress: resolution.isValid ? resolution.address : undefined,
+          name: resolution.name,
+          nameError: resolution.isValid ? undefined : resolution.error
+        })
+      : r
+    ));
+  };
+
+  const updateRecipient = (id: string, field: 'address' | 'amount' | 'memo', value: string) => {
+    setRecipients(recipients.map(r => {
+      if (r.id !== id) return r;
+      return validateRecipient(field === 'address'
+        ? { ...r, address: value, resolvedAddress: undefined, name: undefined, nameError: undefined }
+        : { ...r, [field]: value });
     }));
+
+    if (field === 'address' && isBnsName(value)) {
+      resolveRecipientName(id, value);
+    }
+  };
+
+  const reviewBatch = () => {
+    setCurrentStep('review');
+    if (!wallet.address) return;
+
+    // The fee grows with the recipient list, so estimate the exact batch being reviewed
+    const batchRequest: BatchTransferRequest = {
+      recipients: validRecipients.map(toContractRecipient),
+      sender: wallet.address,
+      memo: 'Batch transfer via faucet app'
+    };
+    fee.estimateFee(() => batchTransferContract.estimateBatchTransferFee(batchRequest));
   };
 
   const handleExecuteBatch = async () => {
@@ -122,17 +197,15 @@ const BatchTransferForm: React.FC = () => {
 
     try {
       // Convert recipients to contract format
-      const contractRecipients: BatchTransferRecipient[] = validRecipients.map(r => ({
-        address: r.address,
-        amount: r.amount
-      }));
+      const contractRecipients: BatchTransferRecipient[] = validRecipients.map(toContractRecipient);
 
       console.log('📋 Contract recipients:', contractRecipients);
 
       const batchRequest: BatchTransferRequest = {
         recipients: contractRecipients,
         sender: wallet.address,
-        memo: 'Batch transfer via faucet app'
+        memo: 'Batch transfer via faucet app',
+        fee: fee.selectedFee
       };
 
       console.log('📦 Batch request:', batchRequest);
@@ -158,7 +231,7 @@ const BatchTransferForm: React.FC = () => {
       console.error('❌ Batch transfer error:', error);
       setExecutionResult({
         success: false,
-        error: `Transfer failed: ${error}`
+        error: `Transfer failed: ${getErrorMessage(error)}`
       });
     } finally {
       setIsProcessing(false);
@@ -166,11 +239,11 @@ const BatchTransferForm: React.FC = () => {
   };
 
   const getQuickAmounts = () => [
-    { label: '1M', value: 1_000_000 },
-    { label: '5M', value: 5_000_000 },
-    { label: '10M', value: 10_000_000 },
-    { label: '25M', value: 25_000_000 },
-    { label: '50M', value: 50_000_000 }
+    { label: '1M', value: '1000000' },
+    { label: '5M', value: '5000000' },
+    { label: '10M', value: '10000000' },
+    { label: '25M', value: '25000000' },
+    { label: '50M', value: '50000000' }
   ];
 
   const downloadTemplate = () => {
@@ -209,6 +282,15 @@ const BatchTransferForm: React.FC = () => {
           return;
         }
 
+        // One send-many can't pay them all - nothing is dropped silently
+        if (parseResult.exceedsBatchLimit) {
+          setUploadError(
+            `The file lists ${parseResult.validCount} recipients, but one batch transfer pays at most ${batchTransferContract.getMaxRecipientsLimit()}. ` +
+            'Split it into smaller files, or send it as an airdrop plan (AirdropPlanner), which pays one batch at a time and can resume after a failure.'
+          );
+          return;
+        }
+
         // Convert contract recipients to UI format
         const uiRecipients: Recipient[] = parseResult.recipients.map((r, index) => {
           const recipientValidation = batchTransferContract.validateRecipients([r])[0];
@@ -231,7 +313,8 @@ const BatchTransferForm: React.FC = () => {
           return {
             id: (index + 1).toString(),
             address: r.address,
-            amount: r.amount,
+            amount: r.amount.toString(),
+            memo: typeof r.memo === 'string' ? r.memo : '',
             isValid,
             validationError
           };
@@ -245,7 +328,7 @@ const BatchTransferForm: React.FC = () => {
         setTimeout(() => setUploadSuccess(''), 3000);
       } catch (error) {
         console.warn('Error parsing CSV:', error);
-        setUploadError('Invalid CSV format. Please use: address,amount');
+        setUploadError('Invalid CSV format. Please use: address,amount,memo (memo is optional)');
         setUploadSuccess('');
       }
     };
@@ -308,7 +391,7 @@ const BatchTransferForm: React.FC = () => {
                     onClick={() => {
                       setCurrentStep('input');
                       setExecutionResult(null);
-                      setRecipients([{ id: '1', address: '', amount: 0, isValid: false }]);
+                      setRecipients([{ id: '1', address: '', amount: '', memo: '', isValid: false }]);
                     }}
                   >
                     New Transfer
@@ -387,7 +470,7 @@ const BatchTransferForm: React.FC = () => {
               </div>
               <div className="text-center p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
                 <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-                  {formatLargeTokenAmount(maxAmount - totalAmount)}
+                  {formatLargeTokenAmount(maxAmount.sub(totalAmount))}
                 </div>
                 <div className="text-sm text-gray-600 dark:text-gray-400">Remaining Balance</div>
               </div>
@@ -400,6 +483,7 @@ const BatchTransferForm: React.FC = () => {
                 <tr>
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-600 dark:text-gray-400">#</th>
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-600 dark:text-gray-400">Recipient</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-600 dark:text-gray-400">Memo</th>
                   <th className="px-4 py-3 text-right text-sm font-medium text-gray-600 dark:text-gray-400">Amount</th>
                 </tr>
               </thead>
@@ -409,11 +493,17 @@ const BatchTransferForm: React.FC = () => {
                     <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
                       {index + 1}
                     </td>
-                    <td className="px-4 py-3 text-sm font-mono text-gray-900 dark:text-white">
-                      {formatAddress(recipient.address)}
+                    <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
+                      {(recipient.name || names[recipient.address]) && (
+                        <div className="font-medium">{recipient.name || names[recipient.address]}</div>
+                      )}
+                      <div className="font-mono">{formatAddress(recipient.resolvedAddress || recipient.address)}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 truncate max-w-[12rem]">
+                      {recipient.memo || '-'}
                     </td>
                     <td className="px-4 py-3 text-sm font-semibold text-gray-900 dark:text-white text-right">
-                      {formatLargeTokenAmount(recipient.amount)}
+                      {formatLargeTokenAmount(parseAmount(recipient.amount) ?? TokenAmount.zero(TOKEN_DECIMALS))}
                     </td>
                   </tr>
                 ))}
@@ -421,10 +511,21 @@ const BatchTransferForm: React.FC = () => {
             </table>
           </div>
 
+          <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2">
+            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Network Fee</h4>
+            <FeeSelector
+              estimate={fee.estimate}
+              isLoading={fee.isLoading}
+              error={fee.error}
+              priority={fee.priority}
+              onSelect={fee.setPriority}
+            />
+          </div>
+
           {/* Validation Errors */}
           {(() => {
             const errors = getBatchValidationErrors();
-            const balanceError = totalAmount > maxAmount ? 'Insufficient balance for this transfer' : null;
+            const balanceError = exceedsBalance ? 'Insufficient balance for this transfer' : null;
             const allErrors = [...errors, ...(balanceError ? [balanceError] : [])];
 
             if (allErrors.length > 0) {
@@ -457,13 +558,13 @@ const BatchTransferForm: React.FC = () => {
                 console.log('🔘 Button clicked!');
                 console.log('Total amount:', totalAmount);
                 console.log('Max amount:', maxAmount);
-                console.log('Is disabled?', totalAmount > maxAmount);
+                console.log('Is disabled?', exceedsBalance);
                 console.log('Validation errors:', getBatchValidationErrors());
                 handleExecuteBatch();
               }}
               loading={isProcessing}
               className="flex-1"
-              disabled={totalAmount > maxAmount || getBatchValidationErrors().length > 0}
+              disabled={exceedsBalance || fee.isLoading || getBatchValidationErrors().length > 0}
             >
               {isProcessing ? 'Processing...' : `Execute Batch Transfer`}
             </Button>
@@ -514,7 +615,7 @@ const BatchTransferForm: React.FC = () => {
                 </div>
                 <div className="text-right">
                   <div className="text-sm text-gray-600 dark:text-gray-400">Total to Send</div>
-                  <div className={`text-xl font-bold ${totalAmount > maxAmount ? 'text-red-600' : 'text-gray-900 dark:text-white'
+                  <div className={`text-xl font-bold ${exceedsBalance ? 'text-red-600' : 'text-gray-900 dark:text-white'
                     }`}>
                     {formatLargeTokenAmount(totalAmount)}
                   </div>
@@ -583,7 +684,7 @@ const BatchTransferForm: React.FC = () => {
 
                     <div className="flex-1">
                       <Input
-                        placeholder="ST... or SP... address"
+                        placeholder="ST... or SP... address, or BNS name"
                         value={recipient.address}
                         onChange={(e) => updateRecipient(recipient.id, 'address', e.target.value)}
                       />
@@ -596,7 +697,7 @@ const BatchTransferForm: React.FC = () => {
 
                     {/* Validation Status Indicator */}
                     <div className="flex items-center space-x-2">
-                      {recipient.address && recipient.amount > 0 && (
+                      {recipient.address && recipient.amount.trim() && (
                         recipient.isValid ? (
                           <CheckCircle
                             className="w-5 h-5 text-green-500"
@@ -622,8 +723,8 @@ const BatchTransferForm: React.FC = () => {
                       <Input
                         type="number"
                         placeholder="Amount (tokens)"
-                        value={recipient.amount || ''}
-                        onChange={(e) => updateRecipient(recipient.id, 'amount', parseFloat(e.target.value) || 0)}
+                        value={recipient.amount}
+                        onChange={(e) => updateRecipient(recipient.id, 'amount', e.target.value)}
                         min="0"
                         step="1000000"
                       />
@@ -641,6 +742,14 @@ const BatchTransferForm: React.FC = () => {
                       ))}
                     </div>
                   </div>
+
+                  <div className="mt-2">
+                    <Input
+                      placeholder={`Memo (optional, max ${MAX_MEMO_BYTES} bytes)`}
+                      value={recipient.memo}
+                      onChange={(e) => updateRecipient(recipient.id, 'memo', e.target.value)}
+                    />
+                  </div>
                 </div>
               ))}
             </div>
@@ -656,8 +765,8 @@ const BatchTransferForm: React.FC = () => {
               </Button>
 
               <Button
-                onClick={() => setCurrentStep('review')}
-                disabled={validRecipients.length === 0 || totalAmount > maxAmount}
+                onClick={reviewBatch}
+                disabled={validRecipients.length === 0 || exceedsBalance}
                 icon={SendHorizontal}
               >
                 Review Transfer ({validRecipients.length} recipients)
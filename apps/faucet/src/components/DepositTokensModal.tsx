@@ -3,28 +3,31 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { X, Plus, AlertCircle } from 'lucide-react';
 import Button from './ui/Button';
 import { formatLargeTokenAmount } from '../utils/formatting';
+import { getErrorMessage, TokenAmount, TOKEN_DECIMALS } from 'contracts';
 
 interface DepositTokensModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onDeposit: (amount: number) => Promise<void>;
+  onDeposit: (amount: TokenAmount) => Promise<void>;
   isDepositing: boolean;
   tokenSymbol?: string;
-  userBalance?: bigint;
-  faucetBalance?: number;
-  totalSupply?: number;
+  userBalance?: TokenAmount;
+  faucetBalance?: TokenAmount;
+  totalSupply?: TokenAmount;
   isLoadingBalance?: boolean;
 }
 
+const ZERO = TokenAmount.zero(TOKEN_DECIMALS);
+
 const DepositTokensModal: React.FC<DepositTokensModalProps> = ({
   isOpen,
   onClose,
   onDeposit,
   isDepositing,
   tokenSymbol = 'TKN',
-  userBalance = 0n,
-  faucetBalance = 0,
-  totalSupply = 0,
+  userBalance = ZERO,
+  faucetBalance = ZERO,
+  totalSupply = ZERO,
   isLoadingBalance = false
 }) => {
   const [amount, setAmount] = useState('');
@@ -35,18 +38,16 @@ const DepositTokensModal: React.FC<DepositTokensModalProps> = ({
     setError('');
   };
 
-  const handleDeposit = async () => {
-    const depositAmount = parseFloat(amount);
+  const depositAmount = TokenAmount.tryParse(amount, userBalance.decimals);
+  const hasValidAmount = depositAmount !== null && depositAmount.isPositive();
 
-    if (!depositAmount || depositAmount <= 0) {
+  const handleDeposit = async () => {
+    if (!depositAmount || !depositAmount.isPositive()) {
       setError('Please enter a valid amount greater than 0');
       return;
     }
 
-    const userBalanceNumber = Number(userBalance);
-    console.log('Deposit validation - Amount:', depositAmount, 'User Balance:', userBalanceNumber, 'Raw Balance:', userBalance);
-
-    if (depositAmount > userBalanceNumber) {
+    if (depositAmount.gt(userBalance)) {
       setError('Insufficient balance');
       return;
     }
@@ -56,19 +57,18 @@ const DepositTokensModal: React.FC<DepositTokensModalProps> = ({
       setAmount('');
       onClose();
     } catch (error) {
-      setError(`Deposit failed: ${error}`);
+      setError(getErrorMessage(error));
     }
   };
 
   const handleMaxAmount = () => {
-    const maxAmount = Number(userBalance);
-    setAmount(maxAmount.toString());
+    setAmount(userBalance.toString());
     setError('');
   };
 
-  const currentPercentage = totalSupply > 0 ? (faucetBalance / totalSupply) * 100 : 0;
-  const afterDepositBalance = faucetBalance + parseFloat(amount || '0');
-  const afterDepositPercentage = totalSupply > 0 ? (afterDepositBalance / totalSupply) * 100 : 0;
+  const currentPercentage = faucetBalance.ratio(totalSupply) * 100;
+  const afterDepositBalance = hasValidAmount ? faucetBalance.add(depositAmount) : faucetBalance;
+  const afterDepositPercentage = afterDepositBalance.ratio(totalSupply) * 100;
 
   return (
     <AnimatePresence>
@@ -169,7 +169,7 @@ const DepositTokensModal: React.FC<DepositTokensModalProps> = ({
                     </div>
                   ) : (
                     <>
-                      Your balance: {formatLargeTokenAmount(Number(userBalance))} {tokenSymbol}
+                      Your balance: {formatLargeTokenAmount(userBalance)} {tokenSymbol}
                       {process.env.NODE_ENV === 'development' && (
                         <div className="text-xs text-gray-400 mt-1">
                           Debug: Raw balance = {userBalance?.toString() || 'undefined'}
@@ -181,7 +181,7 @@ const DepositTokensModal: React.FC<DepositTokensModalProps> = ({
               </div>
 
               {/* Deposit Preview */}
-              {amount && parseFloat(amount) > 0 && (
+              {hasValidAmount && (
                 <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-xl p-4">
                   <h4 className="text-sm font-medium text-green-700 dark:text-green-300 mb-3">
                     After Deposit
@@ -234,7 +234,7 @@ const DepositTokensModal: React.FC<DepositTokensModalProps> = ({
                 onClick={handleDeposit}
                 loading={isDepositing}
                 className="flex-1 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700"
-                disabled={!amount || parseFloat(amount) <= 0 || isLoadingBalance}
+                disabled={!hasValidAmount || isLoadingBalance}
               >
                 {isDepositing ? 'Depositing...' : isLoadingBalance ? 'Loading Balance...' : 'Deposit Tokens'}
               </Button>
@@ -7,7 +7,10 @@ import FaucetSuccessModal from './FaucetSuccessModal';
 import FaucetContractStatusIndicator from './FaucetContractStatusIndicator';
 import DepositTokensModal from './DepositTokensModal';
 import { useTokenContract } from '../contexts/TokenContractContext';
-import { formatLargeTokenAmount, formatCountdown, formatDepletionEstimate, formatAddress } from '../utils/formatting';
+import { useFaucetEvents } from '../hooks/useFaucetEvents';
+import { useNewBlocks } from '../hooks/useNewBlocks';
+import { getErrorMessage, estimateEta, TokenAmount, TOKEN_DECIMALS, type BlockEta } from 'contracts';
+import { formatLargeTokenAmount, formatCountdown, formatDuration, formatDepletionEstimate, formatAddress } from '../utils/formatting';
 
 // Removed mock data - now using contract wrapper
 
@@ -21,7 +24,8 @@ const FaucetClaim: React.FC = () => {
     claimTokens,
     depositTokens,
     getFaucetContract,
-    refreshFaucetData
+    refreshFaucetData,
+    transactions
   } = useTokenContract();
 
   // UI state
@@ -29,6 +33,8 @@ const FaucetClaim: React.FC = () => {
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [claimError, setClaimError] = useState<string>('');
   const [timeRemaining, setTimeRemaining] = useState(0);
+  // Block times vary, so the countdown is an estimate within this range
+  const [timeRange, setTimeRange] = useState<{ min: number; max: number } | null>(null);
 
   // Deposit state
   const [showDepositModal, setShowDepositModal] = useState(false);
@@ -38,22 +44,56 @@ const FaucetClaim: React.FC = () => {
   const faucetContract = getFaucetContract();
 
   // Derived values from context faucet state
-  const currentReward = faucet.claimInfo ? faucetContract.getCurrentReward(faucet.claimInfo.streakCount) : 0;
-  const nextReward = faucet.claimInfo ? faucetContract.getNextRewardAmount(faucet.claimInfo.streakCount) : 0;
-  const remaining = faucet.globalStats ? faucet.globalStats.remaining : 0;
+  const zero = TokenAmount.zero(TOKEN_DECIMALS);
+  const currentReward = faucet.claimInfo ? faucet.claimInfo.nextClaimReward : zero;
+  const claimStatusUnavailable = faucet.claimInfo?.source === 'unavailable';
+  const nextReward = faucet.claimInfo ? faucetContract.getNextRewardAmount(faucet.claimInfo.streakCount) : zero;
+  const remaining = faucet.globalStats ? faucet.globalStats.remaining : zero;
   const percentageRemaining = faucet.globalStats ? faucet.globalStats.percentageRemaining : 0;
 
+  // Surface on-chain failures of the last claim (e.g. err-cooldown-active)
+  const lastTxUpdate = faucet.lastTxId ? transactions[faucet.lastTxId] : undefined;
+
+  useEffect(() => {
+    if (lastTxUpdate?.error) {
+      setShowSuccessModal(false);
+      setClaimError(lastTxUpdate.error.message);
+    }
+  }, [lastTxUpdate]);
+
+  // Reload stats and claim status as soon as a claim or deposit lands
+  useFaucetEvents({ type: ['claim', 'deposit'] }, () => refreshFaucetData(), wallet.connected);
+
+  const applyEta = (eta: BlockEta) => {
+    setTimeRemaining(eta.seconds);
+    setTimeRange({ min: eta.minSeconds, max: eta.maxSeconds });
+  };
+
   // Initialize time remaining from claim info
   useEffect(() => {
     if (faucet.claimInfo) {
-      setTimeRemaining(faucet.claimInfo.timeUntilNextClaim);
+      applyEta(faucet.claimInfo.nextClaimEta);
     }
-  }, [faucet.claimInfo?.timeUntilNextClaim]);
+  }, [faucet.claimInfo]);
+
+  // Re-anchor the countdown to the real block height whenever a block lands
+  useNewBlocks(block => {
+    const claimInfo = faucet.claimInfo;
+    if (!claimInfo || claimInfo.canClaimNow) return;
+
+    const eta = estimateEta(claimInfo.nextClaimBlock - block.height, claimInfo.blockTime);
+    if (eta.blocks === 0) {
+      refreshFaucetData();
+    } else {
+      applyEta(eta);
+    }
+  }, wallet.connected);
 
   // Real-time countdown timer
   useEffect(() => {
     if (timeRemaining > 0) {
       const timer = setInterval(() => {
+        setTimeRange(prev => prev && { min: Math.max(0, prev.min - 1), max: Math.max(0, prev.max - 1) });
         setTimeRemaining(prev => {
           const newTime = Math.max(0, prev - 1);
           // When countdown reaches zero, refresh faucet data to update claim availability
@@ -91,13 +131,13 @@ const FaucetClaim: React.FC = () => {
         setClaimError(result.error || 'Claim failed');
       }
     } catch (error) {
-      setClaimError(`Claim failed: ${error}`);
+      setClaimError(`Claim failed: ${getErrorMessage(error)}`);
     } finally {
       setIsClaiming(false);
     }
   };
 
-  const handleDeposit = async (amount: number) => {
+  const handleDeposit = async (amount: TokenAmount) => {
     if (!wallet.address) {
       throw new Error('Wallet not connected');
     }
@@ -114,7 +154,7 @@ const FaucetClaim: React.FC = () => {
         throw new Error(result.error || 'Deposit failed');
       }
     } catch (error) {
-      setClaimError(`Deposit failed: ${error}`);
+      setClaimError(getErrorMessage(error));
       throw error;
     } finally {
       setIsDepositing(false);
@@ -226,6 +266,11 @@ const FaucetClaim: React.FC = () => {
                     <div className="text-3xl font-mono font-bold text-orange-600 dark:text-orange-400 mb-2">
                       {formatCountdown(timeRemaining)}
                     </div>
+                    {timeRange && timeRange.max > timeRange.min && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+                        Likely between {formatDuration(timeRange.min)} and {formatDuration(timeRange.max)}
+                      </p>
+                    )}
                     <p className="text-gray-600 dark:text-gray-400 flex items-center justify-center space-x-2">
                       <Clock className="w-4 h-4" />
                       <span>Next claim available in</span>
@@ -243,14 +288,22 @@ const FaucetClaim: React.FC = () => {
                         Connect Wallet to Claim
                       </Button>
                     ) : (
-                      <Button
-                        size="xl"
-                        onClick={handleClaim}
-                        loading={isClaiming}
-                        className="text-lg px-12 py-4 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-                      >
-                        {isClaiming ? 'Claiming...' : `Claim ${formatLargeTokenAmount(currentReward)}`}
-                      </Button>
+                      <>
+                        <Button
+                          size="xl"
+                          onClick={handleClaim}
+                          loading={isClaiming}
+                          disabled={claimStatusUnavailable}
+                          className="text-lg px-12 py-4 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+                        >
+                          {isClaiming ? 'Claiming...' : `Claim ${formatLargeTokenAmount(currentReward)}`}
+                        </Button>
+                        {claimStatusUnavailable && (
+                          <p className="mt-3 text-sm text-gray-600 dark:text-gray-400">
+                            Couldn't load your claim status from the contract. Refresh to try again.
+                          </p>
+                        )}
+                      </>
                     )}
                   </div>
                 )}
@@ -340,7 +393,7 @@ const FaucetClaim: React.FC = () => {
                       <div className="flex justify-between">
                         <span className="text-gray-600 dark:text-gray-400">Total Claimed</span>
                         <span className="font-semibold text-gray-900 dark:text-white">
-                          {faucet.claimInfo.totalClaimed > 0 ? formatLargeTokenAmount(faucet.claimInfo.totalClaimed) : '—'}
+                          {faucet.claimInfo.totalClaimed.isPositive() ? formatLargeTokenAmount(faucet.claimInfo.totalClaimed) : '—'}
                         </span>
                       </div>
                       <div className="flex justify-between">
@@ -480,8 +533,8 @@ const FaucetClaim: React.FC = () => {
         isDepositing={isDepositing}
         tokenSymbol={tokenInfo?.symbol}
         userBalance={wallet.balance}
-        faucetBalance={faucet.globalStats?.remaining || 0}
-        totalSupply={faucet.globalStats?.totalSupply || 0}
+        faucetBalance={faucet.globalStats?.remaining}
+        totalSupply={faucet.globalStats?.totalSupply}
         isLoadingBalance={wallet.isLoading}
       />
 
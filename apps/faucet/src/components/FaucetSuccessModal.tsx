@@ -3,14 +3,15 @@ import { motion } from 'framer-motion';
 import { CheckCircle, ExternalLink, Zap, TrendingUp } from 'lucide-react';
 import Modal from './ui/Modal';
 import Button from './ui/Button';
+import type { TokenAmount } from 'contracts';
 import { formatLargeTokenAmount, formatCountdown } from '../utils/formatting';
 
 interface FaucetSuccessModalProps {
   isOpen: boolean;
   onClose: () => void;
-  claimedAmount: number;
+  claimedAmount: TokenAmount;
   currentStreak: number;
-  nextRewardAmount: number;
+  nextRewardAmount: TokenAmount;
   timeUntilNextClaim: number;
   txId?: string;
   onViewExplorer?: () => void;
@@ -5,10 +5,14 @@ import { Wallet, Globe, TrendingUp, Users, Droplets, SendHorizontal, Clock, Zap,
 import Button from './ui/Button';
 import Card from './ui/Card';
 import { useTokenContract } from '../contexts/TokenContractContext';
-import { formatTokenAmount, formatAddress, formatLargeTokenAmount, formatDepletionEstimate } from '../utils/formatting';
+import { useFaucetEvents } from '../hooks/useFaucetEvents';
+import { formatTokenAmount, formatAddress, formatLargeTokenAmount, formatDepletionEstimate, formatRunwayScenario, formatRunwayRange } from '../utils/formatting';
 import {
   tbbFaucetContract,
   tbbFaucetContractTestnet,
+  getErrorMessage,
+  TokenAmount,
+  TOKEN_DECIMALS,
   type FaucetGlobalStats,
   type FaucetClaimInfo
 } from 'contracts';
@@ -29,7 +33,7 @@ const Hero: React.FC = () => {
 
   // Success modal state
   const [showSuccessModal, setShowSuccessModal] = useState(false);
-  const [lastClaimedAmount, setLastClaimedAmount] = useState(0);
+  const [lastClaimedAmount, setLastClaimedAmount] = useState(() => TokenAmount.zero(TOKEN_DECIMALS));
   const [lastTxId, setLastTxId] = useState<string>();
 
   // Contract instance
@@ -63,6 +67,17 @@ const Hero: React.FC = () => {
     return () => clearInterval(interval);
   }, [wallet.network, wallet.connected, wallet.address]);
 
+  // Reload as soon as a claim or deposit lands instead of waiting for the next poll
+  useFaucetEvents({ type: ['claim', 'deposit'] }, events => {
+    loadFaucetStats();
+    const involvesWallet = events.some(event =>
+      event.type === 'deposit' ? event.depositor === wallet.address : event.type === 'claim' && event.user === wallet.address
+    );
+    if (wallet.connected && involvesWallet) {
+      refreshBalance();
+    }
+  });
+
   const handleViewOnExplorer = () => {
     const explorerUrl = getExplorerUrl();
     window.open(explorerUrl, '_blank');
@@ -93,8 +108,8 @@ const Hero: React.FC = () => {
     setClaimError('');
 
     try {
-      // Get current reward amount before claiming
-      const currentReward = faucetContract.getCurrentReward(claimInfo.streakCount);
+      // Get the reward this claim will pay before claiming
+      const currentReward = claimInfo.nextClaimReward;
 
       const result = await faucetContract.claimTokens(wallet.address);
 
@@ -115,7 +130,7 @@ const Hero: React.FC = () => {
         setTimeout(() => setClaimError(''), 5000);
       }
     } catch (error) {
-      setClaimError(`Claim failed: ${error}`);
+      setClaimError(`Claim failed: ${getErrorMessage(error)}`);
       setTimeout(() => setClaimError(''), 5000);
     } finally {
       setIsClaiming(false);
@@ -130,7 +145,7 @@ const Hero: React.FC = () => {
     // Original token stats
     {
       label: 'Total Supply',
-      value: tokenInfo ? formatTokenAmount(Number(tokenInfo.totalSupply), 'TKN', { compact: true }) : '...',
+      value: tokenInfo ? formatTokenAmount(tokenInfo.totalSupply, 'TKN', { compact: true }) : '...',
       icon: TrendingUp,
       color: 'text-blue-600'
     },
@@ -161,7 +176,13 @@ const Hero: React.FC = () => {
     },
     {
       label: 'Est. Depletion',
-      value: faucetStats ? formatDepletionEstimate(faucetStats.estimatedDaysRemaining) : (isLoadingFaucetStats ? '...' : 'Loading'),
+      value: faucetStats
+        ? (faucetStats.runway
+          ? formatRunwayScenario(faucetStats.runway.expected, faucetStats.runway.horizonDays)
+          : formatDepletionEstimate(faucetStats.estimatedDaysRemaining))
+        : (isLoadingFaucetStats ? '...' : 'Loading'),
+      // Worst to best case, from deposits, streak retention and tier escalation
+      detail: faucetStats?.runway ? formatRunwayRange(faucetStats.runway) : undefined,
       icon: Clock,
       color: 'text-orange-600'
     }
@@ -181,7 +202,7 @@ const Hero: React.FC = () => {
                     FAUCET ALERT: Only {formatDepletionEstimate(faucetStats.estimatedDaysRemaining)} remaining!
                   </span>
                   <span className="font-light text-sm">
-                    Claim your {formatLargeTokenAmount(50_000_000)}+ tokens before the faucet runs dry!
+                    Claim your {formatLargeTokenAmount(faucetContract.getCurrentReward(1))}+ tokens before the faucet runs dry!
                   </span>
                   {/* Large gap between messages for empty space */}
                   <div className="w-96"></div>
@@ -245,7 +266,7 @@ const Hero: React.FC = () => {
                 <div className="flex items-center space-x-3">
                   <div className="text-right">
                     <p className="text-sm font-medium text-gray-900 dark:text-white">
-                      {formatTokenAmount(Number(wallet.balance), 'TKN', { compact: true })}
+                      {formatTokenAmount(wallet.balance, 'TKN', { compact: true })}
                     </p>
                     <p className="text-xs text-gray-500 dark:text-gray-400">
                       {formatAddress(wallet.address!)}
@@ -367,6 +388,9 @@ const Hero: React.FC = () => {
                           <stat.icon className={`w-6 h-6 ${stat.color} mx-auto mb-2`} />
                           <p className="text-2xl font-bold text-gray-900 dark:text-white">{stat.value}</p>
                           <p className="text-sm text-gray-600 dark:text-gray-400">{stat.label}</p>
+                          {stat.detail && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{stat.detail}</p>
+                          )}
                         </motion.div>
                       ))}
                     </div>
@@ -443,7 +467,7 @@ const Hero: React.FC = () => {
                   <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Your Balance</h3>
                   <div className="text-center py-4">
                     <p className="text-3xl font-bold text-primary-600 mb-2">
-                      {formatTokenAmount(Number(wallet.balance), 'TKN', { compact: true })}
+                      {formatTokenAmount(wallet.balance, 'TKN', { compact: true })}
                     </p>
                     <p className="text-sm text-gray-600 dark:text-gray-400">
                       {wallet.isLoading ? 'Updating...' : 'Current Balance'}
@@ -486,7 +510,7 @@ const Hero: React.FC = () => {
                     <div className="flex justify-between">
                       <span className="text-gray-600 dark:text-gray-400">Total Supply</span>
                       <span className="font-medium text-gray-900 dark:text-white">
-                        {formatTokenAmount(Number(tokenInfo.totalSupply), tokenInfo.symbol)}
+                        {formatTokenAmount(tokenInfo.totalSupply, tokenInfo.symbol)}
                       </span>
                     </div>
                     {tokenInfo.tokenUri?.description && (
@@ -509,7 +533,7 @@ const Hero: React.FC = () => {
         onClose={() => setShowSuccessModal(false)}
         claimedAmount={lastClaimedAmount}
         currentStreak={claimInfo?.streakCount || 0}
-        nextRewardAmount={claimInfo ? faucetContract.getNextRewardAmount(claimInfo.streakCount) : 0}
+        nextRewardAmount={claimInfo ? faucetContract.getNextRewardAmount(claimInfo.streakCount) : TokenAmount.zero(TOKEN_DECIMALS)}
         timeUntilNextClaim={claimInfo?.timeUntilNextClaim || 0}
         txId={lastTxId}
         onViewExplorer={() => window.open(getExplorerUrl(), '_blank')}
@@ -0,0 +1,256 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Trophy, Flame, Droplets, Coins, ChevronLeft, ChevronRight, Copy } from 'lucide-react';
+import Card from './ui/Card';
+import Button from './ui/Button';
+import { useTokenContract } from '../contexts/TokenContractContext';
+import { useBnsNames } from '../hooks/useBnsNames';
+import { useFaucetEvents } from '../hooks/useFaucetEvents';
+import { formatAddress, formatLargeTokenAmount, copyToClipboard } from '../utils/formatting';
+import {
+  TokenAmount,
+  TOKEN_DECIMALS,
+  getErrorMessage,
+  type Leaderboard as LeaderboardPage,
+  type LeaderboardEntry,
+  type LeaderboardMetric,
+  type LeaderboardWindow
+} from 'contracts';
+
+const PAGE_SIZE = 10;
+
+const metrics: { id: LeaderboardMetric; label: string; valueLabel: string; icon: typeof Trophy }[] = [
+  { id: 'active_streak', label: 'Active Streaks', valueLabel: 'Streak', icon: Flame },
+  { id: 'total_claimed', label: 'Top Claimers', valueLabel: 'Claimed', icon: Droplets },
+  { id: 'deposits', label: 'Top Contributors', valueLabel: 'Deposited', icon: Coins },
+];
+
+const periods: { id: LeaderboardWindow; label: string }[] = [
+  { id: 'day', label: '24h' },
+  { id: 'week', label: '7 days' },
+  { id: 'month', label: '30 days' },
+  { id: 'all', label: 'All time' },
+];
+
+const rankColors: Record<number, string> = {
+  1: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  2: 'bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200',
+  3: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300',
+};
+
+const Leaderboard: React.FC = () => {
+  const { wallet, getFaucetContract } = useTokenContract();
+  const [metric, setMetric] = useState<LeaderboardMetric>('active_streak');
+  const [period, setPeriod] = useState<LeaderboardWindow>('all');
+  const [page, setPage] = useState(0);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardPage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const names = useBnsNames(leaderboard?.entries.map(entry => entry.address) ?? []);
+  const pageCount = leaderboard ? Math.max(1, Math.ceil(leaderboard.total / PAGE_SIZE)) : 1;
+  const shownMetric = metrics.find(item => item.id === (leaderboard?.metric ?? metric)) ?? metrics[0];
+
+  const loadLeaderboard = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+    try {
+      const result = await getFaucetContract().getLeaderboard({ metric, window: period, limit: PAGE_SIZE, offset: page * PAGE_SIZE });
+      setLeaderboard(result);
+    } catch (error) {
+      setError(`Failed to load leaderboard: ${getErrorMessage(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getFaucetContract, metric, period, page]);
+
+  useEffect(() => {
+    loadLeaderboard();
+  }, [loadLeaderboard]);
+
+  // Rankings change with every claim and deposit
+  useFaucetEvents({ type: ['claim', 'deposit'] }, () => {
+    loadLeaderboard();
+  });
+
+  const selectMetric = (id: LeaderboardMetric) => {
+    setMetric(id);
+    setPage(0);
+  };
+
+  const selectPeriod = (id: LeaderboardWindow) => {
+    setPeriod(id);
+    setPage(0);
+  };
+
+  // Format by the loaded page's metric, which lags the selection while the next page loads
+  const formatValue = (entry: LeaderboardEntry, shown: LeaderboardMetric) => {
+    // Streaks count consecutive claims - the cooldown comes from the contract, so it needn't be a day
+    if (shown === 'active_streak') {
+      return `${entry.value} ${entry.value === 1 ? 'claim' : 'claims'}`;
+    }
+    return formatLargeTokenAmount(TokenAmount.fromBaseUnits(entry.value, TOKEN_DECIMALS));
+  };
+
+  const formatDetail = (entry: LeaderboardEntry, shown: LeaderboardMetric) => {
+    if (shown === 'deposits') {
+      return `${entry.count} ${entry.count === 1 ? 'deposit' : 'deposits'}`;
+    }
+    return `${entry.count} ${entry.count === 1 ? 'claim' : 'claims'} • best streak ${entry.maxStreak ?? 0}`;
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-6 py-12">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="text-center mb-8"
+      >
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">Leaderboard</h2>
+        <p className="text-gray-600 dark:text-gray-300 max-w-2xl mx-auto">
+          The longest running streaks, biggest claimers and top faucet contributors on <span className="font-semibold text-primary-600 dark:text-primary-400">{wallet.network === 'mainnet' ? 'Mainnet' : 'Testnet'}</span>.
+        </p>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <Card variant="elevated">
+          {/* Metric and period selection */}
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+            <div className="flex flex-wrap gap-2">
+              {metrics.map(item => (
+                <Button
+                  key={item.id}
+                  variant={metric === item.id ? 'primary' : 'outline'}
+                  size="sm"
+                  icon={item.icon}
+                  onClick={() => selectMetric(item.id)}
+                >
+                  {item.label}
+                </Button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {periods.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => selectPeriod(item.id)}
+                  className={`px-3 py-1 text-xs font-medium rounded-full transition-all duration-200 ${period === item.id
+                    ? 'bg-primary-100 dark:bg-primary-900 text-primary-700 dark:text-primary-300'
+                    : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
+                    }`}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+              {error}
+            </div>
+          )}
+
+          {/* Rankings */}
+          {!leaderboard && isLoading ? (
+            <div className="text-center py-12 text-gray-500 dark:text-gray-400">Loading leaderboard...</div>
+          ) : leaderboard && leaderboard.entries.length > 0 ? (
+            <div className={`space-y-2 transition-opacity ${isLoading ? 'opacity-60' : ''}`}>
+              <div className="flex items-center justify-between px-4 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                <span>Rank</span>
+                <span>{shownMetric.valueLabel}</span>
+              </div>
+              {leaderboard.entries.map((entry, index) => {
+                const name = names[entry.address];
+                const isYou = wallet.connected && wallet.address === entry.address;
+
+                return (
+                  <motion.div
+                    key={entry.address}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.03 * index }}
+                    className={`flex items-center justify-between p-4 rounded-lg ${isYou
+                      ? 'bg-primary-50 dark:bg-primary-900/20 border border-primary-200 dark:border-primary-700'
+                      : 'bg-gray-50 dark:bg-gray-700'
+                      }`}
+                  >
+                    <div className="flex items-center space-x-4 min-w-0">
+                      <div className={`w-9 h-9 flex-shrink-0 rounded-full flex items-center justify-center text-sm font-bold ${rankColors[entry.rank] ?? 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300'}`}>
+                        {entry.rank}
+                      </div>
+                      <div className="min-w-0">
+                        <div className="flex items-center space-x-2">
+                          <p className="font-medium text-gray-900 dark:text-white truncate" title={entry.address}>
+                            {name || formatAddress(entry.address)}
+                          </p>
+                          {isYou && (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-primary-100 dark:bg-primary-900 text-primary-700 dark:text-primary-300">
+                              You
+                            </span>
+                          )}
+                          <button
+                            onClick={() => copyToClipboard(entry.address)}
+                            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                            title="Copy address"
+                          >
+                            <Copy className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {name ? `${formatAddress(entry.address)} • ` : ''}{formatDetail(entry, leaderboard.metric)}
+                        </p>
+                      </div>
+                    </div>
+                    <p className="text-lg font-bold text-gray-900 dark:text-white flex-shrink-0 ml-4">
+                      {formatValue(entry, leaderboard.metric)}
+                    </p>
+                  </motion.div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+              <Trophy className="w-10 h-10 mx-auto mb-3 opacity-50" />
+              <p>No {metric === 'deposits' ? 'deposits' : metric === 'active_streak' ? 'active streaks' : 'claims'} in this period yet</p>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {leaderboard && leaderboard.total > PAGE_SIZE && (
+            <div className="flex items-center justify-between mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Button
+                variant="ghost"
+                size="sm"
+                icon={ChevronLeft}
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0 || isLoading}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                Page {page + 1} of {pageCount} • {leaderboard.total} ranked
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                icon={ChevronRight}
+                iconPosition="right"
+                onClick={() => setPage(page + 1)}
+                disabled={page + 1 >= pageCount || isLoading}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
+
+export default Leaderboard;
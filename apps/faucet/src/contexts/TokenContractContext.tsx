@@ -10,16 +10,27 @@ import {
   type TokenInfo,
   type TransferOptions,
   type ContractCallResult,
+  type FeeEstimate,
   type FaucetClaimInfo,
   type FaucetGlobalStats,
   type RewardTier,
-  type ClaimResult
+  type ClaimResult,
+  transactionTracker,
+  transactionTrackerTestnet,
+  TransactionTracker,
+  nameService,
+  nameServiceTestnet,
+  NameService,
+  getErrorMessage,
+  TokenAmount,
+  TOKEN_DECIMALS,
+  type TransactionUpdate
 } from 'contracts';
 
 export interface WalletState {
   connected: boolean;
   address: string | null;
-  balance: bigint;
+  balance: TokenAmount;
   network: 'mainnet' | 'testnet';
   isLoading: boolean;
 }
@@ -29,7 +40,7 @@ export interface FaucetState {
   globalStats: FaucetGlobalStats | null;
   rewardTiers: RewardTier[];
   isLoading: boolean;
-  lastClaimedAmount: number;
+  lastClaimedAmount: TokenAmount;
   lastTxId: string | undefined;
 }
 
@@ -38,20 +49,26 @@ export interface TokenContractContextType {
   tokenInfo: TokenInfo | null;
   faucet: FaucetState;
   isConnecting: boolean;
+  transactions: Record<string, TransactionUpdate>;
   connect: () => void;
   disconnect: () => void;
-  getBalance: (address: string) => Promise<bigint>;
+  getBalance: (address: string) => Promise<TokenAmount>;
   transfer: (options: Omit<TransferOptions, 'sender'>) => Promise<ContractCallResult>;
+  estimateTransferFee: (options: Omit<TransferOptions, 'sender'>) => Promise<FeeEstimate>;
   refreshBalance: () => Promise<void>;
   refreshTokenInfo: () => Promise<void>;
+  trackTransaction: (txId: string) => Promise<TransactionUpdate>;
   refreshFaucetData: (forceRefresh?: boolean, explicitNetwork?: 'mainnet' | 'testnet') => Promise<void>;
   claimTokens: () => Promise<ClaimResult>;
-  depositTokens: (amount: number) => Promise<ClaimResult>;
+  depositTokens: (amount: TokenAmount) => Promise<ClaimResult>;
   getExplorerUrl: () => string;
   switchNetwork: (network: 'mainnet' | 'testnet') => void;
+  getNameService: () => NameService;
   getFaucetContract: () => TBBFaucetContract;
 }
 
+const ZERO_BALANCE = TokenAmount.zero(TOKEN_DECIMALS);
+
 const TokenContractContext = createContext<TokenContractContextType | undefined>(undefined);
 
 export const useTokenContract = (): TokenContractContextType => {
@@ -88,20 +105,21 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
   const [wallet, setWallet] = useState<WalletState>({
     connected: false,
     address: null,
-    balance: 0n,
+    balance: ZERO_BALANCE,
     network: getStoredNetwork(), // Load from localStorage or default to testnet
     isLoading: false,
   });
 
   const [tokenInfo, setTokenInfo] = useState<TokenInfo | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [transactions, setTransactions] = useState<Record<string, TransactionUpdate>>({});
 
   const [faucet, setFaucet] = useState<FaucetState>({
     claimInfo: null,
     globalStats: null,
     rewardTiers: [],
     isLoading: false,
-    lastClaimedAmount: 0,
+    lastClaimedAmount: ZERO_BALANCE,
     lastTxId: undefined,
   });
 
@@ -110,6 +128,14 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
     return wallet.network === 'mainnet' ? tropicalBlueBonoboToken : tropicalBlueBonoboTokenTestnet;
   }, [wallet.network]);
 
+  const getTracker = useCallback((): TransactionTracker => {
+    return wallet.network === 'mainnet' ? transactionTracker : transactionTrackerTestnet;
+  }, [wallet.network]);
+
+  const getNameService = useCallback((): NameService => {
+    return wallet.network === 'mainnet' ? nameService : nameServiceTestnet;
+  }, [wallet.network]);
+
   const getFaucetContract = useCallback((): TBBFaucetContract => {
     return wallet.network === 'mainnet' ? tbbFaucetContract : tbbFaucetContractTestnet;
   }, [wallet.network]);
@@ -140,7 +166,7 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
               ...prev,
               connected: false,
               address: null,
-              balance: 0n,
+              balance: ZERO_BALANCE,
             };
           }
           return prev;
@@ -214,7 +240,7 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
         globalStats: null,
         rewardTiers: [],
         isLoading: false,
-        lastClaimedAmount: 0,
+        lastClaimedAmount: ZERO_BALANCE,
         lastTxId: undefined,
       });
     }
@@ -264,19 +290,19 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
     setWallet({
       connected: false,
       address: null,
-      balance: 0n,
+      balance: ZERO_BALANCE,
       network: 'testnet',
       isLoading: false,
     });
   };
 
-  const getBalance = async (address: string): Promise<bigint> => {
+  const getBalance = async (address: string): Promise<TokenAmount> => {
     try {
       const contract = getContract();
       return await contract.getBalance(address);
     } catch (error) {
       console.error('Failed to get balance:', error);
-      return 0n;
+      return ZERO_BALANCE;
     }
   };
 
@@ -370,18 +396,22 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
 
       if (result.success) {
         // Update faucet state with claim results
-        const currentReward = faucet.claimInfo ? faucetContract.getCurrentReward(faucet.claimInfo.streakCount) : 0;
+        const currentReward = faucet.claimInfo ? faucet.claimInfo.nextClaimReward : ZERO_BALANCE;
         setFaucet(prev => ({
           ...prev,
           lastClaimedAmount: currentReward,
           lastTxId: result.txId,
         }));
 
-        // Refresh data to reflect new state
-        setTimeout(() => {
-          refreshFaucetData();
-          refreshBalance(); // Also refresh user balance
-        }, 1000);
+        // Refresh data once the claim confirms on-chain
+        if (result.txId) {
+          trackTransaction(result.txId).then(update => {
+            if (update.status === 'success') {
+              refreshFaucetData(true);
+              refreshBalance(); // Also refresh user balance
+            }
+          });
+        }
       }
 
       return result;
@@ -389,12 +419,12 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
       return {
         txId: '',
         success: false,
-        error: `Claim failed: ${error}`,
+        error: `Claim failed: ${getErrorMessage(error)}`,
       };
     }
   };
 
-  const depositTokens = async (amount: number): Promise<ClaimResult> => {
+  const depositTokens = async (amount: TokenAmount): Promise<ClaimResult> => {
     if (!wallet.address) {
       return {
         txId: '',
@@ -408,11 +438,15 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
       const result = await faucetContract.depositTokens(wallet.address, amount);
 
       if (result.success) {
-        // Refresh data to reflect new balances
-        setTimeout(() => {
-          refreshFaucetData();
-          refreshBalance(); // Also refresh user balance
-        }, 1000);
+        // Refresh data once the deposit confirms on-chain
+        if (result.txId) {
+          trackTransaction(result.txId).then(update => {
+            if (update.status === 'success') {
+              refreshFaucetData(true);
+              refreshBalance(); // Also refresh user balance
+            }
+          });
+        }
       }
 
       return result;
@@ -420,11 +454,26 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
       return {
         txId: '',
         success: false,
-        error: `Deposit failed: ${error}`,
+        error: `Deposit failed: ${getErrorMessage(error)}`,
       };
     }
   };
 
+  const trackTransaction = async (txId: string): Promise<TransactionUpdate> => {
+    const recordUpdate = (update: TransactionUpdate) => {
+      setTransactions(prev => ({ ...prev, [txId]: update }));
+    };
+
+    recordUpdate({ txId, status: 'pending', isFinal: false });
+
+    try {
+      return await getTracker().track(txId, { onUpdate: recordUpdate });
+    } catch (error) {
+      console.error('Failed to track transaction:', error);
+      return { txId, status: 'pending', isFinal: false };
+    }
+  };
+
   const transfer = async (options: Omit<TransferOptions, 'sender'>): Promise<ContractCallResult> => {
     if (!wallet.address) {
       return {
@@ -441,11 +490,13 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
         sender: wallet.address,
       });
 
-      // Refresh balance after successful transfer
-      if (result.success) {
-        setTimeout(() => {
-          refreshBalance();
-        }, 2000); // Wait a bit for transaction to potentially confirm
+      // Refresh balance once the transfer confirms on-chain
+      if (result.success && result.txId) {
+        trackTransaction(result.txId).then(update => {
+          if (update.status === 'success') {
+            refreshBalance();
+          }
+        });
       }
 
       return result;
@@ -453,11 +504,18 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
       return {
         txId: '',
         success: false,
-        error: `Transfer failed: ${error}`,
+        error: `Transfer failed: ${getErrorMessage(error)}`,
       };
     }
   };
 
+  const estimateTransferFee = async (options: Omit<TransferOptions, 'sender'>): Promise<FeeEstimate> => {
+    if (!wallet.address) {
+      throw new Error('Wallet not connected');
+    }
+    return getContract().estimateTransferFee({ ...options, sender: wallet.address });
+  };
+
   const getExplorerUrl = (): string => {
     const contract = getContract();
     return contract.getExplorerUrl();
@@ -471,7 +529,7 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
       ...prev,
       network,
       // Clear balance when switching networks as it may be different
-      balance: 0n,
+      balance: ZERO_BALANCE,
     }));
 
     // Clear token info and faucet data cache when switching networks
@@ -481,7 +539,7 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
       globalStats: null,
       rewardTiers: [],
       isLoading: false,
-      lastClaimedAmount: 0,
+      lastClaimedAmount: ZERO_BALANCE,
       lastTxId: undefined,
     });
 
@@ -534,17 +592,21 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
     tokenInfo,
     faucet,
     isConnecting,
+    transactions,
     connect: connectWallet,
     disconnect: disconnectWallet,
     getBalance,
     transfer,
+    estimateTransferFee,
     refreshBalance,
     refreshTokenInfo,
+    trackTransaction,
     refreshFaucetData,
     claimTokens,
     depositTokens,
     getExplorerUrl,
     switchNetwork,
+    getNameService,
     getFaucetContract,
   };
 
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+import type { EventSubscriptionFilter, ParsedEvent } from 'contracts';
+import { useTokenContract } from '../contexts/TokenContractContext';
+
+/**
+ * Live faucet events - `onEvents` runs as soon as a block with matching events lands
+ * Events from the same block arrive together, and the faucet's cached stats are
+ * already dropped, so the handler can simply reload them
+ */
+export const useFaucetEvents = (
+  filter: EventSubscriptionFilter,
+  onEvents: (events: ParsedEvent[]) => void,
+  enabled: boolean = true
+): void => {
+  const { getFaucetContract } = useTokenContract();
+  // Latest handler, so re-renders don't resubscribe
+  const onEventsRef = useRef(onEvents);
+  // Stable key so re-renders with an equal filter don't resubscribe
+  const filterKey = JSON.stringify(filter);
+
+  useEffect(() => {
+    onEventsRef.current = onEvents;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let pending: ParsedEvent[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+    let unsubscribe: (() => void) | undefined;
+
+    try {
+      unsubscribe = getFaucetContract().subscribe(JSON.parse(filterKey), event => {
+        pending.push(event);
+        if (flushTimer) return;
+        flushTimer = setTimeout(() => {
+          const events = pending;
+          pending = [];
+          flushTimer = undefined;
+          onEventsRef.current(events);
+        }, 0);
+      });
+    } catch (error) {
+      console.warn('Live faucet updates unavailable:', error);
+    }
+
+    return () => {
+      unsubscribe?.();
+      clearTimeout(flushTimer);
+    };
+  }, [filterKey, enabled, getFaucetContract]);
+};
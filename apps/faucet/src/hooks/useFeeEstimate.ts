@@ -0,0 +1,42 @@
+import { useState, useCallback, useRef } from 'react';
+import { getErrorMessage, type FeeEstimate, type FeePriority } from 'contracts';
+
+/**
+ * Low/medium/high fee options for the transaction under review and the one the user picked
+ */
+export const useFeeEstimate = () => {
+  const [estimate, setEstimate] = useState<FeeEstimate | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [priority, setPriority] = useState<FeePriority>('medium');
+  // Only the latest request may update state (the review can be reopened with other inputs)
+  const latestRequest = useRef(0);
+
+  const estimateFee = useCallback(async (load: () => Promise<FeeEstimate>) => {
+    const requestId = ++latestRequest.current;
+    setEstimate(null);
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const result = await load();
+      if (requestId === latestRequest.current) setEstimate(result);
+    } catch (err) {
+      console.error('Fee estimation failed:', err);
+      if (requestId === latestRequest.current) setError(getErrorMessage(err));
+    } finally {
+      if (requestId === latestRequest.current) setIsLoading(false);
+    }
+  }, []);
+
+  return {
+    estimate,
+    isLoading,
+    error,
+    priority,
+    setPriority,
+    estimateFee,
+    // Undefined lets the wallet choose when there is no estimate
+    selectedFee: estimate ? estimate[priority].fee : undefined,
+  };
+};
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import type { BlockNotification } from 'contracts';
+import { useTokenContract } from '../contexts/TokenContractContext';
+
+/**
+ * Run `onBlock` as soon as a new block is announced (before its events are synced)
+ */
+export const useNewBlocks = (onBlock: (block: BlockNotification) => void, enabled: boolean = true): void => {
+  const { getFaucetContract } = useTokenContract();
+  // Latest handler, so re-renders don't resubscribe
+  const onBlockRef = useRef(onBlock);
+
+  useEffect(() => {
+    onBlockRef.current = onBlock;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let unsubscribe: (() => void) | undefined;
+    try {
+      unsubscribe = getFaucetContract().subscribeBlocks(block => onBlockRef.current(block));
+    } catch (error) {
+      console.warn('Live block updates unavailable:', error);
+    }
+    return unsubscribe;
+  }, [enabled, getFaucetContract]);
+};
@@ -1,4 +1,5 @@
 // Formatting utilities for numbers, addresses, and dates
+import type { TokenAmount, RunwayForecast, RunwayScenario } from 'contracts';
 
 export const formatNumber = (
   value: number,
@@ -30,21 +31,26 @@ export const formatNumber = (
   }).format(value);
 };
 
+// Plain numbers are treated as whole tokens (e.g. event analytics)
 export const formatTokenAmount = (
-  amount: number,
+  amount: TokenAmount | number,
   symbol: string = 'TKN',
   options: { compact?: boolean; decimals?: number } = {}
 ): string => {
-  const { compact = false, decimals = 0 } = options;
-  const formatted = formatNumber(amount, { decimals, compact });
+  const { compact = false, decimals } = options;
+  if (typeof amount !== 'number') {
+    return amount.format({ symbol, compact, maxFractionDigits: decimals });
+  }
+  const formatted = formatNumber(amount, { decimals: decimals ?? 0, compact });
   return `${formatted} ${symbol}`;
 };
 
 // Enhanced formatting for very large token amounts (faucet-specific)
 export const formatLargeTokenAmount = (
-  amount: number,
+  tokenAmount: TokenAmount | number,
   symbol: string = 'TKN',
 ): string => {
+  const amount = typeof tokenAmount === 'number' ? tokenAmount : tokenAmount.toNumber();
   if (amount >= 1_000_000_000) {
     const billions = (amount / 1_000_000_000).toFixed(1);
     return `${billions}B ${symbol}`;
@@ -70,6 +76,19 @@ export const formatCountdown = (totalSeconds: number): string => {
   return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
 };
 
+// Format an approximate duration, e.g. "2h 15m" or "3d 4h"
+export const formatDuration = (totalSeconds: number): string => {
+  if (totalSeconds < 60) return "under a minute";
+
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
 // Format faucet depletion estimate
 export const formatDepletionEstimate = (daysRemaining: number): string => {
   if (daysRemaining < 1) {
@@ -83,6 +102,24 @@ export const formatDepletionEstimate = (daysRemaining: number): string => {
   }
 };
 
+// Format one runway scenario, e.g. "12 days" or "over 24.3 months" when it outlasts the forecast
+export const formatRunwayScenario = (scenario: RunwayScenario, horizonDays: number): string => {
+  if (scenario.daysRemaining === null) {
+    return `over ${formatDepletionEstimate(horizonDays)}`;
+  }
+  return formatDepletionEstimate(scenario.daysRemaining);
+};
+
+// Format the worst-to-best runway range with the expected depletion date
+export const formatRunwayRange = (runway: RunwayForecast): string => {
+  const range = `${formatRunwayScenario(runway.worst, runway.horizonDays)} – ${formatRunwayScenario(runway.best, runway.horizonDays)}`;
+  if (!runway.expected.depletionDate) {
+    return range;
+  }
+  const date = runway.expected.depletionDate.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+  return `${range} • ~${date}`;
+};
+
 export const formatAddress = (
   address: string | null | undefined,
   options: { start?: number; end?: number } = {}
@@ -172,36 +209,6 @@ export const copyToClipboard = async (text: string): Promise<boolean> => {
   }
 };
 
-export const isValidStacksAddress = (address: string): boolean => {
-  // Stacks address validation - supports both mainnet (SP) and testnet (ST)
-  // Addresses are typically 40-41 characters long and use base58check encoding
-  if (!address || typeof address !== 'string') {
-    return false;
-  }
-
-  // Check length (typically 40-41 characters, but allow some flexibility)
-  if (address.length < 38 || address.length > 42) {
-    return false;
-  }
-
-  // Check prefix
-  if (!address.startsWith('SP') && !address.startsWith('ST')) {
-    return false;
-  }
-
-  // Stacks addresses actually use a modified base58 that includes 0-9, A-Z, a-z
-  // but excludes O, I, l to avoid confusion (but includes 0)
-  const stacksAddressRegex = /^[0-9A-HJ-NP-Za-kmp-z]+$/;
-  const addressWithoutPrefix = address.slice(2);
-
-  // Additional check: ensure the address is not too short after prefix removal
-  if (addressWithoutPrefix.length < 36) {
-    return false;
-  }
-
-  return stacksAddressRegex.test(addressWithoutPrefix);
-};
-
 export const formatTransactionStatus = (status: string): string => {
   switch (status.toLowerCase()) {
     case 'pending':
@@ -228,6 +235,7 @@ export const getStatusColor = (status: string): string => {
   }
 };
 
-export const formatFeeAmount = (fee: number): string => {
-  return `${fee.toFixed(6)} STX`;
+// Fees are in microSTX
+export const formatFeeAmount = (fee: bigint): string => {
+  return `${(Number(fee) / 1_000_000).toFixed(6)} STX`;
 };
\ No newline at end of file
@@ -48,7 +48,10 @@ const AppContent: React.FC = () => {
           <div className="flex items-center justify-between h-16">
             {/* Logo */}
             <div className="flex items-center space-x-3">
-              <div className="w-8 h-8 bg-gradient-to-br from-primary-600 to-secondary-600 rounded-lg flex items-center justify-center overflow-hidden">
+              <div
+                className="w-8 h-8 bg-gradient-to-br from-primary-600 to-secondary-600 rounded-lg flex items-center justify-center overflow-hidden"
+                title={tokenInfo?.tokenUri?.description}
+              >
                 {tokenInfo?.tokenUri?.image ? (
                   <img
                     src={tokenInfo.tokenUri.image}
@@ -4,12 +4,16 @@ import { Search, Copy, Clock, Star } from 'lucide-react';
 import Card from './ui/Card';
 import Input from './ui/Input';
 import Button from './ui/Button';
+import type { TokenAmount } from 'contracts';
 import { useTokenContract } from '../contexts/TokenContractContext';
-import { formatTokenAmount, formatAddress, isValidStacksAddress, copyToClipboard } from '../utils/formatting';
+import { useBnsNames } from '../hooks/useBnsNames';
+import { formatTokenAmount, formatAddress, copyToClipboard } from '../utils/formatting';
 
 interface BalanceResult {
   address: string;
-  balance: bigint;
+  /** BNS name the search was made with */
+  name?: string;
+  balance: TokenAmount;
   timestamp: Date;
 }
 
@@ -49,12 +53,15 @@ const getExampleAddresses = (network: 'mainnet' | 'testnet') => {
 };
 
 const BalanceChecker: React.FC = () => {
-  const { getBalance, wallet } = useTokenContract();
+  const { getBalance, wallet, getNameService } = useTokenContract();
   const [searchAddress, setSearchAddress] = useState('');
   const [isSearching, setIsSearching] = useState(false);
   const [recentSearches, setRecentSearches] = useState<BalanceResult[]>([]);
   const [currentResult, setCurrentResult] = useState<BalanceResult | null>(null);
   const [error, setError] = useState('');
+  // Reverse lookup so searches made with a raw address still show the owner's name
+  const names = useBnsNames([...recentSearches, ...(currentResult ? [currentResult] : [])].map(result => result.address));
+  const getName = (result: BalanceResult) => result.name || names[result.address];
 
   const handleSearch = async () => {
     if (!searchAddress.trim()) {
@@ -62,18 +69,22 @@ const BalanceChecker: React.FC = () => {
       return;
     }
 
-    if (!isValidStacksAddress(searchAddress)) {
-      setError('Invalid Stacks address format');
-      return;
-    }
-
     setIsSearching(true);
     setError('');
 
     try {
-      const balance = await getBalance(searchAddress);
+      // Contract principals hold tokens too; addresses from the other network would read an empty balance
+      const recipient = await getNameService().resolveRecipient(searchAddress);
+      if (!recipient.isValid || !recipient.address) {
+        setError(recipient.error || 'Invalid Stacks address');
+        return;
+      }
+
+      const address = recipient.address;
+      const balance = await getBalance(address);
       const result: BalanceResult = {
-        address: searchAddress,
+        address,
+        name: recipient.name,
         balance,
         timestamp: new Date()
       };
@@ -82,7 +93,7 @@ const BalanceChecker: React.FC = () => {
       
       // Add to recent searches (keep last 5)
       setRecentSearches(prev => {
-        const filtered = prev.filter(item => item.address !== searchAddress);
+        const filtered = prev.filter(item => item.address !== address);
         return [result, ...filtered].slice(0, 5);
       });
 
@@ -138,7 +149,7 @@ const BalanceChecker: React.FC = () => {
             <div className="space-y-6">
               <div className="flex gap-3">
                 <Input
-                  placeholder={`Enter ${wallet.network === 'mainnet' ? 'Mainnet' : 'Testnet'} address (${wallet.network === 'mainnet' ? 'SP...' : 'ST...'})`}
+                  placeholder={`Enter ${wallet.network === 'mainnet' ? 'Mainnet' : 'Testnet'} address (${wallet.network === 'mainnet' ? 'SP...' : 'ST...'}) or BNS name`}
                   value={searchAddress}
                   onChange={(e) => setSearchAddress(e.target.value)}
                   onKeyPress={handleKeyPress}
@@ -175,6 +186,12 @@ const BalanceChecker: React.FC = () => {
                   </div>
                   
                   <div className="space-y-3">
+                    {getName(currentResult) && (
+                      <div>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">Name</p>
+                        <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{getName(currentResult)}</p>
+                      </div>
+                    )}
                     <div>
                       <p className="text-sm text-gray-600 dark:text-gray-400">Address</p>
                       <p className="font-mono text-sm text-gray-900 dark:text-gray-100 break-all">
@@ -184,7 +201,7 @@ const BalanceChecker: React.FC = () => {
                     <div>
                       <p className="text-sm text-gray-600 dark:text-gray-400">Balance</p>
                       <p className="text-2xl font-bold text-primary-600">
-                        {formatTokenAmount(Number(currentResult.balance), 'TKN', { compact: true })}
+                        {formatTokenAmount(currentResult.balance, 'TKN', { compact: true })}
                       </p>
                     </div>
                     <div>
@@ -257,7 +274,7 @@ const BalanceChecker: React.FC = () => {
                   >
                     <div className="flex items-center justify-between mb-1">
                       <p className="text-sm font-medium text-gray-900 dark:text-white">
-                        {formatAddress(result.address)}
+                        {getName(result) || formatAddress(result.address)}
                       </p>
                       <Button
                         variant="ghost"
@@ -273,7 +290,7 @@ const BalanceChecker: React.FC = () => {
                     </div>
                     <div className="flex items-center justify-between">
                       <p className="text-sm font-semibold text-primary-600">
-                        {formatTokenAmount(Number(result.balance), 'TKN', { compact: true })}
+                        {formatTokenAmount(result.balance, 'TKN', { compact: true })}
                       </p>
                       <p className="text-xs text-gray-500 dark:text-gray-400">
                         {result.timestamp.toLocaleTimeString()}
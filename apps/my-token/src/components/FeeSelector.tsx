@@ -0,0 +1,64 @@
+import React from 'react';
+import { FEE_PRIORITIES, type FeeEstimate, type FeePriority } from 'contracts';
+import { formatFeeAmount } from '../utils/formatting';
+
+interface FeeSelectorProps {
+  estimate: FeeEstimate | null;
+  isLoading: boolean;
+  error: string | null;
+  priority: FeePriority;
+  onSelect: (priority: FeePriority) => void;
+}
+
+const PRIORITY_LABELS: Record<FeePriority, string> = {
+  low: 'Slow',
+  medium: 'Standard',
+  high: 'Fast',
+};
+
+const FeeSelector: React.FC<FeeSelectorProps> = ({ estimate, isLoading, error, priority, onSelect }) => {
+  if (isLoading) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">Estimating network fee...</p>
+    );
+  }
+
+  if (error || !estimate) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Fee estimate unavailable - your wallet will set the fee
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <div className="grid grid-cols-3 gap-2">
+        {FEE_PRIORITIES.map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onSelect(option)}
+            className={`p-2 rounded-lg border text-center transition-colors ${
+              option === priority
+                ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                : 'border-gray-200 dark:border-gray-600 hover:border-primary-300'
+            }`}
+          >
+            <div className="text-xs text-gray-600 dark:text-gray-400">{PRIORITY_LABELS[option]}</div>
+            <div className="text-sm font-medium text-gray-900 dark:text-white">
+              {formatFeeAmount(estimate[option].fee)}
+            </div>
+          </button>
+        ))}
+      </div>
+      {estimate.method === 'byte-rate' && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          Based on the network's per-byte rate - the node has no recent estimate for this call
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FeeSelector;
@@ -32,7 +32,7 @@ const Hero: React.FC<HeroProps> = ({ onNavigate }) => {
   const stats = [
     {
       label: 'Total Supply',
-      value: tokenInfo ? formatTokenAmount(Number(tokenInfo.totalSupply), 'TKN', { compact: true }) : '...',
+      value: tokenInfo ? formatTokenAmount(tokenInfo.totalSupply, 'TKN', { compact: true }) : '...',
       icon: TrendingUp,
       color: 'text-blue-600'
     },
@@ -104,7 +104,7 @@ const Hero: React.FC<HeroProps> = ({ onNavigate }) => {
                 <div className="flex items-center space-x-3">
                   <div className="text-right">
                     <p className="text-sm font-medium text-gray-900 dark:text-white">
-                      {formatTokenAmount(Number(wallet.balance), 'TKN', { compact: true })}
+                      {formatTokenAmount(wallet.balance, 'TKN', { compact: true })}
                     </p>
                     <p className="text-xs text-gray-500 dark:text-gray-400">
                       {formatAddress(wallet.address!)}
@@ -215,7 +215,7 @@ const Hero: React.FC<HeroProps> = ({ onNavigate }) => {
                   <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Your Balance</h3>
                   <div className="text-center py-4">
                     <p className="text-3xl font-bold text-primary-600 mb-2">
-                      {formatTokenAmount(Number(wallet.balance), 'TKN', { compact: true })}
+                      {formatTokenAmount(wallet.balance, 'TKN', { compact: true })}
                     </p>
                     <p className="text-sm text-gray-600 dark:text-gray-400">
                       {wallet.isLoading ? 'Updating...' : 'Current Balance'}
@@ -258,7 +258,7 @@ const Hero: React.FC<HeroProps> = ({ onNavigate }) => {
                     <div className="flex justify-between">
                       <span className="text-gray-600 dark:text-gray-400">Total Supply</span>
                       <span className="font-medium text-gray-900 dark:text-white">
-                        {formatTokenAmount(Number(tokenInfo.totalSupply), tokenInfo.symbol)}
+                        {formatTokenAmount(tokenInfo.totalSupply, tokenInfo.symbol)}
                       </span>
                     </div>
                     {tokenInfo.tokenUri?.description && (
@@ -1,16 +1,20 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { CheckCircle, AlertCircle, Wallet, ExternalLink } from 'lucide-react';
 import Card from './ui/Card';
 import Input from './ui/Input';
 import Button from './ui/Button';
 import Modal from './ui/Modal';
+import FeeSelector from './FeeSelector';
 import { useTokenContract } from '../contexts/TokenContractContext';
-import { formatTokenAmount, formatAddress, isValidStacksAddress, formatFeeAmount } from '../utils/formatting';
+import { getErrorMessage, TokenAmount, TOKEN_DECIMALS, validateMemo, MAX_MEMO_BYTES, type RecipientResolution } from 'contracts';
+import { formatTokenAmount, formatAddress } from '../utils/formatting';
+import { useFeeEstimate } from '../hooks/useFeeEstimate';
 
 interface TransferData {
   recipient: string;
-  amount: number;
+  /** Amount as typed, in whole tokens */
+  amount: string;
   memo: string;
 }
 
@@ -21,45 +25,76 @@ interface TransferStatus {
 }
 
 const TransferForm: React.FC = () => {
-  const { wallet, transfer, connect, isConnecting, getExplorerUrl } = useTokenContract();
+  const { wallet, tokenInfo, transfer, estimateTransferFee, connect, isConnecting, getExplorerUrl, transactions, getNameService } = useTokenContract();
   const [formData, setFormData] = useState<TransferData>({
     recipient: '',
-    amount: 0,
+    amount: '',
     memo: ''
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [transferStatus, setTransferStatus] = useState<TransferStatus>({ status: 'idle' });
   const [showConfirmModal, setShowConfirmModal] = useState(false);
+  // Recipient as confirmed in the review - BNS names are resolved to their owner
+  const [resolvedRecipient, setResolvedRecipient] = useState<RecipientResolution | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const fee = useFeeEstimate();
+
+  // Resolve the pending transfer once its transaction reaches a final state
+  const pendingTx = transferStatus.status === 'pending' && transferStatus.txId
+    ? transactions[transferStatus.txId]
+    : undefined;
+
+  useEffect(() => {
+    if (!pendingTx?.isFinal) return;
+
+    if (pendingTx.status === 'success') {
+      setTransferStatus(prev => ({ ...prev, status: 'success' }));
+    } else {
+      setTransferStatus(prev => ({
+        ...prev,
+        status: 'error',
+        error: pendingTx.error?.message || 'Transfer failed on-chain',
+      }));
+    }
+  }, [pendingTx]);
 
-  const estimatedFee = 0.0003; // STX
-  const maxAmount = Number(wallet.balance);
+  const maxAmount = wallet.balance;
+  const decimals = tokenInfo?.decimals ?? TOKEN_DECIMALS;
+  const parsedAmount = TokenAmount.tryParse(formData.amount, decimals);
+  // Emoji and accented characters take several of the memo's 34 bytes
+  const memoValidation = validateMemo(formData.memo);
 
-  const validateForm = (): boolean => {
+  const validateForm = (recipient: RecipientResolution): boolean => {
     const newErrors: Record<string, string> = {};
 
+    // Checksum and network are verified, so typos and mainnet/testnet mix-ups are caught here
     if (!formData.recipient.trim()) {
       newErrors.recipient = 'Recipient address is required';
-    } else if (!isValidStacksAddress(formData.recipient)) {
-      newErrors.recipient = 'Invalid Stacks address format';
-    } else if (formData.recipient === wallet.address) {
+    } else if (!recipient.isValid) {
+      newErrors.recipient = recipient.error || 'Invalid recipient';
+    } else if (recipient.address === wallet.address) {
       newErrors.recipient = 'Cannot send to yourself';
     }
 
-    if (!formData.amount || formData.amount <= 0) {
+    if (formData.amount.trim() && !parsedAmount) {
+      newErrors.amount = decimals === 0
+        ? 'Amount must be a whole number of tokens'
+        : `Amount can have at most ${decimals} decimal places`;
+    } else if (!parsedAmount || !parsedAmount.isPositive()) {
       newErrors.amount = 'Amount must be greater than 0';
-    } else if (formData.amount > maxAmount) {
+    } else if (parsedAmount.gt(maxAmount)) {
       newErrors.amount = `Amount exceeds balance (${formatTokenAmount(maxAmount, 'TKN')})`;
     }
 
-    if (formData.memo.length > 34) {
-      newErrors.memo = 'Memo must be 34 characters or less';
+    if (!memoValidation.isValid) {
+      newErrors.memo = `Memo must be ${MAX_MEMO_BYTES} bytes or less`;
     }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleInputChange = (field: keyof TransferData, value: string | number) => {
+  const handleInputChange = (field: keyof TransferData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
     // Clear error for this field
     if (errors[field]) {
@@ -75,29 +110,43 @@ const TransferForm: React.FC = () => {
       return;
     }
 
-    if (!validateForm()) return;
+    setIsResolving(true);
+    const recipient = await getNameService().resolveRecipient(formData.recipient);
+    setIsResolving(false);
+
+    if (!validateForm(recipient) || !parsedAmount || !recipient.address) return;
 
+    const recipientAddress = recipient.address;
+    setResolvedRecipient(recipient);
     setShowConfirmModal(true);
+    fee.estimateFee(() => estimateTransferFee({
+      amount: parsedAmount,
+      recipient: recipientAddress,
+      memo: formData.memo || undefined,
+    }));
   };
 
   const executeTransfer = async () => {
+    if (!parsedAmount || !resolvedRecipient?.address) return;
+
     setShowConfirmModal(false);
     setTransferStatus({ status: 'confirming' });
 
     try {
       const result = await transfer({
-        amount: formData.amount,
-        recipient: formData.recipient,
+        amount: parsedAmount,
+        recipient: resolvedRecipient.address,
         memo: formData.memo || undefined,
+        fee: fee.selectedFee,
       });
 
       if (result.success) {
         setTransferStatus({
-          status: 'success',
+          status: 'pending',
           txId: result.txId,
         });
         // Reset form
-        setFormData({ recipient: '', amount: 0, memo: '' });
+        setFormData({ recipient: '', amount: '', memo: '' });
       } else {
         setTransferStatus({
           status: 'error',
@@ -107,7 +156,7 @@ const TransferForm: React.FC = () => {
     } catch (error) {
       setTransferStatus({
         status: 'error',
-        error: `Transfer failed: ${error}`,
+        error: `Transfer failed: ${getErrorMessage(error)}`,
       });
     }
   };
@@ -122,7 +171,7 @@ const TransferForm: React.FC = () => {
   };
 
   const handleMaxClick = () => {
-    handleInputChange('amount', maxAmount);
+    handleInputChange('amount', maxAmount.toString());
   };
 
   return (
@@ -180,10 +229,10 @@ const TransferForm: React.FC = () => {
               {/* Recipient */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Recipient Address
+                  Recipient (address or BNS name)
                 </label>
                 <Input
-                  placeholder="SP... or ST..."
+                  placeholder="SP..., ST... or a BNS name (alice.btc)"
                   value={formData.recipient}
                   onChange={(e) => handleInputChange('recipient', e.target.value)}
                   error={errors.recipient}
@@ -198,14 +247,13 @@ const TransferForm: React.FC = () => {
                 </label>
                 <div className="relative">
                   <Input
-                    type="number"
-                    placeholder="0.00"
-                    value={formData.amount || ''}
-                    onChange={(e) => handleInputChange('amount', parseFloat(e.target.value) || 0)}
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={decimals > 0 ? '0.00' : '0'}
+                    value={formData.amount}
+                    onChange={(e) => handleInputChange('amount', e.target.value)}
                     error={errors.amount}
                     disabled={transferStatus.status !== 'idle'}
-                    min="0"
-                    step="0.000001"
                   />
                   <button
                     type="button"
@@ -229,30 +277,19 @@ const TransferForm: React.FC = () => {
                   onChange={(e) => handleInputChange('memo', e.target.value)}
                   error={errors.memo}
                   disabled={transferStatus.status !== 'idle'}
-                  maxLength={34}
                 />
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  {formData.memo.length}/34 characters
+                  {memoValidation.byteLength}/{MAX_MEMO_BYTES} bytes
                 </p>
               </div>
 
-              {/* Fee Estimation */}
-              <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-600 dark:text-gray-400">Estimated Fee</span>
-                  <span className="text-sm font-medium text-gray-900 dark:text-white">
-                    {formatFeeAmount(estimatedFee)}
-                  </span>
-                </div>
-              </div>
-
               {/* Submit Button */}
               <Button
                 type="submit"
                 fullWidth
                 size="lg"
                 disabled={transferStatus.status !== 'idle'}
-                loading={transferStatus.status === 'confirming'}
+                loading={transferStatus.status === 'confirming' || isResolving}
               >
                 {transferStatus.status === 'confirming' ? 'Confirming...' : 'Send Tokens'}
               </Button>
@@ -271,11 +308,19 @@ const TransferForm: React.FC = () => {
           <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-3">
             <div className="flex justify-between">
               <span className="text-gray-600 dark:text-gray-400">To</span>
-              <span className="font-mono text-sm text-gray-900 dark:text-white">{formatAddress(formData.recipient)}</span>
+              <div className="text-right">
+                {resolvedRecipient?.name && (
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">{resolvedRecipient.name}</p>
+                )}
+                {/* Full address so a resolved name can be checked against what the recipient shared */}
+                <p className={`font-mono text-gray-900 dark:text-white ${resolvedRecipient?.name ? 'text-xs break-all' : 'text-sm'}`}>
+                  {resolvedRecipient?.name ? resolvedRecipient.address : formatAddress(resolvedRecipient?.address || '')}
+                </p>
+              </div>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600 dark:text-gray-400">Amount</span>
-              <span className="font-semibold text-gray-900 dark:text-white">{formatTokenAmount(formData.amount, 'TKN')}</span>
+              <span className="font-semibold text-gray-900 dark:text-white">{parsedAmount ? formatTokenAmount(parsedAmount, 'TKN') : '-'}</span>
             </div>
             {formData.memo && (
               <div className="flex justify-between">
@@ -283,9 +328,15 @@ const TransferForm: React.FC = () => {
                 <span className="text-sm text-gray-900 dark:text-white">{formData.memo}</span>
               </div>
             )}
-            <div className="flex justify-between border-t border-gray-200 dark:border-gray-600 pt-3">
+            <div className="border-t border-gray-200 dark:border-gray-600 pt-3 space-y-2">
               <span className="text-gray-600 dark:text-gray-400">Network Fee</span>
-              <span className="text-sm text-gray-900 dark:text-white">{formatFeeAmount(estimatedFee)}</span>
+              <FeeSelector
+                estimate={fee.estimate}
+                isLoading={fee.isLoading}
+                error={fee.error}
+                priority={fee.priority}
+                onSelect={fee.setPriority}
+              />
             </div>
           </div>
 
@@ -300,6 +351,7 @@ const TransferForm: React.FC = () => {
             <Button
               onClick={executeTransfer}
               fullWidth
+              disabled={fee.isLoading}
             >
               Confirm Transfer
             </Button>
@@ -323,7 +375,7 @@ const TransferForm: React.FC = () => {
               <>
                 <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
                 <p className="text-gray-600 dark:text-gray-300 mb-4">
-                  Your transfer has been submitted successfully!
+                  Your transfer has been confirmed on-chain!
                 </p>
                 {transferStatus.txId && (
                   <div className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
@@ -353,6 +405,20 @@ const TransferForm: React.FC = () => {
               </>
             )}
 
+            {transferStatus.status === 'pending' && (
+              <>
+                <div className="w-16 h-16 mx-auto mb-4">
+                  <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-primary-600"></div>
+                </div>
+                <p className="text-gray-600 dark:text-gray-300 mb-4">
+                  Transfer submitted. Waiting for on-chain confirmation...
+                </p>
+                {transferStatus.txId && (
+                  <p className="font-mono text-xs break-all text-gray-500 dark:text-gray-400">{transferStatus.txId}</p>
+                )}
+              </>
+            )}
+
             {transferStatus.status === 'confirming' && (
               <>
                 <div className="w-16 h-16 mx-auto mb-4">
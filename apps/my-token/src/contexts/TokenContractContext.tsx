@@ -6,13 +6,24 @@ import {
   TropicalBlueBonoboToken,
   type TokenInfo,
   type TransferOptions,
-  type ContractCallResult
+  type ContractCallResult,
+  type FeeEstimate,
+  transactionTracker,
+  transactionTrackerTestnet,
+  TransactionTracker,
+  nameService,
+  nameServiceTestnet,
+  NameService,
+  getErrorMessage,
+  TokenAmount,
+  TOKEN_DECIMALS,
+  type TransactionUpdate
 } from 'contracts';
 
 export interface WalletState {
   connected: boolean;
   address: string | null;
-  balance: bigint;
+  balance: TokenAmount;
   network: 'mainnet' | 'testnet';
   isLoading: boolean;
 }
@@ -21,16 +32,22 @@ export interface TokenContractContextType {
   wallet: WalletState;
   tokenInfo: TokenInfo | null;
   isConnecting: boolean;
+  transactions: Record<string, TransactionUpdate>;
   connect: () => void;
   disconnect: () => void;
-  getBalance: (address: string) => Promise<bigint>;
+  getBalance: (address: string) => Promise<TokenAmount>;
   transfer: (options: Omit<TransferOptions, 'sender'>) => Promise<ContractCallResult>;
+  estimateTransferFee: (options: Omit<TransferOptions, 'sender'>) => Promise<FeeEstimate>;
   refreshBalance: () => Promise<void>;
   refreshTokenInfo: () => Promise<void>;
+  trackTransaction: (txId: string) => Promise<TransactionUpdate>;
   getExplorerUrl: () => string;
   switchNetwork: (network: 'mainnet' | 'testnet') => void;
+  getNameService: () => NameService;
 }
 
+const ZERO_BALANCE = TokenAmount.zero(TOKEN_DECIMALS);
+
 const TokenContractContext = createContext<TokenContractContextType | undefined>(undefined);
 
 export const useTokenContract = (): TokenContractContextType => {
@@ -67,19 +84,28 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
   const [wallet, setWallet] = useState<WalletState>({
     connected: false,
     address: null,
-    balance: 0n,
+    balance: ZERO_BALANCE,
     network: getStoredNetwork(), // Load from localStorage or default to testnet
     isLoading: false,
   });
 
   const [tokenInfo, setTokenInfo] = useState<TokenInfo | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [transactions, setTransactions] = useState<Record<string, TransactionUpdate>>({});
 
   // Get the appropriate contract instance based on network
   const getContract = useCallback((): TropicalBlueBonoboToken => {
     return wallet.network === 'mainnet' ? tropicalBlueBonoboToken : tropicalBlueBonoboTokenTestnet;
   }, [wallet.network]);
 
+  const getTracker = useCallback((): TransactionTracker => {
+    return wallet.network === 'mainnet' ? transactionTracker : transactionTrackerTestnet;
+  }, [wallet.network]);
+
+  const getNameService = useCallback((): NameService => {
+    return wallet.network === 'mainnet' ? nameService : nameServiceTestnet;
+  }, [wallet.network]);
+
   // Initialize wallet state from existing connection
   useEffect(() => {
     const checkConnection = () => {
@@ -106,7 +132,7 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
               ...prev,
               connected: false,
               address: null,
-              balance: 0n,
+              balance: ZERO_BALANCE,
             };
           }
           return prev;
@@ -213,19 +239,19 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
     setWallet({
       connected: false,
       address: null,
-      balance: 0n,
+      balance: ZERO_BALANCE,
       network: 'testnet',
       isLoading: false,
     });
   };
 
-  const getBalance = async (address: string): Promise<bigint> => {
+  const getBalance = async (address: string): Promise<TokenAmount> => {
     try {
       const contract = getContract();
       return await contract.getBalance(address);
     } catch (error) {
       console.error('Failed to get balance:', error);
-      return 0n;
+      return ZERO_BALANCE;
     }
   };
 
@@ -257,6 +283,21 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
     }
   };
 
+  const trackTransaction = async (txId: string): Promise<TransactionUpdate> => {
+    const recordUpdate = (update: TransactionUpdate) => {
+      setTransactions(prev => ({ ...prev, [txId]: update }));
+    };
+
+    recordUpdate({ txId, status: 'pending', isFinal: false });
+
+    try {
+      return await getTracker().track(txId, { onUpdate: recordUpdate });
+    } catch (error) {
+      console.error('Failed to track transaction:', error);
+      return { txId, status: 'pending', isFinal: false };
+    }
+  };
+
   const transfer = async (options: Omit<TransferOptions, 'sender'>): Promise<ContractCallResult> => {
     if (!wallet.address) {
       return {
@@ -273,11 +314,13 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
         sender: wallet.address,
       });
 
-      // Refresh balance after successful transfer
-      if (result.success) {
-        setTimeout(() => {
-          refreshBalance();
-        }, 2000); // Wait a bit for transaction to potentially confirm
+      // Refresh balance once the transfer confirms on-chain
+      if (result.success && result.txId) {
+        trackTransaction(result.txId).then(update => {
+          if (update.status === 'success') {
+            refreshBalance();
+          }
+        });
       }
 
       return result;
@@ -285,11 +328,18 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
       return {
         txId: '',
         success: false,
-        error: `Transfer failed: ${error}`,
+        error: `Transfer failed: ${getErrorMessage(error)}`,
       };
     }
   };
 
+  const estimateTransferFee = async (options: Omit<TransferOptions, 'sender'>): Promise<FeeEstimate> => {
+    if (!wallet.address) {
+      throw new Error('Wallet not connected');
+    }
+    return getContract().estimateTransferFee({ ...options, sender: wallet.address });
+  };
+
   const getExplorerUrl = (): string => {
     const contract = getContract();
     return contract.getExplorerUrl();
@@ -303,7 +353,7 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
       ...prev,
       network,
       // Clear balance when switching networks as it may be different
-      balance: 0n,
+      balance: ZERO_BALANCE,
     }));
     
     // Clear token info cache when switching networks
@@ -339,14 +389,18 @@ export const TokenContractProvider: React.FC<TokenContractProviderProps> = ({ ch
     wallet,
     tokenInfo,
     isConnecting,
+    transactions,
     connect: connectWallet,
     disconnect: disconnectWallet,
     getBalance,
     transfer,
+    estimateTransferFee,
     refreshBalance,
     refreshTokenInfo,
+    trackTransaction,
     getExplorerUrl,
     switchNetwork,
+    getNameService,
   };
 
   return (
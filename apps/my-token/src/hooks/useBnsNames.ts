@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { useTokenContract } from '../contexts/TokenContractContext';
+
+/**
+ * Reverse BNS lookup for addresses shown in a list - null until resolved or when an address has no name
+ */
+export const useBnsNames = (addresses: string[]): Record<string, string | null> => {
+  const { getNameService } = useTokenContract();
+  const [names, setNames] = useState<Record<string, string | null>>({});
+  // Stable key so re-renders with the same addresses don't refetch
+  const addressKey = [...new Set(addresses)].sort().join(',');
+
+  useEffect(() => {
+    if (!addressKey) return;
+    let cancelled = false;
+
+    getNameService().lookupNames(addressKey.split(',')).then(result => {
+      if (!cancelled) setNames(prev => ({ ...prev, ...result }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [addressKey, getNameService]);
+
+  return names;
+};
@@ -1,4 +1,5 @@
 // Formatting utilities for numbers, addresses, and dates
+import type { TokenAmount } from 'contracts';
 
 export const formatNumber = (
   value: number,
@@ -30,13 +31,17 @@ export const formatNumber = (
   }).format(value);
 };
 
+// Plain numbers are treated as whole tokens (e.g. event analytics)
 export const formatTokenAmount = (
-  amount: number,
+  amount: TokenAmount | number,
   symbol: string = 'TKN',
   options: { compact?: boolean; decimals?: number } = {}
 ): string => {
-  const { compact = false, decimals = 0 } = options;
-  const formatted = formatNumber(amount, { decimals, compact });
+  const { compact = false, decimals } = options;
+  if (typeof amount !== 'number') {
+    return amount.format({ symbol, compact, maxFractionDigits: decimals });
+  }
+  const formatted = formatNumber(amount, { decimals: decimals ?? 0, compact });
   return `${formatted} ${symbol}`;
 };
 
@@ -129,36 +134,6 @@ export const copyToClipboard = async (text: string): Promise<boolean> => {
   }
 };
 
-export const isValidStacksAddress = (address: string): boolean => {
-  // Stacks address validation - supports both mainnet (SP) and testnet (ST)
-  // Addresses are typically 40-41 characters long and use base58check encoding
-  if (!address || typeof address !== 'string') {
-    return false;
-  }
-  
-  // Check length (typically 40-41 characters, but allow some flexibility)
-  if (address.length < 38 || address.length > 42) {
-    return false;
-  }
-  
-  // Check prefix
-  if (!address.startsWith('SP') && !address.startsWith('ST')) {
-    return false;
-  }
-  
-  // Stacks addresses actually use a modified base58 that includes 0-9, A-Z, a-z
-  // but excludes O, I, l to avoid confusion (but includes 0)
-  const stacksAddressRegex = /^[0-9A-HJ-NP-Za-kmp-z]+$/;
-  const addressWithoutPrefix = address.slice(2);
-  
-  // Additional check: ensure the address is not too short after prefix removal
-  if (addressWithoutPrefix.length < 36) {
-    return false;
-  }
-  
-  return stacksAddressRegex.test(addressWithoutPrefix);
-};
-
 export const formatTransactionStatus = (status: string): string => {
   switch (status.toLowerCase()) {
     case 'pending':
@@ -185,6 +160,7 @@ export const getStatusColor = (status: string): string => {
   }
 };
 
-export const formatFeeAmount = (fee: number): string => {
-  return `${fee.toFixed(6)} STX`;
+// Fees are in microSTX
+export const formatFeeAmount = (fee: bigint): string => {
+  return `${(Number(fee) / 1_000_000).toFixed(6)} STX`;
 };
\ No newline at end of file
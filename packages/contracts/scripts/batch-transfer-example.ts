@@ -1,35 +1,56 @@
 /**
  * Example usage of the TBBBatchTransferContract wrapper
  * This demonstrates how to use the TypeScript wrapper with real contract calls
+ *
+ * The validation and CSV examples need no keys. The transfer examples sign
+ * with a `PrivateKeySigner` and only run when SIGNER_KEY is set.
+ *
+ * Usage:
+ *   pnpm execute scripts/batch-transfer-example.ts
+ *   SIGNER_KEY=<hex private key> pnpm execute scripts/batch-transfer-example.ts
  */
 
-import { TBBBatchTransferContract, BatchTransferRequest, BatchTransferRecipient } from '../src/lib/tbb-batch-transfer';
+import { TBBBatchTransferContract, BatchTransferRequest, BatchTransferRecipient } from '../src/lib/available-purple-squid';
+import { PrivateKeySigner } from '../src/lib/signer';
+import { TokenAmount } from '../src/lib/token-amount';
+import { TOKEN_DECIMALS } from '../src/lib/tropical-blue-bonobo';
+
+const tokens = (value: string) => TokenAmount.parse(value, TOKEN_DECIMALS);
+
+// Signs the transfer examples - there is no default key outside devnet
+function createSigner(): PrivateKeySigner {
+    if (!process.env.SIGNER_KEY) {
+        throw new Error('Set SIGNER_KEY to the hex private key of a funded testnet account');
+    }
+    return new PrivateKeySigner(process.env.SIGNER_KEY);
+}
 
 // Example usage function
 export async function exampleBatchTransfer() {
-    // Create contract instance for testnet
-    const batchTransferContract = new TBBBatchTransferContract('testnet');
+    // Create contract instance for testnet, signing with the key from the environment
+    const signer = createSigner();
+    const batchTransferContract = new TBBBatchTransferContract('testnet', { signer });
 
     // Example recipients list
     const recipients: BatchTransferRecipient[] = [
         {
             address: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM',
-            amount: 1000000 // 1M tokens
+            amount: tokens('1000000') // 1M tokens
         },
         {
             address: 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG',
-            amount: 2500000 // 2.5M tokens
+            amount: tokens('2500000') // 2.5M tokens
         },
         {
             address: 'ST3PF13W7Z0RRM42A8VZRVFQ75SV1K26RXEP8YGKJ',
-            amount: 500000 // 0.5M tokens
+            amount: tokens('500000') // 0.5M tokens
         }
     ];
 
     // Create batch transfer request
     const request: BatchTransferRequest = {
         recipients,
-        sender: 'ST2ZNGJ85ENDY6QRHQ5P2D4FXKGZWCKTB2SYCBMRR', // Your wallet address
+        sender: signer.getAddress(batchTransferContract.getNetworkConfig()),
         memo: 'Batch transfer example'
     };
 
@@ -60,15 +81,19 @@ export async function exampleBatchTransfer() {
     console.log('\n3. Batch summary...');
     const summary = batchTransferContract.generateBatchSummary(recipients);
     console.log(`Total recipients: ${summary.totalRecipients}`);
-    console.log(`Total amount: ${summary.totalAmount} tokens`);
-    console.log(`Average amount: ${summary.averageAmount} tokens`);
-    console.log(`Largest transfer: ${summary.largestTransfer} tokens`);
-    console.log(`Smallest transfer: ${summary.smallestTransfer} tokens`);
+    console.log(`Total amount: ${summary.totalAmount.format({ symbol: 'TKN' })}`);
+    console.log(`Average amount: ${summary.averageAmount.format({ symbol: 'TKN' })}`);
+    console.log(`Largest transfer: ${summary.largestTransfer.format({ symbol: 'TKN' })}`);
+    console.log(`Smallest transfer: ${summary.smallestTransfer.format({ symbol: 'TKN' })}`);
 
     // 4. Calculate fees
     console.log('\n4. Fee calculation...');
-    const estimatedFee = batchTransferContract.getBatchTransferFee(recipients.length);
-    console.log(`Estimated transaction fee: ${estimatedFee} STX`);
+    try {
+        const fees = await batchTransferContract.estimateBatchTransferFee(request);
+        console.log(`Estimated fee: ${fees.low.fee} / ${fees.medium.fee} / ${fees.high.fee} microSTX (low / medium / high)`);
+    } catch (error) {
+        console.log(`Fee estimate unavailable, roughly ${batchTransferContract.getBatchTransferFee(recipients.length)} STX:`, error);
+    }
 
     // 5. Prepare contract call data
     console.log('\n5. Preparing contract call...');
@@ -90,10 +115,10 @@ export async function exampleBatchTransfer() {
     console.log(`Batch Transfer Contract: ${batchTransferContract.getBatchTransferContractUrl()}`);
     console.log(`Token Contract: ${batchTransferContract.getTokenContractUrl()}`);
 
-    // 8. Execute the batch transfer (this will prompt the user's wallet)
+    // 8. Execute the batch transfer (signed and broadcast with SIGNER_KEY)
     console.log('\n8. Executing batch transfer...');
-    console.log('⚠️ This will open your Stacks wallet for approval');
-    
+    console.log(`⚠️ This will send real testnet tokens from ${request.sender}`);
+
     try {
         const result = await batchTransferContract.executeBatchTransfer(request);
         
@@ -117,12 +142,12 @@ export function exampleCSVParsing() {
     console.log('\n=== CSV Parsing Example ===');
 
     // Example CSV data
-    const csvData = `address,amount
-ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM,1000000
-ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG,2500000
-invalid-address,1000000
-ST3PF13W7Z0RRM42A8VZRVFQ75SV1K26RXEP8YGKJ,0
-ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5,500000`;
+    const csvData = `address,amount,memo
+ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM,1000000,Payroll March
+ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG,2500000,"Bounty #42, audit"
+invalid-address,1000000,
+ST3PF13W7Z0RRM42A8VZRVFQ75SV1K26RXEP8YGKJ,0,
+ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5,500000,`;
 
     const parseResult = batchTransferContract.parseCSVData(csvData);
     
@@ -136,7 +161,8 @@ ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5,500000`;
     
     console.log('\nValid recipients:');
     parseResult.recipients.forEach((recipient, index) => {
-        console.log(`   ${index + 1}. ${recipient.address}: ${recipient.amount} tokens`);
+        const memo = recipient.memo ? ` (${typeof recipient.memo === 'string' ? recipient.memo : recipient.memo.encoding})` : '';
+        console.log(`   ${index + 1}. ${recipient.address}: ${recipient.amount.format({ symbol: 'TKN' })}${memo}`);
     });
 
     // Generate template
@@ -146,13 +172,14 @@ ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5,500000`;
 
 // Example individual transfer
 export async function exampleIndividualTransfer() {
-    const batchTransferContract = new TBBBatchTransferContract('testnet');
+    const signer = createSigner();
+    const batchTransferContract = new TBBBatchTransferContract('testnet', { signer });
 
     console.log('\n=== Individual Transfer Example ===');
 
-    const sender = 'ST2ZNGJ85ENDY6QRHQ5P2D4FXKGZWCKTB2SYCBMRR';
+    const sender = signer.getAddress(batchTransferContract.getNetworkConfig());
     const recipient = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
-    const amount = 1000000; // 1M tokens
+    const amount = tokens('1000000'); // 1M tokens
     const memo = 'Individual transfer example';
 
     try {
@@ -172,7 +199,7 @@ export async function exampleIndividualTransfer() {
 }
 
 // Export the contract instances for easy use
-export { TBBBatchTransferContract } from '../src/lib/tbb-batch-transfer';
+export { TBBBatchTransferContract } from '../src/lib/available-purple-squid';
 export const batchTransferMainnet = new TBBBatchTransferContract('mainnet');
 export const batchTransferTestnet = new TBBBatchTransferContract('testnet');
 
@@ -190,11 +217,14 @@ async function runExamples() {
         console.log('=====================================');
         await exampleBatchTransferValidation();
         
-        console.log('\n📝 Note: Wallet interaction examples require Stacks Connect setup.');
-        console.log('   To test wallet functions, uncomment the lines below:');
-        console.log('   // await exampleBatchTransfer();');
-        console.log('   // await exampleIndividualTransfer();');
-        
+        if (process.env.SIGNER_KEY) {
+            await exampleBatchTransfer();
+            await exampleIndividualTransfer();
+        } else {
+            console.log('\n📝 Note: The transfer examples sign with a private key.');
+            console.log('   Set SIGNER_KEY to a funded testnet account\'s key to run them.');
+        }
+
     } catch (error) {
         console.error('❌ Error running examples:', error);
     }
@@ -205,23 +235,23 @@ async function exampleBatchTransferValidation() {
     const batchTransferContract = new TBBBatchTransferContract('testnet');
 
     // Example recipients list
-    const recipients = [
+    const recipients: BatchTransferRecipient[] = [
         {
             address: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM',
-            amount: 1000000 // 1M tokens
+            amount: tokens('1000000') // 1M tokens
         },
         {
             address: 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG',
-            amount: 2500000 // 2.5M tokens
+            amount: tokens('2500000') // 2.5M tokens
         },
         {
             address: 'invalid-address', // This will fail validation
-            amount: 500000
+            amount: tokens('500000')
         }
     ];
 
     // Create batch transfer request
-    const request = {
+    const request: BatchTransferRequest = {
         recipients,
         sender: 'ST2ZNGJ85ENDY6QRHQ5P2D4FXKGZWCKTB2SYCBMRR',
         memo: 'Validation test'
@@ -251,8 +281,8 @@ async function exampleBatchTransferValidation() {
     console.log(`  Total recipients: ${summary.totalRecipients}`);
     console.log(`  Valid recipients: ${summary.validRecipients}`);
     console.log(`  Invalid recipients: ${summary.invalidRecipients}`);
-    console.log(`  Total amount: ${summary.totalAmount} tokens`);
-    console.log(`  Average amount: ${summary.averageAmount} tokens`);
+    console.log(`  Total amount: ${summary.totalAmount.format({ symbol: 'TKN' })}`);
+    console.log(`  Average amount: ${summary.averageAmount.format({ symbol: 'TKN' })}`);
 
     // Calculate fees
     const estimatedFee = batchTransferContract.getBatchTransferFee(recipients.length);
@@ -0,0 +1,321 @@
+/**
+ * Local mock of the Stacks API for exercising event sync and subscriptions
+ * without a node - serves contract events, contract transactions with their
+ * token events, and blocks from memory, plus a server-sent event stream of new
+ * blocks at /stream/blocks (read it with an SseBlockFeed).
+ *
+ * Usage:
+ *   const api = await startMockStacksApi();
+ *   const events = new ContractEventsService(api.network, undefined, {
+ *     blockFeed: new SseBlockFeed(api.streamUrl)
+ *   });
+ *   api.mineBlock([api.claimEvent(DEVNET_ACCOUNTS.wallet_1, 100)]);
+ */
+
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Cl, serializeCV } from '@stacks/transactions';
+import { NetworkConfig, NETWORK_CONFIGS, getContractId } from '../src/lib/network';
+
+interface MockEvent {
+  tx_id: string;
+  event_index: number;
+  event_type: 'smart_contract_log';
+  contract_log: { contract_id: string; topic: string; value: { hex: string } };
+  block_height: number;
+  block_hash: string;
+  block_time: number;
+  tx_index: number;
+}
+
+/**
+ * A token movement as the transaction events endpoint reports it
+ */
+interface MockAssetEvent {
+  tx_id: string;
+  event_index: number;
+  event_type: 'fungible_token_asset';
+  asset: {
+    asset_event_type: 'transfer' | 'mint' | 'burn';
+    asset_id: string;
+    sender: string;
+    recipient: string;
+    amount: string;
+  };
+}
+
+/**
+ * A transaction as the address transactions endpoint lists it
+ */
+interface MockTransaction {
+  tx_id: string;
+  tx_status: 'success';
+  tx_type: 'contract_call' | 'smart_contract';
+  sender_address: string;
+  contract_call?: { contract_id: string; function_name: string };
+  smart_contract?: { contract_id: string };
+  block_height: number;
+  block_hash: string;
+  block_time: number;
+  burn_block_time: number;
+  tx_index: number;
+  event_count: number;
+  events: [];
+}
+
+/**
+ * A contract call to add to a block with mineTransactions
+ */
+export interface MockCall {
+  contract: 'token' | 'faucet' | 'batchTransfer';
+  functionName: string;
+  sender: string;
+  movements: Array<Pick<MockAssetEvent['asset'], 'asset_event_type' | 'sender' | 'recipient' | 'amount'>>;
+}
+
+export interface MockStacksApi {
+  /** Devnet configuration pointing at the mock */
+  network: NetworkConfig;
+  /** Server-sent event stream of new blocks */
+  streamUrl: string;
+  /** Current chain height */
+  readonly height: number;
+  /** Print event for a claim by a user (add it to a block with mineBlock) */
+  claimEvent(user: string, amount: number): Record<string, any>;
+  /** Print event for a deposit */
+  depositEvent(depositor: string, amount: number): Record<string, any>;
+  /** Add a block holding the given print events and announce it on the stream */
+  mineBlock(prints?: Record<string, any>[]): number;
+  /** Add a block without announcing it (as if the notification was lost while disconnected) */
+  mineSilently(prints?: Record<string, any>[]): number;
+  /** The token deployment, minting the supply to the deployer */
+  deployTokenCall(deployer: string, supply: bigint): MockCall;
+  /** A token `transfer` call */
+  transferCall(sender: string, recipient: string, amount: bigint): MockCall;
+  /** A batch transfer `send-many` call - one token transfer per recipient */
+  sendManyCall(sender: string, recipients: Array<{ to: string; amount: bigint }>): MockCall;
+  /** Add a block holding the given contract calls, one transaction each, and announce it */
+  mineTransactions(calls: MockCall[]): number;
+  /**
+   * Switch to a fork branching off below a height: the blocks from that height
+   * on are dropped with their events and transactions, and blocks mined
+   * afterwards get hashes of the fork
+   */
+  reorg(fromHeight: number): void;
+  /** End every open stream, as if the connection dropped */
+  dropStreams(): void;
+  close(): Promise<void>;
+}
+
+export async function startMockStacksApi(startHeight = 100): Promise<MockStacksApi> {
+  const streams = new Set<http.ServerResponse>();
+  // Newest first, as the API returns them
+  const events: MockEvent[] = [];
+  const transactions: MockTransaction[] = [];
+  const transactionEvents = new Map<string, MockAssetEvent[]>();
+  let height = startHeight;
+  let txCount = 0;
+  // Block timestamps (Unix seconds) by height
+  const blockTimes = new Map<number, number>([[startHeight, Math.floor(Date.now() / 1000)]]);
+  let config: NetworkConfig = NETWORK_CONFIGS.devnet;
+
+  // Bumped on each reorg, so a height mined again gets a different hash
+  let fork = 0;
+  const blockHashes = new Map<number, string>();
+
+  const blockHash = (blockHeight: number) =>
+    blockHashes.get(blockHeight) ?? `0x${blockHeight.toString(16).padStart(64, '0')}`;
+
+  const json = (response: http.ServerResponse, status: number, body: unknown) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  };
+
+  const server = http.createServer((request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const byHeight = url.pathname.match(/^\/extended\/v1\/block\/by_height\/(\d+)$/);
+    const addressTransactions = url.pathname.match(/^\/extended\/v1\/address\/([^/]+)\/transactions$/);
+
+    if (url.pathname === '/stream/blocks') {
+      response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+      response.write(': connected\n\n');
+      streams.add(response);
+      request.on('close', () => streams.delete(response));
+    } else if (url.pathname === `/extended/v1/contract/${getContractId(config, 'faucet')}/events`) {
+      const limit = Number(url.searchParams.get('limit') || 20);
+      const offset = Number(url.searchParams.get('offset') || 0);
+      json(response, 200, { limit, offset, results: events.slice(offset, offset + limit) });
+    } else if (addressTransactions) {
+      const limit = Number(url.searchParams.get('limit') || 20);
+      const offset = Number(url.searchParams.get('offset') || 0);
+      const results = transactions.filter(tx =>
+        (tx.contract_call?.contract_id ?? tx.smart_contract?.contract_id) === addressTransactions[1]
+      );
+      json(response, 200, { limit, offset, total: results.length, results: results.slice(offset, offset + limit) });
+    } else if (url.pathname === '/extended/v1/tx/events') {
+      const limit = Number(url.searchParams.get('limit') || 20);
+      const offset = Number(url.searchParams.get('offset') || 0);
+      const txEvents = transactionEvents.get(url.searchParams.get('tx_id') || '') || [];
+      json(response, 200, { limit, offset, events: txEvents.slice(offset, offset + limit) });
+    } else if (url.pathname === '/extended/v1/block') {
+      const limit = Number(url.searchParams.get('limit') || 20);
+      const results = [...blockTimes.entries()]
+        .sort(([a], [b]) => b - a)
+        .slice(0, limit)
+        .map(([blockHeight, time]) => ({ height: blockHeight, hash: blockHash(blockHeight), block_time: time }));
+      json(response, 200, { limit, results });
+    } else if (byHeight && Number(byHeight[1]) <= height) {
+      json(response, 200, { height: Number(byHeight[1]), hash: blockHash(Number(byHeight[1])) });
+    } else {
+      json(response, 404, { error: 'not found' });
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+  config = { ...NETWORK_CONFIGS.devnet, name: `mock-${port}`, apiUrl: baseUrl };
+
+  const forkHash = (blockHeight: number) =>
+    `0x${fork.toString(16).padStart(8, '0')}${blockHeight.toString(16).padStart(56, '0')}`;
+
+  const nextTxId = () => `0x${(++txCount).toString(16).padStart(64, '0')}`;
+
+  const addBlock = (prints: Record<string, any>[]): number => {
+    height++;
+    blockTimes.set(height, Math.floor(Date.now() / 1000));
+    blockHashes.set(height, forkHash(height));
+    const txId = nextTxId();
+    prints.forEach((print, eventIndex) => {
+      events.unshift({
+        tx_id: txId,
+        event_index: eventIndex,
+        event_type: 'smart_contract_log',
+        contract_log: {
+          contract_id: getContractId(config, 'faucet'),
+          topic: 'print',
+          value: { hex: serializeCV(Cl.tuple({ ...print, block: Cl.uint(height) })) }
+        },
+        block_height: height,
+        block_hash: blockHash(height),
+        block_time: blockTimes.get(height)!,
+        tx_index: 0
+      });
+    });
+    return height;
+  };
+
+  const addTransactionBlock = (calls: MockCall[]): number => {
+    height++;
+    const time = Math.floor(Date.now() / 1000);
+    blockTimes.set(height, time);
+    blockHashes.set(height, forkHash(height));
+    const assetId = `${getContractId(config, 'token')}::TKN`;
+    calls.forEach((call, txIndex) => {
+      const txId = nextTxId();
+      const contractId = getContractId(config, call.contract);
+      transactions.unshift({
+        tx_id: txId,
+        tx_status: 'success',
+        sender_address: call.sender,
+        ...(call.functionName === 'deploy'
+          ? { tx_type: 'smart_contract' as const, smart_contract: { contract_id: contractId } }
+          : { tx_type: 'contract_call' as const, contract_call: { contract_id: contractId, function_name: call.functionName } }),
+        block_height: height,
+        block_hash: blockHash(height),
+        block_time: time,
+        burn_block_time: time,
+        tx_index: txIndex,
+        event_count: call.movements.length,
+        events: []
+      });
+      transactionEvents.set(txId, call.movements.map((movement, eventIndex) => ({
+        tx_id: txId,
+        event_index: eventIndex,
+        event_type: 'fungible_token_asset',
+        asset: { ...movement, asset_id: assetId }
+      })));
+    });
+    return height;
+  };
+
+  const announce = (minedHeight: number) => {
+    const block = { height: minedHeight, hash: blockHash(minedHeight), block_time: blockTimes.get(minedHeight) };
+    const message = `event: block\ndata: ${JSON.stringify(block)}\n\n`;
+    streams.forEach(stream => stream.write(message));
+    return minedHeight;
+  };
+
+  const reorg = (fromHeight: number) => {
+    fork++;
+    const orphaned = <T extends { block_height: number }>(item: T) => item.block_height >= fromHeight;
+    events.splice(0, events.findLastIndex(orphaned) + 1);
+    transactions.splice(0, transactions.findLastIndex(orphaned) + 1)
+      .forEach(tx => transactionEvents.delete(tx.tx_id));
+    for (let orphanedHeight = fromHeight; orphanedHeight <= height; orphanedHeight++) {
+      blockTimes.delete(orphanedHeight);
+      blockHashes.delete(orphanedHeight);
+    }
+    height = fromHeight - 1;
+  };
+
+  const dropStreams = () => {
+    streams.forEach(stream => stream.destroy());
+    streams.clear();
+  };
+
+  return {
+    network: config,
+    streamUrl: `${baseUrl}/stream/blocks`,
+    get height() {
+      return height;
+    },
+    claimEvent: (user, amount) => ({
+      event: Cl.stringAscii('claim'),
+      user: Cl.principal(user),
+      amount: Cl.uint(amount),
+      streak: Cl.uint(1),
+      'total-claims': Cl.uint(1)
+    }),
+    depositEvent: (depositor, amount) => ({
+      event: Cl.stringAscii('deposit'),
+      depositor: Cl.principal(depositor),
+      amount: Cl.uint(amount)
+    }),
+    mineBlock: prints => announce(addBlock(prints ?? [])),
+    mineSilently: prints => addBlock(prints ?? []),
+    deployTokenCall: (deployer, supply) => ({
+      contract: 'token',
+      functionName: 'deploy',
+      sender: deployer,
+      movements: [{ asset_event_type: 'mint', sender: '', recipient: deployer, amount: supply.toString() }]
+    }),
+    transferCall: (sender, recipient, amount) => ({
+      contract: 'token',
+      functionName: 'transfer',
+      sender,
+      movements: [{ asset_event_type: 'transfer', sender, recipient, amount: amount.toString() }]
+    }),
+    sendManyCall: (sender, recipients) => ({
+      contract: 'batchTransfer',
+      functionName: 'send-many',
+      sender,
+      movements: recipients.map(({ to, amount }) => ({
+        asset_event_type: 'transfer' as const,
+        sender,
+        recipient: to,
+        amount: amount.toString()
+      }))
+    }),
+    mineTransactions: calls => announce(addTransactionBlock(calls)),
+    reorg,
+    dropStreams,
+    close() {
+      dropStreams();
+      const closed = new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+      // Idle keep-alive connections would hold the server open
+      server.closeAllConnections();
+      return closed;
+    }
+  };
+}
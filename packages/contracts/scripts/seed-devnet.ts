@@ -0,0 +1,103 @@
+/**
+ * Seed a local devnet without a browser wallet
+ *
+ * Signs as the devnet deployer (which holds the full token supply) to fund the
+ * faucet and airdrop tokens to the other devnet accounts. Start devnet with
+ * `clarinet devnet start` first.
+ *
+ * Airdrop plans are saved to .cache/airdrop-plans.json, so an interrupted
+ * airdrop can be resumed (without depositing again) by passing its plan id.
+ *
+ * Usage:
+ *   pnpm execute scripts/seed-devnet.ts
+ *   SIGNER_KEY=<hex private key> FAUCET_DEPOSIT=500000000 pnpm execute scripts/seed-devnet.ts
+ *   AIRDROP_PLAN=<plan id> pnpm execute scripts/seed-devnet.ts
+ */
+
+import * as fs from 'node:fs';
+import { FileCacheStore } from '../src/lib/cache-store';
+import { PrivateKeySigner } from '../src/lib/signer';
+import { TBBFaucetContract } from '../src/lib/spare-tomato-pelican';
+import { AirdropPlanner } from '../src/lib/airdrop';
+import { TransactionTracker } from '../src/lib/transactions';
+import { TokenAmount } from '../src/lib/token-amount';
+import { TOKEN_DECIMALS } from '../src/lib/tropical-blue-bonobo';
+import { DEVNET_ACCOUNTS, NETWORK_CONFIGS } from '../src/lib/network';
+
+// secret_key of [accounts.deployer] in settings/Devnet.toml
+const DEVNET_DEPLOYER_KEY = '753b7cc01a1a2e86221266a154af739463fce51219d97e4f856cd7200c3bd2a601';
+
+const network = NETWORK_CONFIGS.devnet;
+const signer = new PrivateKeySigner(process.env.SIGNER_KEY || DEVNET_DEPLOYER_KEY);
+const sender = signer.getAddress(network);
+const tracker = new TransactionTracker(network, { pollInterval: 2_000, timeout: 5 * 60 * 1000 });
+const resumePlanId = process.env.AIRDROP_PLAN;
+
+// Keep airdrop plans between runs (.cache is git-ignored)
+fs.mkdirSync('.cache', { recursive: true });
+const planStore = new FileCacheStore('.cache/airdrop-plans.json', fs);
+
+async function seedFaucet() {
+  const faucet = new TBBFaucetContract(network, { signer });
+  const amount = TokenAmount.parse(process.env.FAUCET_DEPOSIT || '1000000000', TOKEN_DECIMALS);
+
+  console.log(`Depositing ${amount.format({ symbol: 'TKN' })} into the faucet from ${sender}...`);
+  const result = await faucet.depositTokens(sender, amount);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  const update = await tracker.waitForSuccess(result.txId);
+  console.log(`  ✓ Deposit confirmed in block ${update.blockHeight} (${result.txId})`);
+}
+
+async function airdropToDevnetWallets() {
+  const planner = new AirdropPlanner(network, { signer, tracker, cacheStore: planStore });
+  const plan = resumePlanId ? resumePlan(planner, resumePlanId) : createPlan(planner);
+
+  await planner.execute(plan, {
+    onUpdate: (_plan, chunk) => console.log(`  Chunk ${chunk.index + 1}/${plan.chunks.length}: ${chunk.status}`, chunk.txId || ''),
+  });
+
+  const progress = planner.getProgress(plan);
+  if (!progress.isComplete) {
+    throw new Error(`Airdrop incomplete - run again with AIRDROP_PLAN=${plan.id} to resume`);
+  }
+  console.log(`  ✓ Sent ${progress.amountSent.format({ symbol: 'TKN' })} to ${progress.paidRecipients} wallets`);
+}
+
+function createPlan(planner: AirdropPlanner) {
+  const recipients = Object.entries(DEVNET_ACCOUNTS)
+    .filter(([name, address]) => name.startsWith('wallet_') && address !== sender)
+    .map(([name, address]) => ({
+      address,
+      amount: TokenAmount.parse('1000000', TOKEN_DECIMALS),
+      memo: `devnet seed ${name}`,
+    }));
+
+  console.log(`\nAirdropping to ${recipients.length} devnet wallets...`);
+  return planner.createPlan(recipients, { sender, id: `devnet-seed-${Date.now()}` });
+}
+
+function resumePlan(planner: AirdropPlanner, id: string) {
+  const plan = planner.loadPlan(id);
+  if (!plan) {
+    throw new Error(`No saved airdrop plan ${id} (saved plans: ${planner.listPlans().join(', ') || 'none'})`);
+  }
+  console.log(`\nResuming airdrop ${id} (${planner.getProgress(plan).confirmedChunks}/${plan.chunks.length} chunks confirmed)...`);
+  return plan;
+}
+
+(async () => {
+  try {
+    // The faucet was funded by the run being resumed
+    if (!resumePlanId) {
+      await seedFaucet();
+    }
+    await airdropToDevnetWallets();
+    console.log('\n🌱 Devnet seeded');
+  } catch (error) {
+    console.error('❌ Seeding failed:', error);
+    process.exit(1);
+  }
+})();
@@ -111,13 +111,13 @@ async function testDateSerialization() {
     
     const globalStats = await faucetContract.getGlobalStats();
     console.log(`✅ Global stats retrieved`);
-    console.log(`🏦 Total Supply: ${(globalStats.totalSupply / 1_000_000_000).toFixed(1)}B tokens`);
-    console.log(`📤 Distributed: ${(globalStats.distributed / 1_000_000_000).toFixed(1)}B tokens`);
-    console.log(`💰 Remaining: ${(globalStats.remaining / 1_000_000_000).toFixed(1)}B tokens`);
-    console.log(`⚡ Daily Rate: ${(globalStats.dailyRate / 1_000_000).toFixed(1)}M tokens/day`);
+    console.log(`🏦 Total Supply: ${globalStats.totalSupply.format({ compact: true })} tokens`);
+    console.log(`📤 Distributed: ${globalStats.distributed.format({ compact: true })} tokens`);
+    console.log(`💰 Remaining: ${globalStats.remaining.format({ compact: true })} tokens`);
+    console.log(`⚡ Daily Rate: ${globalStats.dailyRate.format({ compact: true })} tokens/day`);
     console.log(`📅 Days Remaining: ${globalStats.estimatedDaysRemaining.toFixed(1)}`);
     
-    const hasReasonableStats = globalStats.dailyRate > 0 && globalStats.dailyRate !== 750_000_000;
+    const hasReasonableStats = globalStats.dailyRate.isPositive() && !globalStats.dailyRate.eq(750_000_000);
     console.log(`🔍 Using calculated (not hardcoded) daily rate: ${hasReasonableStats ? 'YES' : 'NO'}`);
 
     console.log('');
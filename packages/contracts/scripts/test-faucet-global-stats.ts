@@ -37,9 +37,9 @@ async function testFaucetGlobalStats() {
     // Display the stats that the frontend sees
     console.log('📊 GLOBAL STATS (What Frontend Receives)');
     console.log('─'.repeat(60));
-    console.log(`🏦 Total Supply:        ${(globalStats.totalSupply / 1_000_000_000).toFixed(1)}B tokens`);
-    console.log(`📤 Distributed:         ${(globalStats.distributed / 1_000_000_000).toFixed(1)}B tokens`);
-    console.log(`💰 Remaining:           ${(globalStats.remaining / 1_000_000_000).toFixed(1)}B tokens`);
+    console.log(`🏦 Total Supply:        ${globalStats.totalSupply.format({ compact: true })} tokens`);
+    console.log(`📤 Distributed:         ${globalStats.distributed.format({ compact: true })} tokens`);
+    console.log(`💰 Remaining:           ${globalStats.remaining.format({ compact: true })} tokens`);
     console.log(`🎯 Avg Emission Rate:   ${(globalStats.dailyTarget / 1_000_000).toFixed(1)}M tokens/day`);
     console.log(`📅 Est. Days Remaining: ${globalStats.estimatedDaysRemaining.toFixed(1)} days`);
     console.log(`📊 Percentage Remaining: ${globalStats.percentageRemaining.toFixed(1)}%`);
@@ -75,9 +75,22 @@ async function testFaucetGlobalStats() {
       console.log(`   Using calculated value: ${(globalStats.dailyTarget / 1_000_000).toFixed(1)}M tokens/day`);
     }
 
-    // Show estimated depletion date
-    const depletionDate = new Date(Date.now() + globalStats.estimatedDaysRemaining * 24 * 60 * 60 * 1000);
-    console.log(`📅 Estimated Depletion Date: ${depletionDate.toDateString()}`);
+    // Show the runway forecast
+    if (globalStats.runway) {
+      const { runway } = globalStats;
+      console.log(`🔮 RUNWAY FORECAST (${runway.confidence} confidence)`);
+      console.log('─'.repeat(40));
+      (['best', 'expected', 'worst'] as const).forEach(name => {
+        const scenario = runway[name];
+        const days = scenario.daysRemaining === null ? `over ${runway.horizonDays}` : scenario.daysRemaining.toFixed(1);
+        const date = scenario.depletionDate ? scenario.depletionDate.toDateString() : 'beyond the forecast';
+        console.log(`   ${name.padEnd(8)} ${days} days (${date}) - ${(scenario.dailyClaims / 1_000_000).toFixed(1)}M claimed, ${(scenario.dailyDeposits / 1_000_000).toFixed(1)}M deposited per day`);
+      });
+      console.log(`   Retention: ${(runway.model.retention * 100).toFixed(1)}% over ${runway.model.retentionSamples} claims`);
+    } else {
+      const depletionDate = new Date(Date.now() + globalStats.estimatedDaysRemaining * 24 * 60 * 60 * 1000);
+      console.log(`📅 Estimated Depletion Date: ${depletionDate.toDateString()}`);
+    }
     console.log('');
 
     // Test the formatting functions that frontend uses
@@ -5,10 +5,23 @@
  * Usage: npm run execute scripts/test-incremental-sync.ts
  */
 
+import * as fs from 'node:fs';
 import { ContractEventsService } from '../src/lib/events';
+import { FileCacheStore } from '../src/lib/cache-store';
+import { FileEventStore } from '../src/lib/event-store';
+import type { EventCursor } from '../src/lib/events';
 
 const contractId = 'ST2ZNGJ85ENDY6QRHQ5P2D4FXKGZWCKTB2SYCBMRR.spare-tomato-pelican';
 
+// Persist the cache between runs (.cache is git-ignored)
+fs.mkdirSync('.cache', { recursive: true });
+const cacheStore = new FileCacheStore('.cache/scripts-cache.json', fs);
+const eventStore = new FileEventStore('.cache/scripts-events.jsonl', fs);
+
+function formatCursor(cursor: EventCursor | null): string {
+  return cursor ? `block ${cursor.blockHeight}, ${cursor.txId.substring(0, 10)}...:${cursor.eventIndex}` : 'none';
+}
+
 async function testIncrementalSync() {
   console.log('🧪 Testing Incremental Sync Functionality');
   console.log('═'.repeat(60));
@@ -17,7 +30,7 @@ async function testIncrementalSync() {
 
   try {
     // Create fresh events service
-    const eventsService = new ContractEventsService('testnet', contractId);
+    const eventsService = new ContractEventsService('testnet', contractId, { cacheStore, eventStore });
 
     // Clear cache to start fresh
     console.log('🧹 Clearing cache to start fresh...');
@@ -68,9 +81,7 @@ async function testIncrementalSync() {
     console.log('🔍 TEST 4: Sync State Analysis');
     console.log('─'.repeat(40));
     
-    // Access private method via type assertion for testing
-    const syncStateMethod = (eventsService as any).getSyncState.bind(eventsService);
-    const syncState = syncStateMethod();
+    const syncState = eventsService.getSyncState();
     
     console.log(`📊 Current Sync State:`);
     console.log(`   🔢 Last processed block: ${syncState.lastProcessedBlock}`);
@@ -79,7 +90,11 @@ async function testIncrementalSync() {
     console.log(`   🔗 Last processed TX: ${syncState.lastProcessedTxId.substring(0, 10)}...`);
     console.log(`   📞 Total API calls: ${syncState.totalAPICallsMade}`);
     console.log(`   ✅ Fully synced: ${syncState.isFullySynced}`);
-    console.log(`   📄 Last offset: ${syncState.lastOffset}`);
+    console.log(`   📚 Backfill complete: ${syncState.isBackfillComplete}`);
+    console.log(`   ⬆️  Head cursor: ${formatCursor(syncState.headCursor)}`);
+    console.log(`   ⬇️  Tail cursor: ${formatCursor(syncState.tailCursor)}`);
+    console.log(`   📄 Raw events synced: ${syncState.rawEventsSynced}`);
+    console.log(`   🧱 Blocks watched for reorgs: ${syncState.recentBlocks.length}`);
     console.log('');
 
     // Test 5: Validate event data integrity
@@ -104,7 +119,19 @@ async function testIncrementalSync() {
       console.log(`   💰 Amount: ${(recentClaim.amount / 1_000_000).toFixed(1)}M tokens`);
       console.log(`   🔥 Streak: ${recentClaim.streak}`);
       console.log(`   📦 Block: ${recentClaim.block}`);
-      console.log(`   🆔 TX ID: ${recentClaim.txId.substring(0, 16)}...`);
+      console.log(`   🆔 TX ID: ${recentClaim.txId.substring(0, 16)}... (tx ${recentClaim.txIndex}, event ${recentClaim.eventIndex})`);
+      console.log(`   🕒 Block time: ${new Date(recentClaim.blockTime * 1000).toISOString()}`);
+      console.log('');
+    }
+
+    // Test 5b: Query the event store directly
+    if (claimEvents.length > 0) {
+      const user = claimEvents[0].user;
+      const firstPage = await eventsService.getEvents({ user, limit: 5 });
+      const secondPage = firstPage.nextCursor
+        ? await eventsService.getEvents({ user, limit: 5, cursor: firstPage.nextCursor })
+        : { events: [], nextCursor: null };
+      console.log(`🔎 Events for ${user.substring(0, 10)}...: ${firstPage.events.length} on the first page, ${secondPage.events.length} on the second`);
       console.log('');
     }
 
@@ -122,6 +149,7 @@ async function testIncrementalSync() {
     console.log('─'.repeat(40));
     console.log(`📁 Total cache entries: ${cacheStats.totalEntries}`);
     console.log(`🔑 Cache keys: ${cacheStats.cacheKeys.join(', ')}`);
+    console.log(`📦 Stored events: ${await eventStore.count()}`);
     console.log('');
 
     console.log('✅ All incremental sync tests completed successfully!');
@@ -30,9 +30,9 @@ async function testNetworkSwitching() {
     const testnetStats = await testnetContract.getGlobalStats();
     const testnetClaimInfo = await testnetContract.getClaimInfo(testnetAddress);
     
-    console.log(`🏦 Testnet Total Supply: ${(testnetStats.totalSupply / 1_000_000_000).toFixed(1)}B tokens`);
-    console.log(`💰 Testnet Remaining: ${(testnetStats.remaining / 1_000_000_000).toFixed(1)}B tokens`);
-    console.log(`⚡ Testnet Daily Rate: ${(testnetStats.dailyRate / 1_000_000).toFixed(1)}M tokens/day`);
+    console.log(`🏦 Testnet Total Supply: ${testnetStats.totalSupply.format({ compact: true })} tokens`);
+    console.log(`💰 Testnet Remaining: ${testnetStats.remaining.format({ compact: true })} tokens`);
+    console.log(`⚡ Testnet Daily Rate: ${testnetStats.dailyRate.format({ compact: true })} tokens/day`);
     console.log(`📊 Testnet User Claims: ${testnetClaimInfo.totalClaims}`);
     console.log(`📦 Testnet Last Claim Block: ${testnetClaimInfo.lastClaimBlock}`);
     console.log('');
@@ -49,9 +49,9 @@ async function testNetworkSwitching() {
     const mainnetStats = await mainnetContract.getGlobalStats();
     const mainnetClaimInfo = await mainnetContract.getClaimInfo(mainnetAddress);
     
-    console.log(`🏦 Mainnet Total Supply: ${(mainnetStats.totalSupply / 1_000_000_000).toFixed(1)}B tokens`);
-    console.log(`💰 Mainnet Remaining: ${(mainnetStats.remaining / 1_000_000_000).toFixed(1)}B tokens`);
-    console.log(`⚡ Mainnet Daily Rate: ${(mainnetStats.dailyRate / 1_000_000).toFixed(1)}M tokens/day`);
+    console.log(`🏦 Mainnet Total Supply: ${mainnetStats.totalSupply.format({ compact: true })} tokens`);
+    console.log(`💰 Mainnet Remaining: ${mainnetStats.remaining.format({ compact: true })} tokens`);
+    console.log(`⚡ Mainnet Daily Rate: ${mainnetStats.dailyRate.format({ compact: true })} tokens/day`);
     console.log(`📊 Mainnet User Claims: ${mainnetClaimInfo.totalClaims}`);
     console.log(`📦 Mainnet Last Claim Block: ${mainnetClaimInfo.lastClaimBlock}`);
     console.log('');
@@ -61,8 +61,8 @@ async function testNetworkSwitching() {
     console.log('─'.repeat(40));
     
     const networksIsolated = (
-      testnetStats.remaining !== mainnetStats.remaining ||
-      testnetStats.dailyRate !== mainnetStats.dailyRate ||
+      !testnetStats.remaining.eq(mainnetStats.remaining) ||
+      !testnetStats.dailyRate.eq(mainnetStats.dailyRate) ||
       testnetClaimInfo.lastClaimBlock !== mainnetClaimInfo.lastClaimBlock
     );
     
@@ -146,7 +146,7 @@ async function testNetworkSwitching() {
     
     // Re-fetch after cache clear
     const testnetStatsAfter = await testnetContract.getGlobalStats();
-    console.log(`🔄 Testnet stats after cache clear: ${(testnetStatsAfter.remaining / 1_000_000_000).toFixed(1)}B remaining`);
+    console.log(`🔄 Testnet stats after cache clear: ${testnetStatsAfter.remaining.format({ compact: true })} remaining`);
     console.log('');
 
     console.log('✅ Network switching tests completed!');
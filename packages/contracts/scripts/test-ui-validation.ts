@@ -3,6 +3,7 @@
  */
 
 import { TBBBatchTransferContract } from '../src/lib/available-purple-squid';
+import { TokenAmount } from '../src/lib/token-amount';
 
 console.log('🧪 Testing UI Validation Scenario\n');
 
@@ -14,7 +15,7 @@ const testScenario = (address: string, amount: number) => {
   
   const validation = batchTransferContract.validateRecipients([{
     address: address,
-    amount: amount
+    amount: TokenAmount.fromBaseUnits(amount)
   }]);
   
   const result = validation[0];
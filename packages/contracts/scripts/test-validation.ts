@@ -3,12 +3,15 @@
  */
 
 import { TBBBatchTransferContract } from '../src/lib/available-purple-squid';
-import { isValidStacksAddress } from '../src/lib/validators';
+import { validateStacksAddress } from '../src/lib/validators';
+import { TokenAmount } from '../src/lib/token-amount';
 
 // Test addresses
 const testAddresses = [
   'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM', // Valid testnet
-  'SP1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM', // Valid mainnet 
+  'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7', // Valid mainnet (wrong network for testnet)
+  'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGN', // Typo - checksum mismatch
+  'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.token', // Contract principal
   'invalid-address', // Invalid
   '', // Empty
   'ST', // Too short
@@ -23,13 +26,13 @@ testAddresses.forEach((address, index) => {
   console.log(`Test ${index + 1}: "${address}"`);
   
   // Test direct validator
-  const directValid = isValidStacksAddress(address);
-  console.log(`  Direct validator: ${directValid ? '✅ Valid' : '❌ Invalid'}`);
+  const direct = validateStacksAddress(address);
+  console.log(`  Direct validator: ${direct.isValid ? `✅ Valid (${direct.network})` : `❌ Invalid (${direct.reason})`}`);
   
   // Test contract validation
   const contractValidation = batchTransferContract.validateRecipients([{
     address,
-    amount: 1000000
+    amount: TokenAmount.fromBaseUnits(1000000)
   }]);
   
   const result = contractValidation[0];
@@ -1,27 +1,101 @@
 export {
   TropicalBlueBonoboToken,
   tropicalBlueBonoboToken,
-  tropicalBlueBonoboTokenTestnet
+  tropicalBlueBonoboTokenTestnet,
+  tropicalBlueBonoboTokenDevnet,
+  TOKEN_DECIMALS
 } from './lib/tropical-blue-bonobo';
-export type { TokenInfo, TokenMetadata, TransferOptions, ContractCallResult } from './lib/tropical-blue-bonobo';
+export type { TokenOptions } from './lib/tropical-blue-bonobo';
+
+export { Sip10Token } from './lib/sip10-token';
+export type {
+  TokenInfo,
+  TokenMetadata,
+  TransferOptions,
+  ContractCallResult,
+  Sip10TokenOptions,
+  TokenMetadataLocalization
+} from './lib/sip10-token';
+
+export { TokenAmount, TokenAmountError } from './lib/token-amount';
+export type { TokenAmountInput, FormatTokenAmountOptions } from './lib/token-amount';
+
+export {
+  MemoError,
+  encodeMemo,
+  decodeMemo,
+  validateMemo,
+  formatMemo,
+  memoToClarityValue,
+  decodeMemoFromClarityValue,
+  MAX_MEMO_BYTES,
+  STRUCTURED_MEMO_MARKER
+} from './lib/memo';
+export type { Memo, MemoInput, MemoEncoding, MemoValidationResult } from './lib/memo';
+
+export { validateStacksAddress, isValidStacksAddress, getAddressNetwork } from './lib/validators';
+export type {
+  AddressNetwork,
+  AddressValidationReason,
+  AddressValidationResult,
+  AddressValidationOptions
+} from './lib/validators';
+
+export {
+  NameService,
+  ApiNameBackend,
+  StaticNameBackend,
+  isBnsName,
+  nameService,
+  nameServiceTestnet,
+  nameServiceDevnet
+} from './lib/bns';
+export type { NameBackend, NameServiceOptions, RecipientResolution } from './lib/bns';
+
+export {
+  TokenMetadataResolver,
+  HttpMetadataFetcher,
+  GatewayMetadataFetcher,
+  StaticMetadataFetcher,
+  tokenMetadataResolver,
+  validateSip16Metadata,
+  decodeJsonDataUri,
+  getMetadataScheme,
+  DEFAULT_IPFS_GATEWAY,
+  DEFAULT_ARWEAVE_GATEWAY
+} from './lib/token-metadata';
+export type {
+  MetadataScheme,
+  MetadataFetcher,
+  MetadataValidationResult,
+  TokenMetadataResolverOptions,
+  ResolveMetadataOptions
+} from './lib/token-metadata';
 
 export {
   TBBFaucetContract,
   tbbFaucetContract,
-  tbbFaucetContractTestnet
+  tbbFaucetContractTestnet,
+  tbbFaucetContractDevnet
 } from './lib/spare-tomato-pelican';
 export type {
   FaucetClaimInfo,
   FaucetGlobalStats,
   RewardTier,
   ClaimResult,
-  ValidationResult
+  ValidationResult,
+  FaucetOptions,
+  FaucetCallOptions,
+  OnChainClaimData,
+  ClaimDiscrepancy,
+  ClaimReconciliationReport
 } from './lib/spare-tomato-pelican';
 
 export {
   TBBBatchTransferContract,
   tbbBatchTransferContract,
   tbbBatchTransferContractTestnet,
+  tbbBatchTransferContractDevnet,
   CONTRACT_ERRORS
 } from './lib/available-purple-squid';
 export type {
@@ -31,5 +105,201 @@ export type {
   BatchTransferSummary,
   RecipientValidation,
   CSVParseResult,
-  ContractError
-} from './lib/available-purple-squid';
\ No newline at end of file
+  BatchTransferOptions
+} from './lib/available-purple-squid';
+
+export {
+  AirdropPlanner,
+  AirdropError,
+  airdropPlanner,
+  airdropPlannerTestnet,
+  airdropPlannerDevnet
+} from './lib/airdrop';
+export type {
+  AirdropPlan,
+  AirdropChunk,
+  AirdropChunkStatus,
+  AirdropProgress,
+  AirdropPlannerOptions,
+  CreateAirdropPlanOptions,
+  ExecuteAirdropOptions
+} from './lib/airdrop';
+
+export {
+  TOKEN_ERRORS,
+  FAUCET_ERRORS,
+  BATCH_TRANSFER_ERRORS,
+  CONTRACT_ERROR_REGISTRY,
+  ContractCallError,
+  TokenContractError,
+  FaucetContractError,
+  BatchTransferContractError,
+  getContractErrorDefinition,
+  createContractError,
+  decodeContractError,
+  parseClarityErrorCode,
+  getContractKey,
+  getErrorMessage
+} from './lib/errors';
+export type { ContractKey, ContractError, ContractErrorDefinition } from './lib/errors';
+
+export {
+  DEFAULT_FAUCET_PARAMETERS,
+  discoverTierStreaks,
+  fetchFaucetParameters,
+  getRewardForStreak,
+  getTierIndex
+} from './lib/faucet-parameters';
+export type { FaucetParameters, StreakRewardReader } from './lib/faucet-parameters';
+
+export {
+  NETWORK_CONFIGS,
+  DEVNET_ACCOUNTS,
+  resolveNetwork,
+  createNetworkConfig,
+  getContractId,
+  getExplorerUrl
+} from './lib/network';
+export type { NetworkType, NetworkConfig, NetworkOption, ContractNames } from './lib/network';
+
+export {
+  MemoryCacheStore,
+  LocalStorageCacheStore,
+  AsyncBackedCacheStore,
+  IndexedDBCacheStore,
+  FileCacheStore,
+  createIndexedDBStorage,
+  getDefaultCacheStore,
+  setDefaultCacheStore,
+  resolveCacheStore
+} from './lib/cache-store';
+export type { CacheStore, AsyncKeyValueStorage, FileSystemAdapter, WebStorage } from './lib/cache-store';
+
+export {
+  ContractEventsService,
+  eventsService,
+  eventsServiceTestnet,
+  eventsServiceDevnet,
+  createTokenEventsService,
+  tokenEventsService,
+  tokenEventsServiceTestnet,
+  tokenEventsServiceDevnet
+} from './lib/events';
+export type {
+  EventMetadata,
+  ClaimEvent,
+  DepositEvent,
+  StreakMilestoneEvent,
+  TokenTransferEvent,
+  ParsedEvent,
+  TokenHolder,
+  LeaderboardMetric,
+  LeaderboardWindow,
+  LeaderboardOptions,
+  LeaderboardEntry,
+  Leaderboard,
+  UserAnalytics,
+  GlobalAnalytics,
+  EventCursor,
+  EventSyncState,
+  BlockRef,
+  EventsServiceOptions,
+  ConfirmationOptions,
+  EventSubscriptionFilter,
+  EventHandler,
+  BlockHandler
+} from './lib/events';
+
+export {
+  MemoryEventStore,
+  FileEventStore,
+  IndexedDBEventStore,
+  createDefaultEventStore
+} from './lib/event-store';
+export type {
+  EventStore,
+  EventQuery,
+  EventPage,
+  StoredEvent,
+  EventFileSystemAdapter,
+  EventStoreFileSystem,
+  ParsedEventType
+} from './lib/event-store';
+
+export {
+  BlockTimeEstimator,
+  ApiBlockTimeSource,
+  StaticBlockTimeSource,
+  estimateBlockTime,
+  estimateEta,
+  DEFAULT_SECONDS_PER_BLOCK,
+  blockTimeEstimator,
+  blockTimeEstimatorTestnet,
+  blockTimeEstimatorDevnet
+} from './lib/block-time';
+export type {
+  BlockTimeSample,
+  BlockTimeEstimate,
+  BlockEta,
+  BlockTimeSource,
+  BlockTimeEstimatorOptions
+} from './lib/block-time';
+
+export {
+  forecastRunway,
+  fitRunwayModel,
+  getRunwayHistoryStart
+} from './lib/runway';
+export type {
+  RunwayForecast,
+  RunwayScenario,
+  RunwayModel,
+  RunwayInputs,
+  RunwayOptions
+} from './lib/runway';
+
+export {
+  WebSocketBlockFeed,
+  SseBlockFeed,
+  StaticBlockFeed,
+  createDefaultBlockFeed
+} from './lib/event-stream';
+export type {
+  BlockFeed,
+  BlockFeedListener,
+  BlockFeedConnection,
+  BlockNotification,
+  WebSocketLike,
+  WebSocketConstructor,
+  WebSocketBlockFeedOptions
+} from './lib/event-stream';
+
+export { WalletSigner, PrivateKeySigner, SignerError, walletSigner } from './lib/signer';
+export type { Signer, ContractCallRequest, SignedCallResult, PrivateKeySignerOptions } from './lib/signer';
+
+export {
+  FeeEstimator,
+  FeeEstimationError,
+  NodeFeeRateSource,
+  StaticFeeRateSource,
+  FEE_PRIORITIES,
+  feeEstimator,
+  feeEstimatorTestnet,
+  feeEstimatorDevnet
+} from './lib/fees';
+export type { FeePriority, FeeOption, FeeEstimate, FeeRateSource, FeeEstimatorOptions } from './lib/fees';
+
+export {
+  TransactionTracker,
+  TransactionError,
+  TransactionTimeoutError,
+  transactionTracker,
+  transactionTrackerTestnet,
+  transactionTrackerDevnet
+} from './lib/transactions';
+export type {
+  TransactionStatus,
+  TransactionUpdate,
+  TrackOptions,
+  TransactionTrackerOptions
+} from './lib/transactions';
@@ -0,0 +1,365 @@
+/**
+ * Airdrop Planner
+ * Splits recipient lists of any size into sequential send-many transactions
+ *
+ * send-many takes at most 200 recipients and is all-or-nothing: if any
+ * transfer in a call fails, the whole call rolls back. The planner therefore
+ * tracks each chunk separately - its post-condition, txId and on-chain
+ * outcome - and persists the plan, so an interrupted airdrop can be resumed
+ * without paying anyone twice:
+ * - confirmed chunks are never sent again
+ * - a chunk with a broadcast txId is tracked to its outcome before any retry
+ * - only chunks whose transaction failed on-chain (or never broadcast) are resent
+ */
+
+import { PostCondition } from '@stacks/transactions';
+import { getCacheEntry, setCacheEntry, removeCacheEntry, getCacheKeysByPrefix } from './serializers';
+import { CacheStore, resolveCacheStore } from './cache-store';
+import { NetworkConfig, NetworkOption, resolveNetwork } from './network';
+import { TokenAmount } from './token-amount';
+import { MemoInput, validateMemo } from './memo';
+import { TBBBatchTransferContract, BatchTransferRecipient } from './available-purple-squid';
+import { TransactionTracker, TransactionUpdate, TransactionTimeoutError } from './transactions';
+import { TOKEN_DECIMALS } from './tropical-blue-bonobo';
+import { getErrorMessage } from './errors';
+import { Signer } from './signer';
+
+export type AirdropChunkStatus = 'pending' | 'submitted' | 'confirmed' | 'failed';
+
+export interface AirdropChunk {
+  index: number;
+  recipients: BatchTransferRecipient[];
+  /** Amount the sender's post-condition pins for this chunk */
+  totalAmount: TokenAmount;
+  status: AirdropChunkStatus;
+  /** Transaction of the latest attempt */
+  txId?: string;
+  /** Transactions of earlier attempts that failed on-chain (nothing was paid) */
+  failedTxIds: string[];
+  blockHeight?: number;
+  error?: string;
+}
+
+export interface AirdropPlan {
+  id: string;
+  network: string;
+  sender: string;
+  /** Memo for recipients without their own */
+  memo?: MemoInput;
+  chunks: AirdropChunk[];
+  totalRecipients: number;
+  totalAmount: TokenAmount;
+  /** Milliseconds since epoch */
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AirdropProgress {
+  totalChunks: number;
+  confirmedChunks: number;
+  submittedChunks: number;
+  failedChunks: number;
+  pendingChunks: number;
+  paidRecipients: number;
+  amountSent: TokenAmount;
+  amountRemaining: TokenAmount;
+  isComplete: boolean;
+}
+
+export interface CreateAirdropPlanOptions {
+  sender: string;
+  memo?: MemoInput;
+  /** Plan id (defaults to a timestamp-based id) */
+  id?: string;
+}
+
+export interface ExecuteAirdropOptions {
+  /** Called whenever a chunk changes status */
+  onUpdate?: (plan: AirdropPlan, chunk: AirdropChunk) => void;
+  signal?: AbortSignal;
+}
+
+export interface AirdropPlannerOptions {
+  /** Recipients per send-many call (at most 200) */
+  chunkSize?: number;
+  /**
+   * Storage for plans, so interrupted airdrops can be resumed (defaults to localStorage in browsers, memory elsewhere)
+   * In Node, pass a FileCacheStore - in-memory plans are gone once the process exits
+   */
+  cacheStore?: CacheStore;
+  /** Signs the chunks when no batchTransferContract is given (defaults to the browser wallet) */
+  signer?: Signer;
+  batchTransferContract?: TBBBatchTransferContract;
+  tracker?: TransactionTracker;
+}
+
+/**
+ * Raised for recipient lists that can't be planned
+ */
+export class AirdropError extends Error {
+  readonly errors: string[];
+
+  constructor(message: string, errors: string[] = []) {
+    super(errors.length > 0 ? `${message}: ${errors.join('; ')}` : message);
+    this.name = 'AirdropError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Airdrop Planner
+ * Plans, executes and resumes chunked batch transfers
+ */
+export class AirdropPlanner {
+  private readonly config: NetworkConfig;
+  private readonly chunkSize: number;
+  private readonly cacheStore: CacheStore;
+  private readonly batchTransferContract: TBBBatchTransferContract;
+  private readonly tracker: TransactionTracker;
+  private readonly cachePrefix: string;
+
+  // Plans are kept for 30 days - long enough to resume, short enough to not pile up
+  private readonly PLAN_TTL = 30 * 24 * 60 * 60 * 1000;
+
+  constructor(network: NetworkOption = 'testnet', options: AirdropPlannerOptions = {}) {
+    this.config = resolveNetwork(network);
+    this.batchTransferContract = options.batchTransferContract
+      || new TBBBatchTransferContract(this.config, { signer: options.signer });
+    this.tracker = options.tracker || new TransactionTracker(this.config);
+    this.cacheStore = resolveCacheStore(options.cacheStore);
+    this.cachePrefix = `airdrop-plan:${this.config.name}:`;
+
+    const maxChunkSize = this.batchTransferContract.getMaxRecipientsLimit();
+    this.chunkSize = options.chunkSize ?? maxChunkSize;
+    if (!Number.isInteger(this.chunkSize) || this.chunkSize < 1 || this.chunkSize > maxChunkSize) {
+      throw new AirdropError(`Chunk size must be between 1 and ${maxChunkSize}`);
+    }
+  }
+
+  // PLAN STORAGE
+
+  /**
+   * Persist a plan (called after every status change during execution)
+   */
+  savePlan(plan: AirdropPlan): void {
+    plan.updatedAt = Date.now();
+    setCacheEntry(this.cachePrefix + plan.id, plan, this.PLAN_TTL, this.cacheStore);
+  }
+
+  /**
+   * Load a saved plan
+   */
+  loadPlan(id: string): AirdropPlan | null {
+    return getCacheEntry<AirdropPlan>(this.cachePrefix + id, this.cacheStore);
+  }
+
+  /**
+   * Ids of all saved plans on this network
+   */
+  listPlans(): string[] {
+    return getCacheKeysByPrefix(this.cachePrefix, this.cacheStore).map(key => key.slice(this.cachePrefix.length));
+  }
+
+  deletePlan(id: string): void {
+    removeCacheEntry(this.cachePrefix + id, this.cacheStore);
+  }
+
+  // PLANNING
+
+  /**
+   * Check a full recipient list (no size limit) - the per-call checks run on every chunk too
+   */
+  validateRecipients(recipients: BatchTransferRecipient[], sender: string): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    if (recipients.length === 0) {
+      errors.push('At least one recipient is required');
+    }
+
+    // Duplicates are checked across the whole list - in different chunks they would be paid twice
+    const seen = new Map<string, number>();
+    recipients.forEach((recipient, index) => {
+      const key = recipient.address.toLowerCase();
+      if (seen.has(key)) {
+        errors.push(`Recipient ${index + 1} duplicates recipient ${seen.get(key)! + 1} (${recipient.address})`);
+      } else {
+        seen.set(key, index);
+      }
+    });
+
+    this.batchTransferContract.validateRecipients(recipients).forEach((validation, index) => {
+      if (!validation.isValid) {
+        errors.push(`Recipient ${index + 1} (${validation.address || 'no address'}): ${validation.error}`);
+      }
+    });
+
+    if (recipients.some(recipient => recipient.address.toLowerCase() === sender.toLowerCase())) {
+      errors.push('Cannot send tokens to yourself');
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  /**
+   * Split recipients into chunks and save the plan
+   * Throws an AirdropError listing every problem if the list is invalid
+   */
+  createPlan(recipients: BatchTransferRecipient[], options: CreateAirdropPlanOptions): AirdropPlan {
+    const { sender, memo } = options;
+    const { errors } = this.validateRecipients(recipients, sender);
+    const memoValidation = memo ? validateMemo(memo) : null;
+    if (memoValidation?.error) {
+      errors.push(memoValidation.error);
+    }
+    if (errors.length > 0) {
+      throw new AirdropError('Invalid airdrop', errors);
+    }
+
+    const chunks: AirdropChunk[] = [];
+    for (let start = 0; start < recipients.length; start += this.chunkSize) {
+      const chunkRecipients = recipients.slice(start, start + this.chunkSize);
+      chunks.push({
+        index: chunks.length,
+        recipients: chunkRecipients,
+        totalAmount: this.batchTransferContract.calculateTotalAmount(chunkRecipients),
+        status: 'pending',
+        failedTxIds: [],
+      });
+    }
+
+    const now = Date.now();
+    const plan: AirdropPlan = {
+      id: options.id || `airdrop-${now}`,
+      network: this.config.name,
+      sender,
+      memo,
+      chunks,
+      totalRecipients: recipients.length,
+      totalAmount: this.batchTransferContract.calculateTotalAmount(recipients),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.savePlan(plan);
+    return plan;
+  }
+
+  /**
+   * Post-conditions for one chunk - the sender sends exactly the chunk total
+   */
+  getChunkPostConditions(plan: AirdropPlan, chunk: AirdropChunk): PostCondition[] {
+    return this.batchTransferContract.createPostConditions(plan.sender, chunk.recipients);
+  }
+
+  /**
+   * Progress summary of a plan
+   */
+  getProgress(plan: AirdropPlan): AirdropProgress {
+    const countChunks = (status: AirdropChunkStatus) => plan.chunks.filter(chunk => chunk.status === status).length;
+    const confirmed = plan.chunks.filter(chunk => chunk.status === 'confirmed');
+    const amountSent = TokenAmount.sum(confirmed.map(chunk => chunk.totalAmount), TOKEN_DECIMALS);
+
+    return {
+      totalChunks: plan.chunks.length,
+      confirmedChunks: confirmed.length,
+      submittedChunks: countChunks('submitted'),
+      failedChunks: countChunks('failed'),
+      pendingChunks: countChunks('pending'),
+      paidRecipients: confirmed.reduce((total, chunk) => total + chunk.recipients.length, 0),
+      amountSent,
+      amountRemaining: plan.totalAmount.sub(amountSent),
+      isComplete: confirmed.length === plan.chunks.length,
+    };
+  }
+
+  // EXECUTION
+
+  /**
+   * Send the plan's chunks one after another, waiting for each to confirm
+   *
+   * Safe to call again on a partially executed plan (e.g. after a wallet
+   * rejection, an on-chain failure or a page reload): it picks up where the
+   * plan left off. Stops at the first chunk that fails and returns the plan.
+   * A TransactionTimeoutError leaves the chunk `submitted` - resuming keeps
+   * tracking it rather than sending it again.
+   */
+  async execute(plan: AirdropPlan, options: ExecuteAirdropOptions = {}): Promise<AirdropPlan> {
+    const { onUpdate, signal } = options;
+
+    const update = (chunk: AirdropChunk, changes: Partial<AirdropChunk>) => {
+      Object.assign(chunk, changes);
+      this.savePlan(plan);
+      onUpdate?.(plan, chunk);
+    };
+
+    for (const chunk of plan.chunks) {
+      if (chunk.status === 'confirmed') continue;
+      if (signal?.aborted) break;
+
+      // A broadcast transaction may still confirm - find out before sending anything again
+      if (chunk.txId && chunk.status !== 'pending') {
+        const outcome = await this.trackChunk(chunk.txId, signal);
+        if (!outcome) return plan;
+        if (outcome.status === 'success') {
+          update(chunk, { status: 'confirmed', blockHeight: outcome.blockHeight, error: undefined });
+          continue;
+        }
+        // Failed on-chain: send-many rolled back, so nobody in this chunk was paid
+        update(chunk, {
+          status: 'pending',
+          failedTxIds: [...chunk.failedTxIds, chunk.txId],
+          txId: undefined,
+          error: outcome.error?.message,
+        });
+      }
+
+      const result = await this.batchTransferContract.executeBatchTransfer({
+        recipients: chunk.recipients,
+        sender: plan.sender,
+        memo: plan.memo,
+      });
+
+      if (!result.success || !result.txId) {
+        // Nothing was broadcast (e.g. rejected in the wallet)
+        update(chunk, { status: 'failed', error: result.error || 'Transaction was not broadcast' });
+        return plan;
+      }
+
+      update(chunk, { status: 'submitted', txId: result.txId, error: undefined });
+
+      const outcome = await this.trackChunk(result.txId, signal);
+      if (!outcome) return plan;
+
+      if (outcome.status !== 'success') {
+        update(chunk, { status: 'failed', error: outcome.error?.message });
+        return plan;
+      }
+
+      update(chunk, { status: 'confirmed', blockHeight: outcome.blockHeight });
+    }
+
+    return plan;
+  }
+
+  /**
+   * Final status of a chunk's transaction, or null if tracking timed out or was aborted
+   */
+  private async trackChunk(txId: string, signal?: AbortSignal): Promise<TransactionUpdate | null> {
+    try {
+      return await this.tracker.track(txId, { signal });
+    } catch (error) {
+      if (!(error instanceof TransactionTimeoutError)) {
+        console.warn(`Stopped tracking airdrop transaction ${txId}:`, getErrorMessage(error));
+      }
+      return null;
+    }
+  }
+}
+
+// Export singleton instances for each preset network
+export const airdropPlanner = new AirdropPlanner('mainnet');
+export const airdropPlannerTestnet = new AirdropPlanner('testnet');
+export const airdropPlannerDevnet = new AirdropPlanner('devnet');
+
+// Export the class for custom instances
+export default AirdropPlanner;
@@ -1,18 +1,28 @@
-import { isValidStacksAddress } from './validators';
-import { Cl, ClarityValue, Pc } from '@stacks/transactions';
-import { request } from '@stacks/connect';
-import { CallContractParams } from '@stacks/connect/dist/types/methods';
+import { validateStacksAddress } from './validators';
+import { Cl, ClarityValue, Pc, PostCondition } from '@stacks/transactions';
+import { NetworkConfig, NetworkOption, getContractId, getExplorerUrl, resolveNetwork } from './network';
+import { BATCH_TRANSFER_ERRORS, ContractError, decodeContractError, getErrorMessage } from './errors';
+import { TokenAmount, TokenAmountInput } from './token-amount';
+import { TOKEN_DECIMALS } from './tropical-blue-bonobo';
+import { MemoInput, memoToClarityValue, validateMemo } from './memo';
+import { ContractCallRequest, Signer, walletSigner } from './signer';
+import { FeeEstimate, FeeEstimator } from './fees';
 
 // Type definitions for batch transfer functionality
 export interface BatchTransferRecipient {
     address: string;
-    amount: number;
+    amount: TokenAmount;
+    /** Memo for this transfer only - overrides the request memo */
+    memo?: MemoInput;
 }
 
 export interface BatchTransferRequest {
     recipients: BatchTransferRecipient[];
     sender: string;
-    memo?: string;
+    /** Memo for recipients without their own - plain strings are UTF-8 text, at most 34 bytes */
+    memo?: MemoInput;
+    /** Fee in microSTX, e.g. an option from `estimateBatchTransferFee` (the wallet picks one when omitted) */
+    fee?: bigint | number;
 }
 
 export interface BatchTransferResult {
@@ -23,17 +33,17 @@ export interface BatchTransferResult {
 
 export interface BatchTransferSummary {
     totalRecipients: number;
-    totalAmount: number;
+    totalAmount: TokenAmount;
     validRecipients: number;
     invalidRecipients: number;
-    averageAmount: number;
-    largestTransfer: number;
-    smallestTransfer: number;
+    averageAmount: TokenAmount;
+    largestTransfer: TokenAmount;
+    smallestTransfer: TokenAmount;
 }
 
 export interface RecipientValidation {
     address: string;
-    amount: number;
+    amount: TokenAmount;
     isValid: boolean;
     error?: string;
 }
@@ -43,37 +53,30 @@ export interface CSVParseResult {
     errors: string[];
     validCount: number;
     invalidCount: number;
+    /** More recipients than one send-many takes - send them with an AirdropPlanner */
+    exceedsBatchLimit: boolean;
 }
 
-export interface ContractError {
-    code: number;
-    message: string;
+export interface BatchTransferOptions {
+    /** Signs batch transfers (defaults to the browser wallet - use a PrivateKeySigner in Node) */
+    signer?: Signer;
+    /** Estimates batch fees (defaults to one using the network's node) */
+    feeEstimator?: FeeEstimator;
 }
 
-export const CONTRACT_ERRORS = {
-    NOT_ENOUGH_BALANCE: { code: 1, message: 'Insufficient balance' },
-    SENDER_RECIPIENT: { code: 2, message: 'Cannot send to same address' },
-    INVALID_AMOUNT: { code: 3, message: 'Invalid amount (must be > 0)' },
-    NOT_TOKEN_OWNER: { code: 4, message: 'Not authorized to transfer tokens' }
-} as const;
+export type { ContractError } from './errors';
 
-// Contract details by network
-const CONTRACT_ADDRESSES = {
-    mainnet: 'SP2ZNGJ85ENDY6QRHQ5P2D4FXKGZWCKTB2T0Z55KS',
-    testnet: 'ST2ZNGJ85ENDY6QRHQ5P2D4FXKGZWCKTB2SYCBMRR',
-} as const;
-
-const TOKEN_CONTRACT_NAME = 'tropical-blue-bonobo';
-const BATCH_TRANSFER_CONTRACT_NAME = 'available-purple-squid';
-
-type NetworkType = 'mainnet' | 'testnet';
+// Batch transfers fail with the token's error codes (see errors.ts)
+export const CONTRACT_ERRORS = BATCH_TRANSFER_ERRORS;
 
 /**
  * TBB Batch Transfer Contract Wrapper
  * Provides batch transfer functionality with proper read-only vs public function distinction
  */
 export class TBBBatchTransferContract {
-    private readonly network: NetworkType;
+    private readonly config: NetworkConfig;
+    private readonly signer: Signer;
+    private readonly feeEstimator: FeeEstimator;
 
     // Constants
     private readonly MAX_RECIPIENTS = 200;
@@ -81,20 +84,18 @@ export class TBBBatchTransferContract {
     private readonly BASE_FEE = 0.0003; // STX per transaction
     private readonly FEE_PER_RECIPIENT = 0.0001; // STX per additional recipient
 
-    constructor(network: NetworkType = 'testnet') {
-        this.network = network;
-    }
-
-    private get contractAddress(): string {
-        return CONTRACT_ADDRESSES[this.network];
+    constructor(network: NetworkOption = 'testnet', options: BatchTransferOptions = {}) {
+        this.config = resolveNetwork(network);
+        this.signer = options.signer || walletSigner;
+        this.feeEstimator = options.feeEstimator || new FeeEstimator(this.config);
     }
 
     private get fullBatchTransferContractId(): `${string}.${string}` {
-        return `${this.contractAddress}.${BATCH_TRANSFER_CONTRACT_NAME}`;
+        return getContractId(this.config, 'batchTransfer');
     }
 
     private get fullTokenContractId(): `${string}.${string}` {
-        return `${this.contractAddress}.${TOKEN_CONTRACT_NAME}`;
+        return getContractId(this.config, 'token');
     }
 
     // READ-ONLY FUNCTIONS (return actual data)
@@ -110,28 +111,37 @@ export class TBBBatchTransferContract {
                 isValid: true
             };
 
-            // Validate address
-            if (!recipient.address) {
-                validation.isValid = false;
-                validation.error = 'Address is required';
-            } else if (!isValidStacksAddress(recipient.address)) {
+            // Validate address (contract principals can receive tokens too)
+            const addressValidation = validateStacksAddress(recipient.address, { network: this.config });
+            if (!addressValidation.isValid) {
                 validation.isValid = false;
-                validation.error = 'Invalid Stacks address format';
+                validation.error = addressValidation.error;
             }
 
             // Validate amount
-            if (!recipient.amount || recipient.amount <= 0) {
+            if (!recipient.amount || !recipient.amount.isPositive()) {
                 validation.isValid = false;
                 validation.error = validation.error
                     ? `${validation.error}; Amount must be greater than 0`
                     : 'Amount must be greater than 0';
-            } else if (recipient.amount < this.MIN_AMOUNT) {
+            } else if (recipient.amount.lt(this.MIN_AMOUNT)) {
                 validation.isValid = false;
                 validation.error = validation.error
                     ? `${validation.error}; Minimum amount is ${this.MIN_AMOUNT}`
                     : `Minimum amount is ${this.MIN_AMOUNT}`;
             }
 
+            // Validate memo
+            if (recipient.memo) {
+                const memoValidation = validateMemo(recipient.memo);
+                if (!memoValidation.isValid) {
+                    validation.isValid = false;
+                    validation.error = validation.error
+                        ? `${validation.error}; ${memoValidation.error}`
+                        : memoValidation.error;
+                }
+            }
+
             return validation;
         });
     }
@@ -139,10 +149,10 @@ export class TBBBatchTransferContract {
     /**
      * Calculate total amount for batch transfer
      */
-    calculateTotalAmount(recipients: BatchTransferRecipient[]): number {
+    calculateTotalAmount(recipients: BatchTransferRecipient[]): TokenAmount {
         return recipients.reduce((total, recipient) => {
-            return total + (recipient.amount || 0);
-        }, 0);
+            return recipient.amount ? total.add(recipient.amount) : total;
+        }, TokenAmount.zero(TOKEN_DECIMALS));
     }
 
     /**
@@ -153,7 +163,8 @@ export class TBBBatchTransferContract {
     }
 
     /**
-     * Calculate estimated transaction fee
+     * Rough fee in STX from fixed constants, for offline previews
+     * @deprecated Doesn't follow network fees - use estimateBatchTransferFee
      */
     getBatchTransferFee(recipientCount: number): number {
         return this.BASE_FEE + (this.FEE_PER_RECIPIENT * Math.max(0, recipientCount - 1));
@@ -165,16 +176,17 @@ export class TBBBatchTransferContract {
     generateBatchSummary(recipients: BatchTransferRecipient[]): BatchTransferSummary {
         const validations = this.validateRecipients(recipients);
         const validRecipients = validations.filter(v => v.isValid);
-        const amounts = validRecipients.map(v => v.amount);
+        const [firstAmount, ...amounts] = validRecipients.map(v => v.amount);
+        const zero = TokenAmount.zero(TOKEN_DECIMALS);
 
         return {
             totalRecipients: recipients.length,
             totalAmount: this.calculateTotalAmount(recipients),
             validRecipients: validRecipients.length,
             invalidRecipients: validations.length - validRecipients.length,
-            averageAmount: amounts.length > 0 ? amounts.reduce((a, b) => a + b, 0) / amounts.length : 0,
-            largestTransfer: amounts.length > 0 ? Math.max(...amounts) : 0,
-            smallestTransfer: amounts.length > 0 ? Math.min(...amounts) : 0
+            averageAmount: firstAmount ? TokenAmount.sum([firstAmount, ...amounts], TOKEN_DECIMALS).div(validRecipients.length) : zero,
+            largestTransfer: firstAmount ? TokenAmount.max(firstAmount, ...amounts) : zero,
+            smallestTransfer: firstAmount ? TokenAmount.min(firstAmount, ...amounts) : zero
         };
     }
 
@@ -185,10 +197,11 @@ export class TBBBatchTransferContract {
         const errors: string[] = [];
 
         // Validate sender
+        const senderValidation = validateStacksAddress(request.sender, { network: this.config, allowContracts: false });
         if (!request.sender) {
             errors.push('Sender address is required');
-        } else if (!isValidStacksAddress(request.sender)) {
-            errors.push('Invalid sender address format');
+        } else if (!senderValidation.isValid) {
+            errors.push(`Invalid sender address: ${senderValidation.error}`);
         }
 
         // Validate recipients array
@@ -223,6 +236,14 @@ export class TBBBatchTransferContract {
             }
         }
 
+        // Validate memo against the (buff 34) limit
+        if (request.memo) {
+            const memoValidation = validateMemo(request.memo);
+            if (!memoValidation.isValid && memoValidation.error) {
+                errors.push(memoValidation.error);
+            }
+        }
+
         return {
             isValid: errors.length === 0,
             errors
@@ -231,13 +252,15 @@ export class TBBBatchTransferContract {
 
     /**
      * Parse CSV data into recipients
+     * Every valid row is kept - check `exceedsBatchLimit` before sending them in one call
      */
     parseCSVData(csvContent: string): CSVParseResult {
         const result: CSVParseResult = {
             recipients: [],
             errors: [],
             validCount: 0,
-            invalidCount: 0
+            invalidCount: 0,
+            exceedsBatchLimit: false
         };
 
         try {
@@ -249,9 +272,10 @@ export class TBBBatchTransferContract {
             }
 
             // Parse header
-            const headers = lines[0].toLowerCase().split(',').map(h => h.trim());
+            const headers = this.splitCSVLine(lines[0].toLowerCase());
             const addressIndex = headers.indexOf('address');
             const amountIndex = headers.indexOf('amount');
+            const memoIndex = headers.indexOf('memo'); // optional
 
             if (addressIndex === -1) {
                 result.errors.push('CSV must have an "address" column');
@@ -268,7 +292,7 @@ export class TBBBatchTransferContract {
                 const line = lines[i].trim();
                 if (!line) continue; // Skip empty lines
 
-                const values = line.split(',').map(v => v.trim());
+                const values = this.splitCSVLine(line);
 
                 if (values.length < Math.max(addressIndex, amountIndex) + 1) {
                     result.errors.push(`Row ${i + 1}: Insufficient columns`);
@@ -277,7 +301,7 @@ export class TBBBatchTransferContract {
 
                 const address = values[addressIndex];
                 const amountStr = values[amountIndex];
-                const amount = parseFloat(amountStr);
+                const amount = TokenAmount.tryParse(amountStr, TOKEN_DECIMALS);
 
                 if (!address) {
                     result.errors.push(`Row ${i + 1}: Missing address`);
@@ -285,23 +309,29 @@ export class TBBBatchTransferContract {
                     continue;
                 }
 
-                if (isNaN(amount) || amount <= 0) {
+                if (!amount || !amount.isPositive()) {
                     result.errors.push(`Row ${i + 1}: Invalid amount "${amountStr}"`);
                     result.invalidCount++;
                     continue;
                 }
 
+                const memo = memoIndex !== -1 ? values[memoIndex] : '';
+                if (memo) {
+                    const memoValidation = validateMemo(memo);
+                    if (!memoValidation.isValid) {
+                        result.errors.push(`Row ${i + 1}: ${memoValidation.error}`);
+                        result.invalidCount++;
+                        continue;
+                    }
+                }
+
                 // Add valid recipient
-                result.recipients.push({ address, amount });
+                result.recipients.push(memo ? { address, amount, memo } : { address, amount });
                 result.validCount++;
             }
 
-            // Check recipient limit
-            if (result.recipients.length > this.MAX_RECIPIENTS) {
-                result.errors.push(`Too many recipients: ${result.recipients.length}. Maximum is ${this.MAX_RECIPIENTS}`);
-                result.recipients = result.recipients.slice(0, this.MAX_RECIPIENTS);
-                result.validCount = this.MAX_RECIPIENTS;
-            }
+            // Larger lists are kept whole (not truncated) so they can be sent as an airdrop plan
+            result.exceedsBatchLimit = result.recipients.length > this.MAX_RECIPIENTS;
 
         } catch (error) {
             result.errors.push(`CSV parsing error: ${error}`);
@@ -311,16 +341,50 @@ export class TBBBatchTransferContract {
     }
 
     /**
-     * Generate CSV template for download
+     * Split a CSV line into trimmed values
+     * Values may be double-quoted so memos can contain commas (`""` is an escaped quote)
+     */
+    private splitCSVLine(line: string): string[] {
+        const values: string[] = [];
+        let current = '';
+        let inQuotes = false;
+
+        for (let i = 0; i < line.length; i++) {
+            const char = line[i];
+            if (inQuotes) {
+                if (char === '"' && line[i + 1] === '"') {
+                    current += '"';
+                    i++;
+                } else if (char === '"') {
+                    inQuotes = false;
+                } else {
+                    current += char;
+                }
+            } else if (char === '"') {
+                inQuotes = true;
+            } else if (char === ',') {
+                values.push(current.trim());
+                current = '';
+            } else {
+                current += char;
+            }
+        }
+
+        values.push(current.trim());
+        return values;
+    }
+
+    /**
+     * Generate CSV template for download (the memo column is optional)
      */
     generateCSVTemplate(): string {
         return [
-            'address,amount',
-            'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM,1000000',
-            'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG,5000000',
-            'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC,10000000',
-            'ST3PF13W7Z0RRM42A8VZRVFQ75SV1K26RXEP8YGKJ,25000000',
-            'ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5,50000000'
+            'address,amount,memo',
+            'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM,1000000,Payroll March',
+            'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG,5000000,Bounty #42',
+            'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC,10000000,"Bounty #43, docs"',
+            'ST3PF13W7Z0RRM42A8VZRVFQ75SV1K26RXEP8YGKJ,25000000,',
+            'ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5,50000000,'
         ].join('\n');
     }
 
@@ -329,7 +393,7 @@ export class TBBBatchTransferContract {
      */
     getContractInfo() {
         return {
-            network: this.network,
+            network: this.config.name,
             batchTransferContractId: this.getBatchTransferContractId(),
             tokenContractId: this.getTokenContractId(),
             maxRecipients: this.MAX_RECIPIENTS,
@@ -338,43 +402,40 @@ export class TBBBatchTransferContract {
         };
     }
 
+    /**
+     * Get the network configuration this wrapper talks to
+     */
+    getNetworkConfig(): NetworkConfig {
+        return this.config;
+    }
+
     /**
      * Get the explorer URL for a transaction
      */
     getTransactionUrl(txId: string): string {
-        return `https://explorer.stacks.co/txid/${txId}?chain=${this.network}`;
+        return getExplorerUrl(this.config, `txid/${txId}`);
     }
 
     /**
      * Get the explorer URL for the batch transfer contract
      */
     getBatchTransferContractUrl(): string {
-        return `https://explorer.stacks.co/txid/${this.getBatchTransferContractId()}?chain=${this.network}`;
+        return getExplorerUrl(this.config, `txid/${this.getBatchTransferContractId()}`);
     }
 
     /**
      * Get the explorer URL for the token contract
      */
     getTokenContractUrl(): string {
-        return `https://explorer.stacks.co/txid/${this.getTokenContractId()}?chain=${this.network}`;
+        return getExplorerUrl(this.config, `txid/${this.getTokenContractId()}`);
     }
 
     /**
      * Decode contract error from Clarity response
      */
     decodeContractError(errorCode: number): ContractError | null {
-        switch (errorCode) {
-            case 1:
-                return CONTRACT_ERRORS.NOT_ENOUGH_BALANCE;
-            case 2:
-                return CONTRACT_ERRORS.SENDER_RECIPIENT;
-            case 3:
-                return CONTRACT_ERRORS.INVALID_AMOUNT;
-            case 4:
-                return CONTRACT_ERRORS.NOT_TOKEN_OWNER;
-            default:
-                return { code: errorCode, message: `Unknown error code: ${errorCode}` };
-        }
+        const definition = decodeContractError('batchTransfer', errorCode)?.definition;
+        return definition || { code: errorCode, message: `Unknown error code: ${errorCode}` };
     }
 
     /**
@@ -384,12 +445,11 @@ export class TBBBatchTransferContract {
         if (response.type === 'ok') {
             return { success: true };
         } else if (response.type === 'err') {
-            const errorCode = response.value.type === 'uint' ? Number(response.value.value) : 0;
-            const contractError = this.decodeContractError(errorCode);
+            const contractError = decodeContractError('batchTransfer', response);
             return {
                 success: false,
-                error: contractError?.message || 'Unknown contract error',
-                errorCode
+                error: contractError?.userMessage || 'Unknown contract error',
+                errorCode: contractError?.code
             };
         }
 
@@ -403,11 +463,7 @@ export class TBBBatchTransferContract {
      */
     async checkContractDeployment(contractId: string): Promise<boolean> {
         try {
-            const apiUrl = this.network === 'mainnet'
-                ? 'https://api.mainnet.hiro.so'
-                : 'https://api.testnet.hiro.so';
-
-            const response = await fetch(`${apiUrl}/extended/v1/contract/${contractId}`);
+            const response = await fetch(`${this.config.apiUrl}/extended/v1/contract/${contractId}`);
 
             // Return true if contract is found (200), false if not found (404) or other errors
             return response.status === 200;
@@ -455,19 +511,20 @@ export class TBBBatchTransferContract {
 
     /**
      * Create a single recipient tuple in Clarity format
+     * The recipient's own memo wins over the batch memo
      */
-    createClarityRecipient(recipient: BatchTransferRecipient, memo?: string): ClarityValue {
+    createClarityRecipient(recipient: BatchTransferRecipient, memo?: MemoInput): ClarityValue {
         return Cl.tuple({
             to: Cl.principal(recipient.address),
-            amount: Cl.uint(recipient.amount),
-            memo: memo ? Cl.some(Cl.bufferFromUtf8(memo)) : Cl.none()
+            amount: Cl.uint(recipient.amount.toBaseUnits()),
+            memo: memoToClarityValue(recipient.memo || memo)
         });
     }
 
     /**
      * Convert recipients to Clarity list format
      */
-    createClarityRecipientsList(recipients: BatchTransferRecipient[], memo?: string): ClarityValue {
+    createClarityRecipientsList(recipients: BatchTransferRecipient[], memo?: MemoInput): ClarityValue {
         const clarityRecipients = recipients.map(recipient =>
             this.createClarityRecipient(recipient, memo)
         );
@@ -478,10 +535,22 @@ export class TBBBatchTransferContract {
     /**
      * Create contract call arguments for send-many function
      */
-    createContractCallArgs(recipients: BatchTransferRecipient[], memo?: string): ClarityValue[] {
+    createContractCallArgs(recipients: BatchTransferRecipient[], memo?: MemoInput): ClarityValue[] {
         return [this.createClarityRecipientsList(recipients, memo)];
     }
 
+    /**
+     * Post-conditions for one send-many call - the sender sends exactly the batch total
+     */
+    createPostConditions(sender: string, recipients: BatchTransferRecipient[]): PostCondition[] {
+        const totalAmount = this.calculateTotalAmount(recipients);
+        return [
+            Pc.principal(sender)
+                .willSendEq(totalAmount.toBaseUnits())
+                .ft(this.getTokenContractId(), 'TKN')
+        ];
+    }
+
     /**
      * Get the full contract ID for batch transfers
      */
@@ -529,7 +598,7 @@ export class TBBBatchTransferContract {
     // PUBLIC FUNCTIONS (return txId only)
 
     /**
-     * Execute batch transfer using Stacks Connect
+     * Execute batch transfer through the configured signer (browser wallet by default)
      * Returns transaction ID only - success/failure determined later
      */
     async executeBatchTransfer(requestParams: BatchTransferRequest): Promise<BatchTransferResult> {
@@ -544,36 +613,12 @@ export class TBBBatchTransferContract {
                 };
             }
 
-            const { recipients, sender, memo } = requestParams;
-
-            // Build function arguments
-            const functionArgs = this.createContractCallArgs(recipients, memo);
-
-            // Calculate total amount for post conditions
-            const totalAmount = this.calculateTotalAmount(recipients);
-
-            // Build post conditions to ensure the sender has enough tokens
-            const postConditions = [
-                Pc.principal(sender)
-                    .willSendEq(totalAmount)
-                    .ft(this.getTokenContractId(), 'TKN')
-            ];
-
-            const params: CallContractParams = {
-                contract: this.getBatchTransferContractId(),
-                functionName: this.getFunctionName(),
-                functionArgs,
-                network: this.network,
-                postConditionMode: 'deny',
-                postConditions,
-            };
-
-            const response = await request('stx_callContract', params);
+            const response = await this.signer.callContract(this.buildBatchTransferCall(requestParams));
 
             console.log('Batch transfer response:', response);
 
             return {
-                txId: response.txid || '',
+                txId: response.txId,
                 success: true,
             };
 
@@ -582,26 +627,49 @@ export class TBBBatchTransferContract {
             return {
                 txId: '',
                 success: false,
-                error: `Batch transfer failed: ${error}`,
+                error: `Batch transfer failed: ${getErrorMessage(error)}`,
             };
         }
     }
 
+    /**
+     * Estimate low/medium/high fees for a batch transfer
+     * The fee grows with the number of recipients - pass the chosen option's `fee` in the request
+     */
+    async estimateBatchTransferFee(request: BatchTransferRequest): Promise<FeeEstimate> {
+        return this.feeEstimator.estimateContractCall(this.buildBatchTransferCall(request));
+    }
+
+    private buildBatchTransferCall(request: BatchTransferRequest): ContractCallRequest {
+        const { recipients, sender, memo, fee } = request;
+        return {
+            contract: this.getBatchTransferContractId(),
+            functionName: this.getFunctionName(),
+            functionArgs: this.createContractCallArgs(recipients, memo),
+            network: this.config,
+            postConditionMode: 'deny',
+            // Ensure the sender sends exactly the batch total
+            postConditions: this.createPostConditions(sender, recipients),
+            fee,
+        };
+    }
+
     /**
      * Execute individual transfer (wrapper around batch transfer)
      */
-    async executeTransfer(sender: string, recipient: string, amount: number, memo?: string): Promise<BatchTransferResult> {
+    async executeTransfer(sender: string, recipient: string, amount: TokenAmountInput, memo?: MemoInput): Promise<BatchTransferResult> {
         return this.executeBatchTransfer({
-            recipients: [{ address: recipient, amount }],
+            recipients: [{ address: recipient, amount: TokenAmount.from(amount, TOKEN_DECIMALS) }],
             sender,
             memo
         });
     }
 }
 
-// Export singleton instances for both networks
+// Export singleton instances for each preset network
 export const tbbBatchTransferContract = new TBBBatchTransferContract('mainnet');
 export const tbbBatchTransferContractTestnet = new TBBBatchTransferContract('testnet');
+export const tbbBatchTransferContractDevnet = new TBBBatchTransferContract('devnet');
 
 // Export the class for custom instances
 export default TBBBatchTransferContract;
\ No newline at end of file
@@ -0,0 +1,278 @@
+/**
+ * Block time estimation
+ *
+ * Converting block counts to wall-clock time at a fixed 5 seconds per block
+ * left the next-claim countdown hours off - Stacks block times vary with
+ * Bitcoin block times, tenure changes and load. The estimator learns the
+ * average from the timestamps of recent blocks (fetched from the API, plus
+ * any blocks observed live) and turns a block count into an ETA with a range
+ * that widens with the observed variance and the distance to the block.
+ */
+
+import { getCacheEntry, setCacheEntry, removeCacheEntriesByPrefix } from './serializers';
+import { CacheStore, resolveCacheStore } from './cache-store';
+import { NetworkConfig, NetworkOption, resolveNetwork } from './network';
+
+/**
+ * When a block was produced
+ */
+export interface BlockTimeSample {
+  height: number;
+  /** Block timestamp, Unix seconds */
+  time: number;
+}
+
+export interface BlockTimeEstimate {
+  /** Average seconds per block */
+  secondsPerBlock: number;
+  /** Standard deviation of the time between blocks, in seconds */
+  stdDev: number;
+  /** Blocks the average is based on (0 when it is the default) */
+  sampleBlocks: number;
+  /** `observed` when learned from block timestamps, `default` before any are known */
+  source: 'observed' | 'default';
+}
+
+/**
+ * Estimated time until a block is reached
+ */
+export interface BlockEta {
+  blocks: number;
+  /** Expected seconds until the block */
+  seconds: number;
+  /** Likely range in seconds (about 90% of outcomes fall inside it) */
+  minSeconds: number;
+  maxSeconds: number;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+/**
+ * Timestamps of recent blocks
+ */
+export interface BlockTimeSource {
+  /** Recent blocks, in any order */
+  getRecentBlocks(): Promise<BlockTimeSample[]>;
+}
+
+export interface BlockTimeEstimatorOptions {
+  /** Where recent block timestamps come from (defaults to the network's Stacks API) */
+  source?: BlockTimeSource;
+  /** Storage for learned samples (defaults to localStorage in browsers, memory elsewhere) */
+  cacheStore?: CacheStore;
+  /** Most blocks kept for the average (default 200) */
+  maxSamples?: number;
+}
+
+// Used until block timestamps are known - the pre-estimator assumption
+export const DEFAULT_SECONDS_PER_BLOCK = 5;
+
+// z-score for the ETA range (two-sided 90%)
+const RANGE_Z = 1.645;
+
+/**
+ * The part of a `/extended/v1/block` list entry used for block times
+ */
+interface BlockListEntry {
+  height: number;
+  /** Stacks block time (Nakamoto blocks only) */
+  block_time?: number;
+  burn_block_time?: number;
+}
+
+/**
+ * Recent block timestamps from the Stacks API (`/extended/v1/block`)
+ */
+export class ApiBlockTimeSource implements BlockTimeSource {
+  private readonly config: NetworkConfig;
+
+  constructor(network: NetworkOption) {
+    this.config = resolveNetwork(network);
+  }
+
+  async getRecentBlocks(): Promise<BlockTimeSample[]> {
+    const response = await fetch(`${this.config.apiUrl}/extended/v1/block?limit=30`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    const data = (await response.json()) as { results?: BlockListEntry[] };
+    return (data.results || [])
+      // Blocks before Nakamoto only carry the Bitcoin block time
+      .map(block => ({ height: Number(block.height), time: Number(block.block_time ?? block.burn_block_time) }))
+      .filter(sample => sample.height > 0 && sample.time > 0);
+  }
+}
+
+/**
+ * Block timestamps given up front, to pin the block time ETAs are computed with
+ */
+export class StaticBlockTimeSource implements BlockTimeSource {
+  private readonly blocks: BlockTimeSample[];
+  /** Number of times blocks were requested */
+  requests = 0;
+
+  constructor(blocks: BlockTimeSample[] = []) {
+    this.blocks = blocks;
+  }
+
+  async getRecentBlocks(): Promise<BlockTimeSample[]> {
+    this.requests++;
+    return [...this.blocks];
+  }
+}
+
+/**
+ * Seconds per block from block timestamps, or the default when fewer than two blocks are known
+ * Gaps between samples are fine - each interval is weighted by the blocks it spans
+ */
+export function estimateBlockTime(samples: BlockTimeSample[]): BlockTimeEstimate {
+  const sorted = [...samples].sort((a, b) => a.height - b.height);
+  const intervals: Array<{ blocks: number; seconds: number }> = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const blocks = sorted[i].height - sorted[i - 1].height;
+    if (blocks > 0) {
+      intervals.push({ blocks, seconds: Math.max(0, sorted[i].time - sorted[i - 1].time) });
+    }
+  }
+
+  const sampleBlocks = intervals.reduce((sum, interval) => sum + interval.blocks, 0);
+  const totalSeconds = intervals.reduce((sum, interval) => sum + interval.seconds, 0);
+  if (sampleBlocks === 0 || totalSeconds === 0) {
+    return {
+      secondsPerBlock: DEFAULT_SECONDS_PER_BLOCK,
+      stdDev: DEFAULT_SECONDS_PER_BLOCK,
+      sampleBlocks: 0,
+      source: 'default'
+    };
+  }
+
+  const secondsPerBlock = totalSeconds / sampleBlocks;
+  const variance = intervals.reduce(
+    (sum, interval) => sum + interval.blocks * (interval.seconds / interval.blocks - secondsPerBlock) ** 2,
+    0
+  ) / sampleBlocks;
+
+  return { secondsPerBlock, stdDev: Math.sqrt(variance), sampleBlocks, source: 'observed' };
+}
+
+/**
+ * ETA for a block some number of blocks away
+ *
+ * The range covers both block-to-block variance (which averages out over many
+ * blocks) and the uncertainty of the average itself (which grows with the
+ * distance), so far-off blocks get proportionally wider ranges from small samples.
+ */
+export function estimateEta(blocks: number, estimate: BlockTimeEstimate): BlockEta {
+  const remaining = Math.max(0, Math.ceil(blocks));
+  const seconds = remaining * estimate.secondsPerBlock;
+  if (remaining === 0) {
+    return { blocks: 0, seconds: 0, minSeconds: 0, maxSeconds: 0, confidence: 'high' };
+  }
+
+  const sampleBlocks = Math.max(1, estimate.sampleBlocks);
+  const spread = RANGE_Z * Math.sqrt(
+    remaining * estimate.stdDev ** 2 + (remaining * estimate.stdDev) ** 2 / sampleBlocks
+  );
+  const relativeSpread = spread / seconds;
+
+  return {
+    blocks: remaining,
+    seconds: Math.round(seconds),
+    minSeconds: Math.round(Math.max(0, seconds - spread)),
+    maxSeconds: Math.round(seconds + spread),
+    confidence: estimate.source === 'default' || relativeSpread > 0.5
+      ? 'low'
+      : relativeSpread > 0.2 ? 'medium' : 'high'
+  };
+}
+
+/**
+ * Block Time Estimator
+ * Learns seconds per block from recent block timestamps and estimates when future blocks land
+ */
+export class BlockTimeEstimator {
+  private readonly config: NetworkConfig;
+  private readonly source: BlockTimeSource;
+  private readonly cacheStore: CacheStore;
+  private readonly maxSamples: number;
+  private readonly cachePrefix: string;
+  /** Fetch in progress, so concurrent estimates share one request */
+  private pending: Promise<void> | null = null;
+
+  private readonly CACHE_TTL = {
+    SAMPLES: 24 * 60 * 60 * 1000, // 1 day - learned block timestamps
+    REFRESH: 60 * 1000            // 1 minute - how long before recent blocks are fetched again
+  };
+
+  constructor(network: NetworkOption = 'testnet', options: BlockTimeEstimatorOptions = {}) {
+    this.config = resolveNetwork(network);
+    this.source = options.source || new ApiBlockTimeSource(this.config);
+    this.cacheStore = resolveCacheStore(options.cacheStore);
+    this.maxSamples = options.maxSamples ?? 200;
+    this.cachePrefix = `block-time:${this.config.name}:`;
+  }
+
+  public clearCache(): void {
+    removeCacheEntriesByPrefix(this.cachePrefix, this.cacheStore);
+  }
+
+  /**
+   * Learned block timestamps, oldest first
+   */
+  getSamples(): BlockTimeSample[] {
+    return getCacheEntry<BlockTimeSample[]>(this.cachePrefix + 'samples', this.cacheStore) ?? [];
+  }
+
+  /**
+   * Record blocks seen elsewhere (e.g. from a live block feed)
+   */
+  observeBlocks(blocks: BlockTimeSample[]): void {
+    const byHeight = new Map(this.getSamples().map(sample => [sample.height, sample]));
+    blocks.forEach(block => byHeight.set(block.height, block));
+    const samples = [...byHeight.values()]
+      .sort((a, b) => a.height - b.height)
+      .slice(-this.maxSamples);
+    setCacheEntry(this.cachePrefix + 'samples', samples, this.CACHE_TTL.SAMPLES, this.cacheStore);
+  }
+
+  /**
+   * Current seconds-per-block estimate, fetching recent blocks when the samples are stale
+   * Falls back to what was learned before (or the default) when the fetch fails
+   */
+  async getEstimate(): Promise<BlockTimeEstimate> {
+    if (getCacheEntry<boolean>(this.cachePrefix + 'refreshed', this.cacheStore) === null) {
+      await this.refresh();
+    }
+    return estimateBlockTime(this.getSamples());
+  }
+
+  /**
+   * ETA for a block some number of blocks away
+   */
+  async estimateBlocks(blocks: number): Promise<BlockEta> {
+    return estimateEta(blocks, await this.getEstimate());
+  }
+
+  private refresh(): Promise<void> {
+    if (!this.pending) {
+      this.pending = this.source.getRecentBlocks()
+        .then(blocks => this.observeBlocks(blocks))
+        .catch(error => {
+          console.warn('Failed to fetch recent block times:', error);
+        })
+        .finally(() => {
+          // Failures also wait for the next refresh, so a down API isn't hit on every estimate
+          setCacheEntry(this.cachePrefix + 'refreshed', true, this.CACHE_TTL.REFRESH, this.cacheStore);
+          this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+}
+
+// Default instances for common networks
+export const blockTimeEstimator = new BlockTimeEstimator('mainnet');
+export const blockTimeEstimatorTestnet = new BlockTimeEstimator('testnet');
+export const blockTimeEstimatorDevnet = new BlockTimeEstimator('devnet');
+
+// Export the class for custom instances
+export default BlockTimeEstimator;
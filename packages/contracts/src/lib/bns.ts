@@ -0,0 +1,261 @@
+/**
+ * BNS name resolution
+ *
+ * Lets users send to names like `alice.btc` instead of raw principals, and
+ * shows names next to addresses in lists. Lookups go through a pluggable
+ * backend (the Stacks API by default, an in-memory table in tests and on
+ * devnet) and are cached, including misses, so long lists don't refetch.
+ */
+
+import { getCacheEntry, setCacheEntry, removeCacheEntriesByPrefix } from './serializers';
+import { CacheStore, resolveCacheStore } from './cache-store';
+import { NetworkConfig, NetworkOption, resolveNetwork } from './network';
+import { validateStacksAddress, AddressValidationReason } from './validators';
+import { getErrorMessage } from './errors';
+
+/**
+ * Looks up BNS records
+ */
+export interface NameBackend {
+  /** Owner of a fully-qualified name (`name.namespace`), or null if it isn't registered */
+  resolveName(name: string): Promise<string | null>;
+  /** Names owned by an address, primary name first (empty when it has none) */
+  getNames(address: string): Promise<string[]>;
+}
+
+export interface NameServiceOptions {
+  /** Where names are looked up (defaults to the network's Stacks API) */
+  backend?: NameBackend;
+  /** Storage for lookups (defaults to localStorage in browsers, memory elsewhere) */
+  cacheStore?: CacheStore;
+  /** How long lookups are cached, in milliseconds */
+  ttl?: number;
+}
+
+/**
+ * A recipient typed into a form, resolved to the principal to send to
+ */
+export interface RecipientResolution {
+  /** The input, trimmed */
+  input: string;
+  isValid: boolean;
+  /** Principal to send to - the name's owner when a name was entered */
+  address?: string;
+  /** BNS name when a name was entered */
+  name?: string;
+  /** `name-not-found` or `lookup-failed` for names, otherwise the address validation reason */
+  reason?: AddressValidationReason | 'name-not-found' | 'lookup-failed';
+  error?: string;
+}
+
+// `name.namespace` or `subdomain.name.namespace`
+const BNS_NAME_REGEX = /^([a-z0-9_+-]+\.){1,2}[a-z0-9_+-]+$/;
+
+// Principals start with S and a version character in upper case, names are lower case
+const PRINCIPAL_LIKE_REGEX = /^S[0-9A-Z]{20,}/;
+
+/**
+ * Whether the input looks like a BNS name rather than an address
+ */
+export function isBnsName(input: string): boolean {
+  const value = input.trim();
+  return !PRINCIPAL_LIKE_REGEX.test(value) && BNS_NAME_REGEX.test(value.toLowerCase());
+}
+
+/**
+ * The part of a `/v1/names/{name}` response used to resolve the owner
+ */
+interface NameInfo {
+  address?: string;
+}
+
+/**
+ * The `/v1/addresses/stacks/{address}` response - names owned by the address
+ */
+interface AddressNames {
+  names?: string[];
+}
+
+/**
+ * Looks names up through the Stacks API (`/v1/names`, `/v1/addresses`)
+ */
+export class ApiNameBackend implements NameBackend {
+  private readonly config: NetworkConfig;
+
+  constructor(network: NetworkOption) {
+    this.config = resolveNetwork(network);
+  }
+
+  async resolveName(name: string): Promise<string | null> {
+    const response = await fetch(`${this.config.apiUrl}/v1/names/${encodeURIComponent(name)}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    const data = (await response.json()) as NameInfo;
+    return data.address || null;
+  }
+
+  async getNames(address: string): Promise<string[]> {
+    const response = await fetch(`${this.config.apiUrl}/v1/addresses/stacks/${address}`);
+    if (response.status === 404) {
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    const data = (await response.json()) as AddressNames;
+    return Array.isArray(data.names) ? data.names : [];
+  }
+}
+
+/**
+ * Name table held in memory, for devnet (which has no BNS API) and tests
+ * Every lookup is logged in `requests`, so callers can check what the cache answered
+ */
+export class StaticNameBackend implements NameBackend {
+  private readonly owners = new Map<string, string>();
+  /** Names and addresses looked up so far, in order */
+  readonly requests: string[] = [];
+
+  constructor(names: Record<string, string> = {}) {
+    Object.entries(names).forEach(([name, address]) => this.setName(name, address));
+  }
+
+  setName(name: string, address: string): void {
+    this.owners.set(name.toLowerCase(), address);
+  }
+
+  async resolveName(name: string): Promise<string | null> {
+    this.requests.push(name);
+    return this.owners.get(name) ?? null;
+  }
+
+  async getNames(address: string): Promise<string[]> {
+    this.requests.push(address);
+    return [...this.owners.entries()].filter(([, owner]) => owner === address).map(([name]) => name);
+  }
+}
+
+/**
+ * BNS Name Service
+ * Forward (name to address) and reverse (address to name) lookups with caching
+ */
+export class NameService {
+  private readonly config: NetworkConfig;
+  private readonly backend: NameBackend;
+  private readonly cacheStore: CacheStore;
+  private readonly ttl: number;
+  private readonly cachePrefix: string;
+  /** Lookups in flight, so a list rendering the same address many times fetches once */
+  private readonly pending = new Map<string, Promise<string | null>>();
+
+  constructor(network: NetworkOption = 'testnet', options: NameServiceOptions = {}) {
+    this.config = resolveNetwork(network);
+    this.backend = options.backend || new ApiNameBackend(this.config);
+    this.cacheStore = resolveCacheStore(options.cacheStore);
+    this.ttl = options.ttl ?? 10 * 60 * 1000; // 10 minutes
+    this.cachePrefix = `bns-cache:${this.config.name}:`;
+  }
+
+  /**
+   * Clear all cached lookups
+   */
+  public clearCache(): void {
+    removeCacheEntriesByPrefix(this.cachePrefix, this.cacheStore);
+  }
+
+  /**
+   * Owner address of a name, or null if it isn't registered
+   * Throws if the backend can't be reached
+   */
+  async resolveName(name: string): Promise<string | null> {
+    const normalized = name.trim().toLowerCase();
+    return this.cached(`name:${normalized}`, () => this.backend.resolveName(normalized));
+  }
+
+  /**
+   * Primary name of an address, or null if it has none
+   * Throws if the backend can't be reached
+   */
+  async lookupName(address: string): Promise<string | null> {
+    return this.cached(`address:${address}`, async () => (await this.backend.getNames(address))[0] ?? null);
+  }
+
+  /**
+   * Primary names of several addresses (null for addresses without one or whose lookup failed)
+   */
+  async lookupNames(addresses: string[]): Promise<Record<string, string | null>> {
+    const unique = [...new Set(addresses)];
+    const names = await Promise.all(unique.map(address =>
+      this.lookupName(address).catch(error => {
+        console.warn(`BNS lookup failed for ${address}:`, error);
+        return null;
+      })
+    ));
+    return Object.fromEntries(unique.map((address, index) => [address, names[index]]));
+  }
+
+  /**
+   * Resolve what a user typed as a recipient - a principal, or a name resolved to its owner
+   * The resulting address is validated for this network
+   */
+  async resolveRecipient(input: string): Promise<RecipientResolution> {
+    const value = input.trim();
+
+    if (!isBnsName(value)) {
+      const validation = validateStacksAddress(value, { network: this.config });
+      return validation.isValid
+        ? { input: value, isValid: true, address: value }
+        : { input: value, isValid: false, reason: validation.reason, error: validation.error };
+    }
+
+    const name = value.toLowerCase();
+    let address: string | null;
+    try {
+      address = await this.resolveName(name);
+    } catch (error) {
+      return { input: value, name, isValid: false, reason: 'lookup-failed', error: `Couldn't look up ${name}: ${getErrorMessage(error)}` };
+    }
+    if (!address) {
+      return { input: value, name, isValid: false, reason: 'name-not-found', error: `${name} is not a registered name` };
+    }
+
+    const validation = validateStacksAddress(address, { network: this.config });
+    if (!validation.isValid) {
+      return { input: value, name, address, isValid: false, reason: validation.reason, error: `${name} points to an invalid address: ${validation.error}` };
+    }
+    return { input: value, name, address, isValid: true };
+  }
+
+  /**
+   * Cached lookup - misses are cached too (as an empty string)
+   */
+  private async cached(key: string, lookup: () => Promise<string | null>): Promise<string | null> {
+    const cacheKey = this.cachePrefix + key;
+    const cached = getCacheEntry<string>(cacheKey, this.cacheStore);
+    if (cached !== null) return cached || null;
+
+    const inFlight = this.pending.get(cacheKey);
+    if (inFlight) return inFlight;
+
+    const request = lookup()
+      .then(result => {
+        setCacheEntry(cacheKey, result ?? '', this.ttl, this.cacheStore);
+        return result;
+      })
+      .finally(() => this.pending.delete(cacheKey));
+    this.pending.set(cacheKey, request);
+    return request;
+  }
+}
+
+// Default instances for common networks
+export const nameService = new NameService('mainnet');
+export const nameServiceTestnet = new NameService('testnet');
+export const nameServiceDevnet = new NameService('devnet');
+
+// Export the class for custom instances
+export default NameService;
@@ -0,0 +1,388 @@
+/**
+ * Pluggable storage backends for the contract wrapper caches
+ *
+ * The wrappers read their caches synchronously, so every store exposes a
+ * synchronous Storage-like API. Asynchronous backends (IndexedDB, React
+ * Native AsyncStorage) keep an in-memory mirror that is written through to
+ * the backend and can be hydrated on startup.
+ */
+
+/**
+ * Synchronous key/value store used by the cache helpers in serializers.ts
+ */
+export interface CacheStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+/**
+ * Asynchronous key/value backend (matches React Native AsyncStorage)
+ */
+export interface AsyncKeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+}
+
+/**
+ * Minimal synchronous file system API needed by FileCacheStore
+ * (pass `node:fs` from Node scripts)
+ */
+export interface FileSystemAdapter {
+  existsSync(path: string): boolean;
+  readFileSync(path: string, encoding: 'utf8'): string;
+  writeFileSync(path: string, data: string, encoding: 'utf8'): void;
+}
+
+/**
+ * Web Storage API (localStorage) as LocalStorageCacheStore uses it
+ */
+export interface WebStorage {
+  readonly length: number;
+  key(index: number): string | null;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/*
+ * The parts of IndexedDB the cache and event stores use. The package is
+ * type-checked without the DOM library, so they are declared here and the
+ * browser's implementations are looked up through getBrowserStorage.
+ */
+
+export interface IndexedDBRequest<T> {
+  readonly result: T;
+  readonly error: unknown;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+export interface IndexedDBOpenRequest extends IndexedDBRequest<IndexedDBDatabase> {
+  onupgradeneeded: (() => void) | null;
+}
+
+export interface IndexedDBCursor<T> {
+  readonly value: T;
+  delete(): unknown;
+  continue(): void;
+}
+
+/** Opaque key range from IndexedDBKeyRangeFactory */
+export type IndexedDBKeyRange = object;
+
+export interface IndexedDBKeyRangeFactory {
+  lowerBound(lower: unknown, open?: boolean): IndexedDBKeyRange;
+  bound(lower: unknown, upper: unknown, lowerOpen?: boolean, upperOpen?: boolean): IndexedDBKeyRange;
+}
+
+export interface IndexedDBIndex {
+  openCursor(range?: IndexedDBKeyRange, direction?: 'next' | 'prev'): IndexedDBRequest<IndexedDBCursor<unknown> | null>;
+  getAll(query?: unknown): IndexedDBRequest<unknown[]>;
+}
+
+export interface IndexedDBObjectStore {
+  get(key: string): IndexedDBRequest<unknown>;
+  put(value: unknown, key?: string): IndexedDBRequest<unknown>;
+  delete(key: string): IndexedDBRequest<unknown>;
+  getAllKeys(): IndexedDBRequest<unknown[]>;
+  count(): IndexedDBRequest<number>;
+  clear(): IndexedDBRequest<unknown>;
+  index(name: string): IndexedDBIndex;
+  createIndex(name: string, keyPath: string | string[], options?: { multiEntry?: boolean }): unknown;
+}
+
+export interface IndexedDBTransaction {
+  readonly error: unknown;
+  oncomplete: (() => void) | null;
+  onerror: (() => void) | null;
+  onabort: (() => void) | null;
+  objectStore(name: string): IndexedDBObjectStore;
+}
+
+export interface IndexedDBDatabase {
+  readonly objectStoreNames: { contains(name: string): boolean };
+  createObjectStore(name: string, options?: { keyPath: string }): IndexedDBObjectStore;
+  deleteObjectStore(name: string): void;
+  transaction(storeName: string, mode: 'readonly' | 'readwrite'): IndexedDBTransaction;
+}
+
+export interface IndexedDBFactory {
+  open(name: string, version?: number): IndexedDBOpenRequest;
+}
+
+/**
+ * Storage APIs of the browser, each undefined where the environment lacks it
+ */
+export interface BrowserStorage {
+  localStorage?: WebStorage;
+  indexedDB?: IndexedDBFactory;
+  IDBKeyRange?: IndexedDBKeyRangeFactory;
+}
+
+/**
+ * Look up the browser's storage APIs
+ */
+export function getBrowserStorage(): BrowserStorage {
+  const { localStorage, indexedDB, IDBKeyRange } = globalThis as BrowserStorage;
+  return { localStorage, indexedDB, IDBKeyRange };
+}
+
+/**
+ * Process-local store - the fallback when no persistent storage is available
+ */
+export class MemoryCacheStore implements CacheStore {
+  protected readonly entries = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.entries.has(key) ? this.entries.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.entries.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+}
+
+/**
+ * Browser localStorage (or any Web Storage implementation)
+ */
+export class LocalStorageCacheStore implements CacheStore {
+  private readonly storage: WebStorage;
+
+  constructor(storage: WebStorage | undefined = getBrowserStorage().localStorage) {
+    if (!storage) {
+      throw new Error('localStorage is not available in this environment');
+    }
+    this.storage = storage;
+  }
+
+  getItem(key: string): string | null {
+    return this.storage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.storage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage.removeItem(key);
+  }
+
+  keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+/**
+ * Write-through store backed by an asynchronous key/value backend
+ * Call `hydrate()` once at startup to load previously persisted entries
+ */
+export class AsyncBackedCacheStore extends MemoryCacheStore {
+  private readonly backend: AsyncKeyValueStorage;
+  private readonly keyPrefix: string;
+
+  constructor(backend: AsyncKeyValueStorage, keyPrefix: string = '') {
+    super();
+    this.backend = backend;
+    this.keyPrefix = keyPrefix;
+  }
+
+  /**
+   * Load persisted entries into memory (existing in-memory writes win)
+   */
+  async hydrate(): Promise<void> {
+    try {
+      const keys = await this.backend.getAllKeys();
+      const ownKeys = keys.filter(key => key.startsWith(this.keyPrefix));
+      await Promise.all(ownKeys.map(async key => {
+        const value = await this.backend.getItem(key);
+        const cacheKey = key.slice(this.keyPrefix.length);
+        if (value !== null && !this.entries.has(cacheKey)) {
+          this.entries.set(cacheKey, value);
+        }
+      }));
+    } catch (error) {
+      console.warn('Failed to hydrate cache store:', error);
+    }
+  }
+
+  setItem(key: string, value: string): void {
+    super.setItem(key, value);
+    this.backend.setItem(this.keyPrefix + key, value).catch(error => {
+      console.warn('Failed to persist cache entry:', error);
+    });
+  }
+
+  removeItem(key: string): void {
+    super.removeItem(key);
+    this.backend.removeItem(this.keyPrefix + key).catch(error => {
+      console.warn('Failed to remove persisted cache entry:', error);
+    });
+  }
+}
+
+/**
+ * Wrap an IndexedDB object store as an AsyncKeyValueStorage
+ */
+export function createIndexedDBStorage(
+  dbName: string = 'contracts-cache',
+  storeName: string = 'entries'
+): AsyncKeyValueStorage {
+  let dbPromise: Promise<IndexedDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IndexedDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const { indexedDB } = getBrowserStorage();
+        if (!indexedDB) {
+          throw new Error('IndexedDB is not available in this environment');
+        }
+        const openRequest = indexedDB.open(dbName, 1);
+        openRequest.onupgradeneeded = () => {
+          openRequest.result.createObjectStore(storeName);
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(
+    mode: 'readonly' | 'readwrite',
+    operation: (store: IndexedDBObjectStore) => IndexedDBRequest<unknown>
+  ): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const idbRequest = operation(db.transaction(storeName, mode).objectStore(storeName));
+      idbRequest.onsuccess = () => resolve(idbRequest.result as T);
+      idbRequest.onerror = () => reject(idbRequest.error);
+    });
+  };
+
+  return {
+    async getItem(key) {
+      const value = await run<string | undefined>('readonly', store => store.get(key));
+      return value ?? null;
+    },
+    async setItem(key, value) {
+      await run('readwrite', store => store.put(value, key));
+    },
+    async removeItem(key) {
+      await run('readwrite', store => store.delete(key));
+    },
+    async getAllKeys() {
+      const keys = await run<unknown[]>('readonly', store => store.getAllKeys());
+      return keys.map(key => String(key));
+    },
+  };
+}
+
+/**
+ * IndexedDB-backed store for browsers (avoids localStorage quota limits)
+ */
+export class IndexedDBCacheStore extends AsyncBackedCacheStore {
+  constructor(dbName?: string, storeName?: string) {
+    super(createIndexedDBStorage(dbName, storeName));
+  }
+}
+
+/**
+ * JSON file-backed store for Node scripts and backend jobs
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  private readonly filePath: string;
+  private readonly fs: FileSystemAdapter;
+
+  constructor(filePath: string, fs: FileSystemAdapter) {
+    super();
+    this.filePath = filePath;
+    this.fs = fs;
+    this.load();
+  }
+
+  private load(): void {
+    try {
+      if (!this.fs.existsSync(this.filePath)) return;
+      const contents: Record<string, string> = JSON.parse(this.fs.readFileSync(this.filePath, 'utf8'));
+      for (const [key, value] of Object.entries(contents)) {
+        this.entries.set(key, value);
+      }
+    } catch (error) {
+      console.warn(`Failed to load cache file ${this.filePath}:`, error);
+    }
+  }
+
+  private flush(): void {
+    try {
+      this.fs.writeFileSync(this.filePath, JSON.stringify(Object.fromEntries(this.entries)), 'utf8');
+    } catch (error) {
+      console.warn(`Failed to write cache file ${this.filePath}:`, error);
+    }
+  }
+
+  setItem(key: string, value: string): void {
+    super.setItem(key, value);
+    this.flush();
+  }
+
+  removeItem(key: string): void {
+    super.removeItem(key);
+    this.flush();
+  }
+}
+
+let defaultCacheStore: CacheStore | null = null;
+
+/**
+ * Get the store used when a wrapper is created without one:
+ * localStorage in browsers, a shared in-memory store elsewhere
+ */
+export function getDefaultCacheStore(): CacheStore {
+  if (!defaultCacheStore) {
+    defaultCacheStore = getBrowserStorage().localStorage !== undefined
+      ? new LocalStorageCacheStore()
+      : new MemoryCacheStore();
+  }
+  return defaultCacheStore;
+}
+
+/**
+ * Replace the default store (call before creating wrappers)
+ */
+export function setDefaultCacheStore(store: CacheStore): void {
+  defaultCacheStore = store;
+}
+
+// Forwards each call to whichever store is the default at that moment
+const defaultCacheStoreProxy: CacheStore = {
+  getItem: key => getDefaultCacheStore().getItem(key),
+  setItem: (key, value) => getDefaultCacheStore().setItem(key, value),
+  removeItem: key => getDefaultCacheStore().removeItem(key),
+  keys: () => getDefaultCacheStore().keys(),
+};
+
+/**
+ * Store for a wrapper created with the given `cacheStore` option: that store, or
+ * the default looked up on every access (so setDefaultCacheStore also reaches
+ * wrappers created before it was called)
+ */
+export function resolveCacheStore(store?: CacheStore): CacheStore {
+  return store || defaultCacheStoreProxy;
+}
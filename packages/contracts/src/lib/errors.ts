@@ -0,0 +1,224 @@
+/**
+ * Clarity error registry
+ * Maps the `(err uN)` codes returned by the token, faucet and batch transfer
+ * contracts to typed errors with user-facing messages
+ */
+
+import { ClarityType, ClarityValue } from '@stacks/transactions';
+import { ContractNames, NetworkConfig } from './network';
+
+/**
+ * Contracts known to the registry (same keys as ContractNames)
+ */
+export type ContractKey = keyof ContractNames;
+
+export interface ContractError {
+  code: number;
+  message: string;
+}
+
+export interface ContractErrorDefinition extends ContractError {
+  /** Name of the Clarity constant, e.g. `err-cooldown-active` */
+  name: string;
+  /** Suggested next step for the user */
+  action: string;
+}
+
+// Mirrors the error constants in src/clarity/token.clar
+export const TOKEN_ERRORS = {
+  NOT_ENOUGH_BALANCE: {
+    code: 1,
+    name: 'err-not-enough-balance',
+    message: 'Insufficient balance',
+    action: 'Lower the amount or add more tokens to the sending account.',
+  },
+  SENDER_RECIPIENT: {
+    code: 2,
+    name: 'err-sender-recipient',
+    message: 'Cannot send to same address',
+    action: 'Choose a recipient other than the sender.',
+  },
+  INVALID_AMOUNT: {
+    code: 3,
+    name: 'err-invalid-amount',
+    message: 'Invalid amount (must be > 0)',
+    action: 'Enter an amount of at least 1 token.',
+  },
+  NOT_TOKEN_OWNER: {
+    code: 4,
+    name: 'err-not-token-owner',
+    message: 'Not authorized to transfer tokens',
+    action: 'Send the transfer from the wallet that owns the tokens.',
+  },
+} as const satisfies Record<string, ContractErrorDefinition>;
+
+// Mirrors the error constants in src/clarity/token-faucet.clar
+export const FAUCET_ERRORS = {
+  COOLDOWN_ACTIVE: {
+    code: 101,
+    name: 'err-cooldown-active',
+    message: 'Cannot claim yet - still on cooldown',
+    action: 'Wait until your next claim block and try again.',
+  },
+  INSUFFICIENT_FAUCET_BALANCE: {
+    code: 102,
+    name: 'err-insufficient-faucet-balance',
+    message: 'The faucet does not have enough tokens for this reward',
+    action: 'Try again once the faucet has been refilled.',
+  },
+  INVALID_USER: {
+    code: 103,
+    name: 'err-invalid-user',
+    message: 'This address is not allowed to use the faucet',
+    action: 'Connect a different wallet and try again.',
+  },
+  TRANSFER_FAILED: {
+    code: 104,
+    name: 'err-transfer-failed',
+    message: 'Token transfer failed',
+    action: 'Check that the sending account holds enough tokens and try again.',
+  },
+  INVALID_DEPOSIT: {
+    code: 105,
+    name: 'err-invalid-deposit',
+    message: 'Deposit amount must be greater than 0',
+    action: 'Enter a deposit of at least 1 token.',
+  },
+} as const satisfies Record<string, ContractErrorDefinition>;
+
+// The batch contract defines no errors of its own - it returns the error of
+// the first token transfer that fails
+export const BATCH_TRANSFER_ERRORS = TOKEN_ERRORS;
+
+export const CONTRACT_ERROR_REGISTRY: Record<ContractKey, Record<string, ContractErrorDefinition>> = {
+  token: TOKEN_ERRORS,
+  faucet: FAUCET_ERRORS,
+  batchTransfer: BATCH_TRANSFER_ERRORS,
+};
+
+/**
+ * Look up the definition of an error code for a contract
+ */
+export function getContractErrorDefinition(contract: ContractKey, code: number): ContractErrorDefinition | undefined {
+  return Object.values(CONTRACT_ERROR_REGISTRY[contract]).find(definition => definition.code === code);
+}
+
+/**
+ * Base class for errors returned by a contract call
+ */
+export class ContractCallError extends Error {
+  readonly contract: ContractKey;
+  readonly code: number;
+  /** Registry entry for the code (undefined for codes the registry doesn't know) */
+  readonly definition?: ContractErrorDefinition;
+
+  constructor(contract: ContractKey, code: number) {
+    const definition = getContractErrorDefinition(contract, code);
+    super(definition?.message || `Unknown ${contract} contract error (err u${code})`);
+    this.name = 'ContractCallError';
+    this.contract = contract;
+    this.code = code;
+    this.definition = definition;
+  }
+
+  /**
+   * Message with the suggested next step, for display in the UI
+   */
+  get userMessage(): string {
+    return this.definition ? `${this.definition.message}. ${this.definition.action}` : this.message;
+  }
+}
+
+export class TokenContractError extends ContractCallError {
+  constructor(code: number) {
+    super('token', code);
+    this.name = 'TokenContractError';
+  }
+}
+
+export class FaucetContractError extends ContractCallError {
+  constructor(code: number) {
+    super('faucet', code);
+    this.name = 'FaucetContractError';
+  }
+}
+
+export class BatchTransferContractError extends ContractCallError {
+  constructor(code: number) {
+    super('batchTransfer', code);
+    this.name = 'BatchTransferContractError';
+  }
+}
+
+/**
+ * Create the typed error class for a contract error code
+ */
+export function createContractError(contract: ContractKey, code: number): ContractCallError {
+  switch (contract) {
+    case 'token':
+      return new TokenContractError(code);
+    case 'faucet':
+      return new FaucetContractError(code);
+    case 'batchTransfer':
+      return new BatchTransferContractError(code);
+    default:
+      return new ContractCallError(contract, code);
+  }
+}
+
+/**
+ * Extract the uint error code from a Clarity result representation like `(err u101)`
+ */
+export function parseClarityErrorCode(repr: string | undefined): number | undefined {
+  const match = repr?.match(/^\(err u(\d+)\)$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Decode a failed contract response into a typed error
+ * Accepts an error code, a Clarity repr (`(err u101)`) or an `err` ClarityValue
+ * Returns null when the response is not an error, or an error without a uint code
+ */
+export function decodeContractError(contract: ContractKey, response: number | string | ClarityValue): ContractCallError | null {
+  let code: number | undefined;
+
+  if (typeof response === 'number') {
+    code = response;
+  } else if (typeof response === 'string') {
+    code = parseClarityErrorCode(response);
+  } else if (response.type === ClarityType.ResponseErr && response.value.type === ClarityType.UInt) {
+    code = Number(response.value.value);
+  }
+
+  return code === undefined ? null : createContractError(contract, code);
+}
+
+/**
+ * Resolve which known contract a contract id belongs to on the given network
+ */
+export function getContractKey(config: NetworkConfig, contractId: string | undefined): ContractKey | undefined {
+  if (!contractId) return undefined;
+
+  const [address, name] = contractId.split('.');
+  if (address !== config.deployerAddress) return undefined;
+
+  return (Object.keys(config.contractNames) as ContractKey[]).find(key => config.contractNames[key] === name);
+}
+
+/**
+ * Turn any failure (contract error, wallet rejection, network error) into a message for the user
+ */
+export function getErrorMessage(error: unknown): string {
+  if (error instanceof ContractCallError) {
+    return error.userMessage;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  // Wallets reject the request when the user closes or cancels the popup
+  if (/cancel|reject|denied/i.test(message)) {
+    return 'The request was cancelled in your wallet';
+  }
+
+  return message || 'Unknown error';
+}
@@ -0,0 +1,566 @@
+/**
+ * Durable storage for synced contract events
+ *
+ * The events service used to keep the whole parsed history as one JSON array
+ * in a cache entry, which is rewritten on every sync and outgrows localStorage
+ * quotas on busy contracts. An EventStore keeps one record per event, indexed
+ * by user, type and block, so analytics can query just the slice they need:
+ * IndexedDB in browsers, an append-only file in Node, memory elsewhere.
+ */
+
+import type { ParsedEvent } from './events';
+import type {
+  FileSystemAdapter,
+  IndexedDBDatabase,
+  IndexedDBKeyRangeFactory,
+  IndexedDBObjectStore
+} from './cache-store';
+import { getBrowserStorage } from './cache-store';
+import { safeJsonParse, safeJsonStringify } from './serializers';
+
+export type ParsedEventType = ParsedEvent['type'];
+
+/**
+ * One event as persisted, with the fields it is indexed by
+ */
+export interface StoredEvent {
+  /** `txId:eventIndex` */
+  id: string;
+  type: ParsedEventType;
+  /** Addresses involved - claimer, milestone holder or depositor, or a transfer's sender and recipient */
+  users: string[];
+  block: number;
+  /** Chain order - block, then transaction index, then event index (also the page cursor) */
+  orderKey: string;
+  event: ParsedEvent;
+}
+
+export interface EventQuery {
+  user?: string;
+  type?: ParsedEventType;
+  /** First block to include */
+  fromBlock?: number;
+  /** Last block to include */
+  toBlock?: number;
+  /** Maximum events per page (default 100) */
+  limit?: number;
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+  /** `desc` (default) returns the newest events first */
+  order?: 'asc' | 'desc';
+}
+
+export interface EventPage {
+  events: ParsedEvent[];
+  /** Pass as `cursor` to get the next page - null on the last page */
+  nextCursor: string | null;
+}
+
+/**
+ * Persistent, queryable event storage
+ */
+export interface EventStore {
+  /** Insert events, replacing any already stored with the same id */
+  putEvents(events: ParsedEvent[]): Promise<void>;
+  /** Remove events at or above a block height (rolling back orphaned blocks) - resolves how many were removed */
+  removeEventsFrom(blockHeight: number): Promise<number>;
+  getEvents(query?: EventQuery): Promise<EventPage>;
+  count(): Promise<number>;
+  clear(): Promise<void>;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+// Fixed-width numbers so order keys sort lexicographically
+const pad = (value: number, width: number): string => String(value).padStart(width, '0');
+
+const blockKey = (block: number): string => pad(Math.max(0, block), 12);
+
+// Sorts after every order key (they only contain digits, hex and colons)
+const MAX_ORDER_KEY = '~';
+
+function getEventUsers(event: ParsedEvent): string[] {
+  switch (event.type) {
+    case 'deposit':
+      return [event.depositor];
+    case 'token_transfer':
+      return [...new Set([event.sender, event.recipient].filter(Boolean))];
+    default:
+      return [event.user];
+  }
+}
+
+/**
+ * Build the stored record for a parsed event
+ */
+export function toStoredEvent(event: ParsedEvent): StoredEvent {
+  return {
+    id: `${event.txId}:${event.eventIndex}`,
+    type: event.type,
+    users: getEventUsers(event),
+    block: event.blockHeight,
+    // The tx id keeps keys unique when the transaction index is unknown
+    orderKey: `${blockKey(event.blockHeight)}:${pad(event.txIndex, 6)}:${event.txId}:${pad(event.eventIndex, 6)}`,
+    event
+  };
+}
+
+/**
+ * Order key range a query covers - the lower bound is inclusive, the upper exclusive
+ * (except for cursors, which are always excluded)
+ */
+function getKeyRange(query: EventQuery): { lower: string; upper: string; lowerOpen: boolean } {
+  let lower = query.fromBlock !== undefined ? blockKey(query.fromBlock) : '';
+  let upper = query.toBlock !== undefined ? blockKey(query.toBlock + 1) : MAX_ORDER_KEY;
+  let lowerOpen = false;
+
+  if (query.cursor) {
+    if (query.order === 'asc') {
+      if (query.cursor >= lower) {
+        lower = query.cursor;
+        lowerOpen = true;
+      }
+    } else if (query.cursor < upper) {
+      upper = query.cursor;
+    }
+  }
+
+  return { lower, upper, lowerOpen };
+}
+
+/**
+ * Turn the first `limit + 1` matches into a page
+ */
+function toPage(matches: StoredEvent[], limit: number): EventPage {
+  const page = matches.slice(0, limit);
+  return {
+    events: page.map(record => record.event),
+    nextCursor: matches.length > limit ? page[page.length - 1].orderKey : null
+  };
+}
+
+const compareOrderKeys = (a: StoredEvent, b: StoredEvent): number =>
+  a.orderKey < b.orderKey ? -1 : a.orderKey > b.orderKey ? 1 : 0;
+
+/**
+ * First index in a sorted list whose order key is not below the key
+ */
+function lowerBound(records: StoredEvent[], key: string): number {
+  let low = 0;
+  let high = records.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (records[mid].orderKey < key) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function insertInto(index: Map<string, StoredEvent[]>, key: string, record: StoredEvent): void {
+  const records = index.get(key);
+  if (!records) {
+    index.set(key, [record]);
+  } else if (records.length === 0 || records[records.length - 1].orderKey < record.orderKey) {
+    // Syncs mostly add newer events, so appending is the common case
+    records.push(record);
+  } else {
+    records.splice(lowerBound(records, record.orderKey), 0, record);
+  }
+}
+
+function removeFrom(index: Map<string, StoredEvent[]>, key: string, record: StoredEvent): void {
+  const records = index.get(key);
+  if (!records) return;
+  const position = lowerBound(records, record.orderKey);
+  if (records[position] === record) records.splice(position, 1);
+  if (records.length === 0) index.delete(key);
+}
+
+// Key of the chain-wide index in MemoryEventStore
+const ALL_EVENTS = '';
+
+/**
+ * Process-local store - the fallback when no persistent storage is available
+ */
+export class MemoryEventStore implements EventStore {
+  protected readonly records = new Map<string, StoredEvent>();
+  // Records in chain order, overall and per user and type - kept sorted as records come and go
+  private readonly ordered = new Map<string, StoredEvent[]>();
+  private readonly byUser = new Map<string, StoredEvent[]>();
+  private readonly byType = new Map<string, StoredEvent[]>();
+
+  async putEvents(events: ParsedEvent[]): Promise<void> {
+    this.insert(events.map(toStoredEvent));
+  }
+
+  async removeEventsFrom(blockHeight: number): Promise<number> {
+    return this.removeFromBlock(blockHeight);
+  }
+
+  async getEvents(query: EventQuery = {}): Promise<EventPage> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    // Start from the narrowest index, then filter on the rest
+    const candidates = query.user !== undefined
+      ? this.byUser.get(query.user) || []
+      : query.type !== undefined ? this.byType.get(query.type) || [] : this.ordered.get(ALL_EVENTS) || [];
+
+    const { lower, upper, lowerOpen } = getKeyRange(query);
+    let start = lowerBound(candidates, lower);
+    if (lowerOpen && candidates[start]?.orderKey === lower) start++;
+    const end = lowerBound(candidates, upper);
+
+    const matches: StoredEvent[] = [];
+    const step = query.order === 'asc' ? 1 : -1;
+    for (let i = step === 1 ? start : end - 1; i >= start && i < end && matches.length <= limit; i += step) {
+      if (query.type === undefined || candidates[i].type === query.type) {
+        matches.push(candidates[i]);
+      }
+    }
+
+    return toPage(matches, limit);
+  }
+
+  async count(): Promise<number> {
+    return this.records.size;
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+    this.ordered.clear();
+    this.byUser.clear();
+    this.byType.clear();
+  }
+
+  /**
+   * Add records to the indexes, replacing any with the same id
+   */
+  protected insert(records: StoredEvent[]): void {
+    for (const record of records) {
+      const existing = this.records.get(record.id);
+      if (existing) {
+        this.unindex(existing);
+      }
+      this.records.set(record.id, record);
+      insertInto(this.ordered, ALL_EVENTS, record);
+      record.users.forEach(user => insertInto(this.byUser, user, record));
+      insertInto(this.byType, record.type, record);
+    }
+  }
+
+  /**
+   * Drop records at or above a block height - they sit at the end of every index
+   */
+  protected removeFromBlock(blockHeight: number): number {
+    const ordered = this.ordered.get(ALL_EVENTS) || [];
+    const orphaned = ordered.slice(lowerBound(ordered, blockKey(blockHeight)));
+    // Newest first, so each removal is from the end of its index
+    orphaned.reverse().forEach(record => {
+      this.records.delete(record.id);
+      this.unindex(record);
+    });
+    return orphaned.length;
+  }
+
+  private unindex(record: StoredEvent): void {
+    removeFrom(this.ordered, ALL_EVENTS, record);
+    record.users.forEach(user => removeFrom(this.byUser, user, record));
+    removeFrom(this.byType, record.type, record);
+  }
+}
+
+/**
+ * File system calls FileEventStore needs (pass `node:fs`)
+ */
+export interface EventFileSystemAdapter extends FileSystemAdapter {
+  appendFileSync(path: string, data: string, encoding: 'utf8'): void;
+}
+
+/**
+ * File system calls createDefaultEventStore needs to keep events under `.cache` (pass `node:fs`)
+ */
+export interface EventStoreFileSystem extends EventFileSystemAdapter {
+  mkdirSync(path: string, options: { recursive: true }): unknown;
+}
+
+/**
+ * A line of the event file - a stored event, or a rollback of every event from a block on
+ */
+type EventFileEntry = StoredEvent | { removeFrom: number };
+
+/**
+ * Append-only file store for Node scripts and backend jobs
+ *
+ * The file is a log with one JSON line per stored event or rollback (bigint
+ * amounts tagged as in the cache, see serializers), so a sync
+ * appends just the new events instead of rewriting the whole history. Replaced
+ * and rolled-back events leave stale lines behind; once they outnumber the live
+ * events the file is rewritten with only the live ones.
+ */
+export class FileEventStore extends MemoryEventStore {
+  private readonly filePath: string;
+  private readonly fs: EventFileSystemAdapter;
+  /** Lines in the file, live or not */
+  private lineCount = 0;
+
+  // Stale lines tolerated before the file is compacted
+  private static readonly COMPACT_SLACK = 1000;
+
+  constructor(filePath: string, fs: EventFileSystemAdapter) {
+    super();
+    this.filePath = filePath;
+    this.fs = fs;
+    this.load();
+  }
+
+  private load(): void {
+    let contents: string;
+    try {
+      if (!this.fs.existsSync(this.filePath)) return;
+      contents = this.fs.readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      console.warn(`Failed to load event file ${this.filePath}:`, error);
+      return;
+    }
+
+    const lines = contents.split('\n').filter(line => line.trim());
+    let unreadable = 0;
+    lines.forEach((line, index) => {
+      try {
+        const entry = safeJsonParse<EventFileEntry>(line);
+        if ('removeFrom' in entry) {
+          this.removeFromBlock(entry.removeFrom);
+        } else {
+          this.insert([entry]);
+        }
+      } catch (error) {
+        // A line cut short by a crash mid-write - the next sync refetches its events
+        console.warn(`Skipping unreadable line ${index + 1} of event file ${this.filePath}:`, error);
+        unreadable++;
+      }
+    });
+    this.lineCount = lines.length;
+
+    // Rewrite a damaged file so new lines aren't appended to a partial one
+    if (unreadable > 0) {
+      this.compact();
+    }
+  }
+
+  private append(entries: EventFileEntry[]): void {
+    if (entries.length === 0) return;
+    try {
+      this.fs.appendFileSync(this.filePath, entries.map(entry => `${safeJsonStringify(entry)}\n`).join(''), 'utf8');
+      this.lineCount += entries.length;
+    } catch (error) {
+      console.warn(`Failed to write event file ${this.filePath}:`, error);
+      return;
+    }
+
+    if (this.lineCount > 2 * this.records.size + FileEventStore.COMPACT_SLACK) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Rewrite the file with only the live events
+   */
+  private compact(): void {
+    const records = [...this.records.values()];
+    try {
+      this.fs.writeFileSync(this.filePath, records.map(record => `${safeJsonStringify(record)}\n`).join(''), 'utf8');
+      this.lineCount = records.length;
+    } catch (error) {
+      console.warn(`Failed to write event file ${this.filePath}:`, error);
+    }
+  }
+
+  async putEvents(events: ParsedEvent[]): Promise<void> {
+    const records = events.map(toStoredEvent);
+    this.insert(records);
+    this.append(records);
+  }
+
+  async removeEventsFrom(blockHeight: number): Promise<number> {
+    const removed = this.removeFromBlock(blockHeight);
+    if (removed > 0) {
+      this.append([{ removeFrom: blockHeight }]);
+    }
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    await super.clear();
+    this.compact();
+  }
+}
+
+/**
+ * The browser's IDBKeyRange (present wherever IndexedDB is)
+ */
+function keyRanges(): IndexedDBKeyRangeFactory {
+  const { IDBKeyRange } = getBrowserStorage();
+  if (!IDBKeyRange) {
+    throw new Error('IndexedDB is not available in this environment');
+  }
+  return IDBKeyRange;
+}
+
+/**
+ * IndexedDB-backed store for browsers
+ * Events live in one object store with indexes on chain order, on type
+ * followed by chain order, and on the addresses involved
+ */
+export class IndexedDBEventStore implements EventStore {
+  private readonly dbName: string;
+  private dbPromise: Promise<IndexedDBDatabase> | null = null;
+
+  private static readonly STORE = 'events';
+  private static readonly VERSION = 2;
+
+  constructor(dbName: string = 'contract-events') {
+    this.dbName = dbName;
+  }
+
+  private openDatabase(): Promise<IndexedDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const { indexedDB } = getBrowserStorage();
+        if (!indexedDB) {
+          throw new Error('IndexedDB is not available in this environment');
+        }
+        const openRequest = indexedDB.open(this.dbName, IndexedDBEventStore.VERSION);
+        openRequest.onupgradeneeded = () => {
+          const db = openRequest.result;
+          // Older records lack fields the indexes need - drop them and let the next sync refill the store
+          if (db.objectStoreNames.contains(IndexedDBEventStore.STORE)) {
+            db.deleteObjectStore(IndexedDBEventStore.STORE);
+          }
+          const store = db.createObjectStore(IndexedDBEventStore.STORE, { keyPath: 'id' });
+          store.createIndex('orderKey', 'orderKey');
+          store.createIndex('users', 'users', { multiEntry: true });
+          store.createIndex('type', ['type', 'orderKey']);
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async transaction<T>(
+    mode: 'readonly' | 'readwrite',
+    operation: (store: IndexedDBObjectStore, done: (result: T) => void) => void
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(IndexedDBEventStore.STORE, mode);
+      let result: T;
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+      operation(transaction.objectStore(IndexedDBEventStore.STORE), value => { result = value; });
+    });
+  }
+
+  async putEvents(events: ParsedEvent[]): Promise<void> {
+    await this.transaction<void>('readwrite', store => {
+      events.forEach(event => store.put(toStoredEvent(event)));
+    });
+  }
+
+  async removeEventsFrom(blockHeight: number): Promise<number> {
+    return this.transaction<number>('readwrite', (store, done) => {
+      let removed = 0;
+      const request = store.index('orderKey').openCursor(keyRanges().lowerBound(blockKey(blockHeight)));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          done(removed);
+          return;
+        }
+        cursor.delete();
+        removed++;
+        cursor.continue();
+      };
+    });
+  }
+
+  async getEvents(query: EventQuery = {}): Promise<EventPage> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const { lower, upper, lowerOpen } = getKeyRange(query);
+    // IDBKeyRange rejects empty ranges
+    if (lower >= upper) {
+      return { events: [], nextCursor: null };
+    }
+
+    const matches = await this.transaction<StoredEvent[]>('readonly', (store, done) => {
+      if (query.user !== undefined) {
+        // Transfers involve two addresses, so the user index is multi-entry and
+        // can't carry the chain order - a user's events are ordered here instead
+        const request = store.index('users').getAll(query.user);
+        request.onsuccess = () => {
+          const records = (request.result as StoredEvent[])
+            .filter(record => (lowerOpen ? record.orderKey > lower : record.orderKey >= lower) && record.orderKey < upper)
+            .filter(record => query.type === undefined || record.type === query.type)
+            .sort(compareOrderKeys);
+          done((query.order === 'asc' ? records : records.reverse()).slice(0, limit + 1));
+        };
+        return;
+      }
+
+      // Start from the narrowest index, then filter on the rest
+      const [index, range] = query.type !== undefined
+        ? [store.index('type'), keyRanges().bound([query.type, lower], [query.type, upper], lowerOpen, true)]
+        : [store.index('orderKey'), keyRanges().bound(lower, upper, lowerOpen, true)];
+
+      const found: StoredEvent[] = [];
+      const request = index.openCursor(range, query.order === 'asc' ? 'next' : 'prev');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || found.length > limit) {
+          done(found);
+          return;
+        }
+        found.push(cursor.value as StoredEvent);
+        cursor.continue();
+      };
+    });
+
+    return toPage(matches, limit);
+  }
+
+  async count(): Promise<number> {
+    return this.transaction<number>('readonly', (store, done) => {
+      const request = store.count();
+      request.onsuccess = () => done(request.result);
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.transaction<void>('readwrite', store => {
+      store.clear();
+    });
+  }
+}
+
+/**
+ * Store used when an events service is created without one: IndexedDB in
+ * browsers, a file under `.cache/contract-events` when given a file system
+ * (`node:fs`), memory otherwise
+ */
+export function createDefaultEventStore(name: string, fs?: EventStoreFileSystem): EventStore {
+  if (getBrowserStorage().indexedDB !== undefined) {
+    return new IndexedDBEventStore(`contract-events:${name}`);
+  }
+
+  if (fs) {
+    const directory = '.cache/contract-events';
+    try {
+      fs.mkdirSync(directory, { recursive: true });
+      return new FileEventStore(`${directory}/${name.replace(/[^\w.-]/g, '_')}.jsonl`, fs);
+    } catch (error) {
+      console.warn(`Failed to create event directory ${directory}, keeping events in memory:`, error);
+    }
+  }
+  return new MemoryEventStore();
+}
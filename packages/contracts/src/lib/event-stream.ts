@@ -0,0 +1,258 @@
+/**
+ * Live block notifications
+ *
+ * Synced events and analytics only refresh when a cache expires, so the UI can
+ * trail the chain by minutes. A BlockFeed pushes each new block as it lands:
+ * the Stacks API websocket in browsers, a server-sent event stream (what the
+ * local mock API in scripts/ speaks), or an in-memory feed in tests. The
+ * events service reacts to a block by syncing, so a feed only has to report
+ * that something happened - the events themselves still come from the API.
+ */
+
+import { NetworkConfig, NetworkOption, resolveNetwork } from './network';
+
+export interface BlockNotification {
+  height: number;
+  hash: string;
+  /** Block timestamp in Unix seconds, when the feed reports it */
+  time?: number;
+}
+
+export interface BlockFeedListener {
+  /** The connection is up (called again after every reconnect) */
+  onOpen(): void;
+  onBlock(block: BlockNotification): void;
+  /** The connection failed or dropped - not called after `close()` */
+  onClose(error?: unknown): void;
+}
+
+export interface BlockFeedConnection {
+  close(): void;
+}
+
+/**
+ * Source of new-block notifications
+ */
+export interface BlockFeed {
+  connect(listener: BlockFeedListener): BlockFeedConnection;
+}
+
+/**
+ * The parts of the WebSocket API the feed uses (browsers, Node 22+ and the `ws` package all fit)
+ */
+export interface WebSocketLike {
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+export interface WebSocketBlockFeedOptions {
+  /** WebSocket implementation (defaults to the global one - pass `ws` on older Node versions) */
+  WebSocket?: WebSocketConstructor;
+}
+
+/**
+ * Read a block out of a notification payload, or null if it isn't one
+ */
+function toBlockNotification(data: any): BlockNotification | null {
+  const height = Number(data?.height ?? data?.block_height);
+  if (!Number.isInteger(height) || height <= 0) {
+    return null;
+  }
+  const time = Number(data.block_time);
+  return {
+    height,
+    hash: String(data.hash ?? data.block_hash ?? ''),
+    ...(time > 0 ? { time } : {})
+  };
+}
+
+/**
+ * Block notifications from the Stacks API websocket (JSON-RPC `block` subscription)
+ */
+export class WebSocketBlockFeed implements BlockFeed {
+  private readonly url: string;
+  private readonly WebSocketImpl?: WebSocketConstructor;
+
+  constructor(network: NetworkOption, options: WebSocketBlockFeedOptions = {}) {
+    const config: NetworkConfig = resolveNetwork(network);
+    this.url = `${config.apiUrl.replace(/^http/, 'ws')}/extended/v1/ws`;
+    this.WebSocketImpl = options.WebSocket ?? (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+  }
+
+  connect(listener: BlockFeedListener): BlockFeedConnection {
+    if (!this.WebSocketImpl) {
+      throw new Error('WebSocket is not available here - pass a WebSocket implementation or use another block feed');
+    }
+
+    const socket = new this.WebSocketImpl(this.url);
+    let closed = false;
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'subscribe', params: { event: 'block' } }));
+      listener.onOpen();
+    };
+    socket.onmessage = message => {
+      try {
+        const payload = JSON.parse(String(message.data));
+        const block = payload.method === 'block' ? toBlockNotification(payload.params) : null;
+        if (block && !closed) {
+          listener.onBlock(block);
+        }
+      } catch (error) {
+        console.warn('Ignoring malformed block notification:', error);
+      }
+    };
+    // Browsers fire error and then close - report the drop once
+    socket.onerror = error => {
+      if (!closed) {
+        closed = true;
+        listener.onClose(error);
+      }
+    };
+    socket.onclose = () => {
+      if (!closed) {
+        closed = true;
+        listener.onClose();
+      }
+    };
+
+    return {
+      close: () => {
+        closed = true;
+        socket.close();
+      }
+    };
+  }
+}
+
+/**
+ * Block notifications from a server-sent event stream
+ * Each `block` (or unnamed) message carries a JSON block with `height` and `hash`
+ */
+export class SseBlockFeed implements BlockFeed {
+  private readonly url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  connect(listener: BlockFeedListener): BlockFeedConnection {
+    const controller = new AbortController();
+    let closed = false;
+
+    const finish = (error?: unknown) => {
+      if (!closed) {
+        closed = true;
+        listener.onClose(error);
+      }
+    };
+
+    const read = async () => {
+      const response = await fetch(this.url, { headers: { Accept: 'text/event-stream' }, signal: controller.signal });
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      listener.onOpen();
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done || closed) {
+          break;
+        }
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+        // Messages end with a blank line
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+          const block = this.parseMessage(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          if (block && !closed) {
+            listener.onBlock(block);
+          }
+        }
+      }
+    };
+
+    read().then(() => finish(), finish);
+
+    return {
+      close: () => {
+        closed = true;
+        controller.abort();
+      }
+    };
+  }
+
+  private parseMessage(message: string): BlockNotification | null {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of message.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).trim());
+      }
+    }
+    if ((event !== 'block' && event !== 'message') || data.length === 0) {
+      return null;
+    }
+
+    try {
+      return toBlockNotification(JSON.parse(data.join('\n')));
+    } catch {
+      console.warn('Ignoring malformed block notification:', message);
+      return null;
+    }
+  }
+}
+
+/**
+ * Block feed driven by `emitBlock` and `disconnect` calls, to exercise live
+ * delivery, reconnects and gap backfill without a stream
+ */
+export class StaticBlockFeed implements BlockFeed {
+  private readonly listeners = new Set<BlockFeedListener>();
+  /** Connections opened so far (reconnects included) */
+  connectCount = 0;
+
+  connect(listener: BlockFeedListener): BlockFeedConnection {
+    this.connectCount++;
+    this.listeners.add(listener);
+    // Open asynchronously, like a real connection
+    Promise.resolve().then(() => {
+      if (this.listeners.has(listener)) {
+        listener.onOpen();
+      }
+    });
+    return { close: () => this.listeners.delete(listener) };
+  }
+
+  /** Notify every open connection of a block */
+  emitBlock(block: BlockNotification): void {
+    this.listeners.forEach(listener => listener.onBlock(block));
+  }
+
+  /** Drop every open connection, as if the network failed */
+  disconnect(error?: unknown): void {
+    const listeners = [...this.listeners];
+    this.listeners.clear();
+    listeners.forEach(listener => listener.onClose(error));
+  }
+}
+
+/**
+ * Block feed for a network - the Stacks API websocket
+ */
+export function createDefaultBlockFeed(network: NetworkOption): BlockFeed {
+  return new WebSocketBlockFeed(network);
+}
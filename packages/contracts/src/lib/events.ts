@@ -6,42 +6,81 @@
  * - User claim events and streak tracking
  * - Deposit events for faucet funding
  * - Streak milestone achievements
+ * - Token movements (transfers, mints, burns) when watching the token contract
+ *
+ * Subscribers are notified of new events as blocks land (see subscribe)
  */
 
 import { cvToJSON, hexToCV } from '@stacks/transactions';
-import { getCacheEntry, setCacheEntry, removeCacheEntriesByPrefix } from './serializers';
+import { getCacheEntry, setCacheEntry, removeCacheEntriesByPrefix, getCacheKeysByPrefix } from './serializers';
+import { CacheStore, resolveCacheStore } from './cache-store';
+import { NetworkConfig, NetworkOption, getContractId, resolveNetwork } from './network';
+import { FaucetParameters, DEFAULT_FAUCET_PARAMETERS, fetchFaucetParameters } from './faucet-parameters';
+import { EventStore, EventStoreFileSystem, EventQuery, EventPage, ParsedEventType, createDefaultEventStore, toStoredEvent } from './event-store';
+import { BlockFeed, BlockFeedConnection, BlockNotification, createDefaultBlockFeed } from './event-stream';
+import { BlockTimeEstimator, BlockTimeEstimate, BlockEta } from './block-time';
+import { RunwayForecast, RunwayOptions, forecastRunway, getRunwayHistoryStart } from './runway';
+import { getErrorMessage } from './errors';
+
+/**
+ * Where an event was printed - carried by every parsed event
+ * One transaction can print several events (a claim and a streak milestone),
+ * so events are identified by `(txId, eventIndex)`
+ */
+export interface EventMetadata {
+  txId: string;
+  /** Position of the event within its transaction */
+  eventIndex: number;
+  /** Position of the transaction within its block */
+  txIndex: number;
+  blockHeight: number;
+  /** Hash of the block the event was mined in (checked against the canonical chain on sync) */
+  blockHash: string;
+  /** Block timestamp in Unix seconds */
+  blockTime: number;
+}
 
 // Contract event interfaces (parsed from blockchain events)
-export interface ClaimEvent {
+export interface ClaimEvent extends EventMetadata {
   type: 'claim';
   user: string;
   amount: number;
   streak: number;
   totalClaims: number;
+  /** Block height printed by the contract */
   block: number;
-  txId: string;
-  timestamp?: Date;
 }
 
-export interface DepositEvent {
+export interface DepositEvent extends EventMetadata {
   type: 'deposit';
   depositor: string;
   amount: number;
+  /** Block height printed by the contract */
   block: number;
-  txId: string;
-  timestamp?: Date;
 }
 
-export interface StreakMilestoneEvent {
+export interface StreakMilestoneEvent extends EventMetadata {
   type: 'streak_milestone';
   user: string;
   streak: number;
   tier: number;
-  txId: string;
-  timestamp?: Date;
 }
 
-export type ParsedEvent = ClaimEvent | DepositEvent | StreakMilestoneEvent;
+/**
+ * A movement of the watched contract's fungible token
+ */
+export interface TokenTransferEvent extends EventMetadata {
+  type: 'token_transfer';
+  action: 'transfer' | 'mint' | 'burn';
+  /** Empty for mints */
+  sender: string;
+  /** Empty for burns */
+  recipient: string;
+  /** Base units (token amounts can exceed Number.MAX_SAFE_INTEGER) */
+  amount: bigint;
+}
+
+export type ParsedEvent = ClaimEvent | DepositEvent | StreakMilestoneEvent | TokenTransferEvent;
 
 // Analytics calculation interfaces
 export interface UserAnalytics {
@@ -54,6 +93,8 @@ export interface UserAnalytics {
   lastClaimTimestamp?: Date;
   canClaimNow: boolean;
   nextClaimTime?: Date;
+  /** When the cooldown ends, with a likely range (set while it is still running) */
+  nextClaimEta?: BlockEta;
   streakMilestones: StreakMilestoneEvent[];
   claimHistory: ClaimEvent[];
 }
@@ -74,67 +115,350 @@ export interface GlobalAnalytics {
   lastUpdated: Date;
 }
 
+export type LeaderboardMetric = 'active_streak' | 'total_claimed' | 'deposits';
+
+/** Period a leaderboard covers, ending at the chain tip */
+export type LeaderboardWindow = 'day' | 'week' | 'month' | 'all';
+
+export interface LeaderboardOptions extends ConfirmationOptions {
+  /**
+   * - `active_streak`: current streak of claimers whose streak is still alive
+   * - `total_claimed`: tokens claimed
+   * - `deposits`: tokens deposited into the faucet
+   */
+  metric: LeaderboardMetric;
+  /** Only count events from this period - for streaks, only claimers who claimed in it (default 'all') */
+  window?: LeaderboardWindow;
+  /** Entries per page (default 10) */
+  limit?: number;
+  /** Entries to skip, for later pages (default 0) */
+  offset?: number;
+}
+
+export interface LeaderboardEntry {
+  /** Position from 1 - equal values share a rank */
+  rank: number;
+  address: string;
+  /** Streak length, or base units for the claimed and deposit metrics */
+  value: number;
+  /** Claims in the window (deposits, for the deposit metric) */
+  count: number;
+  /** Longest streak the address has had (claim metrics only) */
+  maxStreak?: number;
+  /** Block of the address's latest counted event */
+  lastActivityBlock: number;
+}
+
+export interface Leaderboard {
+  metric: LeaderboardMetric;
+  window: LeaderboardWindow;
+  entries: LeaderboardEntry[];
+  /** Ranked addresses across all pages */
+  total: number;
+  offset: number;
+}
+
+export interface TokenHolder {
+  address: string;
+  /** Balance in base units */
+  balance: bigint;
+  /** Block of the holder's latest transfer */
+  lastActivityBlock: number;
+}
+
+/**
+ * Position of a raw contract event (or transaction, see `eventSource`) in the chain
+ */
+export interface EventCursor {
+  blockHeight: number;
+  txId: string;
+  /** -1 for a transaction read as a whole */
+  eventIndex: number;
+}
+
+/**
+ * A block that synced events were mined in
+ */
+export interface BlockRef {
+  height: number;
+  hash: string;
+}
+
 export interface EventSyncState {
   lastProcessedBlock: number;
   lastSyncTimestamp: Date;
   totalEventsParsed: number;
   lastProcessedTxId: string;
   totalAPICallsMade: number;
+  /** Head is caught up and the backfill reached the first contract event */
   isFullySynced: boolean;
-  lastOffset: number;
+  /** Newest processed event - head syncs fetch until they reach it */
+  headCursor: EventCursor | null;
+  /** Oldest processed event - the backfill resumes right after it */
+  tailCursor: EventCursor | null;
+  /** Raw events (or transactions) processed from head to tail (locates the backfill page) */
+  rawEventsSynced: number;
+  /** Whether the backfill has reached the oldest contract event */
+  isBackfillComplete: boolean;
+  /** Newest blocks with events, newest first - re-checked each sync to detect reorgs */
+  recentBlocks: BlockRef[];
+}
+
+export interface EventsServiceOptions {
+  /** Storage for sync state and analytics (defaults to localStorage in browsers, memory elsewhere) */
+  cacheStore?: CacheStore;
+  /** Storage for synced events (defaults to IndexedDB in browsers, memory elsewhere) */
+  eventStore?: EventStore;
+  /** File system for the default event store outside browsers (pass `node:fs` to keep events under `.cache`) */
+  eventFileSystem?: EventStoreFileSystem;
+  /** Default confirmation depth for analytics and queries (default 0 - include every synced event) */
+  minConfirmations?: number;
+  /** New-block notifications for subscribe (defaults to the Stacks API websocket) */
+  blockFeed?: BlockFeed;
+  /** Converts block counts to time for claim ETAs (defaults to one learning from the network's blocks) */
+  blockTimeEstimator?: BlockTimeEstimator;
+  /**
+   * Where events are read from (default `contract-events`)
+   * - `contract-events`: the contract's print events
+   * - `transactions`: every event of the transactions calling the contract, which
+   *   includes the token movements the contract events endpoint leaves out
+   */
+  eventSource?: 'contract-events' | 'transactions';
+  /** Token whose movements are parsed as token_transfer events (defaults to the watched contract) */
+  tokenContractId?: string;
+  /**
+   * Services reading the transactions of other contracts that move the token
+   * (e.g. the faucet and batch transfer) - their token movements count towards getHolders
+   */
+  ledgerSources?: ContractEventsService[];
+}
+
+export interface ConfirmationOptions {
+  /**
+   * Only include events with at least this many confirmations
+   * (1 = mined in the current tip, 6 = five blocks on top of it)
+   */
+  minConfirmations?: number;
+}
+
+export interface EventSubscriptionFilter {
+  /** Only events involving this address */
+  user?: string;
+  /** Only events of this type (or these types) */
+  type?: ParsedEventType | ParsedEventType[];
+}
+
+export type EventHandler = (event: ParsedEvent) => void;
+
+export type BlockHandler = (block: BlockNotification) => void;
+
+/**
+ * A raw event as the contract events and transaction events endpoints report it
+ * (block metadata is filled in from its transaction where the endpoint leaves it out)
+ */
+interface RawEvent {
+  tx_id: string;
+  event_index: number;
+  event_type: string;
+  contract_log?: { contract_id: string; value: { hex: string } };
+  asset?: { asset_event_type: string; asset_id: string; sender?: string; recipient?: string; amount: string };
+  block_height?: number;
+  block_hash?: string;
+  block_time?: number;
+  tx_index?: number;
+}
+
+/**
+ * A transaction as the address transactions endpoint lists it, with its events attached
+ */
+interface RawTransaction {
+  tx_id: string;
+  tx_status: string;
+  event_count?: number;
+  block_height?: number;
+  block_hash?: string;
+  block_time?: number;
+  burn_block_time?: number;
+  tx_index?: number;
+  events: RawEvent[];
 }
 
-type NetworkType = 'mainnet' | 'testnet';
+/**
+ * The part of a contract events or address transactions page used by sync
+ */
+interface ListPage<T> {
+  results?: T[];
+}
+
+/**
+ * The part of a transaction events page (/extended/v1/tx/events) used by sync
+ */
+interface TransactionEventsPage {
+  events?: RawEvent[];
+}
+
+/**
+ * The `/extended/v1/tx/multiple` response - transactions found, by id
+ */
+type TransactionsById = Record<string, { result?: Omit<RawTransaction, 'events'> } | undefined>;
+
+/**
+ * The part of a block (or block list entry) used for heights and reorg checks
+ */
+interface BlockInfo {
+  height?: number;
+  hash?: string;
+}
+
+/**
+ * A raw event (or transaction) from a sync page, with the events parsed from it
+ */
+interface PageEntry {
+  cursor: EventCursor;
+  events: ParsedEvent[];
+}
+
+interface EventSubscription {
+  filter: EventSubscriptionFilter;
+  handler: EventHandler;
+}
 
 /**
  * Contract Events Service
  * Handles fetching, parsing, and analyzing contract events for real-time analytics
  */
 export class ContractEventsService {
-  private readonly network: NetworkType;
+  private readonly config: NetworkConfig;
   private readonly contractId: string;
   private readonly cachePrefix: string;
+  /** Names the default event store and prefixes cache keys */
+  private readonly storeName: string;
   private readonly apiUrl: string;
+  private readonly eventSource: 'contract-events' | 'transactions';
+  private readonly tokenContractId: string;
+  private readonly ledgerSources: ContractEventsService[];
+  private readonly cacheStore: CacheStore;
+  private customEventStore?: EventStore;
+  private readonly eventFileSystem?: EventStoreFileSystem;
+  private readonly minConfirmations: number;
+  /** Sync in progress, so concurrent analytics calls share one sync */
+  private syncInFlight: Promise<void> | null = null;
+
+  // Live subscriptions (see subscribe)
+  private customBlockFeed?: BlockFeed;
+  private customBlockTimeEstimator?: BlockTimeEstimator;
+  private readonly subscriptions = new Set<EventSubscription>();
+  private readonly blockHandlers = new Set<BlockHandler>();
+  private feedConnection: BlockFeedConnection | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  /** Order key of the newest event handed to subscribers (null until the feed first opens) */
+  private deliveredKey: string | null = null;
+  /** Deliveries run one at a time; blocks landing meanwhile share the next one */
+  private delivery: Promise<void> = Promise.resolve();
+  private deliveryQueued = false;
 
   // Cache TTL constants (in milliseconds)
   private readonly CACHE_TTL = {
-    EVENTS: 5 * 60 * 1000,        // 5 minutes - raw events cache
+    EVENTS: 5 * 60 * 1000,        // 5 minutes - how long synced events are fresh before the head is re-checked
     USER_ANALYTICS: 2 * 60 * 1000, // 2 minutes - user analytics
     GLOBAL_ANALYTICS: 1 * 60 * 1000, // 1 minute - global analytics
-    SYNC_STATE: 10 * 60 * 1000,    // 10 minutes - sync metadata
-    BLOCK_HEIGHT: 60 * 1000        // 1 minute - current block height
+    SYNC_STATE: 365 * 24 * 60 * 60 * 1000, // 1 year - sync cursors (the events live in the event store)
+    BLOCK_HEIGHT: 60 * 1000,       // 1 minute - current block height
+    FAUCET_PARAMETERS: 600 * 1000  // 10 minutes - contract constants
+  };
+
+  // Sync pagination limits
+  private readonly SYNC_PAGE_SIZE = 50;
+  private readonly TX_EVENTS_PAGE_SIZE = 50;
+  private readonly SYNC_MAX_API_CALLS = 20;
+
+  // Events read per store query when analytics need a full slice
+  private readonly READ_PAGE_SIZE = 500;
+
+  // Blocks re-checked for reorgs on each sync (a fork deeper than this restarts the sync)
+  private readonly REORG_WINDOW = 50;
+
+  // Block feed reconnect backoff (doubles per failed attempt)
+  private readonly RECONNECT_DELAY = {
+    MIN: 1000,
+    MAX: 30 * 1000
   };
 
-  // Streak tracking constants
-  private readonly STREAK_REQUIREMENTS = {
-    BLOCKS_PER_DAY: 17280,         // ~24 hours at 5 seconds per block
-    MAX_STREAK_GAP: 25920,         // 1.5 days in blocks (allows some flexibility)
-    COOLDOWN_BLOCKS: 17280         // 24 hours cooldown between claims
+  // Days covered by each leaderboard window (other than 'all'), converted with the learned block time
+  private readonly LEADERBOARD_WINDOW_DAYS = {
+    day: 1,
+    week: 7,
+    month: 30
   };
 
-  constructor(network: NetworkType = 'testnet', contractId?: string) {
-    this.network = network;
-    this.contractId = contractId || (network === 'mainnet' 
-      ? 'SP2ZNGJ85ENDY6QRHQ5P2D4FXKGZWCKTB2T0Z55KS.spare-tomato-pelican'
-      : 'ST2ZNGJ85ENDY6QRHQ5P2D4FXKGZWCKTB2SYCBMRR.spare-tomato-pelican');
-    this.cachePrefix = `events-service:${this.network}:`;
-    this.apiUrl = `https://api.${network === 'mainnet' ? 'mainnet' : 'testnet'}.hiro.so/extended/v1/contract/${this.contractId}/events`;
+  constructor(network: NetworkOption = 'testnet', contractId?: string, options: EventsServiceOptions = {}) {
+    this.config = resolveNetwork(network);
+    this.contractId = contractId || getContractId(this.config, 'faucet');
+    this.eventSource = options.eventSource ?? 'contract-events';
+    this.tokenContractId = options.tokenContractId ?? this.contractId;
+    this.ledgerSources = options.ledgerSources ?? [];
+    // Sync cursors only make sense for the listing they were taken from
+    this.storeName = this.eventSource === 'transactions'
+      ? `${this.config.name}:${this.contractId}:transactions`
+      : `${this.config.name}:${this.contractId}`;
+    this.cachePrefix = `events-service:${this.storeName}:`;
+    this.apiUrl = this.eventSource === 'transactions'
+      ? `${this.config.apiUrl}/extended/v1/address/${this.contractId}/transactions`
+      : `${this.config.apiUrl}/extended/v1/contract/${this.contractId}/events`;
+    this.cacheStore = resolveCacheStore(options.cacheStore);
+    this.customEventStore = options.eventStore;
+    this.eventFileSystem = options.eventFileSystem;
+    this.minConfirmations = options.minConfirmations ?? 0;
+    this.customBlockFeed = options.blockFeed;
+    this.customBlockTimeEstimator = options.blockTimeEstimator;
   }
 
   // CACHE MANAGEMENT
 
+  /**
+   * Store holding synced events (created on first use, so unused services never open a database)
+   */
+  private get eventStore(): EventStore {
+    if (!this.customEventStore) {
+      this.customEventStore = createDefaultEventStore(this.storeName, this.eventFileSystem);
+    }
+    return this.customEventStore;
+  }
+
+  private get blockTimeEstimator(): BlockTimeEstimator {
+    if (!this.customBlockTimeEstimator) {
+      this.customBlockTimeEstimator = new BlockTimeEstimator(this.config, { cacheStore: this.cacheStore });
+    }
+    return this.customBlockTimeEstimator;
+  }
+
+  /**
+   * Feed of new blocks for subscriptions (created on first subscribe)
+   */
+  private get blockFeed(): BlockFeed {
+    if (!this.customBlockFeed) {
+      this.customBlockFeed = createDefaultBlockFeed(this.config);
+    }
+    return this.customBlockFeed;
+  }
+
   private getCached<T>(key: string): T | null {
     const cacheKey = this.cachePrefix + key;
-    return getCacheEntry<T>(cacheKey);
+    return getCacheEntry<T>(cacheKey, this.cacheStore);
   }
 
   private setCached<T>(key: string, data: T, ttl: number): void {
     const cacheKey = this.cachePrefix + key;
-    setCacheEntry(cacheKey, data, ttl);
+    setCacheEntry(cacheKey, data, ttl, this.cacheStore);
   }
 
   public clearCache(): void {
-    removeCacheEntriesByPrefix(this.cachePrefix);
+    removeCacheEntriesByPrefix(this.cachePrefix, this.cacheStore);
+    // Without a sync state the next sync starts over anyway - this just frees the space now
+    this.eventStore.clear().catch(error => {
+      console.warn('Failed to clear event store:', error);
+    });
   }
 
   // SYNC STATE MANAGEMENT
@@ -142,17 +466,24 @@ export class ContractEventsService {
   /**
    * Get current sync state from cache
    */
-  private getSyncState(): EventSyncState {
+  getSyncState(): EventSyncState {
     const cached = this.getCached<EventSyncState>('sync_state');
     if (cached !== null) {
       // Ensure lastSyncTimestamp is a Date object (it may be a string from JSON)
       return {
         ...cached,
-        lastSyncTimestamp: new Date(cached.lastSyncTimestamp)
+        lastSyncTimestamp: new Date(cached.lastSyncTimestamp),
+        recentBlocks: cached.recentBlocks ?? []
       };
     }
 
-    // Default sync state for first run
+    return this.getInitialSyncState();
+  }
+
+  /**
+   * Default sync state for first run
+   */
+  private getInitialSyncState(): EventSyncState {
     return {
       lastProcessedBlock: 0,
       lastSyncTimestamp: new Date(0),
@@ -160,7 +491,11 @@ export class ContractEventsService {
       lastProcessedTxId: '',
       totalAPICallsMade: 0,
       isFullySynced: false,
-      lastOffset: 0
+      headCursor: null,
+      tailCursor: null,
+      rawEventsSynced: 0,
+      isBackfillComplete: false,
+      recentBlocks: []
     };
   }
 
@@ -171,62 +506,110 @@ export class ContractEventsService {
     this.setCached('sync_state', state, this.CACHE_TTL.SYNC_STATE);
   }
 
-  /**
-   * Update sync state after processing events
-   */
-  private updateSyncState(
-    newEvents: ParsedEvent[], 
-    apiCallsMade: number, 
-    lastOffset: number,
-    isFullySynced: boolean
-  ): void {
-    const currentState = this.getSyncState();
-    
-    // Find the highest block number from new events
-    const maxBlock = newEvents.length > 0 
-      ? Math.max(...newEvents.map(e => 'block' in e ? e.block : 0))
-      : currentState.lastProcessedBlock;
-
-    // Find the most recent transaction ID
-    const mostRecentTxId = newEvents.length > 0 
-      ? newEvents[0].txId 
-      : currentState.lastProcessedTxId;
-
-    const updatedState: EventSyncState = {
-      lastProcessedBlock: Math.max(maxBlock, currentState.lastProcessedBlock),
-      lastSyncTimestamp: new Date(),
-      totalEventsParsed: currentState.totalEventsParsed + newEvents.length,
-      lastProcessedTxId: mostRecentTxId,
-      totalAPICallsMade: currentState.totalAPICallsMade + apiCallsMade,
-      isFullySynced,
-      lastOffset: isFullySynced ? 0 : lastOffset
-    };
-
-    this.setSyncState(updatedState);
-  }
-
   // EVENT FETCHING AND PARSING
 
   /**
    * Fetch raw events from Stacks API with pagination support
+   * (transactions with their events attached when reading transactions)
    */
   async fetchRawEvents(limit: number = 50, offset: number = 0): Promise<any[]> {
     try {
-      const url = `${this.apiUrl}?limit=${limit}&offset=${offset}`;
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      return data.results || [];
+      return await this.fetchEventsPage(limit, offset);
     } catch (error) {
       console.error('Failed to fetch events:', error);
       return [];
     }
   }
 
+  /**
+   * Fetch one page of raw events, throwing on API failures
+   * (sync must not mistake a failed request for the end of the event list)
+   */
+  private async fetchEventsPage(limit: number, offset: number): Promise<Array<RawEvent | RawTransaction>> {
+    const url = `${this.apiUrl}?limit=${limit}&offset=${offset}`;
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    if (this.eventSource === 'transactions') {
+      const data = (await response.json()) as ListPage<RawTransaction>;
+      return Promise.all((data.results || []).map(tx => this.withTransactionEvents(tx)));
+    }
+    const data = (await response.json()) as ListPage<RawEvent>;
+    return this.withTransactionMetadata(data.results || []);
+  }
+
+  /**
+   * Attach every event of a transaction, carrying the transaction's block
+   * metadata (the transaction events endpoint only reports tx_id and event_index)
+   */
+  private async withTransactionEvents(tx: RawTransaction): Promise<RawTransaction> {
+    const rawEvents: RawEvent[] = [];
+    // Failed transactions roll their events back
+    if (tx.tx_status === 'success' && tx.event_count !== 0) {
+      let page: RawEvent[];
+      do {
+        const url = `${this.config.apiUrl}/extended/v1/tx/events?tx_id=${tx.tx_id}&limit=${this.TX_EVENTS_PAGE_SIZE}&offset=${rawEvents.length}`;
+        const response = await fetch(url);
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        page = ((await response.json()) as TransactionEventsPage).events || [];
+        rawEvents.push(...page);
+      } while (page.length === this.TX_EVENTS_PAGE_SIZE);
+    }
+
+    return {
+      ...tx,
+      events: rawEvents.map(rawEvent => ({
+        ...rawEvent,
+        tx_id: tx.tx_id,
+        block_height: tx.block_height,
+        block_hash: tx.block_hash,
+        block_time: tx.block_time ?? tx.burn_block_time,
+        tx_index: tx.tx_index
+      }))
+    };
+  }
+
+  /**
+   * Fill in block_height, block_hash, block_time and tx_index on raw events that don't carry
+   * them (the contract events endpoint only reports tx_id and event_index),
+   * looking up the page's transactions in one request
+   */
+  private async withTransactionMetadata(rawEvents: RawEvent[]): Promise<RawEvent[]> {
+    const txIds = [...new Set(rawEvents.filter(e => e.block_height === undefined).map(e => e.tx_id))];
+    if (txIds.length === 0) {
+      return rawEvents;
+    }
+
+    const query = txIds.map(txId => `tx_id=${txId}`).join('&');
+    const response = await fetch(`${this.config.apiUrl}/extended/v1/tx/multiple?${query}`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const transactions = (await response.json()) as TransactionsById;
+    return rawEvents.map(rawEvent => {
+      const tx = transactions[rawEvent.tx_id]?.result;
+      if (rawEvent.block_height !== undefined || !tx) {
+        return rawEvent;
+      }
+      return {
+        ...rawEvent,
+        block_height: tx.block_height,
+        block_hash: tx.block_hash,
+        block_time: tx.block_time,
+        tx_index: tx.tx_index
+      };
+    });
+  }
+
   /**
    * Get current block height from Stacks API
    */
@@ -240,14 +623,14 @@ export class ContractEventsService {
     }
 
     try {
-      const blockApiUrl = `https://api.${this.network === 'mainnet' ? 'mainnet' : 'testnet'}.hiro.so/extended/v1/block?limit=1`;
+      const blockApiUrl = `${this.config.apiUrl}/extended/v1/block?limit=1`;
       const response = await fetch(blockApiUrl);
       
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
       
-      const data = await response.json();
+      const data = (await response.json()) as ListPage<BlockInfo>;
       const latestBlock = data.results?.[0];
       
       if (!latestBlock?.height) {
@@ -263,10 +646,10 @@ export class ContractEventsService {
     } catch (error) {
       console.error('Failed to fetch current block height:', error);
       
-      // Fallback: estimate based on time if we have cached events
-      const events = this.getCached<ParsedEvent[]>('parsed_events');
-      if (events && events.length > 0) {
-        const latestEventBlock = Math.max(...events.map(e => 'block' in e ? e.block : 0));
+      // Fallback: estimate based on time if we have synced events
+      const { events } = await this.eventStore.getEvents({ limit: 1 }).catch(() => ({ events: [] as ParsedEvent[] }));
+      if (events.length > 0) {
+        const latestEventBlock = events[0].blockHeight;
         if (latestEventBlock > 0) {
           // Estimate current block as latest event + some blocks (conservative)
           const estimatedCurrent = latestEventBlock + 100;
@@ -281,12 +664,38 @@ export class ContractEventsService {
     }
   }
 
+  /**
+   * Get the faucet's cooldown, streak window and tiers from get-faucet-stats
+   */
+  async getFaucetParameters(): Promise<FaucetParameters> {
+    const cacheKey = 'faucet_parameters';
+
+    const cached = this.getCached<FaucetParameters>(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+
+    try {
+      const parameters = await fetchFaucetParameters(this.config, this.contractId);
+      this.setCached(cacheKey, parameters, this.CACHE_TTL.FAUCET_PARAMETERS);
+      return parameters;
+    } catch (error) {
+      console.warn('Failed to load faucet parameters, using defaults:', error);
+      return DEFAULT_FAUCET_PARAMETERS;
+    }
+  }
+
   /**
    * Parse a single raw event into a typed ParsedEvent
    */
   parseEvent(rawEvent: any): ParsedEvent | null {
     try {
-      if (rawEvent.event_type !== 'smart_contract_log' || !rawEvent.contract_log) {
+      if (rawEvent.event_type === 'fungible_token_asset') {
+        return this.parseAssetEvent(rawEvent);
+      }
+
+      // A transaction's events include prints from every contract it called
+      if (rawEvent.event_type !== 'smart_contract_log' || rawEvent.contract_log?.contract_id !== this.contractId) {
         return null;
       }
 
@@ -300,7 +709,8 @@ export class ContractEventsService {
 
       const eventData = jsonValue.value;
       const eventType = eventData.event?.value;
-      const txId = rawEvent.tx_id;
+      const printedBlock = parseInt(eventData.block?.value || '0');
+      const metadata = this.getEventMetadata(rawEvent, printedBlock);
 
       switch (eventType) {
         case 'claim':
@@ -310,8 +720,8 @@ export class ContractEventsService {
             amount: parseInt(eventData.amount?.value || '0'),
             streak: parseInt(eventData.streak?.value || '0'),
             totalClaims: parseInt(eventData['total-claims']?.value || '0'),
-            block: parseInt(eventData.block?.value || '0'),
-            txId
+            block: printedBlock,
+            ...metadata
           };
 
         case 'deposit':
@@ -319,8 +729,8 @@ export class ContractEventsService {
             type: 'deposit',
             depositor: eventData.depositor?.value || '',
             amount: parseInt(eventData.amount?.value || '0'),
-            block: parseInt(eventData.block?.value || '0'),
-            txId
+            block: printedBlock,
+            ...metadata
           };
 
         case 'streak_milestone':
@@ -329,7 +739,7 @@ export class ContractEventsService {
             user: eventData.user?.value || '',
             streak: parseInt(eventData.streak?.value || '0'),
             tier: parseInt(eventData.tier?.value || '0'),
-            txId
+            ...metadata
           };
 
         default:
@@ -342,116 +752,430 @@ export class ContractEventsService {
   }
 
   /**
-   * Fetch and parse all events with incremental syncing
+   * Parse a movement of the ledger's token (see `tokenContractId`)
+   * Movements of other tokens and malformed payloads are skipped
    */
-  async syncEvents(forceRefresh: boolean = false): Promise<ParsedEvent[]> {
-    const cacheKey = 'parsed_events';
-    
-    // Get current sync state
-    const syncState = this.getSyncState();
-    
-    // Check cache first unless forcing refresh or we need to continue syncing
-    if (!forceRefresh && !this.shouldContinueSync(syncState)) {
-      const cached = this.getCached<ParsedEvent[]>(cacheKey);
-      if (cached !== null) {
-        return cached;
+  private parseAssetEvent(rawEvent: any): TokenTransferEvent | null {
+    const asset = rawEvent.asset;
+    if (!asset?.asset_id?.startsWith(`${this.tokenContractId}::`)) {
+      return null;
+    }
+
+    const action = asset.asset_event_type;
+    if (action !== 'transfer' && action !== 'mint' && action !== 'burn') {
+      console.warn(`Skipping token event with unknown type ${action} in ${rawEvent.tx_id}`);
+      return null;
+    }
+    if (typeof asset.amount !== 'string' || !/^\d+$/.test(asset.amount)) {
+      console.warn(`Skipping token event with invalid amount ${asset.amount} in ${rawEvent.tx_id}`);
+      return null;
+    }
+
+    return {
+      type: 'token_transfer',
+      action,
+      sender: asset.sender || '',
+      recipient: asset.recipient || '',
+      amount: BigInt(asset.amount),
+      ...this.getEventMetadata(rawEvent)
+    };
+  }
+
+  /**
+   * Chain position of a raw event
+   */
+  private getEventMetadata(rawEvent: any, fallbackBlockHeight: number = 0): EventMetadata {
+    return {
+      txId: rawEvent.tx_id,
+      eventIndex: rawEvent.event_index ?? 0,
+      txIndex: rawEvent.tx_index ?? 0,
+      blockHeight: rawEvent.block_height ?? fallbackBlockHeight,
+      blockHash: rawEvent.block_hash ?? '',
+      blockTime: rawEvent.block_time ?? 0
+    };
+  }
+
+  /**
+   * Parse a page of raw events (or transactions) and record the cursor of each one
+   */
+  private parsePage(rawItems: Array<RawEvent | RawTransaction>): PageEntry[] {
+    return rawItems.map(rawItem => {
+      // Transactions carry their events, raw events stand alone
+      if ('events' in rawItem) {
+        return {
+          cursor: { blockHeight: rawItem.block_height ?? 0, txId: rawItem.tx_id, eventIndex: -1 },
+          events: rawItem.events
+            .map(rawEvent => this.parseEvent(rawEvent))
+            .filter((event): event is ParsedEvent => event !== null)
+        };
       }
+
+      const event = this.parseEvent(rawItem);
+      return {
+        cursor: {
+          blockHeight: event?.blockHeight ?? rawItem.block_height ?? 0,
+          txId: rawItem.tx_id,
+          eventIndex: rawItem.event_index
+        },
+        events: event ? [event] : []
+      };
+    });
+  }
+
+  /**
+   * Split parsed page entries into events and cursors
+   */
+  private collectEntries(entries: PageEntry[], events: ParsedEvent[], cursors: EventCursor[]): void {
+    for (const entry of entries) {
+      cursors.push(entry.cursor);
+      events.push(...entry.events);
     }
+  }
 
-    try {
-      console.log(`🔄 Starting incremental sync from offset ${syncState.lastOffset}`);
-      
-      // Get existing events from cache or empty array
-      let allEvents: ParsedEvent[] = [];
-      if (!forceRefresh) {
-        const cached = this.getCached<ParsedEvent[]>(cacheKey);
-        if (cached !== null) {
-          allEvents = [...cached];
-        }
+  private isSameEvent(cursor: EventCursor, other: EventCursor | null): boolean {
+    return !!other && cursor.txId === other.txId && cursor.eventIndex === other.eventIndex;
+  }
+
+  /**
+   * Fetch events newer than the head cursor (the API returns newest first)
+   * Stops at the cursor, or at the first older block if the cursor event was orphaned
+   */
+  private async fetchNewEvents(head: EventCursor): Promise<{
+    events: ParsedEvent[];
+    cursors: EventCursor[];
+    apiCallsMade: number;
+    reachedHead: boolean;
+  }> {
+    const events: ParsedEvent[] = [];
+    const cursors: EventCursor[] = [];
+    let apiCallsMade = 0;
+    let offset = 0;
+
+    while (apiCallsMade < this.SYNC_MAX_API_CALLS) {
+      const rawEvents = await this.fetchEventsPage(this.SYNC_PAGE_SIZE, offset);
+      apiCallsMade++;
+
+      const entries = this.parsePage(rawEvents);
+      const headIndex = entries.findIndex(({ cursor }) =>
+        this.isSameEvent(cursor, head) ||
+        (cursor.blockHeight > 0 && cursor.blockHeight < head.blockHeight)
+      );
+
+      this.collectEntries(headIndex === -1 ? entries : entries.slice(0, headIndex), events, cursors);
+
+      if (headIndex !== -1 || rawEvents.length < this.SYNC_PAGE_SIZE) {
+        return { events, cursors, apiCallsMade, reachedHead: true };
       }
 
-      // Track API calls and new events found
-      let apiCallsMade = 0;
-      let newEventsFound = 0;
-      let offset = forceRefresh ? 0 : syncState.lastOffset;
-      let isFullySynced = false;
-
-      // Incremental pagination to fetch all events
-      while (true) {
-        console.log(`📄 Fetching page at offset ${offset}`);
-        const rawEvents = await this.fetchRawEvents(50, offset);
-        apiCallsMade++;
-
-        if (rawEvents.length === 0) {
-          console.log('✅ No more events found - sync complete');
-          isFullySynced = true;
-          break;
-        }
+      offset += rawEvents.length;
+    }
 
-        // Parse new events
-        const newParsedEvents: ParsedEvent[] = [];
-        for (const rawEvent of rawEvents) {
-          const parsed = this.parseEvent(rawEvent);
-          if (parsed) {
-            // Check if we already have this event (avoid duplicates)
-            const isDuplicate = allEvents.some(existing => 
-              existing.txId === parsed.txId && 
-              ('block' in existing && 'block' in parsed && existing.block === parsed.block)
-            );
-            
-            if (!isDuplicate) {
-              newParsedEvents.push(parsed);
-              newEventsFound++;
-            }
-          }
+    return { events, cursors, apiCallsMade, reachedHead: false };
+  }
+
+  /**
+   * Fetch events older than the tail cursor
+   * Offsets are counted from the newest event, so the page is located from the
+   * number of raw events between head and tail and verified against the tail cursor
+   */
+  private async fetchOlderEvents(tail: EventCursor | null, tailOffset: number, maxApiCalls: number): Promise<{
+    events: ParsedEvent[];
+    cursors: EventCursor[];
+    apiCallsMade: number;
+    isComplete: boolean;
+    lostTail: boolean;
+  }> {
+    const events: ParsedEvent[] = [];
+    const cursors: EventCursor[] = [];
+    let apiCallsMade = 0;
+    // Re-read the tail event to confirm the offset still points where we expect
+    let offset = tail ? Math.max(0, tailOffset - 1) : 0;
+    let verifyTail = tail !== null;
+
+    while (apiCallsMade < maxApiCalls) {
+      console.log(`📄 Backfilling page at offset ${offset}`);
+      const rawEvents = await this.fetchEventsPage(this.SYNC_PAGE_SIZE, offset);
+      apiCallsMade++;
+      offset += rawEvents.length;
+
+      let entries = this.parsePage(rawEvents);
+
+      if (verifyTail) {
+        const tailIndex = entries.findIndex(({ cursor }) => this.isSameEvent(cursor, tail));
+        if (tailIndex === -1) {
+          console.warn('⚠️  Backfill tail cursor not found - events shifted since the last sync');
+          return { events, cursors, apiCallsMade, isComplete: false, lostTail: true };
         }
+        entries = entries.slice(tailIndex + 1);
+        verifyTail = false;
+      }
+
+      this.collectEntries(entries, events, cursors);
 
-        // Add new events to our collection
-        allEvents.push(...newParsedEvents);
+      if (rawEvents.length < this.SYNC_PAGE_SIZE) {
+        console.log('✅ Reached the oldest contract event - backfill complete');
+        return { events, cursors, apiCallsMade, isComplete: true, lostTail: false };
+      }
+    }
 
-        console.log(`📊 Page ${Math.floor(offset/50) + 1}: ${rawEvents.length} raw events, ${newParsedEvents.length} new parsed events`);
+    console.log(`⚠️  Reached API call limit (${this.SYNC_MAX_API_CALLS}) - backfill will continue next sync`);
+    return { events, cursors, apiCallsMade, isComplete: false, lostTail: false };
+  }
 
-        // Move to next page
-        offset += 50;
+  /**
+   * Sync and return all events (newest first)
+   * Prefer getEvents for anything that only needs a user, type or block range
+   */
+  async syncEvents(forceRefresh: boolean = false): Promise<ParsedEvent[]> {
+    await this.sync(forceRefresh);
+    return this.readEvents({});
+  }
 
-        // Stop if we got fewer events than requested (reached the end)
-        if (rawEvents.length < 50) {
-          console.log('✅ Reached end of events - sync complete');
-          isFullySynced = true;
-          break;
-        }
+  /**
+   * Query synced events, newest first unless `order` is `asc`
+   * Syncs first when the stored events are stale; pass `nextCursor` back as
+   * `cursor` to page through large results
+   */
+  async getEvents(query: EventQuery = {}, options: ConfirmationOptions = {}): Promise<EventPage> {
+    await this.sync();
+    const confirmedHeight = await this.getConfirmedHeight(options.minConfirmations ?? this.minConfirmations);
+    return this.eventStore.getEvents(confirmedHeight === undefined
+      ? query
+      : { ...query, toBlock: Math.min(query.toBlock ?? confirmedHeight, confirmedHeight) });
+  }
+
+  /**
+   * Highest block whose events have the given number of confirmations
+   * (undefined when every synced event qualifies)
+   */
+  private async getConfirmedHeight(minConfirmations: number): Promise<number | undefined> {
+    if (minConfirmations <= 1) {
+      return undefined;
+    }
+    return (await this.getCurrentBlockHeight()) - minConfirmations + 1;
+  }
 
-        // Safety check: don't make too many API calls in one sync
-        if (apiCallsMade >= 20) {
-          console.log('⚠️  Reached API call limit (20) - will continue next sync');
-          break;
+  /**
+   * Read every event matching a query from the store, one page at a time
+   */
+  private async readEvents(query: Omit<EventQuery, 'limit' | 'cursor'>): Promise<ParsedEvent[]> {
+    const events: ParsedEvent[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.eventStore.getEvents({ ...query, limit: this.READ_PAGE_SIZE, cursor });
+      events.push(...page.events);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return events;
+  }
+
+  /**
+   * Bring the event store up to date (concurrent callers share one sync)
+   */
+  private sync(forceRefresh: boolean = false): Promise<void> {
+    if (!this.syncInFlight) {
+      this.syncInFlight = this.runSync(forceRefresh).finally(() => {
+        this.syncInFlight = null;
+      });
+    }
+    return this.syncInFlight;
+  }
+
+  /**
+   * Fetch and store events with incremental syncing
+   * New events are fetched down to the head cursor; history is backfilled from
+   * the tail cursor until the oldest event is reached
+   */
+  private async runSync(forceRefresh: boolean): Promise<void> {
+    let syncState = forceRefresh ? this.getInitialSyncState() : this.getSyncState();
+
+    // Stored events are fresh unless the head is stale or the backfill is incomplete
+    if (!this.shouldContinueSync(syncState)) {
+      return;
+    }
+
+    try {
+      // The store can be wiped independently of the sync state (e.g. site data cleared)
+      if (syncState.headCursor && await this.eventStore.count() === 0 && syncState.totalEventsParsed > 0) {
+        console.warn('⚠️  Event store is empty but the sync state is not - restarting sync');
+        syncState = { ...this.getInitialSyncState(), totalAPICallsMade: syncState.totalAPICallsMade };
+      }
+
+      let apiCallsMade = 0;
+
+      if (syncState.headCursor) {
+        const reorg = await this.findOrphanedBlocks(syncState.recentBlocks);
+        apiCallsMade += reorg.apiCallsMade;
+        if (reorg.orphanedFrom !== null) {
+          syncState = await this.rollBack(syncState, reorg.orphanedFrom);
         }
       }
 
-      // Sort all events by block number (newest first)
-      allEvents.sort((a, b) => {
-        const blockA = 'block' in a ? a.block : 0;
-        const blockB = 'block' in b ? b.block : 0;
-        return blockB - blockA;
-      });
+      // Cursors are only meaningful together with the events they describe
+      if (!syncState.headCursor) {
+        await this.eventStore.clear();
+      }
 
-      // Update sync state
-      this.updateSyncState(allEvents, apiCallsMade, offset, isFullySynced);
+      let newEvents: ParsedEvent[] = [];
+      let newCursors: EventCursor[] = [];
+
+      if (syncState.headCursor) {
+        console.log(`🔄 Fetching events newer than block ${syncState.headCursor.blockHeight} (${syncState.headCursor.txId}:${syncState.headCursor.eventIndex})`);
+        const head = await this.fetchNewEvents(syncState.headCursor);
+        apiCallsMade += head.apiCallsMade;
+        newEvents = head.events;
+        newCursors = head.cursors;
+
+        if (!head.reachedHead) {
+          // Too many new events to bridge the gap - restart history from the newest ones
+          console.log('⚠️  Head cursor not reached within the API call limit - restarting backfill');
+          await this.eventStore.clear();
+          syncState = { ...this.getInitialSyncState(), totalAPICallsMade: syncState.totalAPICallsMade };
+        }
+      }
 
-      // Cache the complete result
-      this.setCached(cacheKey, allEvents, this.CACHE_TTL.EVENTS);
+      let headCursor = newCursors[0] || syncState.headCursor;
+      let tailCursor = syncState.tailCursor || newCursors[newCursors.length - 1] || null;
+      let rawEventsSynced = syncState.rawEventsSynced + newCursors.length;
+      // Without a head cursor nothing has been seen yet, so scan from the newest event
+      let isBackfillComplete = syncState.isBackfillComplete && headCursor !== null;
+      let olderEvents: ParsedEvent[] = [];
+
+      if (!isBackfillComplete && apiCallsMade < this.SYNC_MAX_API_CALLS) {
+        console.log(`🔄 Backfilling events older than offset ${rawEventsSynced}`);
+        const backfill = await this.fetchOlderEvents(tailCursor, rawEventsSynced, this.SYNC_MAX_API_CALLS - apiCallsMade);
+        apiCallsMade += backfill.apiCallsMade;
+
+        if (backfill.lostTail) {
+          // Start over on the next sync rather than risk gaps or duplicates
+          this.setSyncState({ ...this.getInitialSyncState(), totalAPICallsMade: syncState.totalAPICallsMade + apiCallsMade });
+          return;
+        }
 
-      console.log(`✅ Sync complete: ${allEvents.length} total events, ${newEventsFound} new events, ${apiCallsMade} API calls`);
+        olderEvents = backfill.events;
+        headCursor = headCursor || backfill.cursors[0] || null;
+        tailCursor = backfill.cursors[backfill.cursors.length - 1] || tailCursor;
+        rawEventsSynced += backfill.cursors.length;
+        isBackfillComplete = backfill.isComplete;
+      }
+
+      const syncedEvents = [...newEvents, ...olderEvents];
+      await this.eventStore.putEvents(syncedEvents);
+      const blocks = syncedEvents.map(event => event.blockHeight);
+      const totalEventsParsed = await this.eventStore.count();
+
+      this.setSyncState({
+        lastProcessedBlock: Math.max(syncState.lastProcessedBlock, ...blocks, 0),
+        lastSyncTimestamp: new Date(),
+        totalEventsParsed,
+        lastProcessedTxId: headCursor?.txId || '',
+        totalAPICallsMade: syncState.totalAPICallsMade + apiCallsMade,
+        isFullySynced: isBackfillComplete,
+        headCursor,
+        tailCursor,
+        rawEventsSynced,
+        isBackfillComplete,
+        recentBlocks: this.mergeRecentBlocks(syncState.recentBlocks, syncedEvents)
+      });
 
-      return allEvents;
+      console.log(`✅ Sync complete: ${totalEventsParsed} total events, ${newEvents.length} new, ${olderEvents.length} backfilled, ${apiCallsMade} API calls`);
     } catch (error) {
+      // Keep serving the events stored so far
       console.error('Failed to sync events:', error);
-      // Return cached events if available, empty array otherwise
-      const cached = this.getCached<ParsedEvent[]>(cacheKey);
-      return cached || [];
     }
   }
 
+  // REORG HANDLING
+
+  /**
+   * Hash of the canonical block at a height, or null if there is none yet
+   */
+  private async fetchCanonicalBlockHash(height: number): Promise<string | null> {
+    const response = await fetch(`${this.config.apiUrl}/extended/v1/block/by_height/${height}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    const data = (await response.json()) as BlockInfo;
+    return data.hash || null;
+  }
+
+  /**
+   * Walk the recent blocks from the newest until one is still canonical
+   * Resolves the lowest orphaned height (0 when the fork is deeper than the window), or null
+   */
+  private async findOrphanedBlocks(recentBlocks: BlockRef[]): Promise<{ orphanedFrom: number | null; apiCallsMade: number }> {
+    let orphanedFrom: number | null = null;
+    let apiCallsMade = 0;
+
+    for (const block of recentBlocks) {
+      const canonicalHash = await this.fetchCanonicalBlockHash(block.height);
+      apiCallsMade++;
+      if (canonicalHash === block.hash) {
+        return { orphanedFrom, apiCallsMade };
+      }
+      orphanedFrom = block.height;
+    }
+
+    if (orphanedFrom !== null && recentBlocks.length >= this.REORG_WINDOW) {
+      return { orphanedFrom: 0, apiCallsMade };
+    }
+    return { orphanedFrom, apiCallsMade };
+  }
+
+  /**
+   * Remove events from blocks that left the canonical chain and move the head
+   * cursor back to the newest remaining event, so the next head sync refetches
+   * whatever the canonical chain has instead
+   */
+  private async rollBack(syncState: EventSyncState, fromHeight: number): Promise<EventSyncState> {
+    const removed = await this.eventStore.removeEventsFrom(fromHeight);
+    const { events: [newest] } = await this.eventStore.getEvents({ limit: 1 });
+    this.clearAnalyticsCaches();
+    console.warn(`⚠️  Blocks from ${fromHeight} left the canonical chain - rolled back ${removed} events`);
+
+    // Deliver the canonical replacements of rolled-back events too
+    const newestKey = newest ? toStoredEvent(newest).orderKey : '';
+    if (this.deliveredKey !== null && this.deliveredKey > newestKey) {
+      this.deliveredKey = newestKey;
+    }
+
+    if (!newest) {
+      return { ...this.getInitialSyncState(), totalAPICallsMade: syncState.totalAPICallsMade };
+    }
+
+    return {
+      ...syncState,
+      lastProcessedBlock: Math.min(syncState.lastProcessedBlock, newest.blockHeight),
+      headCursor: {
+        blockHeight: newest.blockHeight,
+        txId: newest.txId,
+        eventIndex: this.eventSource === 'transactions' ? -1 : newest.eventIndex
+      },
+      // Unparsed raw events aren't stored, so this can undercount - the backfill re-verifies its tail cursor
+      rawEventsSynced: Math.max(0, syncState.rawEventsSynced - removed),
+      recentBlocks: syncState.recentBlocks.filter(block => block.height < fromHeight)
+    };
+  }
+
+  /**
+   * Add the blocks of newly synced events to the reorg window
+   */
+  private mergeRecentBlocks(recentBlocks: BlockRef[], events: ParsedEvent[]): BlockRef[] {
+    const hashes = new Map(recentBlocks.map(block => [block.height, block.hash]));
+    events.forEach(event => {
+      if (event.blockHash) {
+        hashes.set(event.blockHeight, event.blockHash);
+      }
+    });
+    return [...hashes.entries()]
+      .map(([height, hash]) => ({ height, hash }))
+      .sort((a, b) => b.height - a.height)
+      .slice(0, this.REORG_WINDOW);
+  }
+
   /**
    * Check if we should continue syncing based on sync state
    */
@@ -471,7 +1195,7 @@ export class ContractEventsService {
   /**
    * Calculate daily distribution rate based on historical claim events
    */
-  private calculateDailyRate(claims: ClaimEvent[]): {
+  private calculateDailyRate(claims: ClaimEvent[], blocksPerDay: number): {
     dailyRate: number;
     method: 'recent_7day' | 'recent_30day' | 'historical' | 'fallback';
     confidence: 'high' | 'medium' | 'low';
@@ -491,7 +1215,7 @@ export class ContractEventsService {
     const currentBlock = Math.max(...claims.map(c => c.block));
 
     // Calculate time periods in blocks
-    const oneDayBlocks = this.STREAK_REQUIREMENTS.BLOCKS_PER_DAY;
+    const oneDayBlocks = blocksPerDay;
     const sevenDayBlocks = oneDayBlocks * 7;
     const thirtyDayBlocks = oneDayBlocks * 30;
 
@@ -558,9 +1282,11 @@ export class ContractEventsService {
 
   /**
    * Calculate analytics for a specific user
+   * Pass `minConfirmations` to leave out events from blocks that could still be reorganized
    */
-  async getUserAnalytics(userAddress: string): Promise<UserAnalytics | null> {
-    const cacheKey = `user_analytics:${userAddress}`;
+  async getUserAnalytics(userAddress: string, options: ConfirmationOptions = {}): Promise<UserAnalytics | null> {
+    const minConfirmations = options.minConfirmations ?? this.minConfirmations;
+    const cacheKey = `user_analytics:${userAddress}:${minConfirmations}`;
     
     // Check cache first
     const cached = this.getCached<UserAnalytics>(cacheKey);
@@ -574,15 +1300,12 @@ export class ContractEventsService {
     }
 
     try {
-      // Force refetch if no cached events found (could be an empty cache from failed fetch)
-      const cachedEvents = this.getCached<ParsedEvent[]>('parsed_events');
-      const shouldForceRefresh = cachedEvents === null || cachedEvents.length === 0;
-      
-      const events = await this.syncEvents(shouldForceRefresh);
-      
-      // Filter events for this user
-      const userClaims = events.filter(e => e.type === 'claim' && e.user === userAddress) as ClaimEvent[];
-      const userMilestones = events.filter(e => e.type === 'streak_milestone' && e.user === userAddress) as StreakMilestoneEvent[];
+      await this.sync();
+      const toBlock = await this.getConfirmedHeight(minConfirmations);
+      const events = await this.readEvents({ user: userAddress, toBlock });
+
+      const userClaims = events.filter(e => e.type === 'claim') as ClaimEvent[];
+      const userMilestones = events.filter(e => e.type === 'streak_milestone') as StreakMilestoneEvent[];
 
       if (userClaims.length === 0) {
         return null; // User has no claim history
@@ -598,11 +1321,12 @@ export class ContractEventsService {
       const lastClaimBlock = lastClaim.block;
 
       // Calculate current and max streak
-      const { currentStreak, maxStreak } = this.calculateStreaks(userClaims);
+      const parameters = await this.getFaucetParameters();
+      const { currentStreak, maxStreak } = this.calculateStreaks(userClaims, parameters);
 
       // Calculate if user can claim now (cooldown check)
-      const canClaimNow = await this.canUserClaimNow(lastClaimBlock);
-      const nextClaimTime = await this.calculateNextClaimTime(lastClaimBlock);
+      const canClaimNow = await this.canUserClaimNow(lastClaimBlock, parameters);
+      const nextClaimEta = await this.calculateNextClaimTime(lastClaimBlock, parameters);
 
       const userAnalytics: UserAnalytics = {
         address: userAddress,
@@ -611,9 +1335,10 @@ export class ContractEventsService {
         currentStreak,
         maxStreak,
         lastClaimBlock,
-        lastClaimTimestamp: lastClaim.timestamp,
+        lastClaimTimestamp: lastClaim.blockTime ? new Date(lastClaim.blockTime * 1000) : undefined,
         canClaimNow,
-        nextClaimTime,
+        nextClaimTime: nextClaimEta ? new Date(Date.now() + nextClaimEta.seconds * 1000) : undefined,
+        nextClaimEta,
         streakMilestones: userMilestones,
         claimHistory: userClaims
       };
@@ -630,9 +1355,11 @@ export class ContractEventsService {
 
   /**
    * Calculate global analytics across all users
+   * Pass `minConfirmations` to leave out events from blocks that could still be reorganized
    */
-  async getGlobalAnalytics(): Promise<GlobalAnalytics> {
-    const cacheKey = 'global_analytics';
+  async getGlobalAnalytics(options: ConfirmationOptions = {}): Promise<GlobalAnalytics> {
+    const minConfirmations = options.minConfirmations ?? this.minConfirmations;
+    const cacheKey = `global_analytics:${minConfirmations}`;
     
     // Check cache first
     const cached = this.getCached<GlobalAnalytics>(cacheKey);
@@ -641,10 +1368,12 @@ export class ContractEventsService {
     }
 
     try {
-      const events = await this.syncEvents();
-      
-      const claims = events.filter(e => e.type === 'claim') as ClaimEvent[];
-      const deposits = events.filter(e => e.type === 'deposit') as DepositEvent[];
+      await this.sync();
+      const toBlock = await this.getConfirmedHeight(minConfirmations);
+      const [claims, deposits] = await Promise.all([
+        this.readEvents({ type: 'claim', toBlock }) as Promise<ClaimEvent[]>,
+        this.readEvents({ type: 'deposit', toBlock }) as Promise<DepositEvent[]>
+      ]);
 
       // Calculate basic totals
       const totalClaims = claims.length;
@@ -663,15 +1392,16 @@ export class ContractEventsService {
       const longestStreak = Math.max(...streaks, 0);
 
       // Calculate recent activity (last 24 hours and 7 days in blocks)
+      const blocksPerDay = await this.daysToBlocks(1);
       const currentBlock = Math.max(...claims.map(c => c.block), 0);
-      const oneDayAgo = currentBlock - this.STREAK_REQUIREMENTS.BLOCKS_PER_DAY;
-      const oneWeekAgo = currentBlock - (this.STREAK_REQUIREMENTS.BLOCKS_PER_DAY * 7);
+      const oneDayAgo = currentBlock - blocksPerDay;
+      const oneWeekAgo = currentBlock - (blocksPerDay * 7);
 
       const dailyClaimCount = claims.filter(c => c.block >= oneDayAgo).length;
       const weeklyClaimCount = claims.filter(c => c.block >= oneWeekAgo).length;
 
       // Calculate daily distribution rate based on historical data
-      const dailyRateCalculation = this.calculateDailyRate(claims);
+      const dailyRateCalculation = this.calculateDailyRate(claims, blocksPerDay);
 
       const globalAnalytics: GlobalAnalytics = {
         totalUsers: uniqueUsers,
@@ -715,12 +1445,255 @@ export class ContractEventsService {
     }
   }
 
+  /**
+   * Project how long `balance` (base units) lasts from the claim and deposit history
+   * Accounts for deposits, streak retention and claimers moving up reward tiers (see runway.ts)
+   * Throws when the event history cannot be read
+   */
+  async getRunwayForecast(balance: bigint, options: ConfirmationOptions & RunwayOptions = {}): Promise<RunwayForecast> {
+    const { minConfirmations = this.minConfirmations, ...runwayOptions } = options;
+
+    await this.sync();
+    const toBlock = await this.getConfirmedHeight(minConfirmations);
+    const [currentBlock, parameters, blockTime] = await Promise.all([
+      toBlock ?? this.getCurrentBlockHeight(),
+      this.getFaucetParameters(),
+      this.getBlockTimeEstimate()
+    ]);
+
+    // Only the recent history is read - the oldest events just say where it starts
+    const fromBlock = getRunwayHistoryStart(currentBlock, parameters, runwayOptions.lookbackRounds);
+    const [claims, deposits, oldestClaim, oldestDeposit] = await Promise.all([
+      this.readEvents({ type: 'claim', fromBlock, toBlock }) as Promise<ClaimEvent[]>,
+      this.readEvents({ type: 'deposit', fromBlock, toBlock }) as Promise<DepositEvent[]>,
+      this.eventStore.getEvents({ type: 'claim', toBlock, order: 'asc', limit: 1 }),
+      this.eventStore.getEvents({ type: 'deposit', toBlock, order: 'asc', limit: 1 })
+    ]);
+    const firstBlock = Math.min(
+      oldestClaim.events[0]?.blockHeight ?? currentBlock,
+      oldestDeposit.events[0]?.blockHeight ?? currentBlock,
+      currentBlock
+    );
+
+    return forecastRunway({ balance, claims, deposits, currentBlock, firstBlock, parameters, blockTime }, runwayOptions);
+  }
+
+  // LEADERBOARDS
+
+  /**
+   * One page of a leaderboard - addresses ranked by streak, tokens claimed or tokens deposited
+   * The full ranking is cached, so paging through it doesn't recompute it
+   */
+  async getLeaderboard(options: LeaderboardOptions): Promise<Leaderboard> {
+    const { metric, window = 'all', limit = 10, offset = 0 } = options;
+    const minConfirmations = options.minConfirmations ?? this.minConfirmations;
+    const cacheKey = `leaderboard:${metric}:${window}:${minConfirmations}`;
+
+    let ranking = this.getCached<LeaderboardEntry[]>(cacheKey);
+    if (ranking === null) {
+      await this.sync();
+      const toBlock = await this.getConfirmedHeight(minConfirmations);
+      const currentBlock = toBlock ?? await this.getCurrentBlockHeight();
+      const fromBlock = window === 'all' ? 0 : currentBlock - await this.daysToBlocks(this.LEADERBOARD_WINDOW_DAYS[window]);
+
+      ranking = this.rankEntries(metric === 'deposits'
+        ? this.rankDepositors(await this.readEvents({ type: 'deposit', fromBlock, toBlock }) as DepositEvent[])
+        : this.rankClaimers(
+            metric,
+            await this.readClaimHistories(fromBlock, toBlock),
+            fromBlock,
+            currentBlock,
+            await this.getFaucetParameters()
+          ));
+      this.setCached(cacheKey, ranking, this.CACHE_TTL.GLOBAL_ANALYTICS);
+    }
+
+    return {
+      metric,
+      window,
+      entries: ranking.slice(offset, offset + limit),
+      total: ranking.length,
+      offset
+    };
+  }
+
+  /**
+   * Every claim of the users who claimed since `fromBlock`, by user
+   * Streaks reach back before the window, so each of those users' full history is read
+   */
+  private async readClaimHistories(fromBlock: number, toBlock?: number): Promise<Map<string, ClaimEvent[]>> {
+    const claimsByUser = new Map<string, ClaimEvent[]>();
+    const group = (claims: ClaimEvent[]) => claims.forEach(claim => {
+      const userClaims = claimsByUser.get(claim.user) || [];
+      userClaims.push(claim);
+      claimsByUser.set(claim.user, userClaims);
+    });
+
+    if (fromBlock <= 0) {
+      group(await this.readEvents({ type: 'claim', toBlock }) as ClaimEvent[]);
+      return claimsByUser;
+    }
+
+    const windowClaims = await this.readEvents({ type: 'claim', fromBlock, toBlock }) as ClaimEvent[];
+    const users = [...new Set(windowClaims.map(claim => claim.user))];
+    const histories = await Promise.all(users.map(user =>
+      this.readEvents({ user, type: 'claim', toBlock }) as Promise<ClaimEvent[]>
+    ));
+    histories.forEach(group);
+    return claimsByUser;
+  }
+
+  /**
+   * Leaderboard entries for claimers, unranked
+   */
+  private rankClaimers(
+    metric: 'active_streak' | 'total_claimed',
+    claimsByUser: Map<string, ClaimEvent[]>,
+    fromBlock: number,
+    currentBlock: number,
+    parameters: FaucetParameters
+  ): Omit<LeaderboardEntry, 'rank'>[] {
+    const entries: Omit<LeaderboardEntry, 'rank'>[] = [];
+    claimsByUser.forEach((userClaims, address) => {
+      const windowClaims = userClaims.filter(claim => claim.block >= fromBlock);
+      if (windowClaims.length === 0) {
+        return;
+      }
+      const { currentStreak, maxStreak } = this.calculateStreaks(userClaims, parameters);
+      const lastActivityBlock = Math.max(...windowClaims.map(claim => claim.block));
+
+      if (metric === 'active_streak') {
+        // A streak is only active while the next claim can still extend it
+        if (currentBlock - lastActivityBlock > parameters.streakWindowBlocks) {
+          return;
+        }
+        entries.push({ address, value: currentStreak, count: windowClaims.length, maxStreak, lastActivityBlock });
+      } else {
+        const claimed = windowClaims.reduce((sum, claim) => sum + claim.amount, 0);
+        entries.push({ address, value: claimed, count: windowClaims.length, maxStreak, lastActivityBlock });
+      }
+    });
+    return entries;
+  }
+
+  /**
+   * Leaderboard entries for the depositors in the window, unranked
+   */
+  private rankDepositors(deposits: DepositEvent[]): Omit<LeaderboardEntry, 'rank'>[] {
+    const byDepositor = new Map<string, Omit<LeaderboardEntry, 'rank'>>();
+    deposits.forEach(deposit => {
+      const entry = byDepositor.get(deposit.depositor)
+        || { address: deposit.depositor, value: 0, count: 0, lastActivityBlock: 0 };
+      entry.value += deposit.amount;
+      entry.count++;
+      entry.lastActivityBlock = Math.max(entry.lastActivityBlock, deposit.block);
+      byDepositor.set(deposit.depositor, entry);
+    });
+    return [...byDepositor.values()];
+  }
+
+  /**
+   * Sort entries by value, highest first, and number them
+   * Ties share a rank and are listed by who got there first
+   */
+  private rankEntries(entries: Omit<LeaderboardEntry, 'rank'>[]): LeaderboardEntry[] {
+    const sorted = [...entries].sort((a, b) => b.value - a.value || a.lastActivityBlock - b.lastActivityBlock);
+    const ranked: LeaderboardEntry[] = [];
+    sorted.forEach((entry, index) => {
+      const previous = ranked[index - 1];
+      const rank = previous && previous.value === entry.value ? previous.rank : index + 1;
+      ranked.push({ ...entry, rank });
+    });
+    return ranked;
+  }
+
+  // TOKEN LEDGER (for services watching the token contract)
+
+  /**
+   * Token movements synced by this service and its ledger sources, oldest first
+   */
+  private async readTokenTransfers(query: Omit<EventQuery, 'type' | 'limit' | 'cursor' | 'order'>): Promise<TokenTransferEvent[]> {
+    const sources = [this, ...this.ledgerSources];
+    await Promise.all(sources.map(source => source.sync()));
+
+    // A transaction can show up in more than one contract's listing
+    const transfers = new Map<string, TokenTransferEvent>();
+    for (const source of sources) {
+      const events = await source.readEvents({ ...query, type: 'token_transfer' }) as TokenTransferEvent[];
+      events.forEach(event => transfers.set(`${event.txId}:${event.eventIndex}`, event));
+    }
+
+    return [...transfers.values()]
+      .map(event => ({ event, orderKey: toStoredEvent(event).orderKey }))
+      .sort((a, b) => (a.orderKey < b.orderKey ? -1 : a.orderKey > b.orderKey ? 1 : 0))
+      .map(({ event }) => event);
+  }
+
+  /**
+   * Addresses holding the token, largest balance first
+   * Balances are replayed from the synced token movements, so they are only
+   * complete once every source's backfill has reached its first event (see getSyncState)
+   */
+  async getHolders(options: ConfirmationOptions = {}): Promise<TokenHolder[]> {
+    const minConfirmations = options.minConfirmations ?? this.minConfirmations;
+    const cacheKey = `holders:${minConfirmations}`;
+
+    const cached = this.getCached<TokenHolder[]>(cacheKey);
+    if (cached !== null) {
+      return cached;
+    }
+
+    const toBlock = await this.getConfirmedHeight(minConfirmations);
+    const transfers = await this.readTokenTransfers({ toBlock });
+
+    // Running balance per address, oldest movement first
+    const ledger = new Map<string, TokenHolder>();
+    const applyMovement = (address: string, delta: bigint, block: number) => {
+      if (!address) return;
+      const holder = ledger.get(address) || { address, balance: 0n, lastActivityBlock: 0 };
+      holder.balance += delta;
+      holder.lastActivityBlock = block;
+      ledger.set(address, holder);
+    };
+    for (const transfer of transfers) {
+      applyMovement(transfer.sender, -transfer.amount, transfer.blockHeight);
+      applyMovement(transfer.recipient, transfer.amount, transfer.blockHeight);
+    }
+
+    const holders = [...ledger.values()]
+      .filter(holder => holder.balance > 0n)
+      .sort((a, b) => (b.balance > a.balance ? 1 : b.balance < a.balance ? -1 : 0));
+
+    this.setCached(cacheKey, holders, this.CACHE_TTL.GLOBAL_ANALYTICS);
+    return holders;
+  }
+
+  /**
+   * The largest holders
+   */
+  async getTopHolders(limit: number = 10, options: ConfirmationOptions = {}): Promise<TokenHolder[]> {
+    return (await this.getHolders(options)).slice(0, limit);
+  }
+
+  /**
+   * Balance of an address at the end of a block, replayed from its token movements
+   */
+  async getBalanceAtBlock(address: string, blockHeight: number): Promise<bigint> {
+    const transfers = await this.readTokenTransfers({ user: address, toBlock: blockHeight });
+    return transfers.reduce((balance, transfer) =>
+      balance
+        + (transfer.recipient === address ? transfer.amount : 0n)
+        - (transfer.sender === address ? transfer.amount : 0n),
+      0n
+    );
+  }
+
   // STREAK CALCULATION LOGIC
 
   /**
    * Calculate current and maximum streak for a user's claim history
    */
-  private calculateStreaks(claims: ClaimEvent[]): { currentStreak: number; maxStreak: number } {
+  private calculateStreaks(claims: ClaimEvent[], parameters: FaucetParameters): { currentStreak: number; maxStreak: number } {
     if (claims.length === 0) {
       return { currentStreak: 0, maxStreak: 0 };
     }
@@ -738,8 +1711,8 @@ export class ContractEventsService {
       const currentClaim = sortedClaims[i];
       const blockGap = currentClaim.block - prevClaim.block;
 
-      // Check if claims are within streak range (allowing some flexibility)
-      if (blockGap <= this.STREAK_REQUIREMENTS.MAX_STREAK_GAP) {
+      // Check if claims are within the contract's streak window
+      if (blockGap <= parameters.streakWindowBlocks) {
         tempStreak++;
       } else {
         // Streak broken, reset temporary counter
@@ -758,7 +1731,7 @@ export class ContractEventsService {
       const earlierClaim = sortedClaims[i];
       const blockGap = laterClaim.block - earlierClaim.block;
 
-      if (blockGap <= this.STREAK_REQUIREMENTS.MAX_STREAK_GAP) {
+      if (blockGap <= parameters.streakWindowBlocks) {
         currentStreak++;
       } else {
         break; // Streak broken
@@ -771,51 +1744,261 @@ export class ContractEventsService {
   /**
    * Check if user can claim now based on cooldown period
    */
-  private async canUserClaimNow(lastClaimBlock: number): Promise<boolean> {
+  private async canUserClaimNow(lastClaimBlock: number, parameters: FaucetParameters): Promise<boolean> {
     try {
       const currentBlock = await this.getCurrentBlockHeight();
       const blocksSinceLastClaim = currentBlock - lastClaimBlock;
       
-      return blocksSinceLastClaim >= this.STREAK_REQUIREMENTS.COOLDOWN_BLOCKS;
+      return blocksSinceLastClaim >= parameters.cooldownBlocks;
     } catch (error) {
       console.error('Failed to get current block height for claim check:', error);
       // Fallback to conservative estimate
       const estimatedCurrentBlock = lastClaimBlock + 100;
       const blocksSinceLastClaim = estimatedCurrentBlock - lastClaimBlock;
-      return blocksSinceLastClaim >= this.STREAK_REQUIREMENTS.COOLDOWN_BLOCKS;
+      return blocksSinceLastClaim >= parameters.cooldownBlocks;
     }
   }
 
   /**
-   * Calculate when user can next claim
+   * Estimate when the user can next claim (undefined when they can claim now)
+   * Block counts are converted with the learned block time, so the ETA comes with a range
    */
-  private async calculateNextClaimTime(lastClaimBlock: number): Promise<Date | undefined> {
-    if (await this.canUserClaimNow(lastClaimBlock)) {
+  private async calculateNextClaimTime(lastClaimBlock: number, parameters: FaucetParameters): Promise<BlockEta | undefined> {
+    const currentBlock = await this.getCurrentBlockHeight();
+    const blocksUntilNextClaim = parameters.cooldownBlocks - (currentBlock - lastClaimBlock);
+
+    if (blocksUntilNextClaim <= 0) {
       return undefined; // Can claim now
     }
 
-    try {
-      const currentBlock = await this.getCurrentBlockHeight();
-      const blocksUntilNextClaim = this.STREAK_REQUIREMENTS.COOLDOWN_BLOCKS - (currentBlock - lastClaimBlock);
-      
-      // If blocks until next claim is negative or zero, user can claim now
-      if (blocksUntilNextClaim <= 0) {
-        return undefined;
+    return this.blockTimeEstimator.estimateBlocks(blocksUntilNextClaim);
+  }
+
+  /**
+   * Current seconds-per-block estimate, learned from recent block timestamps
+   */
+  async getBlockTimeEstimate(): Promise<BlockTimeEstimate> {
+    return this.blockTimeEstimator.getEstimate();
+  }
+
+  /**
+   * Blocks produced in a number of days at the learned block time
+   */
+  private async daysToBlocks(days: number): Promise<number> {
+    const { secondsPerBlock } = await this.getBlockTimeEstimate();
+    return Math.round((days * 86_400) / secondsPerBlock);
+  }
+
+  // LIVE SUBSCRIPTIONS
+
+  /**
+   * Call `handler` with each new event matching `filter`, as soon as its block lands
+   *
+   * Opens the block feed with the first subscription and closes it with the
+   * last. Each block triggers the normal sync, so after a dropped connection
+   * is re-established the events missed meanwhile are backfilled and delivered
+   * in chain order before live delivery resumes. Analytics caches are cleared
+   * before handlers run, so they can re-read fresh figures. Events are
+   * delivered unconfirmed; rolled-back events are not retracted.
+   *
+   * Returns a function that ends the subscription.
+   */
+  subscribe(filter: EventSubscriptionFilter, handler: EventHandler): () => void {
+    const subscription: EventSubscription = { filter, handler };
+    const feedWasOpen = this.feedConnection !== null;
+    this.subscriptions.add(subscription);
+
+    const unsubscribe = this.startListening(() => {
+      const removed = this.subscriptions.delete(subscription);
+      if (this.subscriptions.size === 0) {
+        // A later subscription starts from the head again
+        this.deliveredKey = null;
       }
-      
-      // Calculate time until next claim (5 seconds per block)
-      const secondsUntilNextClaim = blocksUntilNextClaim * 5;
-      
-      return new Date(Date.now() + (secondsUntilNextClaim * 1000));
-    } catch (error) {
-      console.error('Failed to get current block height for next claim time:', error);
-      // Fallback to conservative estimate
-      const estimatedCurrentBlock = lastClaimBlock + 100;
-      const blocksUntilNextClaim = this.STREAK_REQUIREMENTS.COOLDOWN_BLOCKS - (estimatedCurrentBlock - lastClaimBlock);
-      const secondsUntilNextClaim = Math.max(0, blocksUntilNextClaim * 5);
-      
-      return new Date(Date.now() + (secondsUntilNextClaim * 1000));
+      return removed;
+    });
+
+    // The feed was already open for block handlers - start delivering from the current head
+    if (feedWasOpen && this.deliveredKey === null) {
+      this.queueDelivery();
+    }
+    return unsubscribe;
+  }
+
+  /**
+   * Call `handler` with each new block as soon as it is announced (before its events are synced)
+   * Returns a function that ends the subscription.
+   */
+  subscribeBlocks(handler: BlockHandler): () => void {
+    // Wrapped so the same handler can be subscribed twice
+    const listener: BlockHandler = block => handler(block);
+    this.blockHandlers.add(listener);
+    return this.startListening(() => this.blockHandlers.delete(listener));
+  }
+
+  private hasListeners(): boolean {
+    return this.subscriptions.size > 0 || this.blockHandlers.size > 0;
+  }
+
+  /**
+   * Open the block feed for a newly added listener unless it is already open (or reconnecting)
+   * Returns the listener's unsubscribe function, which closes the feed after the last listener
+   */
+  private startListening(remove: () => boolean): () => void {
+    if (!this.feedConnection && !this.reconnectTimer) {
+      try {
+        this.openBlockFeed();
+      } catch (error) {
+        remove();
+        throw error;
+      }
+    }
+
+    return () => {
+      if (remove() && !this.hasListeners()) {
+        this.closeBlockFeed();
+      }
+    };
+  }
+
+  private openBlockFeed(): void {
+    this.feedConnection = this.blockFeed.connect({
+      onOpen: () => {
+        this.reconnectAttempts = 0;
+        // Catch up on whatever landed before (or while) the feed was down
+        if (this.subscriptions.size > 0) {
+          this.queueDelivery();
+        }
+      },
+      onBlock: block => {
+        this.setCached('current_block_height', block.height, this.CACHE_TTL.BLOCK_HEIGHT);
+        if (block.time) {
+          this.blockTimeEstimator.observeBlocks([{ height: block.height, time: block.time }]);
+        }
+        this.blockHandlers.forEach(handler => {
+          try {
+            handler(block);
+          } catch (error) {
+            console.error('Block subscription handler failed:', error);
+          }
+        });
+        if (this.subscriptions.size > 0) {
+          this.queueDelivery();
+        }
+      },
+      onClose: error => {
+        this.feedConnection = null;
+        console.warn(`🔌 Block feed disconnected: ${error ? getErrorMessage(error) : 'connection closed'}`);
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private closeBlockFeed(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
+    this.feedConnection?.close();
+    this.feedConnection = null;
+    this.reconnectAttempts = 0;
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.hasListeners() || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(this.RECONNECT_DELAY.MIN * 2 ** this.reconnectAttempts, this.RECONNECT_DELAY.MAX);
+    this.reconnectAttempts++;
+    console.log(`🔌 Reconnecting block feed in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.hasListeners()) {
+        return;
+      }
+      try {
+        this.openBlockFeed();
+      } catch (error) {
+        console.warn('Block feed reconnect failed:', error);
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private queueDelivery(): void {
+    if (this.deliveryQueued) {
+      return;
+    }
+    this.deliveryQueued = true;
+    this.delivery = this.delivery
+      .then(() => {
+        this.deliveryQueued = false;
+        return this.deliverNewEvents();
+      })
+      .catch(error => {
+        console.error('Failed to deliver new events:', error);
+      });
+  }
+
+  /**
+   * Sync, then hand subscribers the events stored after the last one delivered
+   */
+  private async deliverNewEvents(): Promise<void> {
+    // A sync already running may have read the head before this block landed
+    await this.syncInFlight;
+    // A block landed, so the head is stale whatever its TTL says
+    this.markHeadStale();
+    await this.sync();
+
+    if (this.subscriptions.size === 0) {
+      return;
+    }
+
+    if (this.deliveredKey === null) {
+      // First connection - start from the current head rather than replaying history
+      const { events: [newest] } = await this.eventStore.getEvents({ limit: 1 });
+      this.deliveredKey = newest ? toStoredEvent(newest).orderKey : '';
+      return;
+    }
+
+    const events: ParsedEvent[] = [];
+    let cursor: string | undefined = this.deliveredKey || undefined;
+    do {
+      const page = await this.eventStore.getEvents({ order: 'asc', limit: this.READ_PAGE_SIZE, cursor });
+      events.push(...page.events);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    if (events.length === 0) {
+      return;
+    }
+
+    this.deliveredKey = toStoredEvent(events[events.length - 1]).orderKey;
+    this.clearAnalyticsCaches();
+
+    for (const event of events) {
+      for (const subscription of [...this.subscriptions]) {
+        if (!this.matchesFilter(event, subscription.filter)) {
+          continue;
+        }
+        try {
+          subscription.handler(event);
+        } catch (error) {
+          console.error('Event subscription handler failed:', error);
+        }
+      }
+    }
+  }
+
+  private matchesFilter(event: ParsedEvent, filter: EventSubscriptionFilter): boolean {
+    if (filter.type !== undefined) {
+      const types = Array.isArray(filter.type) ? filter.type : [filter.type];
+      if (!types.includes(event.type)) {
+        return false;
+      }
+    }
+    return filter.user === undefined || toStoredEvent(event).users.includes(filter.user);
   }
 
   // PUBLIC UTILITY METHODS
@@ -824,34 +2007,34 @@ export class ContractEventsService {
    * Invalidate analytics caches (call after new claims/deposits)
    */
   public invalidateAnalytics(): void {
-    // Clear analytics caches but keep raw events cache
-    removeCacheEntriesByPrefix(this.cachePrefix + 'user_analytics:');
-    removeCacheEntriesByPrefix(this.cachePrefix + 'global_analytics');
-    
-    // Also clear the events cache to force refetch
-    localStorage.removeItem(this.cachePrefix + 'parsed_events');
+    // Clear analytics caches but keep the synced events
+    this.clearAnalyticsCaches();
+    this.markHeadStale();
+  }
+
+  /**
+   * Mark the head as stale so the next sync fetches events newer than the head cursor
+   */
+  private markHeadStale(): void {
+    const syncState = this.getCached<EventSyncState>('sync_state');
+    if (syncState !== null) {
+      this.setSyncState({ ...syncState, lastSyncTimestamp: new Date(0) });
+    }
+  }
+
+  private clearAnalyticsCaches(): void {
+    removeCacheEntriesByPrefix(this.cachePrefix + 'user_analytics:', this.cacheStore);
+    removeCacheEntriesByPrefix(this.cachePrefix + 'global_analytics', this.cacheStore);
+    removeCacheEntriesByPrefix(this.cachePrefix + 'holders:', this.cacheStore);
+    removeCacheEntriesByPrefix(this.cachePrefix + 'leaderboard:', this.cacheStore);
   }
 
   /**
    * Get cache statistics for debugging
    */
   public getCacheStats(): { totalEntries: number; cacheKeys: string[] } {
-    const keys: string[] = [];
-    
-    // Handle Node.js environment where localStorage is not available
-    if (typeof localStorage === 'undefined') {
-      return {
-        totalEntries: 0,
-        cacheKeys: ['localStorage not available in Node.js environment']
-      };
-    }
-    
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(this.cachePrefix)) {
-        keys.push(key.replace(this.cachePrefix, ''));
-      }
-    }
+    const keys = getCacheKeysByPrefix(this.cachePrefix, this.cacheStore)
+      .map(key => key.replace(this.cachePrefix, ''));
     return {
       totalEntries: keys.length,
       cacheKeys: keys
@@ -868,14 +2051,50 @@ export class ContractEventsService {
   /**
    * Get network being used
    */
-  public getNetwork(): NetworkType {
-    return this.network;
+  public getNetwork(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Get the full network configuration being used
+   */
+  public getNetworkConfig(): NetworkConfig {
+    return this.config;
   }
 }
 
-// Export singleton instances for both networks
+// Export singleton instances for each preset network
 export const eventsService = new ContractEventsService('mainnet');
 export const eventsServiceTestnet = new ContractEventsService('testnet');
+export const eventsServiceDevnet = new ContractEventsService('devnet');
+
+/**
+ * Events service watching a network's token contract, for the holder ledger
+ * Reads the transactions calling the token, plus those calling the faucet and
+ * batch transfer contracts, which move the token without calling it directly
+ */
+export function createTokenEventsService(network: NetworkOption = 'testnet', options: EventsServiceOptions = {}): ContractEventsService {
+  const config = resolveNetwork(network);
+  const tokenContractId = getContractId(config, 'token');
+  const sourceOptions: EventsServiceOptions = {
+    cacheStore: options.cacheStore,
+    minConfirmations: options.minConfirmations,
+    eventSource: 'transactions',
+    tokenContractId
+  };
+  return new ContractEventsService(config, tokenContractId, {
+    eventSource: 'transactions',
+    ledgerSources: [
+      new ContractEventsService(config, getContractId(config, 'faucet'), sourceOptions),
+      new ContractEventsService(config, getContractId(config, 'batchTransfer'), sourceOptions)
+    ],
+    ...options
+  });
+}
+
+export const tokenEventsService = createTokenEventsService('mainnet');
+export const tokenEventsServiceTestnet = createTokenEventsService('testnet');
+export const tokenEventsServiceDevnet = createTokenEventsService('devnet');
 
 // Export the class for custom instances
 export default ContractEventsService;
\ No newline at end of file
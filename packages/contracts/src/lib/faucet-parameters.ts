@@ -0,0 +1,170 @@
+/**
+ * Faucet economics read from the deployed contract
+ * Cooldown, streak window and tier rewards come from `get-faucet-stats`, and
+ * the tier thresholds from `get-reward-for-streak`, so a redeployed faucet with
+ * different constants (or more tiers) needs no code changes
+ */
+
+import { Cl, fetchCallReadOnlyFunction, cvToJSON } from '@stacks/transactions';
+import { NetworkConfig, getNetworkParams } from './network';
+
+export interface FaucetParameters {
+  /** Blocks a user must wait between claims (COOLDOWN-BLOCKS) */
+  cooldownBlocks: number;
+  /** Maximum blocks between claims that keeps a streak alive (STREAK-WINDOW) */
+  streakWindowBlocks: number;
+  /** Reward per tier, lowest tier first (TIER-N-REWARD) */
+  tierRewards: number[];
+  /** Minimum streak for each tier, lowest tier first */
+  tierStreaks: number[];
+}
+
+/**
+ * Reward the contract pays for a claim at a streak
+ */
+export type StreakRewardReader = (streak: number) => Promise<number>;
+
+// Highest streak searched for tier thresholds - far beyond any reachable streak
+const MAX_TIER_STREAK = 1_000_000;
+
+/**
+ * Values of the deployed faucet - used until the on-chain parameters have loaded
+ */
+export const DEFAULT_FAUCET_PARAMETERS: FaucetParameters = {
+  cooldownBlocks: 17280,
+  streakWindowBlocks: 34560,
+  tierRewards: [50_000_000, 75_000_000, 100_000_000, 125_000_000],
+  tierStreaks: [1, 4, 8, 15],
+};
+
+/**
+ * Minimum streak of each tier, found by asking the contract for rewards at increasing streaks
+ *
+ * The thresholds live in the contract's private `calculate-reward`, so they're
+ * located through `get-reward-for-streak`: rewards only grow with the streak, so
+ * each tier's first streak is found by doubling past the previous one and then
+ * bisecting (a dozen calls for four tiers). Throws when the contract pays a reward
+ * that isn't in `tierRewards`, so tiers that don't line up fail loudly instead of
+ * mispricing claims.
+ */
+export async function discoverTierStreaks(tierRewards: number[], getReward: StreakRewardReader): Promise<number[]> {
+  if (tierRewards.length === 0 || tierRewards.some((reward, i) => i > 0 && reward <= tierRewards[i - 1])) {
+    throw new Error(`Faucet tier rewards must be increasing, got ${tierRewards.join(', ') || 'none'}`);
+  }
+
+  const rewards = new Map<number, number>();
+  const rewardAt = async (streak: number): Promise<number> => {
+    let reward = rewards.get(streak);
+    if (reward === undefined) {
+      reward = await getReward(streak);
+      rewards.set(streak, reward);
+    }
+    return reward;
+  };
+  const checkReward = async (streak: number, expected: number) => {
+    const reward = await rewardAt(streak);
+    if (reward !== expected) {
+      throw new Error(
+        `Faucet tiers don't match: get-reward-for-streak(${streak}) is ${reward}, ` +
+        `but get-faucet-stats lists tier rewards ${tierRewards.join(', ')}`
+      );
+    }
+  };
+
+  await checkReward(1, tierRewards[0]);
+  const tierStreaks = [1];
+
+  for (let tier = 1; tier < tierRewards.length; tier++) {
+    const target = tierRewards[tier];
+
+    // `low` pays less than this tier, `high` at least as much
+    let low = tierStreaks[tier - 1];
+    let high = low * 2;
+    while ((await rewardAt(high)) < target) {
+      low = high;
+      high *= 2;
+      if (high > MAX_TIER_STREAK) {
+        throw new Error(`No streak up to ${MAX_TIER_STREAK} earns tier ${tier + 1}'s reward of ${target}`);
+      }
+    }
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      if ((await rewardAt(middle)) < target) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+
+    await checkReward(high, target);
+    tierStreaks.push(high);
+  }
+
+  // A higher reward further out would be a tier get-faucet-stats doesn't list
+  await checkReward(MAX_TIER_STREAK, tierRewards[tierRewards.length - 1]);
+
+  return tierStreaks;
+}
+
+/**
+ * Read the faucet parameters from `get-faucet-stats` and `get-reward-for-streak`
+ */
+export async function fetchFaucetParameters(config: NetworkConfig, contractId: string): Promise<FaucetParameters> {
+  const [contractAddress, contractName] = contractId.split('.');
+
+  const result = await fetchCallReadOnlyFunction({
+    contractAddress,
+    contractName,
+    functionName: 'get-faucet-stats',
+    functionArgs: [],
+    ...getNetworkParams(config),
+    senderAddress: contractAddress,
+  });
+
+  const stats = cvToJSON(result).value;
+  if (!stats?.['cooldown-blocks'] || !stats?.['streak-window-blocks']) {
+    throw new Error(`Invalid get-faucet-stats response: ${JSON.stringify(stats)}`);
+  }
+
+  const tierRewards: number[] = [];
+  for (let tier = 1; stats[`tier-${tier}-reward`]; tier++) {
+    tierRewards.push(Number(stats[`tier-${tier}-reward`].value));
+  }
+
+  const tierStreaks = await discoverTierStreaks(tierRewards, async streak => {
+    const reward = await fetchCallReadOnlyFunction({
+      contractAddress,
+      contractName,
+      functionName: 'get-reward-for-streak',
+      functionArgs: [Cl.uint(streak)],
+      ...getNetworkParams(config),
+      senderAddress: contractAddress,
+    });
+    return Number(cvToJSON(reward).value);
+  });
+
+  return {
+    cooldownBlocks: Number(stats['cooldown-blocks'].value),
+    streakWindowBlocks: Number(stats['streak-window-blocks'].value),
+    tierRewards,
+    tierStreaks,
+  };
+}
+
+/**
+ * Index of the tier a streak falls into
+ */
+export function getTierIndex(parameters: FaucetParameters, streakCount: number): number {
+  let index = 0;
+  parameters.tierStreaks.forEach((minStreak, i) => {
+    if (streakCount >= minStreak) index = i;
+  });
+  return index;
+}
+
+/**
+ * Reward paid for a claim at the given streak
+ */
+export function getRewardForStreak(parameters: FaucetParameters, streakCount: number): number {
+  return parameters.tierRewards[getTierIndex(parameters, streakCount)] ?? 0;
+}
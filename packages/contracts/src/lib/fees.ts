@@ -0,0 +1,217 @@
+/**
+ * Fee estimation for contract calls
+ *
+ * Contract call fees depend on the execution cost of the call and the size of
+ * the transaction, so a flat per-call constant is either too low (stuck in
+ * the mempool) or too high. The estimator serializes the actual call, asks
+ * the node's fee endpoint for low/medium/high options and falls back to the
+ * node's per-byte rate when it has no estimate for the function (e.g. a call
+ * it hasn't seen recently).
+ */
+
+import { FeeEstimation, FeeEstimateResponse, makeUnsignedContractCall, serializePayload, estimateTransactionByteLength } from '@stacks/transactions';
+import { NetworkConfig, NetworkOption, resolveNetwork, getNetworkParams } from './network';
+import type { ContractCallRequest } from './signer';
+
+export type FeePriority = 'low' | 'medium' | 'high';
+
+export const FEE_PRIORITIES: readonly FeePriority[] = ['low', 'medium', 'high'];
+
+export interface FeeOption {
+  priority: FeePriority;
+  /** Total fee in microSTX */
+  fee: bigint;
+  /** microSTX per byte */
+  feeRate: number;
+}
+
+export interface FeeEstimate {
+  low: FeeOption;
+  medium: FeeOption;
+  high: FeeOption;
+  /** Size of the signed transaction in bytes */
+  estimatedLength: number;
+  /** `execution-cost` when the node estimated the call itself, `byte-rate` when based on its per-byte rate */
+  method: 'execution-cost' | 'byte-rate';
+}
+
+/**
+ * Fee data from a Stacks node
+ */
+export interface FeeRateSource {
+  /**
+   * Low/medium/high estimations for a serialized payload (`POST /v2/fees/transaction`)
+   * Resolves null when the node has no estimate for the call
+   */
+  estimateTransaction(payload: string, estimatedLength: number): Promise<FeeEstimation[] | null>;
+  /** Fee rate in microSTX per byte (`GET /v2/fees/transfer`) */
+  getFeeRate(): Promise<number>;
+}
+
+export interface FeeEstimatorOptions {
+  /** Where fee data comes from (defaults to the network's node) */
+  source?: FeeRateSource;
+}
+
+/**
+ * Raised when no fee could be estimated
+ */
+export class FeeEstimationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeeEstimationError';
+  }
+}
+
+// Nodes relay nothing below 1 microSTX per byte
+const MIN_FEE_RATE = 1;
+
+// Multipliers on the per-byte rate when the node can't estimate the call
+const BYTE_RATE_MULTIPLIERS: Record<FeePriority, number> = { low: 1, medium: 1.5, high: 2 };
+
+// Any compressed public key - single-sig transactions are the same size whoever signs
+const PLACEHOLDER_PUBLIC_KEY = '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+
+/**
+ * Reads fee estimates from the network's node
+ */
+export class NodeFeeRateSource implements FeeRateSource {
+  private readonly config: NetworkConfig;
+
+  constructor(network: NetworkOption) {
+    this.config = resolveNetwork(network);
+  }
+
+  async estimateTransaction(payload: string, estimatedLength: number): Promise<FeeEstimation[] | null> {
+    const response = await fetch(`${this.config.apiUrl}/v2/fees/transaction`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ transaction_payload: payload, estimated_len: estimatedLength }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      if (body.includes('NoEstimateAvailable')) {
+        return null;
+      }
+      throw new Error(`HTTP ${response.status}: ${response.statusText} ${body}`.trim());
+    }
+
+    // Only the estimations are read (the cost fields arrive as JSON numbers, not the bigints the type declares)
+    const data = (await response.json()) as Pick<FeeEstimateResponse, 'estimations'>;
+    return data.estimations;
+  }
+
+  async getFeeRate(): Promise<number> {
+    const response = await fetch(`${this.config.apiUrl}/v2/fees/transfer`);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return Number(await response.text());
+  }
+}
+
+/**
+ * Gives the same low/medium/high options for every call, or none to exercise the
+ * per-byte fallback - for devnet nodes without fee history, and tests
+ */
+export class StaticFeeRateSource implements FeeRateSource {
+  private readonly estimations: FeeEstimation[] | null;
+  private readonly feeRate: number;
+  /** Payloads estimated so far, in order */
+  readonly requests: Array<{ payload: string; estimatedLength: number }> = [];
+
+  /**
+   * @param options.estimations - Low/medium/high answers for every payload (null to simulate NoEstimateAvailable)
+   * @param options.feeRate - microSTX per byte
+   */
+  constructor(options: { estimations?: FeeEstimation[] | null; feeRate?: number } = {}) {
+    this.estimations = options.estimations ?? null;
+    this.feeRate = options.feeRate ?? MIN_FEE_RATE;
+  }
+
+  async estimateTransaction(payload: string, estimatedLength: number): Promise<FeeEstimation[] | null> {
+    this.requests.push({ payload, estimatedLength });
+    return this.estimations;
+  }
+
+  async getFeeRate(): Promise<number> {
+    return this.feeRate;
+  }
+}
+
+/**
+ * Fee Estimator
+ * Estimates low/medium/high fees for contract calls on one network
+ */
+export class FeeEstimator {
+  private readonly config: NetworkConfig;
+  private readonly source: FeeRateSource;
+
+  constructor(network: NetworkOption = 'testnet', options: FeeEstimatorOptions = {}) {
+    this.config = resolveNetwork(network);
+    this.source = options.source || new NodeFeeRateSource(this.config);
+  }
+
+  /**
+   * Estimate the fee of a contract call
+   * The call is serialized exactly as it will be signed (arguments and post-conditions included)
+   */
+  async estimateContractCall(call: Omit<ContractCallRequest, 'network'>): Promise<FeeEstimate> {
+    const [contractAddress, contractName] = call.contract.split('.');
+    const transaction = await makeUnsignedContractCall({
+      contractAddress,
+      contractName,
+      functionName: call.functionName,
+      functionArgs: call.functionArgs,
+      publicKey: PLACEHOLDER_PUBLIC_KEY,
+      fee: 0,
+      nonce: 0,
+      postConditionMode: call.postConditionMode ?? 'deny',
+      postConditions: call.postConditions ?? [],
+      ...getNetworkParams(this.config),
+    });
+
+    const payload = serializePayload(transaction.payload);
+    const estimatedLength = estimateTransactionByteLength(transaction);
+
+    try {
+      const estimations = await this.source.estimateTransaction(payload, estimatedLength);
+      if (estimations && estimations.length >= FEE_PRIORITIES.length) {
+        return toFeeEstimate(estimations, estimatedLength, 'execution-cost');
+      }
+
+      const feeRate = await this.source.getFeeRate();
+      const fallback = FEE_PRIORITIES.map(priority => {
+        const rate = Math.max(feeRate, MIN_FEE_RATE) * BYTE_RATE_MULTIPLIERS[priority];
+        return { fee: Math.ceil(rate * estimatedLength), fee_rate: rate };
+      });
+      return toFeeEstimate(fallback, estimatedLength, 'byte-rate');
+    } catch (error) {
+      throw new FeeEstimationError(
+        `Failed to estimate fee for ${call.contract}::${call.functionName}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
+
+function toFeeEstimate(
+  estimations: FeeEstimation[],
+  estimatedLength: number,
+  method: FeeEstimate['method']
+): FeeEstimate {
+  const minimumFee = BigInt(estimatedLength * MIN_FEE_RATE);
+  const [low, medium, high] = FEE_PRIORITIES.map((priority, index): FeeOption => {
+    const fee = BigInt(Math.ceil(estimations[index].fee));
+    return { priority, fee: fee > minimumFee ? fee : minimumFee, feeRate: estimations[index].fee_rate };
+  });
+  return { low, medium, high, estimatedLength, method };
+}
+
+// Default instances for common networks
+export const feeEstimator = new FeeEstimator('mainnet');
+export const feeEstimatorTestnet = new FeeEstimator('testnet');
+export const feeEstimatorDevnet = new FeeEstimator('devnet');
+
+// Export the class for custom instances
+export default FeeEstimator;
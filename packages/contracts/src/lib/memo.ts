@@ -0,0 +1,180 @@
+/**
+ * Transfer memo codec
+ *
+ * SIP-10 transfers (and send-many recipients) carry an optional `(buff 34)`
+ * memo. Memos are encoded the same way everywhere and checked against the
+ * 34-byte limit before anything is signed, and decoded back out of the
+ * Clarity values transfers carry them in.
+ *
+ * Encodings:
+ * - text: UTF-8 (an emoji takes 4 of the 34 bytes)
+ * - hex: raw bytes, e.g. an exchange deposit tag
+ * - structured: a reference such as an invoice id, stored as a marker byte
+ *   followed by UTF-8 `type:id` so it can be told apart from plain text
+ */
+
+import { Cl, ClarityType, ClarityValue, hexToCV } from '@stacks/transactions';
+
+/** Size of the memo buffer in the SIP-10 `transfer` signature */
+export const MAX_MEMO_BYTES = 34;
+
+/** First byte of a structured memo (a control character, so never valid text) */
+export const STRUCTURED_MEMO_MARKER = 0x01;
+
+export type MemoEncoding = 'text' | 'hex' | 'structured';
+
+export type Memo =
+  | { encoding: 'text'; text: string }
+  | { encoding: 'hex'; hex: string }
+  | { encoding: 'structured'; type: string; id: string };
+
+/** A memo, or plain text */
+export type MemoInput = Memo | string;
+
+export interface MemoValidationResult {
+  isValid: boolean;
+  /** Encoded size (0 when the memo can't be encoded) */
+  byteLength: number;
+  error?: string;
+}
+
+/**
+ * Raised for memos that can't be encoded or don't fit in 34 bytes
+ */
+export class MemoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemoError';
+  }
+}
+
+const textEncoder = new TextEncoder();
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array => {
+  const clean = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) {
+    throw new MemoError(`Invalid hex memo "${hex}"`);
+  }
+  return Uint8Array.from(clean.match(/../g) || [], byte => parseInt(byte, 16));
+};
+
+const normalizeMemo = (memo: MemoInput): Memo =>
+  typeof memo === 'string' ? { encoding: 'text', text: memo } : memo;
+
+// ENCODING
+
+/**
+ * Encode a memo into bytes, throwing a MemoError if it exceeds 34 bytes
+ */
+export function encodeMemo(input: MemoInput): Uint8Array {
+  const memo = normalizeMemo(input);
+  let bytes: Uint8Array;
+
+  switch (memo.encoding) {
+    case 'text':
+      bytes = textEncoder.encode(memo.text);
+      break;
+    case 'hex':
+      bytes = fromHex(memo.hex);
+      break;
+    case 'structured': {
+      if (!memo.type || memo.type.includes(':')) {
+        throw new MemoError('Structured memo type must be non-empty and cannot contain ":"');
+      }
+      const body = textEncoder.encode(`${memo.type}:${memo.id}`);
+      bytes = new Uint8Array([STRUCTURED_MEMO_MARKER, ...body]);
+      break;
+    }
+  }
+
+  if (bytes.length > MAX_MEMO_BYTES) {
+    throw new MemoError(`Memo is ${bytes.length} bytes, the maximum is ${MAX_MEMO_BYTES}`);
+  }
+  return bytes;
+}
+
+/**
+ * Check a memo without throwing (for form validation)
+ */
+export function validateMemo(input: MemoInput): MemoValidationResult {
+  try {
+    return { isValid: true, byteLength: encodeMemo(input).length };
+  } catch (error) {
+    const memo = normalizeMemo(input);
+    // Report the size of text memos even when too long, for "40/34 bytes" counters
+    const byteLength = memo.encoding === 'text' ? textEncoder.encode(memo.text).length : 0;
+    return { isValid: false, byteLength, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Clarity `(optional (buff 34))` argument for a memo - none for missing or empty memos
+ */
+export function memoToClarityValue(memo?: MemoInput | null): ClarityValue {
+  if (memo === undefined || memo === null || memo === '') {
+    return Cl.none();
+  }
+  return Cl.some(Cl.bufferFromHex(toHex(encodeMemo(memo))));
+}
+
+// DECODING
+
+/**
+ * Decode memo bytes (or their hex) - text when printable UTF-8, hex otherwise
+ * Trailing zero bytes are dropped (some wallets pad memos to the full 34 bytes)
+ */
+export function decodeMemo(data: Uint8Array | string): Memo {
+  const raw = typeof data === 'string' ? fromHex(data) : data;
+  let end = raw.length;
+  while (end > 0 && raw[end - 1] === 0) end--;
+  const bytes = raw.subarray(0, end);
+
+  if (bytes[0] === STRUCTURED_MEMO_MARKER) {
+    const body = decodeText(bytes.subarray(1));
+    const separator = body?.indexOf(':') ?? -1;
+    if (body && separator > 0) {
+      return { encoding: 'structured', type: body.slice(0, separator), id: body.slice(separator + 1) };
+    }
+  }
+
+  const text = decodeText(bytes);
+  return text !== null ? { encoding: 'text', text } : { encoding: 'hex', hex: toHex(bytes) };
+}
+
+function decodeText(bytes: Uint8Array): string | null {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    // Control characters mean binary data rather than something typed
+    return /[\u0000-\u0008\u000e-\u001f\u007f]/.test(text) ? null : text;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode a memo from a Clarity value - a buffer or `(some buffer)`; null for none and other types
+ */
+export function decodeMemoFromClarityValue(value: ClarityValue | string): Memo | null {
+  const cv = typeof value === 'string' ? hexToCV(value) : value;
+  if (cv.type === ClarityType.OptionalSome) {
+    return decodeMemoFromClarityValue(cv.value);
+  }
+  return cv.type === ClarityType.Buffer ? decodeMemo(cv.value) : null;
+}
+
+/**
+ * Human-readable memo, e.g. `Thanks!`, `invoice #1042` or `0xdeadbeef`
+ */
+export function formatMemo(memo: Memo): string {
+  switch (memo.encoding) {
+    case 'text':
+      return memo.text;
+    case 'hex':
+      return `0x${memo.hex}`;
+    case 'structured':
+      return `${memo.type} #${memo.id}`;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Network configuration for the contract wrappers
+ * Resolves API endpoints, deployer addresses and contract names per network
+ */
+
+export type NetworkType = 'mainnet' | 'testnet' | 'devnet';
+
+/**
+ * Contract names as deployed by a given deployer
+ */
+export interface ContractNames {
+  token: string;
+  faucet: string;
+  batchTransfer: string;
+}
+
+/**
+ * Full description of a network the wrappers can talk to
+ */
+export interface NetworkConfig {
+  /** Identifier used for cache namespaces and logging (e.g. 'devnet', 'staging') */
+  name: string;
+  /** Chain the network belongs to - drives wallet requests and address versions */
+  network: NetworkType;
+  /** Base URL of the Stacks API (without trailing slash) */
+  apiUrl: string;
+  /** Address that deployed the token, faucet and batch transfer contracts */
+  deployerAddress: string;
+  contractNames: ContractNames;
+}
+
+/**
+ * A preset network name or a custom configuration
+ */
+export type NetworkOption = NetworkType | NetworkConfig;
+
+const DEPLOYED_CONTRACT_NAMES: ContractNames = {
+  token: 'tropical-blue-bonobo',
+  faucet: 'spare-tomato-pelican',
+  batchTransfer: 'available-purple-squid',
+};
+
+// Clarinet deploys contracts under their Clarinet.toml names
+const CLARINET_CONTRACT_NAMES: ContractNames = {
+  token: 'token',
+  faucet: 'token-faucet',
+  batchTransfer: 'token-batch-transfer',
+};
+
+/**
+ * Accounts defined in settings/Devnet.toml
+ */
+export const DEVNET_ACCOUNTS = {
+  deployer: 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM',
+  wallet_1: 'ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5',
+  wallet_2: 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG',
+  wallet_3: 'ST2JHG361ZXG51QTKY2NQCVBPPRRE2KZB1HR05NNC',
+  wallet_4: 'ST2NEB84ASENDXKYGJPQW86YXQCEFEX2ZQPG87ND',
+  wallet_5: 'ST2REHHS5J3CERCRBEPMGH7921Q6PYKAADT7JP2VB',
+  wallet_6: 'ST3AM1A56AK2C1XAFJ4115ZSV26EB49BVQ10MGCS0',
+  wallet_7: 'ST3PF13W7Z0RRM42A8VZRVFQ75SV1K26RXEP8YGKJ',
+  wallet_8: 'ST3NBRSFKX28FQ2ZJ1MAKX58HKHSDGNV5N7R21XCP',
+  faucet: 'STNHKEPYEPJ8ET55ZZ0M5A34J0R3N5FM2CMMMAZ6',
+} as const;
+
+export const NETWORK_CONFIGS: Record<NetworkType, NetworkConfig> = {
+  mainnet: {
+    name: 'mainnet',
+    network: 'mainnet',
+    apiUrl: 'https://api.mainnet.hiro.so',
+    deployerAddress: 'SP2ZNGJ85ENDY6QRHQ5P2D4FXKGZWCKTB2T0Z55KS',
+    contractNames: DEPLOYED_CONTRACT_NAMES,
+  },
+  testnet: {
+    name: 'testnet',
+    network: 'testnet',
+    apiUrl: 'https://api.testnet.hiro.so',
+    deployerAddress: 'ST2ZNGJ85ENDY6QRHQ5P2D4FXKGZWCKTB2SYCBMRR',
+    contractNames: DEPLOYED_CONTRACT_NAMES,
+  },
+  devnet: {
+    name: 'devnet',
+    network: 'devnet',
+    apiUrl: 'http://localhost:3999',
+    deployerAddress: DEVNET_ACCOUNTS.deployer,
+    contractNames: CLARINET_CONTRACT_NAMES,
+  },
+};
+
+/**
+ * Resolve a network option into a full configuration
+ */
+export function resolveNetwork(option: NetworkOption): NetworkConfig {
+  if (typeof option === 'string') {
+    const config = NETWORK_CONFIGS[option];
+    if (!config) {
+      throw new Error(`Unknown network: ${option}`);
+    }
+    return config;
+  }
+  return {
+    ...option,
+    apiUrl: option.apiUrl.replace(/\/+$/, ''),
+  };
+}
+
+/**
+ * Create a custom network configuration based on one of the presets
+ */
+export function createNetworkConfig(
+  base: NetworkType,
+  overrides: Partial<Omit<NetworkConfig, 'contractNames'>> & { contractNames?: Partial<ContractNames> } = {}
+): NetworkConfig {
+  const preset = NETWORK_CONFIGS[base];
+  return resolveNetwork({
+    ...preset,
+    ...overrides,
+    name: overrides.name || (overrides.apiUrl ? `${base}@${overrides.apiUrl}` : preset.name),
+    contractNames: { ...preset.contractNames, ...overrides.contractNames },
+  });
+}
+
+/**
+ * Build a fully-qualified contract id for the given network
+ */
+export function getContractId(config: NetworkConfig, contract: keyof ContractNames): `${string}.${string}` {
+  return `${config.deployerAddress}.${config.contractNames[contract]}`;
+}
+
+/**
+ * Build an explorer URL for a transaction or address path (e.g. `txid/0x...`)
+ * Non-hosted APIs are passed to the explorer through its `api` parameter
+ */
+export function getExplorerUrl(config: NetworkConfig, path: string): string {
+  const chain = config.network === 'mainnet' ? 'mainnet' : 'testnet';
+  const url = `https://explorer.stacks.co/${path}?chain=${chain}`;
+  const isHostedApi = config.network !== 'devnet' && config.apiUrl === NETWORK_CONFIGS[config.network].apiUrl;
+  return isHostedApi ? url : `${url}&api=${encodeURIComponent(config.apiUrl)}`;
+}
+
+/**
+ * Network parameters for @stacks/transactions API helpers (read-only calls, broadcasts)
+ */
+export function getNetworkParams(config: NetworkConfig): { network: NetworkType; client: { baseUrl: string } } {
+  return {
+    network: config.network,
+    client: { baseUrl: config.apiUrl },
+  };
+}
@@ -0,0 +1,298 @@
+/**
+ * Faucet runway forecasting
+ *
+ * Dividing the balance by the recent claim rate ignores deposits topping the
+ * faucet up and the way spend grows as claimers' streaks move them into
+ * higher reward tiers. The forecast fits a small model to the event history -
+ * how many claimers are mid-streak, how likely a claimer is to keep their
+ * streak going, how many streaks start each cooldown period, and what
+ * deposits add - then steps the balance forward one cooldown period at a time
+ * under best, expected and worst assumptions.
+ */
+
+import type { ClaimEvent, DepositEvent } from './events';
+import { FaucetParameters, getRewardForStreak } from './faucet-parameters';
+import { BlockTimeEstimate } from './block-time';
+
+/**
+ * Claim and deposit behaviour learned from the event history
+ * Rates are per round - one cooldown period, the most often a user can claim
+ */
+export interface RunwayModel {
+  /** Claimers whose streak is still alive, by the streak of their next claim */
+  activeClaimers: Record<number, number>;
+  /** Chance a claimer claims again before their streak window closes */
+  retention: number;
+  /** Claims the retention rate is based on */
+  retentionSamples: number;
+  /** Streaks started per round (first claims and restarts after a broken streak) */
+  newClaimersPerRound: number;
+  /** Deposited per round, base units */
+  depositsPerRound: number;
+  /** Deposited per round without the largest single deposit, base units */
+  recurringDepositsPerRound: number;
+  /** Rounds of history the rates are based on */
+  historyRounds: number;
+}
+
+/**
+ * One projected outcome
+ */
+export interface RunwayScenario {
+  /** Days until the balance runs out, or null if it lasts beyond the forecast horizon */
+  daysRemaining: number | null;
+  depletionDate: Date | null;
+  /** Projected claims over the next day, base units */
+  dailyClaims: number;
+  /** Assumed deposits per day, base units */
+  dailyDeposits: number;
+  retention: number;
+  newClaimersPerDay: number;
+}
+
+export interface RunwayForecast {
+  /** Fewer claimers keep their streaks and deposits carry on at the observed rate */
+  best: RunwayScenario;
+  expected: RunwayScenario;
+  /** More claimers keep their streaks and no further deposits arrive */
+  worst: RunwayScenario;
+  model: RunwayModel;
+  /** Longest runway the forecast looks ahead */
+  horizonDays: number;
+  confidence: 'high' | 'medium' | 'low';
+  generatedAt: Date;
+}
+
+export interface RunwayInputs {
+  /** Current faucet balance, base units */
+  balance: bigint;
+  claims: ClaimEvent[];
+  deposits: DepositEvent[];
+  /** Chain tip the history runs up to */
+  currentBlock: number;
+  /** Block of the oldest claim or deposit, when `claims` and `deposits` start at getRunwayHistoryStart */
+  firstBlock?: number;
+  parameters: FaucetParameters;
+  blockTime: BlockTimeEstimate;
+}
+
+export interface RunwayOptions {
+  /** Rounds of history the rates are fitted to (default 30) */
+  lookbackRounds?: number;
+  /** Longest runway projected, in days (default 730) */
+  horizonDays?: number;
+  /** When the forecast is made (default now) */
+  now?: Date;
+}
+
+interface ScenarioAssumptions {
+  retention: number;
+  newClaimersPerRound: number;
+  depositsPerRound: number;
+}
+
+// z-score for the best/worst bounds (two-sided 90%)
+const BOUND_Z = 1.645;
+
+// Keeps a runaway projection (e.g. very fast blocks) bounded
+const MAX_ROUNDS = 10_000;
+
+const DEFAULT_LOOKBACK_ROUNDS = 30;
+
+/**
+ * First block whose claims and deposits the forecast uses
+ * Covers the lookback window and any streak still alive; older events only
+ * matter for where the history starts (pass that as `firstBlock`)
+ */
+export function getRunwayHistoryStart(
+  currentBlock: number,
+  parameters: FaucetParameters,
+  lookbackRounds: number = DEFAULT_LOOKBACK_ROUNDS
+): number {
+  const windowStart = currentBlock - lookbackRounds * Math.max(1, parameters.cooldownBlocks);
+  return Math.min(windowStart, currentBlock - parameters.streakWindowBlocks);
+}
+
+/**
+ * Fit the runway model to the claim and deposit history
+ */
+export function fitRunwayModel(
+  claims: ClaimEvent[],
+  deposits: DepositEvent[],
+  currentBlock: number,
+  parameters: FaucetParameters,
+  lookbackRounds: number = DEFAULT_LOOKBACK_ROUNDS,
+  earliestBlock?: number
+): RunwayModel {
+  const roundBlocks = Math.max(1, parameters.cooldownBlocks);
+  const windowStart = currentBlock - lookbackRounds * roundBlocks;
+
+  // The window is shorter while the faucet is young
+  // (reduced rather than spread into Math.min, which overflows the call stack on long histories)
+  const firstBlock = earliestBlock ?? [...claims, ...deposits].reduce((first, event) => Math.min(first, event.block), currentBlock);
+  const historyRounds = Math.max(1, (currentBlock - Math.max(windowStart, firstBlock)) / roundBlocks);
+
+  const claimsByUser = new Map<string, ClaimEvent[]>();
+  [...claims].sort((a, b) => a.block - b.block).forEach(claim => {
+    const userClaims = claimsByUser.get(claim.user) || [];
+    userClaims.push(claim);
+    claimsByUser.set(claim.user, userClaims);
+  });
+
+  const activeClaimers: Record<number, number> = {};
+  let continued = 0;
+  let retentionSamples = 0;
+  claimsByUser.forEach(userClaims => {
+    const lastClaim = userClaims[userClaims.length - 1];
+    if (currentBlock - lastClaim.block <= parameters.streakWindowBlocks) {
+      const nextStreak = lastClaim.streak + 1;
+      activeClaimers[nextStreak] = (activeClaimers[nextStreak] || 0) + 1;
+    }
+
+    // Only claims whose streak window has closed show whether the claimer came back
+    userClaims.forEach((claim, index) => {
+      if (claim.block < windowStart || currentBlock - claim.block <= parameters.streakWindowBlocks) {
+        return;
+      }
+      retentionSamples++;
+      const nextClaim = userClaims[index + 1];
+      if (nextClaim && nextClaim.block - claim.block <= parameters.streakWindowBlocks) {
+        continued++;
+      }
+    });
+  });
+
+  const startedStreaks = claims.filter(c => c.block >= windowStart && c.streak <= 1).length;
+
+  const recentDeposits = deposits.filter(d => d.block >= windowStart).map(d => d.amount);
+  const deposited = recentDeposits.reduce((sum, amount) => sum + amount, 0);
+  // A one-off top-up (like the initial funding) isn't assumed to recur
+  const largestDeposit = recentDeposits.reduce((largest, amount) => Math.max(largest, amount), 0);
+
+  return {
+    activeClaimers,
+    // Smoothed so a handful of claims doesn't give 0% or 100%
+    retention: (continued + 1) / (retentionSamples + 2),
+    retentionSamples,
+    newClaimersPerRound: startedStreaks / historyRounds,
+    depositsPerRound: deposited / historyRounds,
+    recurringDepositsPerRound: (deposited - largestDeposit) / historyRounds,
+    historyRounds
+  };
+}
+
+/**
+ * Step the balance forward one round at a time until it runs out
+ * Returns the rounds it lasts (fractional for the final round, null beyond `maxRounds`)
+ * and the spend of the first round
+ */
+function projectRunway(
+  balance: bigint,
+  model: RunwayModel,
+  parameters: FaucetParameters,
+  assumptions: ScenarioAssumptions,
+  maxRounds: number
+): { rounds: number | null; firstRoundClaims: number } {
+  // Rewards stop growing at the top tier, so longer streaks share one bucket
+  const topStreak = parameters.tierStreaks[parameters.tierStreaks.length - 1] ?? 1;
+  const bucket = (streak: number) => Math.min(Math.max(1, streak), topStreak);
+
+  let cohorts = new Map<number, number>();
+  Object.entries(model.activeClaimers).forEach(([streak, count]) => {
+    const key = bucket(Number(streak));
+    cohorts.set(key, (cohorts.get(key) || 0) + count);
+  });
+
+  // Claimer counts are fractional, so the projection itself is approximate - converting
+  // here only drops precision below what it can resolve anyway
+  let remaining = Number(balance);
+  let firstRoundClaims = 0;
+
+  for (let round = 1; round <= maxRounds; round++) {
+    // Mid-streak claimers come back with the retention rate, and new streaks start
+    const claimers = new Map<number, number>([[1, assumptions.newClaimersPerRound]]);
+    cohorts.forEach((count, streak) => {
+      claimers.set(streak, (claimers.get(streak) || 0) + count * assumptions.retention);
+    });
+
+    let claimed = 0;
+    claimers.forEach((count, streak) => {
+      claimed += count * getRewardForStreak(parameters, streak);
+    });
+    if (round === 1) {
+      firstRoundClaims = claimed;
+    }
+
+    const net = claimed - assumptions.depositsPerRound;
+    if (net > 0 && remaining <= net) {
+      return { rounds: round - 1 + remaining / net, firstRoundClaims };
+    }
+    remaining -= net;
+
+    cohorts = new Map();
+    claimers.forEach((count, streak) => {
+      const key = bucket(streak + 1);
+      cohorts.set(key, (cohorts.get(key) || 0) + count);
+    });
+  }
+
+  return { rounds: null, firstRoundClaims };
+}
+
+/**
+ * Best, expected and worst runway for the faucet balance
+ */
+export function forecastRunway(inputs: RunwayInputs, options: RunwayOptions = {}): RunwayForecast {
+  const { balance, claims, deposits, currentBlock, firstBlock, parameters, blockTime } = inputs;
+  const horizonDays = options.horizonDays ?? 730;
+  const now = options.now ?? new Date();
+
+  const model = fitRunwayModel(claims, deposits, currentBlock, parameters, options.lookbackRounds, firstBlock);
+
+  const daysPerRound = (Math.max(1, parameters.cooldownBlocks) * blockTime.secondsPerBlock) / 86_400;
+  const maxRounds = Math.min(MAX_ROUNDS, Math.ceil(horizonDays / daysPerRound));
+
+  // Bounds from the sampling error of the retention rate and the streak-start count
+  const retentionSpread = BOUND_Z * Math.sqrt(model.retention * (1 - model.retention) / (model.retentionSamples + 2));
+  const startedStreaks = model.newClaimersPerRound * model.historyRounds;
+  const newClaimersSpread = BOUND_Z * Math.sqrt(Math.max(1, startedStreaks)) / model.historyRounds;
+
+  const scenario = (assumptions: ScenarioAssumptions): RunwayScenario => {
+    const { rounds, firstRoundClaims } = projectRunway(balance, model, parameters, assumptions, maxRounds);
+    const daysRemaining = rounds === null || rounds * daysPerRound > horizonDays ? null : rounds * daysPerRound;
+    return {
+      daysRemaining,
+      depletionDate: daysRemaining === null ? null : new Date(now.getTime() + daysRemaining * 86_400_000),
+      dailyClaims: firstRoundClaims / daysPerRound,
+      dailyDeposits: assumptions.depositsPerRound / daysPerRound,
+      retention: assumptions.retention,
+      newClaimersPerDay: assumptions.newClaimersPerRound / daysPerRound
+    };
+  };
+
+  const confidence = model.historyRounds >= 14 && model.retentionSamples >= 30
+    ? 'high'
+    : model.historyRounds >= 7 && model.retentionSamples >= 10 ? 'medium' : 'low';
+
+  return {
+    best: scenario({
+      retention: Math.max(0, model.retention - retentionSpread),
+      newClaimersPerRound: Math.max(0, model.newClaimersPerRound - newClaimersSpread),
+      depositsPerRound: model.depositsPerRound
+    }),
+    expected: scenario({
+      retention: model.retention,
+      newClaimersPerRound: model.newClaimersPerRound,
+      depositsPerRound: model.recurringDepositsPerRound
+    }),
+    worst: scenario({
+      retention: Math.min(1, model.retention + retentionSpread),
+      newClaimersPerRound: model.newClaimersPerRound + newClaimersSpread,
+      depositsPerRound: 0
+    }),
+    model,
+    horizonDays,
+    confidence,
+    generatedAt: now
+  };
+}
@@ -1,15 +1,24 @@
 /**
- * Serialization utilities for localStorage and JSON handling
+ * Serialization utilities for cache storage and JSON handling
  * Handles BigInt and other complex types that JSON.stringify doesn't support
  */
 
+import { CacheStore, getDefaultCacheStore } from './cache-store';
+import { TokenAmount } from './token-amount';
+
 /**
- * Serialize data for localStorage (handles BigInt and other complex types)
+ * Serialize data for localStorage (handles BigInt, TokenAmount, Date and other complex types)
  */
 export function serializeForStorage(data: any): any {
   if (typeof data === 'bigint') {
     return { __type: 'bigint', value: data.toString() };
   }
+  if (data instanceof TokenAmount) {
+    return { __type: 'TokenAmount', value: data.raw.toString(), decimals: data.decimals };
+  }
+  if (data instanceof Date) {
+    return { __type: 'Date', value: data.toISOString() };
+  }
   if (Array.isArray(data)) {
     return data.map(item => serializeForStorage(item));
   }
@@ -24,12 +33,18 @@ export function serializeForStorage(data: any): any {
 }
 
 /**
- * Deserialize data from localStorage (handles BigInt and other complex types)
+ * Deserialize data from localStorage (handles BigInt, TokenAmount, Date and other complex types)
  */
 export function deserializeFromStorage(data: any): any {
   if (data && typeof data === 'object' && data.__type === 'bigint') {
     return BigInt(data.value);
   }
+  if (data && typeof data === 'object' && data.__type === 'TokenAmount') {
+    return new TokenAmount(BigInt(data.value), data.decimals);
+  }
+  if (data && typeof data === 'object' && data.__type === 'Date') {
+    return new Date(data.value);
+  }
   if (Array.isArray(data)) {
     return data.map(item => deserializeFromStorage(item));
   }
@@ -76,34 +91,34 @@ export interface SerializableCacheEntry {
 }
 
 /**
- * Store cache entry in localStorage with TTL
+ * Store cache entry with TTL
  */
-export function setCacheEntry<T>(key: string, data: T, ttl: number): void {
+export function setCacheEntry<T>(key: string, data: T, ttl: number, store: CacheStore = getDefaultCacheStore()): void {
   try {
     const entry: SerializableCacheEntry = {
       data: serializeForStorage(data),
       timestamp: Date.now(),
       ttl,
     };
-    localStorage.setItem(key, JSON.stringify(entry));
+    store.setItem(key, JSON.stringify(entry));
   } catch (error) {
     console.warn('Failed to set cache entry:', error);
   }
 }
 
 /**
- * Get cache entry from localStorage, checking TTL
+ * Get cache entry, checking TTL
  */
-export function getCacheEntry<T>(key: string): T | null {
+export function getCacheEntry<T>(key: string, store: CacheStore = getDefaultCacheStore()): T | null {
   try {
-    const cached = localStorage.getItem(key);
+    const cached = store.getItem(key);
     if (!cached) return null;
 
     const entry: SerializableCacheEntry = JSON.parse(cached);
     const now = Date.now();
     
     if (now - entry.timestamp > entry.ttl) {
-      localStorage.removeItem(key);
+      store.removeItem(key);
       return null;
     }
 
@@ -113,20 +128,36 @@ export function getCacheEntry<T>(key: string): T | null {
   }
 }
 
+/**
+ * Remove a single cache entry
+ */
+export function removeCacheEntry(key: string, store: CacheStore = getDefaultCacheStore()): void {
+  try {
+    store.removeItem(key);
+  } catch (error) {
+    console.warn('Failed to remove cache entry:', error);
+  }
+}
+
+/**
+ * List cache keys starting with a prefix
+ */
+export function getCacheKeysByPrefix(prefix: string, store: CacheStore = getDefaultCacheStore()): string[] {
+  try {
+    return store.keys().filter(key => key.startsWith(prefix));
+  } catch (error) {
+    console.warn('Failed to list cache entries:', error);
+    return [];
+  }
+}
+
 /**
  * Remove cache entries by prefix
  */
-export function removeCacheEntriesByPrefix(prefix: string): void {
+export function removeCacheEntriesByPrefix(prefix: string, store: CacheStore = getDefaultCacheStore()): void {
   try {
-    const keysToRemove: string[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(prefix)) {
-        keysToRemove.push(key);
-      }
-    }
-    keysToRemove.forEach(key => localStorage.removeItem(key));
+    getCacheKeysByPrefix(prefix, store).forEach(key => store.removeItem(key));
   } catch (error) {
     console.warn('Failed to remove cache entries:', error);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,213 @@
+/**
+ * Transaction signers
+ *
+ * The wrappers build contract calls; a Signer turns them into broadcast
+ * transactions. In the browser that's the user's wallet (via @stacks/connect).
+ * In Node scripts and backend jobs a private key signs and broadcasts
+ * directly, so ops tasks like seeding the faucet or running airdrops can run
+ * unattended.
+ */
+
+import {
+  ClarityValue,
+  PostCondition,
+  PostConditionModeName,
+  broadcastTransaction,
+  fetchNonce,
+  getAddressFromPrivateKey,
+  makeContractCall,
+} from '@stacks/transactions';
+import { request } from '@stacks/connect';
+import { NetworkConfig, getNetworkParams } from './network';
+
+/**
+ * A contract call ready to be signed
+ */
+export interface ContractCallRequest {
+  contract: `${string}.${string}`;
+  functionName: string;
+  functionArgs: ClarityValue[];
+  network: NetworkConfig;
+  postConditions?: PostCondition[];
+  postConditionMode?: PostConditionModeName;
+  /** Fee in microSTX (chosen by the wallet, or the signer's default, when omitted) */
+  fee?: bigint | number;
+}
+
+export interface SignedCallResult {
+  txId: string;
+}
+
+export interface Signer {
+  /**
+   * Sign and broadcast a contract call
+   * Throws if the call was not broadcast (rejected in the wallet, refused by the node)
+   */
+  callContract(call: ContractCallRequest): Promise<SignedCallResult>;
+  /** Address that signs on the given network, or null if only known after signing (wallets) */
+  getAddress(network: NetworkConfig): string | null;
+}
+
+export interface PrivateKeySignerOptions {
+  /** Fixed fee in microSTX (estimated by the node when omitted) */
+  fee?: bigint | number;
+  /** How many times to re-sync the nonce and rebroadcast after a nonce rejection */
+  maxNonceRetries?: number;
+}
+
+/**
+ * Raised when the node refuses a broadcast
+ */
+export class SignerError extends Error {
+  /** Rejection reason reported by the node, e.g. `BadNonce` or `NotEnoughFunds` */
+  readonly reason?: string;
+
+  constructor(message: string, reason?: string) {
+    super(message);
+    this.name = 'SignerError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * The part of the address nonces response (/extended/v1/address/{address}/nonces) the signer reads
+ */
+interface AddressNonces {
+  possible_next_nonce: number;
+}
+
+// Rejections that mean our nonce is stale rather than the transaction being invalid
+const NONCE_REJECTIONS = ['BadNonce', 'ConflictingNonceInMempool'];
+
+/**
+ * Signs through the user's browser wallet (Leather, Xverse, ...)
+ */
+export class WalletSigner implements Signer {
+  async callContract(call: ContractCallRequest): Promise<SignedCallResult> {
+    const response = await request('stx_callContract', {
+      contract: call.contract,
+      functionName: call.functionName,
+      functionArgs: call.functionArgs,
+      network: call.network.network,
+      postConditionMode: call.postConditionMode ?? 'deny',
+      postConditions: call.postConditions ?? [],
+      fee: call.fee,
+    });
+    return { txId: response.txid || '' };
+  }
+
+  getAddress(): string | null {
+    return null;
+  }
+}
+
+/**
+ * Signs with a private key and broadcasts through the network's API
+ *
+ * Calls are signed one at a time and nonces are assigned locally, so several
+ * transactions can be sent back to back without waiting for each to confirm.
+ * If the node rejects a nonce (e.g. another process used the key), the nonce
+ * is re-synced from the API and the call is rebroadcast.
+ */
+export class PrivateKeySigner implements Signer {
+  private readonly privateKey: string;
+  private readonly fee?: bigint | number;
+  private readonly maxNonceRetries: number;
+  /** Next nonce per API and address */
+  private readonly nonces = new Map<string, bigint>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(privateKey: string, options: PrivateKeySignerOptions = {}) {
+    this.privateKey = privateKey;
+    this.fee = options.fee;
+    this.maxNonceRetries = options.maxNonceRetries ?? 2;
+  }
+
+  getAddress(network: NetworkConfig): string {
+    return getAddressFromPrivateKey(this.privateKey, network.network);
+  }
+
+  callContract(call: ContractCallRequest): Promise<SignedCallResult> {
+    // Chain calls so two concurrent callers never get the same nonce
+    const result = this.queue.then(() => this.signAndBroadcast(call));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Forget locally assigned nonces (they are fetched again on the next call)
+   */
+  resetNonces(): void {
+    this.nonces.clear();
+  }
+
+  private async signAndBroadcast(call: ContractCallRequest): Promise<SignedCallResult> {
+    const { network } = call;
+    const address = this.getAddress(network);
+    const nonceKey = `${network.apiUrl}:${address}`;
+    const [contractAddress, contractName] = call.contract.split('.');
+
+    for (let attempt = 0; ; attempt++) {
+      const nonce = this.nonces.get(nonceKey) ?? await this.fetchNextNonce(network, address);
+
+      const transaction = await makeContractCall({
+        contractAddress,
+        contractName,
+        functionName: call.functionName,
+        functionArgs: call.functionArgs,
+        senderKey: this.privateKey,
+        nonce,
+        fee: call.fee ?? this.fee,
+        postConditionMode: call.postConditionMode ?? 'deny',
+        postConditions: call.postConditions ?? [],
+        ...getNetworkParams(network),
+      });
+
+      const result = await broadcastTransaction({ transaction, ...getNetworkParams(network) });
+
+      if (!('error' in result)) {
+        this.nonces.set(nonceKey, nonce + 1n);
+        return { txId: result.txid };
+      }
+
+      // The API types don't list every rejection the node can return
+      const reason: string = result.reason;
+      this.nonces.delete(nonceKey);
+      if (NONCE_REJECTIONS.includes(reason) && attempt < this.maxNonceRetries) {
+        console.warn(`Nonce ${nonce} rejected for ${address} (${reason}), re-syncing`);
+        // The mempool index can lag behind the node - trust the rejection when it tells us more
+        if (reason === 'ConflictingNonceInMempool') {
+          this.nonces.set(nonceKey, nonce + 1n);
+        } else if (result.reason === 'BadNonce') {
+          this.nonces.set(nonceKey, BigInt(result.reason_data.expected));
+        }
+        continue;
+      }
+      throw new SignerError(`Broadcast rejected: ${reason || result.error}`, reason);
+    }
+  }
+
+  /**
+   * Next nonce including transactions still in the mempool
+   * (the account endpoint only counts confirmed transactions)
+   */
+  private async fetchNextNonce(network: NetworkConfig, address: string): Promise<bigint> {
+    try {
+      const response = await fetch(`${network.apiUrl}/extended/v1/address/${address}/nonces`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      const data = (await response.json()) as AddressNonces;
+      return BigInt(data.possible_next_nonce);
+    } catch (error) {
+      console.warn(`Failed to fetch mempool nonce for ${address}, using the account nonce:`, error);
+      return fetchNonce({ address, ...getNetworkParams(network) });
+    }
+  }
+}
+
+// Default signer for the wrappers - the browser wallet
+export const walletSigner = new WalletSigner();
+
+// Export the class for custom instances
+export default PrivateKeySigner;
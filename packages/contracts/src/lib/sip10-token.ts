@@ -0,0 +1,484 @@
+import { fetchCallReadOnlyFunction, cvToJSON, ClarityValue, Pc } from '@stacks/transactions';
+import { Cl } from '@stacks/transactions';
+import { getCacheEntry, setCacheEntry, removeCacheEntry, removeCacheEntriesByPrefix } from './serializers';
+import { CacheStore, resolveCacheStore } from './cache-store';
+import { NetworkConfig, NetworkOption, NetworkType, getExplorerUrl, getNetworkParams, resolveNetwork } from './network';
+import { ContractError, TOKEN_ERRORS, decodeContractError, getContractKey, getErrorMessage } from './errors';
+import { TokenMetadataResolver, tokenMetadataResolver } from './token-metadata';
+import { TokenAmount, TokenAmountInput } from './token-amount';
+import { MemoInput, memoToClarityValue, validateMemo } from './memo';
+import { ContractCallRequest, Signer, walletSigner } from './signer';
+import { FeeEstimate, FeeEstimator } from './fees';
+import { validateStacksAddress } from './validators';
+
+const DEFAULT_NETWORK: NetworkType = 'mainnet';
+
+// TypeScript interfaces
+export interface TokenMetadataLocalization {
+  /** URI of the localized documents, with a `{locale}` placeholder */
+  uri: string;
+  default: string;
+  locales: string[];
+}
+
+export interface TokenMetadata {
+  sip: number;
+  name: string;
+  image?: string;
+  /** Raw SVG markup, used when there is no `image` */
+  image_data?: string;
+  description?: string;
+  attributes?: any[];
+  properties?: Record<string, any>;
+  localization?: TokenMetadataLocalization;
+  [key: string]: any;
+}
+
+export interface TokenInfo {
+  name: string;
+  symbol: string;
+  decimals: number;
+  totalSupply: TokenAmount;
+  tokenUri: TokenMetadata;
+}
+
+export interface TransferOptions {
+  /** Amount to send - numbers and bigints are base units */
+  amount: TokenAmountInput;
+  sender: string;
+  recipient: string;
+  /** Plain strings are sent as UTF-8 text - at most 34 bytes once encoded */
+  memo?: MemoInput;
+  /** Fee in microSTX, e.g. an option from `estimateTransferFee` (the wallet picks one when omitted) */
+  fee?: bigint | number;
+}
+
+export interface ContractCallResult {
+  txId: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface Sip10TokenOptions {
+  /** Storage for cached reads (defaults to localStorage in browsers, memory elsewhere) */
+  cacheStore?: CacheStore;
+  /** Name of the `define-fungible-token` asset - skips the ABI lookup when known */
+  assetName?: string;
+  /** Prefix for cache keys (defaults to one derived from the network and contract id) */
+  cachePrefix?: string;
+  /** Resolver for the token URI (defaults to the shared resolver and its gateways) */
+  metadataResolver?: TokenMetadataResolver;
+  /** Signs transfers (defaults to the browser wallet - use a PrivateKeySigner in Node) */
+  signer?: Signer;
+  /** Estimates transfer fees (defaults to one using the network's node) */
+  feeEstimator?: FeeEstimator;
+}
+
+/**
+ * The part of a contract's ABI (from /v2/contracts/interface) used to find its asset
+ */
+interface ContractInterface {
+  fungible_tokens?: Array<{ name: string }>;
+}
+
+/**
+ * Generic SIP-10 Token Wrapper
+ * Works with any SIP-10 fungible token contract, identified by its contract id
+ */
+export class Sip10Token {
+  protected readonly config: NetworkConfig;
+  private readonly contractAddress: string;
+  private readonly contractName: string;
+  private readonly cachePrefix: string;
+  private readonly cacheStore: CacheStore;
+  private readonly knownAssetName?: string;
+  private readonly metadataResolver: TokenMetadataResolver;
+  private readonly signer: Signer;
+  private readonly feeEstimator: FeeEstimator;
+
+  // Cache TTL in milliseconds
+  private readonly STATIC_DATA_TTL = 60 * 60 * 1000; // 1 hour for static data (name, symbol, decimals)
+  private readonly DYNAMIC_DATA_TTL = 30 * 1000; // 30 seconds for dynamic data (balances, total supply)
+
+  constructor(contractId: string, network: NetworkOption = DEFAULT_NETWORK, options: Sip10TokenOptions = {}) {
+    const [contractAddress, contractName] = contractId.split('.');
+    if (!contractAddress || !contractName) {
+      throw new Error(`Invalid contract id: ${contractId}`);
+    }
+
+    this.config = resolveNetwork(network);
+    this.contractAddress = contractAddress;
+    this.contractName = contractName;
+    this.cachePrefix = options.cachePrefix || `sip10-token-cache:${this.config.name}:${contractId}:`;
+    this.cacheStore = resolveCacheStore(options.cacheStore);
+    this.knownAssetName = options.assetName;
+    this.metadataResolver = options.metadataResolver || tokenMetadataResolver;
+    this.signer = options.signer || walletSigner;
+    this.feeEstimator = options.feeEstimator || new FeeEstimator(this.config);
+  }
+
+  private get fullContractId(): `${string}.${string}` {
+    return `${this.contractAddress}.${this.contractName}`;
+  }
+
+  /**
+   * Get cached value or null if expired/missing
+   */
+  private getCached<T>(key: string): T | null {
+    const cacheKey = this.cachePrefix + key;
+    return getCacheEntry<T>(cacheKey, this.cacheStore);
+  }
+
+  /**
+   * Set cached value with TTL
+   */
+  private setCached<T>(key: string, data: T, ttl: number): void {
+    const cacheKey = this.cachePrefix + key;
+    setCacheEntry(cacheKey, data, ttl, this.cacheStore);
+  }
+
+  /**
+   * Clear cache (useful for clearing balance cache after transfers)
+   */
+  public clearCache(): void {
+    removeCacheEntriesByPrefix(this.cachePrefix, this.cacheStore);
+  }
+
+  /**
+   * Clear balance cache for a specific address
+   */
+  public clearBalanceCache(address?: string): void {
+    if (address) {
+      removeCacheEntry(this.cachePrefix + `balance:${address}`, this.cacheStore);
+    } else {
+      // Clear all balance entries
+      removeCacheEntriesByPrefix(this.cachePrefix + 'balance:', this.cacheStore);
+    }
+  }
+
+  /**
+   * Call a SIP-10 read-only function and unwrap its `(ok ...)` value
+   */
+  private async callReadOnly(functionName: string, functionArgs: ClarityValue[] = []): Promise<any> {
+    const result = await fetchCallReadOnlyFunction({
+      contractAddress: this.contractAddress,
+      contractName: this.contractName,
+      functionName,
+      functionArgs,
+      ...getNetworkParams(this.config),
+      senderAddress: this.contractAddress,
+    });
+
+    const jsonResult = cvToJSON(result);
+    if (jsonResult.success === false) {
+      throw new Error(`${functionName} returned an error: ${JSON.stringify(jsonResult.value)}`);
+    }
+    return jsonResult.value;
+  }
+
+  // Contract interface
+
+  /**
+   * Get the name of the fungible token asset defined by the contract
+   * Needed for post-conditions; discovered from the contract ABI unless known up front
+   */
+  async getAssetName(): Promise<string> {
+    if (this.knownAssetName) return this.knownAssetName;
+
+    const cacheKey = 'assetName';
+    const cached = this.getCached<string>(cacheKey);
+    if (cached !== null) return cached;
+
+    try {
+      const response = await fetch(
+        `${this.config.apiUrl}/v2/contracts/interface/${this.contractAddress}/${this.contractName}`
+      );
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const abi = (await response.json()) as ContractInterface;
+      const assetName = await this.pickAssetName((abi.fungible_tokens ?? []).map(token => token.name));
+
+      this.setCached(cacheKey, assetName, this.STATIC_DATA_TTL);
+      return assetName;
+    } catch (error) {
+      throw new Error(`Failed to get asset name: ${error}`);
+    }
+  }
+
+  /**
+   * Choose the SIP-10 asset among the contract's fungible tokens
+   * A contract can define several, so the one matching get-symbol or get-name wins
+   */
+  private async pickAssetName(assetNames: string[]): Promise<string> {
+    if (assetNames.length === 0) {
+      throw new Error(`${this.fullContractId} does not define a fungible token`);
+    }
+    if (assetNames.length === 1) {
+      return assetNames[0];
+    }
+
+    // Compare ignoring case and punctuation, e.g. `tbb-token` matches "TBB Token"
+    const normalize = (label: string) => label.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const labels = (await Promise.all([this.getSymbol(), this.getName()])).map(normalize);
+    const assetName = assetNames.find(name => labels.includes(normalize(name)));
+    if (!assetName) {
+      throw new Error(`${this.fullContractId} defines several fungible tokens (${assetNames.join(', ')}) - pass assetName to choose one`);
+    }
+    return assetName;
+  }
+
+  // Read-only functions using callReadOnlyFunction
+
+  /**
+   * Get the token name
+   */
+  async getName(): Promise<string> {
+    return this.getStaticValue('name', 'get-name', value => String(value.value));
+  }
+
+  /**
+   * Get the token symbol
+   */
+  async getSymbol(): Promise<string> {
+    return this.getStaticValue('symbol', 'get-symbol', value => String(value.value));
+  }
+
+  /**
+   * Get the token decimals
+   */
+  async getDecimals(): Promise<number> {
+    return this.getStaticValue('decimals', 'get-decimals', value => Number(value.value));
+  }
+
+  /**
+   * Read and cache a value that doesn't change after deployment
+   */
+  private async getStaticValue<T>(key: string, functionName: string, parse: (value: any) => T): Promise<T> {
+    const cached = this.getCached<T>(key);
+    if (cached !== null) return cached;
+
+    try {
+      const value = parse(await this.callReadOnly(functionName));
+      this.setCached(key, value, this.STATIC_DATA_TTL);
+      return value;
+    } catch (error) {
+      throw new Error(`Failed to get ${key}: ${error}`);
+    }
+  }
+
+  /**
+   * Get balance for a specific address
+   */
+  async getBalance(address: string): Promise<TokenAmount> {
+    const cacheKey = `balance:${address}`;
+    const cached = this.getCached<TokenAmount>(cacheKey);
+    if (cached !== null) return cached;
+
+    try {
+      const [value, decimals] = await Promise.all([
+        this.callReadOnly('get-balance', [Cl.principal(address)]),
+        this.getDecimals(),
+      ]);
+      const balance = TokenAmount.fromBaseUnits(value.value, decimals);
+      this.setCached(cacheKey, balance, this.DYNAMIC_DATA_TTL);
+      return balance;
+    } catch (error) {
+      throw new Error(`Failed to get balance for ${address}: ${error}`);
+    }
+  }
+
+  /**
+   * Get the total supply of tokens
+   */
+  async getTotalSupply(): Promise<TokenAmount> {
+    const cacheKey = 'totalSupply';
+    const cached = this.getCached<TokenAmount>(cacheKey);
+    if (cached !== null) return cached;
+
+    try {
+      const [value, decimals] = await Promise.all([
+        this.callReadOnly('get-total-supply'),
+        this.getDecimals(),
+      ]);
+      const totalSupply = TokenAmount.fromBaseUnits(value.value, decimals);
+      this.setCached(cacheKey, totalSupply, this.DYNAMIC_DATA_TTL);
+      return totalSupply;
+    } catch (error) {
+      throw new Error(`Failed to get total supply: ${error}`);
+    }
+  }
+
+  /**
+   * Get the raw token URI, or null when the contract doesn't set one
+   */
+  async getTokenUriString(): Promise<string | null> {
+    const value = await this.callReadOnly('get-token-uri');
+
+    // SIP-10 returns (optional (string-utf8 256)), but some tokens return the string directly
+    const uri = value?.value && typeof value.value === 'object' ? value.value.value : value?.value;
+    return typeof uri === 'string' && uri ? uri : null;
+  }
+
+  /**
+   * Get the token URI and resolve its SIP-16 metadata
+   * Supports data URIs, https, ipfs and ar URIs (see TokenMetadataResolver)
+   */
+  async getTokenUri(): Promise<TokenMetadata> {
+    const cacheKey = 'tokenUri';
+    const cached = this.getCached<TokenMetadata>(cacheKey);
+    if (cached !== null) return cached;
+
+    try {
+      const tokenUriString = await this.getTokenUriString();
+
+      // No metadata published - fall back to what the contract itself reports
+      const metadata: TokenMetadata = tokenUriString
+        ? await this.metadataResolver.resolve(tokenUriString)
+        : { sip: 16, name: await this.getName() };
+
+      this.setCached(cacheKey, metadata, this.STATIC_DATA_TTL);
+      return metadata;
+    } catch (error) {
+      throw new Error(`Failed to get token URI: ${error}`);
+    }
+  }
+
+  /**
+   * Get all token information at once
+   */
+  async getTokenInfo(): Promise<TokenInfo> {
+    try {
+      const [name, symbol, decimals, totalSupply, tokenUri] = await Promise.all([
+        this.getName(),
+        this.getSymbol(),
+        this.getDecimals(),
+        this.getTotalSupply(),
+        this.getTokenUri(),
+      ]);
+
+      return {
+        name,
+        symbol,
+        decimals,
+        totalSupply,
+        tokenUri,
+      };
+    } catch (error) {
+      throw new Error(`Failed to get token info: ${error}`);
+    }
+  }
+
+  /**
+   * Get the full contract identifier
+   */
+  getContractId(): string {
+    return this.fullContractId;
+  }
+
+  /**
+   * Get the explorer URL for this contract
+   */
+  getExplorerUrl(): string {
+    return getExplorerUrl(this.config, `address/${this.fullContractId}`);
+  }
+
+  /**
+   * Get the network configuration this wrapper talks to
+   */
+  getNetworkConfig(): NetworkConfig {
+    return this.config;
+  }
+
+  /**
+   * Decode a transfer error code
+   * Only this project's token is decoded through the registry - other SIP-10
+   * contracts define their own codes, so theirs are reported as unknown
+   */
+  decodeContractError(errorCode: number): ContractError {
+    const contractKey = getContractKey(this.config, this.fullContractId);
+    const definition = contractKey ? decodeContractError(contractKey, errorCode)?.definition : undefined;
+    return definition || { code: errorCode, message: `Unknown error code: ${errorCode}` };
+  }
+
+  // Public functions (signed by the configured signer)
+
+  /**
+   * Transfer tokens to another address
+   */
+  async transfer(options: TransferOptions): Promise<ContractCallResult> {
+    try {
+      const { sender, recipient, memo } = options;
+      const amount = TokenAmount.from(options.amount, await this.getDecimals());
+
+      // Reject transfers ft-transfer? would abort with u3 (invalid amount) / u2 (sender is recipient)
+      if (!amount.isPositive()) {
+        return { txId: '', success: false, error: TOKEN_ERRORS.INVALID_AMOUNT.message };
+      }
+      if (sender === recipient) {
+        return { txId: '', success: false, error: TOKEN_ERRORS.SENDER_RECIPIENT.message };
+      }
+      const recipientValidation = validateStacksAddress(recipient, { network: this.config });
+      if (!recipientValidation.isValid) {
+        return { txId: '', success: false, error: `Invalid recipient: ${recipientValidation.error}` };
+      }
+      if (memo) {
+        const memoValidation = validateMemo(memo);
+        if (!memoValidation.isValid) {
+          return { txId: '', success: false, error: memoValidation.error };
+        }
+      }
+
+      const response = await this.signer.callContract(await this.buildTransferCall(options));
+
+      // Clear balance cache for sender and recipient after successful transfer
+      this.clearBalanceCache(sender);
+      this.clearBalanceCache(recipient);
+      // Also clear total supply cache as it might have changed
+      removeCacheEntry(this.cachePrefix + 'totalSupply', this.cacheStore);
+
+      return {
+        txId: response.txId,
+        success: true,
+      };
+    } catch (error) {
+      return {
+        txId: '',
+        success: false,
+        error: `Transfer failed: ${getErrorMessage(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Estimate low/medium/high fees for a transfer
+   * Pass the chosen option's `fee` back in the transfer options
+   */
+  async estimateTransferFee(options: TransferOptions): Promise<FeeEstimate> {
+    return this.feeEstimator.estimateContractCall(await this.buildTransferCall(options));
+  }
+
+  private async buildTransferCall(options: TransferOptions): Promise<ContractCallRequest> {
+    const { sender, recipient, memo, fee } = options;
+    const amount = TokenAmount.from(options.amount, await this.getDecimals());
+    const assetName = await this.getAssetName();
+
+    return {
+      contract: this.fullContractId,
+      functionName: 'transfer',
+      functionArgs: [
+        Cl.uint(amount.toBaseUnits()),
+        Cl.principal(sender),
+        Cl.principal(recipient),
+        memoToClarityValue(memo),
+      ],
+      network: this.config,
+      postConditionMode: 'deny',
+      postConditions: [
+        Pc.principal(sender).willSendEq(amount.toBaseUnits()).ft(this.fullContractId, assetName)
+      ],
+      fee,
+    };
+  }
+}
@@ -1,34 +1,99 @@
-import { isValidStacksAddress } from './validators';
-import { getCacheEntry, setCacheEntry, removeCacheEntriesByPrefix } from './serializers';
-import { request } from '@stacks/connect';
+import { isValidStacksAddress, validateStacksAddress } from './validators';
+import { getCacheEntry, setCacheEntry, removeCacheEntry, removeCacheEntriesByPrefix, getCacheKeysByPrefix } from './serializers';
+import { CacheStore, resolveCacheStore } from './cache-store';
 import { Cl, Pc, fetchCallReadOnlyFunction, cvToJSON } from '@stacks/transactions';
-import { CallContractParams } from '@stacks/connect/dist/types/methods';
-import { ContractEventsService, eventsService, eventsServiceTestnet } from './events';
+import { ContractEventsService, ClaimEvent, UserAnalytics, EventSubscriptionFilter, EventHandler, BlockHandler, Leaderboard, LeaderboardOptions, eventsService, eventsServiceTestnet, eventsServiceDevnet } from './events';
+import { BlockEta, BlockTimeEstimate, estimateEta } from './block-time';
+import { RunwayForecast } from './runway';
+import { NetworkConfig, NetworkOption, NetworkType, getContractId, getExplorerUrl, getNetworkParams, resolveNetwork } from './network';
+import { ContractError, FAUCET_ERRORS, decodeContractError, getErrorMessage } from './errors';
+import { ContractCallRequest, Signer, walletSigner } from './signer';
+import { FeeEstimate, FeeEstimator } from './fees';
+import {
+    FaucetParameters,
+    DEFAULT_FAUCET_PARAMETERS,
+    fetchFaucetParameters,
+    getRewardForStreak,
+    getTierIndex
+} from './faucet-parameters';
+import { TokenAmount, TokenAmountInput } from './token-amount';
+import { TOKEN_DECIMALS } from './tropical-blue-bonobo';
 
 // Type definitions for faucet functionality
 export interface FaucetClaimInfo {
+    lastClaimBlock: number;
+    streakCount: number;
+    totalClaims: number;
+    totalClaimed: TokenAmount;
+    canClaimNow: boolean;
+    nextClaimBlock: number;
+    timeUntilNextClaim: number; // seconds (expected)
+    /** When the cooldown ends, with a likely range */
+    nextClaimEta: BlockEta;
+    /** Block time the ETA was based on - use with estimateEta to re-anchor a countdown on new blocks */
+    blockTime: BlockTimeEstimate;
+    /** Reward the next claim will pay (accounts for streak resets) */
+    nextClaimReward: TokenAmount;
+    /** Where the core fields came from - 'unavailable' means claiming is blocked until data loads */
+    source: 'contract' | 'events' | 'unavailable';
+    /** Longest streak seen in the event history */
+    maxStreak: number;
+    /** Claim events for this user, oldest first (empty until event sync has them) */
+    claimHistory: ClaimEvent[];
+}
+
+/**
+ * User record returned by the contract's get-claim-data
+ */
+export interface OnChainClaimData {
     lastClaimBlock: number;
     streakCount: number;
     totalClaims: number;
     totalClaimed: number;
     canClaimNow: boolean;
+    blocksUntilNextClaim: number;
     nextClaimBlock: number;
-    timeUntilNextClaim: number; // seconds
+    currentReward: number;
+}
+
+export interface ClaimDiscrepancy {
+    field: 'lastClaimBlock' | 'streakCount' | 'totalClaims' | 'totalClaimed';
+    contractValue: number;
+    eventsValue: number;
+}
+
+/**
+ * Comparison of the contract's claim record with the event-derived analytics
+ */
+export interface ClaimReconciliationReport {
+    address: string;
+    contract: OnChainClaimData | null;
+    events: UserAnalytics | null;
+    discrepancies: ClaimDiscrepancy[];
+    isConsistent: boolean;
+    /** Discrepancies are expected while the event backfill is incomplete */
+    eventsFullySynced: boolean;
+    checkedAt: Date;
 }
 
 export interface FaucetGlobalStats {
-    totalSupply: number;
-    distributed: number;
-    remaining: number;
-    dailyRate: number;
+    totalSupply: TokenAmount;
+    distributed: TokenAmount;
+    remaining: TokenAmount;
+    dailyRate: TokenAmount;
+    /** Expected days until the faucet runs dry (capped at the forecast horizon) */
     estimatedDaysRemaining: number;
+    /** Best, expected and worst runway from the claim and deposit history (unset if it couldn't be read) */
+    runway?: RunwayForecast;
     percentageRemaining: number;
 }
 
 export interface RewardTier {
     days: string;
-    amount: number;
+    amount: TokenAmount;
     color: string;
+    /** Minimum streak that earns this tier */
+    minStreak: number;
 }
 
 export interface ClaimResult {
@@ -42,26 +107,41 @@ export interface ValidationResult {
     error?: string;
 }
 
+export interface FaucetOptions {
+    /** Storage for cached reads (defaults to localStorage in browsers, memory elsewhere) */
+    cacheStore?: CacheStore;
+    /** Events service to read analytics from (defaults to the network's shared service) */
+    eventsService?: ContractEventsService;
+    /** Signs claims and deposits (defaults to the browser wallet - use a PrivateKeySigner in Node) */
+    signer?: Signer;
+    /** Estimates claim and deposit fees (defaults to one using the network's node) */
+    feeEstimator?: FeeEstimator;
+}
 
-type NetworkType = 'mainnet' | 'testnet';
+export interface FaucetCallOptions {
+    /** Fee in microSTX, e.g. an option from `estimateClaimFee` (the wallet picks one when omitted) */
+    fee?: bigint | number;
+}
 
-// Contract details by network
-const CONTRACT_ADDRESSES = {
-    mainnet: 'SP2ZNGJ85ENDY6QRHQ5P2D4FXKGZWCKTB2T0Z55KS',
-    testnet: 'ST2ZNGJ85ENDY6QRHQ5P2D4FXKGZWCKTB2SYCBMRR',
-} as const;
 
-const TOKEN_CONTRACT_NAME = 'tropical-blue-bonobo';
-const FAUCET_CONTRACT_NAME = 'spare-tomato-pelican';
+// Events services shared by the preset network singletons
+const PRESET_EVENTS_SERVICES: Record<NetworkType, ContractEventsService> = {
+    mainnet: eventsService,
+    testnet: eventsServiceTestnet,
+    devnet: eventsServiceDevnet,
+};
 
 /**
  * TBB Faucet Contract Wrapper
  * Provides faucet functionality with proper read-only vs public function distinction
  */
 export class TBBFaucetContract {
-    private readonly network: NetworkType;
+    private readonly config: NetworkConfig;
     private readonly cachePrefix: string;
     private readonly eventsService: ContractEventsService;
+    private readonly cacheStore: CacheStore;
+    private readonly signer: Signer;
+    private readonly feeEstimator: FeeEstimator;
 
     // Cache TTL constants (in milliseconds)
     private readonly CACHE_TTL = {
@@ -72,20 +152,28 @@ export class TBBFaucetContract {
     };
 
     // Constants matching UI implementation
-    private readonly BLOCKS_PER_DAY = 17280; // 24 hours at 5 seconds per block
-
-    private readonly REWARD_TIERS: RewardTier[] = [
-        { days: '1-3', amount: 50_000_000, color: 'from-blue-500 to-blue-600' },
-        { days: '4-7', amount: 75_000_000, color: 'from-purple-500 to-purple-600' },
-        { days: '8-14', amount: 100_000_000, color: 'from-orange-500 to-orange-600' },
-        { days: '15+', amount: 125_000_000, color: 'from-red-500 to-red-600' }
+    private readonly TIER_COLORS = [
+        'from-blue-500 to-blue-600',
+        'from-purple-500 to-purple-600',
+        'from-orange-500 to-orange-600',
+        'from-red-500 to-red-600'
     ];
 
-    constructor(network: NetworkType = 'testnet') {
-        this.network = network;
-        this.cachePrefix = `tbb-faucet-cache:${this.network}:`;
-        // Initialize events service for this network
-        this.eventsService = network === 'mainnet' ? eventsService : eventsServiceTestnet;
+    // On-chain parameters (defaults until loadFaucetParameters resolves)
+    private parameters: FaucetParameters;
+
+    constructor(network: NetworkOption = 'testnet', options: FaucetOptions = {}) {
+        this.config = resolveNetwork(network);
+        this.cachePrefix = `tbb-faucet-cache:${this.config.name}:`;
+        this.cacheStore = resolveCacheStore(options.cacheStore);
+        this.signer = options.signer || walletSigner;
+        this.feeEstimator = options.feeEstimator || new FeeEstimator(this.config);
+        this.parameters = this.getCached<FaucetParameters>('faucet_parameters') || DEFAULT_FAUCET_PARAMETERS;
+        // Initialize events service for this network (presets share the singleton services)
+        this.eventsService = options.eventsService
+            || (typeof network === 'string' && !options.cacheStore
+                ? PRESET_EVENTS_SERVICES[network]
+                : new ContractEventsService(this.config, undefined, { cacheStore: options.cacheStore }));
     }
 
     // CACHE MANAGEMENT
@@ -95,7 +183,7 @@ export class TBBFaucetContract {
      */
     private getCached<T>(key: string): T | null {
         const cacheKey = this.cachePrefix + key;
-        return getCacheEntry<T>(cacheKey);
+        return getCacheEntry<T>(cacheKey, this.cacheStore);
     }
 
     /**
@@ -103,34 +191,36 @@ export class TBBFaucetContract {
      */
     private setCached<T>(key: string, data: T, ttl: number): void {
         const cacheKey = this.cachePrefix + key;
-        setCacheEntry(cacheKey, data, ttl);
+        setCacheEntry(cacheKey, data, ttl, this.cacheStore);
+    }
+
+    /**
+     * Remove a single cached value
+     */
+    private removeCached(key: string): void {
+        removeCacheEntry(this.cachePrefix + key, this.cacheStore);
     }
 
     /**
      * Clear all cached data
      */
     public clearCache(): void {
-        removeCacheEntriesByPrefix(this.cachePrefix);
+        removeCacheEntriesByPrefix(this.cachePrefix, this.cacheStore);
     }
 
     /**
      * Clear specific cache entries by pattern
      */
     public clearCacheByPattern(pattern: string): void {
-        removeCacheEntriesByPrefix(this.cachePrefix + pattern);
+        removeCacheEntriesByPrefix(this.cachePrefix + pattern, this.cacheStore);
     }
 
     /**
      * Get cache statistics for debugging
      */
     public getCacheStats(): { totalEntries: number; cacheKeys: string[] } {
-        const keys: string[] = [];
-        for (let i = 0; i < localStorage.length; i++) {
-            const key = localStorage.key(i);
-            if (key && key.startsWith(this.cachePrefix)) {
-                keys.push(key.replace(this.cachePrefix, ''));
-            }
-        }
+        const keys = getCacheKeysByPrefix(this.cachePrefix, this.cacheStore)
+            .map(key => key.replace(this.cachePrefix, ''));
         return {
             totalEntries: keys.length,
             cacheKeys: keys
@@ -139,29 +229,64 @@ export class TBBFaucetContract {
 
     // READ-ONLY FUNCTIONS (return actual data)
 
+    /**
+     * Load cooldown, streak window and tier rewards from get-faucet-stats
+     * Synchronous reward helpers use the last loaded values
+     */
+    async loadFaucetParameters(): Promise<FaucetParameters> {
+        // Check cache first
+        const cacheKey = 'faucet_parameters';
+        const cached = this.getCached<FaucetParameters>(cacheKey);
+        if (cached !== null) {
+            this.parameters = cached;
+            return cached;
+        }
+
+        try {
+            const parameters = await fetchFaucetParameters(this.config, this.getFaucetContractId());
+            this.parameters = parameters;
+
+            // Cache the result (contract constants only change with a redeploy)
+            this.setCached(cacheKey, parameters, this.CACHE_TTL.CONTRACT_INFO);
+
+            return parameters;
+        } catch (error) {
+            console.warn(`Failed to load faucet parameters: ${error}`);
+            // Keep using the last known values rather than throwing
+            return this.parameters;
+        }
+    }
+
+    /**
+     * Get the most recently loaded faucet parameters
+     */
+    getFaucetParameters(): FaucetParameters {
+        return this.parameters;
+    }
+
     /**
      * Get the faucet contract's token balance
      */
-    async getFaucetBalance(): Promise<number> {
+    async getFaucetBalance(): Promise<TokenAmount> {
         // Check cache first
         const cacheKey = 'faucet_balance';
-        const cached = this.getCached<number>(cacheKey);
+        const cached = this.getCached<TokenAmount>(cacheKey);
         if (cached !== null) {
             return cached;
         }
 
         try {
             const result = await fetchCallReadOnlyFunction({
-                contractAddress: CONTRACT_ADDRESSES[this.network],
-                contractName: TOKEN_CONTRACT_NAME,
+                contractAddress: this.config.deployerAddress,
+                contractName: this.config.contractNames.token,
                 functionName: 'get-balance',
                 functionArgs: [Cl.principal(this.getFaucetContractId())],
-                network: this.network as any,
-                senderAddress: CONTRACT_ADDRESSES[this.network],
+                ...getNetworkParams(this.config),
+                senderAddress: this.config.deployerAddress,
             });
 
             const jsonResult = cvToJSON(result);
-            const balance = Number(jsonResult.value.value);
+            const balance = this.toAmount(BigInt(jsonResult.value.value));
 
             // Cache the result with shorter TTL since faucet balance changes frequently
             this.setCached(cacheKey, balance, this.CACHE_TTL.GLOBAL_STATS);
@@ -170,23 +295,62 @@ export class TBBFaucetContract {
         } catch (error) {
             console.warn(`Failed to get faucet balance: ${error}`);
             // Return 0 on error rather than throwing
-            return 0;
+            return this.toAmount(0);
         }
     }
 
     /**
      * Get the total supply of tokens
      */
-    async getTotalSupply(): Promise<number> {
-        return 10_000_000_000;
+    async getTotalSupply(): Promise<TokenAmount> {
+        return this.toAmount(10_000_000_000n);
+    }
+
+    /**
+     * Wrap base units of the faucet's token (fractions, e.g. from averaged rates, are dropped)
+     */
+    private toAmount(baseUnits: number | bigint): TokenAmount {
+        return TokenAmount.fromBaseUnits(typeof baseUnits === 'number' ? Math.floor(baseUnits) : baseUnits, TOKEN_DECIMALS);
     }
 
     /**
-     * Get claim information for a specific user using real event data
+     * Read a user's claim record from the contract's get-claim-data
+     */
+    async getOnChainClaimData(userAddress: string): Promise<OnChainClaimData> {
+        const result = await fetchCallReadOnlyFunction({
+            contractAddress: this.config.deployerAddress,
+            contractName: this.config.contractNames.faucet,
+            functionName: 'get-claim-data',
+            functionArgs: [Cl.principal(userAddress)],
+            ...getNetworkParams(this.config),
+            senderAddress: this.config.deployerAddress,
+        });
+
+        const data = cvToJSON(result).value;
+        if (!data?.['last-claim-block']) {
+            throw new Error(`Invalid get-claim-data response: ${JSON.stringify(data)}`);
+        }
+
+        return {
+            lastClaimBlock: Number(data['last-claim-block'].value),
+            streakCount: Number(data['streak-count'].value),
+            totalClaims: Number(data['total-claims'].value),
+            totalClaimed: Number(data['total-claimed'].value),
+            canClaimNow: Boolean(data['can-claim-now'].value),
+            blocksUntilNextClaim: Number(data['time-until-next-claim'].value),
+            nextClaimBlock: Number(data['next-claim-block'].value),
+            currentReward: Number(data['current-reward'].value),
+        };
+    }
+
+    /**
+     * Get claim information for a specific user
+     * The contract's get-claim-data is authoritative; event history adds the
+     * claim timeline and max streak, and stands in when the contract read fails
      */
     async getClaimInfo(userAddress: string): Promise<FaucetClaimInfo> {
         // Validate address
-        if (!isValidStacksAddress(userAddress)) {
+        if (!isValidStacksAddress(userAddress, { network: this.config })) {
             throw new Error('Invalid Stacks address');
         }
 
@@ -197,64 +361,137 @@ export class TBBFaucetContract {
             return cached;
         }
 
-        try {
-            // Get real analytics from events service
-            const userAnalytics = await this.eventsService.getUserAnalytics(userAddress);
-
-            let claimInfo: FaucetClaimInfo;
-
-            if (userAnalytics) {
-                // User has claim history - use real data
-                const timeUntilNextClaim = userAnalytics.nextClaimTime
-                    ? Math.max(0, Math.floor((userAnalytics.nextClaimTime.getTime() - Date.now()) / 1000))
-                    : 0;
-
-                const nextClaimBlock = userAnalytics.canClaimNow
-                    ? userAnalytics.lastClaimBlock
-                    : userAnalytics.lastClaimBlock + this.BLOCKS_PER_DAY;
-
-                claimInfo = {
-                    lastClaimBlock: userAnalytics.lastClaimBlock,
-                    streakCount: userAnalytics.currentStreak,
-                    totalClaims: userAnalytics.totalClaims,
-                    totalClaimed: userAnalytics.totalClaimed,
-                    canClaimNow: userAnalytics.canClaimNow,
-                    nextClaimBlock,
-                    timeUntilNextClaim
-                };
-            } else {
-                // New user with no claim history
-                claimInfo = {
-                    lastClaimBlock: 0,
-                    streakCount: 0,
-                    totalClaims: 0,
-                    totalClaimed: 0,
-                    canClaimNow: true,
-                    nextClaimBlock: 0,
-                    timeUntilNextClaim: 0
-                };
-            }
+        const [parameters, onChain, analytics, currentBlock, blockTime] = await Promise.all([
+            this.loadFaucetParameters(),
+            this.getOnChainClaimData(userAddress).catch(error => {
+                console.warn(`Failed to read claim data for ${userAddress}:`, error);
+                return null;
+            }),
+            this.eventsService.getUserAnalytics(userAddress).catch(error => {
+                console.warn(`Failed to get claim history for ${userAddress}:`, error);
+                return null;
+            }),
+            this.eventsService.getCurrentBlockHeight(),
+            this.eventsService.getBlockTimeEstimate()
+        ]);
 
-            // Cache the result
-            this.setCached(cacheKey, claimInfo, this.CACHE_TTL.USER_CLAIM_INFO);
+        const history = {
+            maxStreak: analytics?.maxStreak ?? 0,
+            claimHistory: analytics?.claimHistory ?? []
+        };
 
-            return claimInfo;
-        } catch (error) {
-            console.warn(`Failed to get claim info for ${userAddress}:`, error);
+        // The contract resets the streak on the next claim once the window has passed
+        const getNextClaimReward = (lastClaimBlock: number, streakCount: number): TokenAmount => {
+            const streakExpired = lastClaimBlock === 0 || currentBlock - lastClaimBlock > parameters.streakWindowBlocks;
+            return this.toAmount(getRewardForStreak(parameters, streakExpired ? 1 : streakCount + 1));
+        };
+
+        const getEta = (nextClaimBlock: number) => {
+            const nextClaimEta = estimateEta(nextClaimBlock - currentBlock, blockTime);
+            return { timeUntilNextClaim: nextClaimEta.seconds, nextClaimEta, blockTime };
+        };
 
-            // Fallback to default values on error
-            const claimInfo: FaucetClaimInfo = {
+        let claimInfo: FaucetClaimInfo;
+
+        if (onChain) {
+            claimInfo = {
+                lastClaimBlock: onChain.lastClaimBlock,
+                streakCount: onChain.streakCount,
+                totalClaims: onChain.totalClaims,
+                totalClaimed: this.toAmount(onChain.totalClaimed),
+                canClaimNow: onChain.canClaimNow,
+                nextClaimBlock: onChain.nextClaimBlock,
+                ...getEta(currentBlock + onChain.blocksUntilNextClaim),
+                nextClaimReward: getNextClaimReward(onChain.lastClaimBlock, onChain.streakCount),
+                source: 'contract',
+                ...history
+            };
+        } else if (analytics) {
+            // Contract read failed - fall back to the event-derived view
+            claimInfo = {
+                lastClaimBlock: analytics.lastClaimBlock,
+                streakCount: analytics.currentStreak,
+                totalClaims: analytics.totalClaims,
+                totalClaimed: this.toAmount(analytics.totalClaimed),
+                canClaimNow: analytics.canClaimNow,
+                nextClaimBlock: analytics.lastClaimBlock + parameters.cooldownBlocks,
+                ...getEta(analytics.lastClaimBlock + parameters.cooldownBlocks),
+                nextClaimReward: getNextClaimReward(analytics.lastClaimBlock, analytics.currentStreak),
+                source: 'events',
+                ...history
+            };
+        } else {
+            // Neither source answered - don't invite a claim that may fail on-chain
+            return {
                 lastClaimBlock: 0,
                 streakCount: 0,
                 totalClaims: 0,
-                totalClaimed: 0,
-                canClaimNow: true,
+                totalClaimed: this.toAmount(0),
+                canClaimNow: false,
                 nextClaimBlock: 0,
-                timeUntilNextClaim: 0
+                ...getEta(currentBlock),
+                nextClaimReward: this.toAmount(getRewardForStreak(parameters, 1)),
+                source: 'unavailable',
+                ...history
             };
+        }
 
-            return claimInfo;
+        // Cache the result
+        this.setCached(cacheKey, claimInfo, this.CACHE_TTL.USER_CLAIM_INFO);
+
+        return claimInfo;
+    }
+
+    /**
+     * Compare the contract's claim record with event-derived analytics
+     * The contract keeps the streak of the last claim until the next one, so it's
+     * compared with the streak that claim printed rather than the (possibly expired) current streak
+     */
+    private findClaimDiscrepancies(onChain: OnChainClaimData, analytics: UserAnalytics | null): ClaimDiscrepancy[] {
+        const claimHistory = analytics?.claimHistory ?? [];
+        const eventsValues = {
+            lastClaimBlock: analytics?.lastClaimBlock ?? 0,
+            streakCount: claimHistory[claimHistory.length - 1]?.streak ?? 0,
+            totalClaims: analytics?.totalClaims ?? 0,
+            totalClaimed: analytics?.totalClaimed ?? 0,
+        };
+
+        return (Object.keys(eventsValues) as ClaimDiscrepancy['field'][])
+            .filter(field => onChain[field] !== eventsValues[field])
+            .map(field => ({
+                field,
+                contractValue: onChain[field],
+                eventsValue: eventsValues[field]
+            }));
+    }
+
+    /**
+     * Report where the contract's claim record and the event history disagree
+     */
+    async getClaimReconciliation(userAddress: string): Promise<ClaimReconciliationReport> {
+        if (!isValidStacksAddress(userAddress, { network: this.config })) {
+            throw new Error('Invalid Stacks address');
         }
+
+        const [contract, events] = await Promise.all([
+            this.getOnChainClaimData(userAddress).catch(error => {
+                console.warn(`Failed to read claim data for ${userAddress}:`, error);
+                return null;
+            }),
+            this.eventsService.getUserAnalytics(userAddress)
+        ]);
+
+        const discrepancies = contract ? this.findClaimDiscrepancies(contract, events) : [];
+
+        return {
+            address: userAddress,
+            contract,
+            events,
+            discrepancies,
+            isConsistent: contract !== null && discrepancies.length === 0,
+            eventsFullySynced: this.eventsService.getSyncState().isFullySynced,
+            checkedAt: new Date()
+        };
     }
 
     /**
@@ -274,14 +511,21 @@ export class TBBFaucetContract {
             this.getTotalSupply(),
             this.eventsService.getGlobalAnalytics()
         ]);
+        const runway = await this.eventsService.getRunwayForecast(faucetBalance.toBaseUnits()).catch(error => {
+            console.warn(`Failed to forecast faucet runway: ${getErrorMessage(error)}`);
+            return undefined;
+        });
 
-        const distributed = totalSupply - faucetBalance;
-        const percentageRemaining = totalSupply > 0 ? (faucetBalance / totalSupply) * 100 : 0;
+        const distributed = totalSupply.sub(faucetBalance);
+        const percentageRemaining = faucetBalance.ratio(totalSupply) * 100;
 
         // Use calculated daily rate from events analytics
-        const dailyRate = globalAnalytics.calculatedDailyRate;
+        const dailyRate = this.toAmount(globalAnalytics.calculatedDailyRate);
 
-        const estimatedDaysRemaining = dailyRate > 0 ? faucetBalance / dailyRate : 0;
+        // The forecast accounts for deposits and streaks moving up reward tiers
+        const estimatedDaysRemaining = runway
+            ? runway.expected.daysRemaining ?? runway.horizonDays
+            : faucetBalance.ratio(dailyRate);
 
         const globalStats: FaucetGlobalStats = {
             totalSupply,
@@ -289,6 +533,7 @@ export class TBBFaucetContract {
             remaining: faucetBalance,
             dailyRate,
             estimatedDaysRemaining,
+            runway,
             percentageRemaining
         };
 
@@ -298,10 +543,18 @@ export class TBBFaucetContract {
         return globalStats;
     }
 
+    /**
+     * Faucet leaderboard - claimers by active streak or tokens claimed, or depositors by tokens deposited
+     * (see ContractEventsService.getLeaderboard)
+     */
+    async getLeaderboard(options: LeaderboardOptions): Promise<Leaderboard> {
+        return this.eventsService.getLeaderboard(options);
+    }
+
     /**
      * Get reward tier definitions
      */
-    getRewardTiers(): RewardTier[] {
+    async getRewardTiers(): Promise<RewardTier[]> {
         // Check cache first
         const cacheKey = 'reward_tiers';
         const cached = this.getCached<RewardTier[]>(cacheKey);
@@ -309,7 +562,19 @@ export class TBBFaucetContract {
             return cached;
         }
 
-        const rewardTiers = [...this.REWARD_TIERS];
+        const { tierRewards, tierStreaks } = await this.loadFaucetParameters();
+        const rewardTiers: RewardTier[] = tierRewards.map((amount, index) => {
+            const minStreak = tierStreaks[index];
+            const nextStreak = tierStreaks[index + 1];
+            return {
+                days: nextStreak === undefined
+                    ? `${minStreak}+`
+                    : `${minStreak}-${nextStreak - 1}`,
+                amount: this.toAmount(amount),
+                color: this.TIER_COLORS[index % this.TIER_COLORS.length],
+                minStreak
+            };
+        });
 
         // Cache the result (reward tiers rarely change)
         this.setCached(cacheKey, rewardTiers, this.CACHE_TTL.REWARD_TIERS);
@@ -320,17 +585,14 @@ export class TBBFaucetContract {
     /**
      * Calculate current reward amount based on streak
      */
-    getCurrentReward(streakCount: number): number {
-        if (streakCount >= 15) return 125_000_000;
-        if (streakCount >= 8) return 100_000_000;
-        if (streakCount >= 4) return 75_000_000;
-        return 50_000_000;
+    getCurrentReward(streakCount: number): TokenAmount {
+        return this.toAmount(getRewardForStreak(this.parameters, streakCount));
     }
 
     /**
      * Get next reward amount (after current claim)
      */
-    getNextRewardAmount(streakCount: number): number {
+    getNextRewardAmount(streakCount: number): TokenAmount {
         return this.getCurrentReward(streakCount + 1);
     }
 
@@ -338,10 +600,7 @@ export class TBBFaucetContract {
      * Get current reward tier index
      */
     getTierIndex(streakCount: number): number {
-        if (streakCount >= 15) return 3;
-        if (streakCount >= 8) return 2;
-        if (streakCount >= 4) return 1;
-        return 0;
+        return getTierIndex(this.parameters, streakCount);
     }
 
     /**
@@ -364,38 +623,37 @@ export class TBBFaucetContract {
      * Validate if an address can participate in faucet
      */
     validateAddress(address: string): ValidationResult {
-        if (!address) {
-            return { isValid: false, error: 'Address is required' };
-        }
+        // Claims and deposits are signed by accounts on this network, never by contracts
+        const validation = validateStacksAddress(address, { network: this.config, allowContracts: false });
+        return validation.isValid ? { isValid: true } : { isValid: false, error: validation.error };
+    }
 
-        if (!isValidStacksAddress(address)) {
-            return { isValid: false, error: 'Invalid Stacks address format' };
-        }
+    /**
+     * Decode a faucet contract error code (u101-u105)
+     */
+    decodeContractError(errorCode: number): ContractError {
+        const definition = decodeContractError('faucet', errorCode)?.definition;
+        return definition || { code: errorCode, message: `Unknown error code: ${errorCode}` };
+    }
 
-        return { isValid: true };
+    /**
+     * Get the network configuration this wrapper talks to
+     */
+    getNetworkConfig(): NetworkConfig {
+        return this.config;
     }
 
     /**
      * Get network-specific contract information
      */
     getContractInfo() {
-        // Check cache first
-        const cacheKey = `contract_info:${this.network}`;
-        const cached = this.getCached<any>(cacheKey);
-        if (cached !== null) {
-            return cached;
-        }
-
-        const contractInfo = {
-            network: this.network,
-            contractName: 'spare-tomato-pelican',
-            blocksPerDay: this.BLOCKS_PER_DAY
+        // Not cached - blocksPerDay follows the faucet parameters once they load
+        return {
+            network: this.config.name,
+            contractName: this.config.contractNames.faucet,
+            // A faucet day is one claim cooldown
+            blocksPerDay: this.parameters.cooldownBlocks
         };
-
-        // Cache the result (contract info is static)
-        this.setCached(cacheKey, contractInfo, this.CACHE_TTL.CONTRACT_INFO);
-
-        return contractInfo;
     }
 
     // PUBLIC FUNCTIONS (return txId only)
@@ -404,7 +662,7 @@ export class TBBFaucetContract {
      * Claim tokens from faucet using real contract call
      * Returns transaction ID only - success/failure determined later
      */
-    async claimTokens(userAddress: string): Promise<ClaimResult> {
+    async claimTokens(userAddress: string, options: FaucetCallOptions = {}): Promise<ClaimResult> {
         try {
             // Validate address
             const validation = this.validateAddress(userAddress);
@@ -417,51 +675,42 @@ export class TBBFaucetContract {
             }
 
             // Check if user can claim
-            const canClaim = await this.canClaim(userAddress);
-            if (!canClaim) {
+            const claimInfo = await this.getClaimInfo(userAddress);
+            if (claimInfo.source === 'unavailable') {
                 return {
                     txId: '',
                     success: false,
-                    error: 'Cannot claim yet - still on cooldown'
+                    error: 'Unable to load your claim status - please try again shortly'
+                };
+            }
+            if (!claimInfo.canClaimNow) {
+                return {
+                    txId: '',
+                    success: false,
+                    error: FAUCET_ERRORS.COOLDOWN_ACTIVE.message
                 };
             }
 
-            // Get current reward amount for post-conditions
-            const claimInfo = await this.getClaimInfo(userAddress);
-            const currentReward = this.getCurrentReward(claimInfo.streakCount);
-
-            // Build contract call parameters
-            const params: CallContractParams = {
-                contract: this.getFaucetContractId(),
-                functionName: 'claim-tokens',
-                functionArgs: [], // No arguments - contract uses tx-sender
-                network: this.network,
-                postConditionMode: 'deny',
-                postConditions: [
-                    // Faucet contract will send tokens to user
-                    Pc.principal(this.getFaucetContractId())
-                        .willSendEq(currentReward)
-                        .ft(this.getTokenContractId(), 'TKN')
-                ],
-            };
+            // Post-conditions pin the reward this claim will pay
+            const params = this.buildClaimCall(claimInfo.nextClaimReward, options);
 
             console.log('Faucet claim params:', params);
 
             // Execute real contract call
-            const response = await request('stx_callContract', params);
+            const response = await this.signer.callContract(params);
 
             console.log('Faucet claim response:', response);
 
             // Invalidate relevant cache entries after successful claim
-            localStorage.removeItem(this.cachePrefix + `claim_info:${userAddress}`);
-            localStorage.removeItem(this.cachePrefix + 'global_stats'); // Global stats change when someone claims
-            localStorage.removeItem(this.cachePrefix + 'faucet_balance'); // Faucet balance decreases when tokens are claimed
+            this.removeCached(`claim_info:${userAddress}`);
+            this.removeCached('global_stats'); // Global stats change when someone claims
+            this.removeCached('faucet_balance'); // Faucet balance decreases when tokens are claimed
 
             // Invalidate events service analytics (will refetch new events with the claim)
             this.eventsService.invalidateAnalytics();
 
             return {
-                txId: response.txid || '',
+                txId: response.txId,
                 success: true,
             };
 
@@ -470,7 +719,7 @@ export class TBBFaucetContract {
             return {
                 txId: '',
                 success: false,
-                error: `Claim failed: ${error}`,
+                error: `Claim failed: ${getErrorMessage(error)}`,
             };
         }
     }
@@ -479,7 +728,7 @@ export class TBBFaucetContract {
      * Deposit tokens to seed the faucet
      * Returns transaction ID only - success/failure determined later
      */
-    async depositTokens(senderAddress: string, amount: number): Promise<ClaimResult> {
+    async depositTokens(senderAddress: string, amountInput: TokenAmountInput, options: FaucetCallOptions = {}): Promise<ClaimResult> {
         try {
             // Validate address
             const validation = this.validateAddress(senderAddress);
@@ -492,43 +741,32 @@ export class TBBFaucetContract {
             }
 
             // Validate amount
-            if (!amount || amount <= 0) {
+            const amount = TokenAmount.from(amountInput, TOKEN_DECIMALS);
+            if (!amount.isPositive()) {
                 return {
                     txId: '',
                     success: false,
-                    error: 'Deposit amount must be greater than 0'
+                    error: FAUCET_ERRORS.INVALID_DEPOSIT.message
                 };
             }
 
             // Build contract call parameters
-            const params: CallContractParams = {
-                contract: this.getFaucetContractId(),
-                functionName: 'deposit-tokens',
-                functionArgs: [Cl.uint(amount)], // Amount to deposit
-                network: this.network,
-                postConditionMode: 'deny',
-                postConditions: [
-                    // Sender will send tokens to faucet contract
-                    Pc.principal(senderAddress)
-                        .willSendEq(amount)
-                        .ft(this.getTokenContractId(), 'TKN')
-                ],
-            };
+            const params = this.buildDepositCall(senderAddress, amount, options);
 
             // Execute real contract call
-            const response = await request('stx_callContract', params);
+            const response = await this.signer.callContract(params);
 
             console.log('Faucet deposit response:', response);
 
             // Invalidate global stats cache after successful deposit (faucet balance changes)
-            localStorage.removeItem(this.cachePrefix + 'global_stats');
-            localStorage.removeItem(this.cachePrefix + 'faucet_balance'); // Faucet balance increases when tokens are deposited
+            this.removeCached('global_stats');
+            this.removeCached('faucet_balance'); // Faucet balance increases when tokens are deposited
 
             // Invalidate events service analytics (will refetch new events with the deposit)
             this.eventsService.invalidateAnalytics();
 
             return {
-                txId: response.txid || '',
+                txId: response.txId,
                 success: true,
             };
 
@@ -537,17 +775,69 @@ export class TBBFaucetContract {
             return {
                 txId: '',
                 success: false,
-                error: `Deposit failed: ${error}`,
+                error: `Deposit failed: ${getErrorMessage(error)}`,
             };
         }
     }
 
+    /**
+     * Estimate low/medium/high fees for a claim
+     * Pass the chosen option's `fee` to claimTokens
+     */
+    async estimateClaimFee(userAddress: string): Promise<FeeEstimate> {
+        const claimInfo = await this.getClaimInfo(userAddress);
+        return this.feeEstimator.estimateContractCall(this.buildClaimCall(claimInfo.nextClaimReward));
+    }
+
+    /**
+     * Estimate low/medium/high fees for a deposit
+     * Pass the chosen option's `fee` to depositTokens
+     */
+    async estimateDepositFee(senderAddress: string, amountInput: TokenAmountInput): Promise<FeeEstimate> {
+        const amount = TokenAmount.from(amountInput, TOKEN_DECIMALS);
+        return this.feeEstimator.estimateContractCall(this.buildDepositCall(senderAddress, amount));
+    }
+
+    private buildClaimCall(reward: TokenAmount, options: FaucetCallOptions = {}): ContractCallRequest {
+        return {
+            contract: this.getFaucetContractId(),
+            functionName: 'claim-tokens',
+            functionArgs: [], // No arguments - contract uses tx-sender
+            network: this.config,
+            postConditionMode: 'deny',
+            postConditions: [
+                // Faucet contract will send tokens to user
+                Pc.principal(this.getFaucetContractId())
+                    .willSendEq(reward.toBaseUnits())
+                    .ft(this.getTokenContractId(), 'TKN')
+            ],
+            fee: options.fee,
+        };
+    }
+
+    private buildDepositCall(senderAddress: string, amount: TokenAmount, options: FaucetCallOptions = {}): ContractCallRequest {
+        return {
+            contract: this.getFaucetContractId(),
+            functionName: 'deposit-tokens',
+            functionArgs: [Cl.uint(amount.toBaseUnits())], // Amount to deposit
+            network: this.config,
+            postConditionMode: 'deny',
+            postConditions: [
+                // Sender will send tokens to faucet contract
+                Pc.principal(senderAddress)
+                    .willSendEq(amount.toBaseUnits())
+                    .ft(this.getTokenContractId(), 'TKN')
+            ],
+            fee: options.fee,
+        };
+    }
+
     /**
      * Refresh user data after transaction confirms
      */
     async refreshUserData(userAddress: string): Promise<void> {
         // Invalidate cached user data to force fresh fetch
-        localStorage.removeItem(this.cachePrefix + `claim_info:${userAddress}`);
+        this.removeCached(`claim_info:${userAddress}`);
 
         // Invalidate events service cache to get latest transaction data
         this.eventsService.invalidateAnalytics();
@@ -561,7 +851,7 @@ export class TBBFaucetContract {
      */
     clearUserData(userAddress: string): void {
         // Clear user data from cache
-        localStorage.removeItem(this.cachePrefix + `claim_info:${userAddress}`);
+        this.removeCached(`claim_info:${userAddress}`);
 
         // Clear events service cache for this user
         this.eventsService.invalidateAnalytics();
@@ -572,13 +862,35 @@ export class TBBFaucetContract {
      */
     public refreshAnalytics(): void {
         // Clear analytics-related cache entries
-        localStorage.removeItem(this.cachePrefix + 'global_stats');
+        this.removeCached('global_stats');
         this.clearCacheByPattern('claim_info:');
 
         // Clear events service analytics cache
         this.eventsService.invalidateAnalytics();
     }
 
+    /**
+     * Call `handler` with each new faucet event matching `filter` as soon as its block lands
+     * Cached balances, stats and claim info are dropped first, so the handler can re-read them
+     * (see ContractEventsService.subscribe). Returns a function that ends the subscription.
+     */
+    subscribe(filter: EventSubscriptionFilter, handler: EventHandler): () => void {
+        return this.eventsService.subscribe(filter, event => {
+            this.removeCached('faucet_balance');
+            this.removeCached('global_stats');
+            this.clearCacheByPattern('claim_info:');
+            handler(event);
+        });
+    }
+
+    /**
+     * Call `handler` with each new block as soon as it is announced, e.g. to re-anchor a
+     * claim countdown (see ContractEventsService.subscribeBlocks)
+     */
+    subscribeBlocks(handler: BlockHandler): () => void {
+        return this.eventsService.subscribeBlocks(handler);
+    }
+
     /**
      * Get cache hit/miss statistics for performance monitoring
      */
@@ -602,28 +914,28 @@ export class TBBFaucetContract {
      * Get the full contract ID for the faucet
      */
     getFaucetContractId(): `${string}.${string}` {
-        return `${CONTRACT_ADDRESSES[this.network]}.${FAUCET_CONTRACT_NAME}`;
+        return getContractId(this.config, 'faucet');
     }
 
     /**
      * Get the full contract ID for the token
      */
     getTokenContractId(): `${string}.${string}` {
-        return `${CONTRACT_ADDRESSES[this.network]}.${TOKEN_CONTRACT_NAME}`;
+        return getContractId(this.config, 'token');
     }
 
     /**
      * Get the explorer URL for the faucet contract
      */
     getFaucetContractUrl(): string {
-        return `https://explorer.stacks.co/txid/${this.getFaucetContractId()}?chain=${this.network}`;
+        return getExplorerUrl(this.config, `txid/${this.getFaucetContractId()}`);
     }
 
     /**
      * Get the explorer URL for the token contract
      */
     getTokenContractUrl(): string {
-        return `https://explorer.stacks.co/txid/${this.getTokenContractId()}?chain=${this.network}`;
+        return getExplorerUrl(this.config, `txid/${this.getTokenContractId()}`);
     }
 
     /**
@@ -631,11 +943,7 @@ export class TBBFaucetContract {
      */
     async checkContractDeployment(contractId: string): Promise<boolean> {
         try {
-            const apiUrl = this.network === 'mainnet'
-                ? 'https://api.mainnet.hiro.so'
-                : 'https://api.testnet.hiro.so';
-
-            const response = await fetch(`${apiUrl}/extended/v1/contract/${contractId}`);
+            const response = await fetch(`${this.config.apiUrl}/extended/v1/contract/${contractId}`);
 
             // Return true if contract is found (200), false if not found (404) or other errors
             return response.status === 200;
@@ -680,9 +988,10 @@ export class TBBFaucetContract {
     }
 }
 
-// Export singleton instances for both networks
+// Export singleton instances for each preset network
 export const tbbFaucetContract = new TBBFaucetContract('mainnet');
 export const tbbFaucetContractTestnet = new TBBFaucetContract('testnet');
+export const tbbFaucetContractDevnet = new TBBFaucetContract('devnet');
 
 // Export the class for custom instances
 export default TBBFaucetContract;
\ No newline at end of file
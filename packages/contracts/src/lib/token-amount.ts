@@ -0,0 +1,282 @@
+/**
+ * Decimals-aware token amounts
+ *
+ * Contracts work in integer base units; users read and type whole tokens.
+ * TokenAmount keeps the base units as a bigint next to the token's decimals,
+ * so parsing, arithmetic and formatting never pass through floating point.
+ */
+
+/**
+ * Anything accepted where an amount is expected - numbers and bigints are base units
+ */
+export type TokenAmountInput = TokenAmount | bigint | number;
+
+export interface FormatTokenAmountOptions {
+  /** Appended after the number, e.g. `TKN` */
+  symbol?: string;
+  /** Compact notation (`1.5M`) - approximate, for display only */
+  compact?: boolean;
+  /** Fraction digits to show (defaults to the token decimals, or 1 in compact notation) */
+  maxFractionDigits?: number;
+  /** Fraction digits to always show, padding with zeros */
+  minFractionDigits?: number;
+}
+
+/**
+ * Raised for malformed amounts and for mixing amounts with different decimals
+ */
+export class TokenAmountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenAmountError';
+  }
+}
+
+export class TokenAmount {
+  /** Amount in base units (what the contract sees) */
+  readonly raw: bigint;
+  /** Number of decimals of the token (SIP-10 get-decimals) */
+  readonly decimals: number;
+
+  constructor(raw: bigint, decimals: number = 0) {
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 38) {
+      throw new TokenAmountError(`Invalid decimals: ${decimals}`);
+    }
+    this.raw = raw;
+    this.decimals = decimals;
+  }
+
+  // CONSTRUCTION
+
+  static zero(decimals: number = 0): TokenAmount {
+    return new TokenAmount(0n, decimals);
+  }
+
+  /**
+   * Build an amount from base units
+   */
+  static fromBaseUnits(value: bigint | number | string, decimals: number = 0): TokenAmount {
+    if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+      throw new TokenAmountError(`Base units must be a safe integer, got ${value}`);
+    }
+    if (typeof value === 'string' && !/^-?\d+$/.test(value.trim())) {
+      throw new TokenAmountError(`Base units must be an integer, got "${value}"`);
+    }
+    return new TokenAmount(BigInt(typeof value === 'string' ? value.trim() : value), decimals);
+  }
+
+  /**
+   * Normalize any amount input - a TokenAmount must already have the expected decimals
+   */
+  static from(value: TokenAmountInput, decimals: number = 0): TokenAmount {
+    if (value instanceof TokenAmount) {
+      if (value.decimals !== decimals) {
+        throw new TokenAmountError(`Expected an amount with ${decimals} decimals, got ${value.decimals}`);
+      }
+      return value;
+    }
+    return TokenAmount.fromBaseUnits(value, decimals);
+  }
+
+  /**
+   * Parse a human-readable amount like `1,234.5` into base units
+   * Rejects more fraction digits than the token supports instead of rounding
+   */
+  static parse(value: string, decimals: number = 0): TokenAmount {
+    const normalized = value.trim().replace(/[,_\s]/g, '');
+    const match = normalized.match(/^(-)?(\d*)(?:\.(\d*))?$/);
+
+    if (!match || (!match[2] && !match[3])) {
+      throw new TokenAmountError(`Invalid amount "${value}"`);
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    if (fraction.length > decimals) {
+      throw new TokenAmountError(
+        decimals === 0
+          ? `Amount must be a whole number, got "${value}"`
+          : `Amount has more than ${decimals} decimal places: "${value}"`
+      );
+    }
+
+    const raw = BigInt((whole || '0') + fraction.padEnd(decimals, '0'));
+    return new TokenAmount(sign ? -raw : raw, decimals);
+  }
+
+  /**
+   * Like parse, but returns null instead of throwing
+   */
+  static tryParse(value: string, decimals: number = 0): TokenAmount | null {
+    try {
+      return TokenAmount.parse(value, decimals);
+    } catch {
+      return null;
+    }
+  }
+
+  static sum(amounts: TokenAmount[], decimals: number = 0): TokenAmount {
+    return amounts.reduce((total, amount) => total.add(amount), TokenAmount.zero(decimals));
+  }
+
+  static min(first: TokenAmount, ...rest: TokenAmount[]): TokenAmount {
+    return rest.reduce((min, amount) => (amount.lt(min) ? amount : min), first);
+  }
+
+  static max(first: TokenAmount, ...rest: TokenAmount[]): TokenAmount {
+    return rest.reduce((max, amount) => (amount.gt(max) ? amount : max), first);
+  }
+
+  // ARITHMETIC
+
+  private rawOf(other: TokenAmountInput): bigint {
+    return TokenAmount.from(other, this.decimals).raw;
+  }
+
+  add(other: TokenAmountInput): TokenAmount {
+    return new TokenAmount(this.raw + this.rawOf(other), this.decimals);
+  }
+
+  sub(other: TokenAmountInput): TokenAmount {
+    return new TokenAmount(this.raw - this.rawOf(other), this.decimals);
+  }
+
+  /**
+   * Multiply by an integer factor
+   */
+  mul(factor: bigint | number): TokenAmount {
+    return new TokenAmount(this.raw * TokenAmount.toInteger(factor), this.decimals);
+  }
+
+  /**
+   * Divide by an integer divisor, truncating towards zero like Clarity's `/`
+   */
+  div(divisor: bigint | number): TokenAmount {
+    const value = TokenAmount.toInteger(divisor);
+    if (value === 0n) {
+      throw new TokenAmountError('Division by zero');
+    }
+    return new TokenAmount(this.raw / value, this.decimals);
+  }
+
+  /**
+   * Ratio of this amount to another, as a float (for percentages and charts)
+   */
+  ratio(other: TokenAmountInput): number {
+    const denominator = this.rawOf(other);
+    return denominator === 0n ? 0 : Number(this.raw) / Number(denominator);
+  }
+
+  private static toInteger(value: bigint | number): bigint {
+    if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+      throw new TokenAmountError(`Expected an integer, got ${value}`);
+    }
+    return BigInt(value);
+  }
+
+  // COMPARISON
+
+  compare(other: TokenAmountInput): -1 | 0 | 1 {
+    const otherRaw = this.rawOf(other);
+    return this.raw < otherRaw ? -1 : this.raw > otherRaw ? 1 : 0;
+  }
+
+  eq(other: TokenAmountInput): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lt(other: TokenAmountInput): boolean {
+    return this.compare(other) < 0;
+  }
+
+  lte(other: TokenAmountInput): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  gt(other: TokenAmountInput): boolean {
+    return this.compare(other) > 0;
+  }
+
+  gte(other: TokenAmountInput): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  isZero(): boolean {
+    return this.raw === 0n;
+  }
+
+  isPositive(): boolean {
+    return this.raw > 0n;
+  }
+
+  isNegative(): boolean {
+    return this.raw < 0n;
+  }
+
+  // CONVERSION
+
+  /**
+   * Amount in base units (for Clarity arguments and post-conditions)
+   */
+  toBaseUnits(): bigint {
+    return this.raw;
+  }
+
+  /**
+   * Amount in whole tokens as a float - loses precision for large amounts
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /**
+   * Exact amount in whole tokens, e.g. `1234.5` (no grouping, no trailing zeros)
+   */
+  toString(): string {
+    const [whole, fraction] = this.splitDigits();
+    const trimmed = fraction.replace(/0+$/, '');
+    return `${this.isNegative() ? '-' : ''}${whole}${trimmed ? `.${trimmed}` : ''}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * Format for display, e.g. `1,234.5 TKN`
+   * Extra fraction digits are truncated, never rounded up
+   */
+  format(options: FormatTokenAmountOptions = {}): string {
+    const { symbol, compact = false, minFractionDigits = 0 } = options;
+    const maxFractionDigits = Math.max(options.maxFractionDigits ?? (compact ? 1 : this.decimals), minFractionDigits);
+
+    let text: string;
+    if (compact) {
+      text = new Intl.NumberFormat('en-US', {
+        notation: 'compact',
+        minimumFractionDigits: minFractionDigits,
+        maximumFractionDigits: maxFractionDigits,
+      }).format(this.toNumber());
+    } else {
+      const [whole, fraction] = this.splitDigits();
+      const shown = fraction.slice(0, maxFractionDigits).padEnd(minFractionDigits, '0');
+      const trimmed = shown.length > minFractionDigits
+        ? shown.slice(0, minFractionDigits) + shown.slice(minFractionDigits).replace(/0+$/, '')
+        : shown;
+      const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+      text = `${this.isNegative() ? '-' : ''}${grouped}${trimmed ? `.${trimmed}` : ''}`;
+    }
+
+    return symbol ? `${text} ${symbol}` : text;
+  }
+
+  /**
+   * Whole and fraction digits of the absolute amount
+   */
+  private splitDigits(): [string, string] {
+    const digits = (this.isNegative() ? -this.raw : this.raw).toString().padStart(this.decimals + 1, '0');
+    const split = digits.length - this.decimals;
+    return [digits.slice(0, split), digits.slice(split)];
+  }
+}
+
+export default TokenAmount;
@@ -0,0 +1,326 @@
+/**
+ * SIP-16 token metadata resolution
+ *
+ * A token's `get-token-uri` can point at a data URI, an https URL, or
+ * content on IPFS / Arweave. Each scheme is handled by a pluggable fetcher so
+ * apps can choose their gateways and tests can serve documents locally.
+ * Resolved documents are validated against SIP-16 and cached.
+ */
+
+import { getCacheEntry, setCacheEntry, removeCacheEntriesByPrefix } from './serializers';
+import { CacheStore, resolveCacheStore } from './cache-store';
+import type { TokenMetadata } from './sip10-token';
+
+export type MetadataScheme = 'https' | 'ipfs' | 'ar';
+
+export interface MetadataValidationResult {
+  isValid: boolean;
+  errors: string[];
+  /** Copy of the document without the fields that failed validation (undefined if it has no name) */
+  metadata?: TokenMetadata;
+}
+
+/**
+ * Loads metadata documents for one URI scheme
+ */
+export interface MetadataFetcher {
+  /** URL a browser can load for a URI of this scheme (used for images) */
+  resolveUrl(uri: string): string;
+  /** Fetch and parse the JSON document at the URI */
+  fetchJson(uri: string): Promise<unknown>;
+}
+
+export interface TokenMetadataResolverOptions {
+  /** Fetchers by scheme - missing schemes use the defaults below */
+  fetchers?: Partial<Record<MetadataScheme, MetadataFetcher>>;
+  /** Storage for resolved documents (defaults to localStorage in browsers, memory elsewhere) */
+  cacheStore?: CacheStore;
+  /** How long resolved documents are cached, in milliseconds */
+  ttl?: number;
+  /** Reject documents with any schema error instead of dropping the invalid fields */
+  strict?: boolean;
+}
+
+export interface ResolveMetadataOptions {
+  /** Locale to merge in when the document lists it under `localization.locales` */
+  locale?: string;
+}
+
+export const DEFAULT_IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+export const DEFAULT_ARWEAVE_GATEWAY = 'https://arweave.net/';
+
+/**
+ * Fetches https (and plain http) URLs directly
+ */
+export class HttpMetadataFetcher implements MetadataFetcher {
+  resolveUrl(uri: string): string {
+    return uri;
+  }
+
+  async fetchJson(uri: string): Promise<unknown> {
+    const response = await fetch(this.resolveUrl(uri));
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
+
+/**
+ * Fetches `ipfs://` or `ar://` content through an HTTP gateway
+ */
+export class GatewayMetadataFetcher extends HttpMetadataFetcher {
+  private readonly scheme: string;
+  private readonly gateway: string;
+
+  constructor(scheme: 'ipfs' | 'ar', gateway: string) {
+    super();
+    this.scheme = scheme;
+    this.gateway = gateway.endsWith('/') ? gateway : `${gateway}/`;
+  }
+
+  resolveUrl(uri: string): string {
+    const prefix = `${this.scheme}://`;
+    if (!uri.startsWith(prefix)) return uri;
+
+    // Older tokens use the redundant ipfs://ipfs/<cid> form
+    const path = uri.slice(prefix.length).replace(/^ipfs\//, '');
+    return this.gateway + path;
+  }
+}
+
+/**
+ * Metadata documents keyed by token URI, used as-is without gateway rewriting,
+ * so tokens whose metadata isn't pinned yet (or tests) resolve offline
+ */
+export class StaticMetadataFetcher implements MetadataFetcher {
+  private readonly documents = new Map<string, unknown>();
+  /** URIs requested so far, in order */
+  readonly requests: string[] = [];
+
+  constructor(documents: Record<string, unknown> = {}) {
+    Object.entries(documents).forEach(([uri, document]) => this.documents.set(uri, document));
+  }
+
+  setDocument(uri: string, document: unknown): void {
+    this.documents.set(uri, document);
+  }
+
+  resolveUrl(uri: string): string {
+    return uri;
+  }
+
+  async fetchJson(uri: string): Promise<unknown> {
+    this.requests.push(uri);
+    if (!this.documents.has(uri)) {
+      throw new Error(`No metadata document for ${uri}`);
+    }
+    return this.documents.get(uri);
+  }
+}
+
+/**
+ * Scheme of a metadata URI, or null for data URIs and unsupported schemes
+ */
+export function getMetadataScheme(uri: string): MetadataScheme | null {
+  if (/^https?:\/\//i.test(uri)) return 'https';
+  if (uri.startsWith('ipfs://')) return 'ipfs';
+  if (uri.startsWith('ar://')) return 'ar';
+  return null;
+}
+
+/**
+ * Decode a JSON data URI (`data:application/json;base64,...` or URL-encoded)
+ */
+export function decodeJsonDataUri(uri: string): unknown {
+  const match = uri.match(/^data:([^,]*),(.*)$/s);
+  if (!match) {
+    throw new Error('Malformed data URI');
+  }
+
+  const [, mediaType, data] = match;
+  const json = mediaType.endsWith(';base64') ? decodeBase64Utf8(data) : decodeURIComponent(data);
+  return JSON.parse(json);
+}
+
+function decodeBase64Utf8(data: string): string {
+  const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate a document against the SIP-16 metadata schema
+ * Unknown fields are allowed; known fields with the wrong shape are reported
+ */
+export function validateSip16Metadata(document: unknown): MetadataValidationResult {
+  if (!isPlainObject(document)) {
+    return { isValid: false, errors: ['Metadata must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const metadata: Record<string, any> = { ...document };
+
+  const dropField = (field: string, error: string) => {
+    errors.push(error);
+    delete metadata[field];
+  };
+
+  if (typeof document.sip !== 'number') {
+    errors.push('`sip` must be a number');
+    metadata.sip = 16;
+  }
+
+  for (const field of ['description', 'image', 'image_data']) {
+    if (document[field] !== undefined && typeof document[field] !== 'string') {
+      dropField(field, `\`${field}\` must be a string`);
+    }
+  }
+
+  if (document.properties !== undefined && !isPlainObject(document.properties)) {
+    dropField('properties', '`properties` must be an object');
+  }
+
+  if (document.attributes !== undefined && !Array.isArray(document.attributes)) {
+    dropField('attributes', '`attributes` must be an array');
+  }
+
+  if (document.localization !== undefined) {
+    const { localization } = document;
+    const isValidLocalization = isPlainObject(localization)
+      && typeof localization.uri === 'string'
+      && localization.uri.includes('{locale}')
+      && typeof localization.default === 'string'
+      && Array.isArray(localization.locales)
+      && localization.locales.every((locale: unknown) => typeof locale === 'string');
+
+    if (!isValidLocalization) {
+      dropField('localization', '`localization` must have a `uri` containing {locale}, a `default` locale and a `locales` list');
+    }
+  }
+
+  if (typeof document.name !== 'string' || !document.name) {
+    errors.push('`name` is required');
+    return { isValid: false, errors };
+  }
+
+  return { isValid: errors.length === 0, errors, metadata: metadata as TokenMetadata };
+}
+
+/**
+ * Token Metadata Resolver
+ * Resolves a token URI into validated SIP-16 metadata with browser-loadable image URLs
+ */
+export class TokenMetadataResolver {
+  private readonly fetchers: Record<MetadataScheme, MetadataFetcher>;
+  private readonly cacheStore: CacheStore;
+  private readonly ttl: number;
+  private readonly strict: boolean;
+  private readonly cachePrefix = 'token-metadata-cache:';
+
+  constructor(options: TokenMetadataResolverOptions = {}) {
+    this.fetchers = {
+      https: new HttpMetadataFetcher(),
+      ipfs: new GatewayMetadataFetcher('ipfs', DEFAULT_IPFS_GATEWAY),
+      ar: new GatewayMetadataFetcher('ar', DEFAULT_ARWEAVE_GATEWAY),
+      ...options.fetchers,
+    };
+    this.cacheStore = resolveCacheStore(options.cacheStore);
+    this.ttl = options.ttl ?? 60 * 60 * 1000; // 1 hour
+    this.strict = options.strict ?? false;
+  }
+
+  /**
+   * Clear all cached documents
+   */
+  public clearCache(): void {
+    removeCacheEntriesByPrefix(this.cachePrefix, this.cacheStore);
+  }
+
+  /**
+   * Resolve a token URI into metadata
+   * `image` is rewritten to a URL a browser can load (gateway URL, or an SVG data URI built from `image_data`)
+   */
+  async resolve(uri: string, options: ResolveMetadataOptions = {}): Promise<TokenMetadata> {
+    const { locale } = options;
+    const cacheKey = `${this.cachePrefix}${uri}${locale ? `:${locale}` : ''}`;
+    const cached = getCacheEntry<TokenMetadata>(cacheKey, this.cacheStore);
+    if (cached !== null) return cached;
+
+    let metadata = this.validate(uri, await this.fetchDocument(uri));
+
+    if (locale && metadata.localization && locale !== metadata.localization.default
+      && metadata.localization.locales.includes(locale)) {
+      const localizedUri = metadata.localization.uri.replace('{locale}', locale);
+      try {
+        // Localized files only need to contain the fields that differ
+        const localized = await this.fetchDocument(localizedUri);
+        if (isPlainObject(localized)) {
+          metadata = { ...metadata, ...localized };
+        }
+      } catch (error) {
+        console.warn(`Failed to load ${locale} metadata from ${localizedUri}:`, error);
+      }
+    }
+
+    const resolved = this.resolveImage(metadata);
+    setCacheEntry(cacheKey, resolved, this.ttl, this.cacheStore);
+    return resolved;
+  }
+
+  /**
+   * URL a browser can load for any supported URI (passes data URIs through)
+   */
+  resolveUrl(uri: string): string {
+    const scheme = getMetadataScheme(uri);
+    return scheme ? this.fetchers[scheme].resolveUrl(uri) : uri;
+  }
+
+  private async fetchDocument(uri: string): Promise<unknown> {
+    if (uri.startsWith('data:')) {
+      return decodeJsonDataUri(uri);
+    }
+
+    const scheme = getMetadataScheme(uri);
+    if (scheme) {
+      return this.fetchers[scheme].fetchJson(uri);
+    }
+
+    // Some tokens return bare base64 JSON without the data URI prefix
+    try {
+      return JSON.parse(decodeBase64Utf8(uri));
+    } catch {
+      throw new Error(`Unsupported token URI: ${uri}`);
+    }
+  }
+
+  private validate(uri: string, document: unknown): TokenMetadata {
+    const { isValid, errors, metadata } = validateSip16Metadata(document);
+
+    if (!metadata || (this.strict && !isValid)) {
+      throw new Error(`Invalid SIP-16 metadata at ${uri}: ${errors.join('; ')}`);
+    }
+    if (!isValid) {
+      console.warn(`SIP-16 metadata at ${uri} has schema errors:`, errors);
+    }
+    return metadata;
+  }
+
+  private resolveImage(metadata: TokenMetadata): TokenMetadata {
+    if (metadata.image) {
+      return { ...metadata, image: this.resolveUrl(metadata.image) };
+    }
+    if (metadata.image_data) {
+      return { ...metadata, image: `data:image/svg+xml;utf8,${encodeURIComponent(metadata.image_data)}` };
+    }
+    return metadata;
+  }
+}
+
+// Shared resolver using the default gateways
+export const tokenMetadataResolver = new TokenMetadataResolver();
+
+// Export the class for custom instances
+export default TokenMetadataResolver;
@@ -0,0 +1,261 @@
+/**
+ * Transaction Tracker
+ * Resolves broadcast txIds into confirmed on-chain outcomes
+ *
+ * Wallet broadcasts only tell us a transaction was accepted into the mempool.
+ * The tracker polls the Stacks API until the transaction is anchored (or
+ * dropped) and decodes Clarity `(err uN)` results into typed errors.
+ */
+
+import { NetworkConfig, NetworkOption, resolveNetwork } from './network';
+import { ContractCallError, decodeContractError, getContractKey, parseClarityErrorCode } from './errors';
+
+export type TransactionStatus =
+  | 'pending'
+  | 'success'
+  | 'abort_by_response'
+  | 'abort_by_post_condition'
+  | 'dropped';
+
+export interface TransactionUpdate {
+  txId: string;
+  status: TransactionStatus;
+  /** Whether the status is terminal (no further updates will follow) */
+  isFinal: boolean;
+  blockHeight?: number;
+  /** Clarity representation of the result, e.g. `(ok u50000000)` or `(err u101)` */
+  result?: string;
+  error?: TransactionError;
+  /** Raw status string reported by the API (keeps the specific drop reason) */
+  apiStatus?: string;
+}
+
+export interface TrackOptions {
+  onUpdate?: (update: TransactionUpdate) => void;
+  signal?: AbortSignal;
+}
+
+export interface TransactionTrackerOptions {
+  /** Delay between polls in milliseconds */
+  pollInterval?: number;
+  /** Give up after this many milliseconds */
+  timeout?: number;
+}
+
+/**
+ * Raised when a transaction does not confirm successfully
+ */
+export class TransactionError extends Error {
+  readonly txId: string;
+  readonly status: TransactionStatus;
+  /** Clarity error code for `abort_by_response` results (e.g. 101) */
+  readonly errorCode?: number;
+  /** Decoded contract error when the call targeted a known contract */
+  readonly contractError?: ContractCallError;
+
+  constructor(
+    txId: string,
+    status: TransactionStatus,
+    message: string,
+    errorCode?: number,
+    contractError?: ContractCallError
+  ) {
+    super(message);
+    this.name = 'TransactionError';
+    this.txId = txId;
+    this.status = status;
+    this.errorCode = errorCode;
+    this.contractError = contractError;
+  }
+}
+
+/**
+ * Raised when a transaction is still pending after the tracker timeout
+ */
+export class TransactionTimeoutError extends Error {
+  readonly txId: string;
+
+  constructor(txId: string, timeout: number) {
+    super(`Transaction ${txId} did not confirm within ${Math.round(timeout / 1000)}s`);
+    this.name = 'TransactionTimeoutError';
+    this.txId = txId;
+  }
+}
+
+/**
+ * Transaction Tracker
+ * Polls the Stacks API for the status of broadcast transactions
+ */
+export class TransactionTracker {
+  private readonly config: NetworkConfig;
+  private readonly pollInterval: number;
+  private readonly timeout: number;
+
+  constructor(network: NetworkOption = 'testnet', options: TransactionTrackerOptions = {}) {
+    this.config = resolveNetwork(network);
+    this.pollInterval = options.pollInterval ?? 5_000;
+    this.timeout = options.timeout ?? 30 * 60 * 1000; // 30 minutes
+  }
+
+  /**
+   * Normalize a txId to the 0x-prefixed form used by the API
+   */
+  private normalizeTxId(txId: string): string {
+    return txId.startsWith('0x') ? txId : `0x${txId}`;
+  }
+
+  /**
+   * Fetch the current status of a transaction
+   */
+  async getStatus(txId: string): Promise<TransactionUpdate> {
+    const normalizedTxId = this.normalizeTxId(txId);
+    const response = await fetch(`${this.config.apiUrl}/extended/v1/tx/${normalizedTxId}`);
+
+    // Freshly broadcast transactions can take a moment to be indexed
+    if (response.status === 404) {
+      return { txId: normalizedTxId, status: 'pending', isFinal: false };
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return this.parseTransaction(normalizedTxId, data);
+  }
+
+  /**
+   * Convert an API transaction into a TransactionUpdate
+   */
+  parseTransaction(txId: string, data: any): TransactionUpdate {
+    const apiStatus: string = data.tx_status || 'pending';
+    const result: string | undefined = data.tx_result?.repr;
+    const blockHeight: number | undefined = data.block_height || undefined;
+
+    if (apiStatus === 'success') {
+      return { txId, status: 'success', isFinal: true, blockHeight, result, apiStatus };
+    }
+
+    if (apiStatus === 'abort_by_response') {
+      const errorCode = parseClarityErrorCode(result);
+      const contractKey = getContractKey(this.config, data.contract_call?.contract_id);
+      const contractError = contractKey && result ? decodeContractError(contractKey, result) ?? undefined : undefined;
+      const message = contractError
+        ? contractError.userMessage
+        : errorCode !== undefined
+          ? `Contract call failed with error code u${errorCode}`
+          : `Contract call failed: ${result || 'unknown error'}`;
+      return {
+        txId,
+        status: 'abort_by_response',
+        isFinal: true,
+        blockHeight,
+        result,
+        apiStatus,
+        error: new TransactionError(txId, 'abort_by_response', message, errorCode, contractError),
+      };
+    }
+
+    if (apiStatus === 'abort_by_post_condition') {
+      return {
+        txId,
+        status: 'abort_by_post_condition',
+        isFinal: true,
+        blockHeight,
+        result,
+        apiStatus,
+        error: new TransactionError(txId, 'abort_by_post_condition', 'Transaction aborted by post-condition - token amounts did not match'),
+      };
+    }
+
+    if (apiStatus.startsWith('dropped')) {
+      return {
+        txId,
+        status: 'dropped',
+        isFinal: true,
+        apiStatus,
+        error: new TransactionError(txId, 'dropped', `Transaction dropped from mempool (${apiStatus})`),
+      };
+    }
+
+    return { txId, status: 'pending', isFinal: false, apiStatus };
+  }
+
+  /**
+   * Poll a transaction until it reaches a final state
+   * Emits an update whenever the status changes and resolves with the final update
+   */
+  async track(txId: string, options: TrackOptions = {}): Promise<TransactionUpdate> {
+    const { onUpdate, signal } = options;
+    const startedAt = Date.now();
+    let lastStatus: TransactionStatus | null = null;
+
+    while (true) {
+      if (signal?.aborted) {
+        throw new Error('Transaction tracking aborted');
+      }
+
+      let update: TransactionUpdate | null = null;
+      try {
+        update = await this.getStatus(txId);
+      } catch (error) {
+        // Transient API failures shouldn't end tracking
+        console.warn(`Failed to fetch status for ${txId}:`, error);
+      }
+
+      if (update) {
+        if (update.status !== lastStatus) {
+          lastStatus = update.status;
+          onUpdate?.(update);
+        }
+        if (update.isFinal) {
+          return update;
+        }
+      }
+
+      if (Date.now() - startedAt >= this.timeout) {
+        throw new TransactionTimeoutError(this.normalizeTxId(txId), this.timeout);
+      }
+
+      await this.wait(signal);
+    }
+  }
+
+  /**
+   * Track a transaction and reject with its TransactionError unless it succeeds
+   */
+  async waitForSuccess(txId: string, options: TrackOptions = {}): Promise<TransactionUpdate> {
+    const update = await this.track(txId, options);
+    if (update.error) {
+      throw update.error;
+    }
+    return update;
+  }
+
+  /**
+   * Sleep for one poll interval, waking early if the signal aborts
+   * The abort listener is removed when the timer fires, so a long-lived signal
+   * shared across many tracked transactions doesn't collect listeners
+   */
+  private wait(signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, this.pollInterval);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+// Export singleton instances for each preset network
+export const transactionTracker = new TransactionTracker('mainnet');
+export const transactionTrackerTestnet = new TransactionTracker('testnet');
+export const transactionTrackerDevnet = new TransactionTracker('devnet');
+
+// Export the class for custom instances
+export default TransactionTracker;
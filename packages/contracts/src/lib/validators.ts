@@ -2,34 +2,145 @@
  * Validation utilities for addresses and other inputs
  */
 
-export const isValidStacksAddress = (address: string): boolean => {
-  // Stacks address validation - supports both mainnet (SP) and testnet (ST) and multisig (SM)
-  // Addresses are typically 40-41 characters long and use base58check encoding
-  if (!address || typeof address !== 'string') {
-    console.log('Address is not a string', address);
-    return false;
+import { createAddress } from '@stacks/transactions';
+import { NetworkOption, NetworkType, resolveNetwork } from './network';
+
+/** Chain an address was encoded for (devnet uses testnet addresses) */
+export type AddressNetwork = 'mainnet' | 'testnet';
+
+export type AddressValidationReason =
+  | 'empty'
+  | 'invalid-prefix'
+  | 'invalid-characters'
+  | 'invalid-length'
+  | 'invalid-checksum'
+  | 'invalid-version'
+  | 'invalid-contract-name'
+  | 'contract-not-allowed'
+  | 'wrong-network';
+
+export interface AddressValidationResult {
+  isValid: boolean;
+  /** Why the address was rejected */
+  reason?: AddressValidationReason;
+  /** Message for the reason, suitable for forms */
+  error?: string;
+  /** Network the address belongs to - known whenever the checksum is valid */
+  network?: AddressNetwork;
+  /** True for contract principals (`ST....contract-name`) */
+  isContract: boolean;
+  /** Contract name of a contract principal */
+  contractName?: string;
+}
+
+export interface AddressValidationOptions {
+  /** Reject addresses that belong to another network */
+  network?: NetworkOption;
+  /** Accept contract principals (default true) */
+  allowContracts?: boolean;
+}
+
+// c32 alphabet - Crockford base32 without I, L, O and U
+const C32_ADDRESS_REGEX = /^S[0-9A-HJKMNP-TV-Z]+$/;
+
+// Clarity contract names: a letter, then letters, digits, - and _ (at most 40 characters)
+const CONTRACT_NAME_REGEX = /^[a-zA-Z][a-zA-Z0-9_-]{0,39}$/;
+
+// Address version bytes (the character after the S)
+const ADDRESS_VERSIONS: Record<number, AddressNetwork> = {
+  22: 'mainnet', // SP - single-sig
+  20: 'mainnet', // SM - multi-sig
+  26: 'testnet', // ST - single-sig
+  21: 'testnet', // SN - multi-sig
+};
+
+const ADDRESS_ERRORS: Record<AddressValidationReason, string> = {
+  'empty': 'Address is required',
+  'invalid-prefix': 'Stacks addresses start with SP or SM (mainnet), or ST or SN (testnet)',
+  'invalid-characters': 'Address contains characters that are not used in Stacks addresses',
+  'invalid-length': 'Address is too short or too long',
+  'invalid-checksum': 'Address checksum does not match - check for typos',
+  'invalid-version': 'Address version is not a Stacks account version',
+  'invalid-contract-name': 'Contract name must start with a letter and contain only letters, digits, - and _ (max 40)',
+  'contract-not-allowed': 'Contract addresses are not accepted here',
+  'wrong-network': 'Address belongs to another network',
+};
+
+const invalid = (
+  reason: AddressValidationReason,
+  details: Partial<AddressValidationResult> = {},
+  error: string = ADDRESS_ERRORS[reason]
+): AddressValidationResult => ({ isValid: false, reason, error, isContract: false, ...details });
+
+const toAddressNetwork = (network: NetworkType): AddressNetwork => network === 'mainnet' ? 'mainnet' : 'testnet';
+
+/**
+ * Validate a Stacks address or contract principal
+ * Decodes the c32check encoding, so typos fail the checksum instead of slipping through
+ */
+export function validateStacksAddress(input: string, options: AddressValidationOptions = {}): AddressValidationResult {
+  const { allowContracts = true } = options;
+  const value = typeof input === 'string' ? input.trim() : '';
+  if (!value) {
+    return invalid('empty');
   }
 
-  // Check length (typically 40-41 characters, but allow some flexibility)
-  if (address.length < 38 || address.length > 42) {
-    return false;
+  const [address, contractName, ...rest] = value.split('.');
+  const isContract = contractName !== undefined;
+
+  if (isContract && !allowContracts) {
+    return invalid('contract-not-allowed', { isContract });
+  }
+  if (isContract && (rest.length > 0 || !CONTRACT_NAME_REGEX.test(contractName))) {
+    return invalid('invalid-contract-name', { isContract });
+  }
+  if (!address.startsWith('S') || !'PMTN'.includes(address[1] ?? '')) {
+    return invalid('invalid-prefix', { isContract });
+  }
+  if (!C32_ADDRESS_REGEX.test(address)) {
+    return invalid('invalid-characters', { isContract });
+  }
+  // S + version + 32 characters of hash160 and checksum (fewer when the hash has leading zeros)
+  if (address.length < 28 || address.length > 41) {
+    return invalid('invalid-length', { isContract });
   }
 
-  // Check prefix
-  if (!address.startsWith('SP') && !address.startsWith('ST') && !address.startsWith('SM')) {
-    return false;
+  let version: number;
+  try {
+    const decoded = createAddress(address);
+    if (decoded.hash160.length !== 40) {
+      return invalid('invalid-length', { isContract });
+    }
+    version = decoded.version;
+  } catch {
+    return invalid('invalid-checksum', { isContract });
   }
 
-  // Stacks addresses actually use a modified base58 that includes 0-9, A-Z, a-z
-  // but excludes O, I, l to avoid confusion (but includes 0)
-  const stacksAddressRegex = /^[0-9A-HJ-NP-Za-kmp-z]+$/;
-  const addressWithoutPrefix = address.slice(2);
+  const network = ADDRESS_VERSIONS[version];
+  if (!network) {
+    return invalid('invalid-version', { isContract });
+  }
 
-  // Additional check: ensure the address is not too short after prefix removal
-  if (addressWithoutPrefix.length < 36) {
-    console.log('Address is too short after prefix removal', addressWithoutPrefix);
-    return false;
+  const details = { network, isContract, contractName };
+  if (options.network) {
+    const expected = toAddressNetwork(resolveNetwork(options.network).network);
+    if (network !== expected) {
+      return invalid('wrong-network', details, `This is a ${network} address - expected a ${expected} address`);
+    }
   }
 
-  return stacksAddressRegex.test(addressWithoutPrefix);
-};
\ No newline at end of file
+  return { isValid: true, ...details };
+}
+
+/**
+ * Check a Stacks address or contract principal (see validateStacksAddress)
+ */
+export const isValidStacksAddress = (address: string, options: AddressValidationOptions = {}): boolean =>
+  validateStacksAddress(address, options).isValid;
+
+/**
+ * Network an address belongs to, or null if it isn't a valid address
+ */
+export function getAddressNetwork(address: string): AddressNetwork | null {
+  return validateStacksAddress(address).network ?? null;
+}
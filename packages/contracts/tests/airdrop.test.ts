@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { privateKeyToAddress } from '@stacks/transactions';
+import { AirdropError, AirdropPlanner } from '../src/lib/airdrop';
+import { TBBBatchTransferContract, BatchTransferRecipient } from '../src/lib/available-purple-squid';
+import { TransactionTimeoutError, TransactionTracker, TransactionUpdate } from '../src/lib/transactions';
+import { MemoryCacheStore } from '../src/lib/cache-store';
+import { TokenAmount } from '../src/lib/token-amount';
+import { TOKEN_DECIMALS } from '../src/lib/tropical-blue-bonobo';
+import { DEVNET_ACCOUNTS } from '../src/lib/network';
+
+const SENDER = DEVNET_ACCOUNTS.deployer;
+
+// Distinct devnet addresses from throwaway keys
+const recipients = (count: number): BatchTransferRecipient[] =>
+  Array.from({ length: count }, (_, index) => ({
+    address: privateKeyToAddress(`${(index + 1).toString(16).padStart(64, '0')}01`, 'testnet'),
+    amount: TokenAmount.from(index + 1, TOKEN_DECIMALS),
+  }));
+
+describe('Airdrop Planner Tests', () => {
+  let batchTransfer: TBBBatchTransferContract;
+  let tracker: TransactionTracker;
+  let planner: AirdropPlanner;
+  let sent: number;
+
+  const confirmed = (txId: string): TransactionUpdate => ({ txId, status: 'success', isFinal: true, blockHeight: 120 });
+  // send-many rolled back on-chain, e.g. a recipient the contract rejected
+  const failed = (txId: string) => tracker.parseTransaction(txId, { tx_status: 'abort_by_response', tx_result: { repr: '(err u1)' } });
+
+  beforeEach(() => {
+    batchTransfer = new TBBBatchTransferContract('devnet');
+    tracker = new TransactionTracker('devnet');
+    planner = new AirdropPlanner('devnet', { batchTransferContract: batchTransfer, tracker, cacheStore: new MemoryCacheStore() });
+
+    sent = 0;
+    vi.spyOn(batchTransfer, 'executeBatchTransfer').mockImplementation(async () => ({ txId: `0xtx${++sent}`, success: true }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should split recipients into send-many chunks of 200 with their own totals', () => {
+    const list = recipients(450);
+    const plan = planner.createPlan(list, { sender: SENDER, id: 'chunking' });
+
+    expect(plan.chunks.map(chunk => chunk.recipients.length)).toEqual([200, 200, 50]);
+    expect(plan.chunks.map(chunk => chunk.status)).toEqual(['pending', 'pending', 'pending']);
+    expect(plan.chunks[2].recipients[0]).toBe(list[400]);
+    // Amounts are 1..450 tokens
+    expect(plan.chunks[0].totalAmount.toString()).toBe(String((200 * 201) / 2));
+    expect(plan.totalAmount.toString()).toBe(String((450 * 451) / 2));
+    expect(planner.getChunkPostConditions(plan, plan.chunks[2])).toEqual([
+      expect.objectContaining({ address: SENDER, condition: 'eq', amount: plan.chunks[2].totalAmount.toBaseUnits().toString() })
+    ]);
+    expect(planner.loadPlan('chunking')?.chunks).toHaveLength(3);
+  });
+
+  it('should reject recipients repeated in different chunks', () => {
+    const list = recipients(300);
+    list.push({ ...list[0], amount: TokenAmount.from(5, TOKEN_DECIMALS) });
+
+    expect(() => planner.createPlan(list, { sender: SENDER })).toThrow(AirdropError);
+    expect(() => planner.createPlan(list, { sender: SENDER })).toThrow(`Recipient 301 duplicates recipient 1 (${list[0].address})`);
+  });
+
+  it('should track a submitted chunk to its outcome instead of sending it again', async () => {
+    const plan = planner.createPlan(recipients(250), { sender: SENDER });
+    Object.assign(plan.chunks[0], { status: 'submitted', txId: '0xearlier' });
+    const track = vi.spyOn(tracker, 'track').mockImplementation(async txId => confirmed(txId));
+
+    await planner.execute(plan);
+
+    expect(track.mock.calls.map(([txId]) => txId)).toEqual(['0xearlier', '0xtx1']);
+    expect(batchTransfer.executeBatchTransfer).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(batchTransfer.executeBatchTransfer).mock.calls[0][0].recipients).toBe(plan.chunks[1].recipients);
+    expect(planner.getProgress(plan)).toMatchObject({ confirmedChunks: 2, paidRecipients: 250, isComplete: true });
+  });
+
+  it('should resend a chunk that failed on-chain exactly once', async () => {
+    const plan = planner.createPlan(recipients(10), { sender: SENDER });
+    vi.spyOn(tracker, 'track').mockImplementation(async txId => (txId === '0xtx1' ? failed(txId) : confirmed(txId)));
+
+    await planner.execute(plan);
+    expect(plan.chunks[0]).toMatchObject({ status: 'failed', txId: '0xtx1' });
+
+    // Resuming confirms the failure, then resends
+    await planner.execute(plan);
+    expect(plan.chunks[0]).toMatchObject({ status: 'confirmed', txId: '0xtx2', failedTxIds: ['0xtx1'] });
+
+    await planner.execute(plan);
+    expect(batchTransfer.executeBatchTransfer).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave a chunk submitted when tracking times out or is aborted', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const plan = planner.createPlan(recipients(10), { sender: SENDER });
+    const track = vi.spyOn(tracker, 'track').mockRejectedValue(new TransactionTimeoutError('0xtx1', 1000));
+
+    await planner.execute(plan);
+    expect(plan.chunks[0]).toMatchObject({ status: 'submitted', txId: '0xtx1' });
+
+    track.mockRejectedValue(new Error('Transaction tracking aborted'));
+    await planner.execute(plan);
+    expect(plan.chunks[0]).toMatchObject({ status: 'submitted', txId: '0xtx1' });
+
+    expect(batchTransfer.executeBatchTransfer).toHaveBeenCalledTimes(1);
+    expect(planner.loadPlan(plan.id)?.chunks[0]).toMatchObject({ status: 'submitted', txId: '0xtx1' });
+  });
+});
@@ -1,11 +1,12 @@
 import { describe, it, expect } from 'vitest';
 import { Cl } from '@stacks/transactions';
+import { BATCH_TRANSFER_ERRORS } from '../src/lib/errors';
 
 const tokenErrors = {
-  notEnoughBalance: Cl.uint(1),
-  senderRecipient: Cl.uint(2),
-  invalidAmount: Cl.uint(3),
-  notTokenOwner: Cl.uint(4),
+  notEnoughBalance: Cl.uint(BATCH_TRANSFER_ERRORS.NOT_ENOUGH_BALANCE.code),
+  senderRecipient: Cl.uint(BATCH_TRANSFER_ERRORS.SENDER_RECIPIENT.code),
+  invalidAmount: Cl.uint(BATCH_TRANSFER_ERRORS.INVALID_AMOUNT.code),
+  notTokenOwner: Cl.uint(BATCH_TRANSFER_ERRORS.NOT_TOKEN_OWNER.code),
 };
 
 describe('Batch Transfer Contract Tests', () => {
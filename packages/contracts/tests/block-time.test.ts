@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BlockTimeEstimator,
+  BlockTimeSample,
+  BlockTimeSource,
+  DEFAULT_SECONDS_PER_BLOCK,
+  StaticBlockTimeSource,
+  estimateBlockTime,
+  estimateEta,
+} from '../src/lib/block-time';
+import { MemoryCacheStore } from '../src/lib/cache-store';
+
+// One block every 10 seconds from height 100
+const steadyBlocks = (count: number, from = 100): BlockTimeSample[] =>
+  Array.from({ length: count }, (_, i) => ({ height: from + i, time: 1_700_000_000 + i * 10 }));
+
+const estimator = (source: BlockTimeSource, maxSamples?: number) =>
+  new BlockTimeEstimator('devnet', { source, cacheStore: new MemoryCacheStore(), maxSamples });
+
+describe('Block Time Tests', () => {
+  it('should use the default until two blocks are known', () => {
+    expect(estimateBlockTime([])).toEqual({
+      secondsPerBlock: DEFAULT_SECONDS_PER_BLOCK,
+      stdDev: DEFAULT_SECONDS_PER_BLOCK,
+      sampleBlocks: 0,
+      source: 'default',
+    });
+    expect(estimateBlockTime(steadyBlocks(1)).source).toBe('default');
+    // Blocks with the same timestamp say nothing about the block time
+    expect(estimateBlockTime([{ height: 100, time: 50 }, { height: 101, time: 50 }]).source).toBe('default');
+  });
+
+  it('should weight gaps between samples by the blocks they span', () => {
+    const estimate = estimateBlockTime([
+      { height: 103, time: 30 },
+      { height: 100, time: 0 },
+      { height: 101, time: 10 },
+    ]);
+
+    expect(estimate).toEqual({ secondsPerBlock: 10, stdDev: 0, sampleBlocks: 3, source: 'observed' });
+  });
+
+  it('should measure the variance between blocks', () => {
+    const estimate = estimateBlockTime([
+      { height: 100, time: 0 },
+      { height: 101, time: 4 },
+      { height: 102, time: 20 },
+    ]);
+
+    expect(estimate.secondsPerBlock).toBe(10);
+    expect(estimate.stdDev).toBe(6);
+  });
+
+  it('should estimate a zero ETA for blocks already reached', () => {
+    const estimate = estimateBlockTime(steadyBlocks(10));
+    expect(estimateEta(0, estimate)).toEqual({ blocks: 0, seconds: 0, minSeconds: 0, maxSeconds: 0, confidence: 'high' });
+    expect(estimateEta(-3, estimate).seconds).toBe(0);
+  });
+
+  it('should round partial blocks up', () => {
+    const eta = estimateEta(2.2, { secondsPerBlock: 10, stdDev: 0, sampleBlocks: 100, source: 'observed' });
+    expect(eta).toEqual({ blocks: 3, seconds: 30, minSeconds: 30, maxSeconds: 30, confidence: 'high' });
+  });
+
+  it('should widen the range with variance and a small sample', () => {
+    const eta = estimateEta(10, { secondsPerBlock: 10, stdDev: 6, sampleBlocks: 2, source: 'observed' });
+
+    expect(eta.seconds).toBe(100);
+    expect(eta.minSeconds).toBe(24);
+    expect(eta.maxSeconds).toBe(176);
+    expect(eta.confidence).toBe('low');
+
+    // The same spread over a large sample narrows towards the block-to-block variance alone
+    const settled = estimateEta(10, { secondsPerBlock: 10, stdDev: 6, sampleBlocks: 10_000, source: 'observed' });
+    expect(settled.maxSeconds - settled.minSeconds).toBeLessThan(eta.maxSeconds - eta.minSeconds);
+    expect(settled.confidence).toBe('medium');
+  });
+
+  it('should give low confidence to the default estimate', () => {
+    expect(estimateEta(10, estimateBlockTime([])).confidence).toBe('low');
+  });
+
+  it('should learn the block time from the source', async () => {
+    const source = new StaticBlockTimeSource(steadyBlocks(30));
+    const blockTime = estimator(source);
+
+    const [estimate, eta] = await Promise.all([blockTime.getEstimate(), blockTime.estimateBlocks(6)]);
+
+    expect(estimate).toMatchObject({ secondsPerBlock: 10, sampleBlocks: 29, source: 'observed' });
+    expect(eta.seconds).toBe(60);
+    // Concurrent estimates share one request, and later ones reuse the samples until the refresh is due
+    await blockTime.getEstimate();
+    expect(source.requests).toBe(1);
+  });
+
+  it('should add observed blocks and keep the newest samples', async () => {
+    const blockTime = estimator(new StaticBlockTimeSource(steadyBlocks(5)), 6);
+    await blockTime.getEstimate();
+
+    blockTime.observeBlocks([{ height: 105, time: 1_700_000_050 }, { height: 106, time: 1_700_000_060 }]);
+
+    expect(blockTime.getSamples().map(sample => sample.height)).toEqual([101, 102, 103, 104, 105, 106]);
+  });
+
+  it('should fall back to the default and back off when the source fails', async () => {
+    let requests = 0;
+    const blockTime = estimator({
+      async getRecentBlocks() {
+        requests++;
+        throw new Error('API unavailable');
+      },
+    });
+
+    expect((await blockTime.getEstimate()).source).toBe('default');
+    expect((await blockTime.getEstimate()).source).toBe('default');
+    expect(requests).toBe(1);
+  });
+});
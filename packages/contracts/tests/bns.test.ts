@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryCacheStore } from '../src/lib/cache-store';
+import { NameBackend, NameService, StaticNameBackend, isBnsName } from '../src/lib/bns';
+
+const TESTNET_ADDRESS = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const MAINNET_ADDRESS = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+
+const createService = (backend: NameBackend) => new NameService('testnet', { backend, cacheStore: new MemoryCacheStore() });
+
+describe('BNS Name Service Tests', () => {
+  it('should tell names from addresses', () => {
+    expect(isBnsName('alice.btc')).toBe(true);
+    expect(isBnsName(' Pay.Alice.btc ')).toBe(true);
+    expect(isBnsName(TESTNET_ADDRESS)).toBe(false);
+    expect(isBnsName(`${TESTNET_ADDRESS}.token`)).toBe(false);
+    expect(isBnsName('alice')).toBe(false);
+  });
+
+  it('should resolve a registered name to its owner', async () => {
+    const service = createService(new StaticNameBackend({ 'alice.btc': TESTNET_ADDRESS }));
+    expect(await service.resolveRecipient(' Alice.BTC ')).toEqual({
+      input: 'Alice.BTC',
+      name: 'alice.btc',
+      address: TESTNET_ADDRESS,
+      isValid: true,
+    });
+  });
+
+  it('should validate plain addresses for the network', async () => {
+    const service = createService(new StaticNameBackend());
+    expect(await service.resolveRecipient(TESTNET_ADDRESS)).toEqual({ input: TESTNET_ADDRESS, isValid: true, address: TESTNET_ADDRESS });
+    expect(await service.resolveRecipient(MAINNET_ADDRESS)).toMatchObject({ isValid: false, reason: 'wrong-network' });
+  });
+
+  it('should reject a name that is not registered', async () => {
+    const service = createService(new StaticNameBackend());
+    expect(await service.resolveRecipient('nobody.btc')).toEqual({
+      input: 'nobody.btc',
+      name: 'nobody.btc',
+      isValid: false,
+      reason: 'name-not-found',
+      error: 'nobody.btc is not a registered name',
+    });
+  });
+
+  it('should report a failed lookup without caching it', async () => {
+    let calls = 0;
+    const backend: NameBackend = {
+      resolveName: async () => {
+        calls++;
+        if (calls === 1) {
+          throw new Error('HTTP 503: Service Unavailable');
+        }
+        return TESTNET_ADDRESS;
+      },
+      getNames: async () => [],
+    };
+    const service = createService(backend);
+
+    expect(await service.resolveRecipient('alice.btc')).toMatchObject({
+      isValid: false,
+      reason: 'lookup-failed',
+      error: "Couldn't look up alice.btc: HTTP 503: Service Unavailable",
+    });
+    // The next attempt asks again instead of remembering the failure
+    expect(await service.resolveRecipient('alice.btc')).toMatchObject({ isValid: true, address: TESTNET_ADDRESS });
+    expect(calls).toBe(2);
+  });
+
+  it('should reject a name that points to an address on another network', async () => {
+    const service = createService(new StaticNameBackend({ 'alice.btc': MAINNET_ADDRESS }));
+    expect(await service.resolveRecipient('alice.btc')).toEqual({
+      input: 'alice.btc',
+      name: 'alice.btc',
+      address: MAINNET_ADDRESS,
+      isValid: false,
+      reason: 'wrong-network',
+      error: 'alice.btc points to an invalid address: This is a mainnet address - expected a testnet address',
+    });
+  });
+
+  it('should cache misses until the cache is cleared', async () => {
+    const backend = new StaticNameBackend();
+    const service = createService(backend);
+
+    expect(await service.resolveRecipient('bob.btc')).toMatchObject({ reason: 'name-not-found' });
+    backend.setName('bob.btc', TESTNET_ADDRESS);
+    // Still the cached miss
+    expect(await service.resolveRecipient('bob.btc')).toMatchObject({ reason: 'name-not-found' });
+    expect(backend.requests).toEqual(['bob.btc']);
+
+    service.clearCache();
+    expect(await service.resolveRecipient('bob.btc')).toMatchObject({ isValid: true, address: TESTNET_ADDRESS });
+    expect(backend.requests).toEqual(['bob.btc', 'bob.btc']);
+  });
+
+  it('should look up primary names once per address', async () => {
+    const backend = new StaticNameBackend({ 'alice.btc': TESTNET_ADDRESS });
+    const service = createService(backend);
+
+    const names = await service.lookupNames([TESTNET_ADDRESS, TESTNET_ADDRESS, MAINNET_ADDRESS]);
+    expect(names).toEqual({ [TESTNET_ADDRESS]: 'alice.btc', [MAINNET_ADDRESS]: null });
+    expect(backend.requests).toEqual([TESTNET_ADDRESS, MAINNET_ADDRESS]);
+  });
+});
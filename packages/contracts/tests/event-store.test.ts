@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import type { ClaimEvent, DepositEvent, ParsedEvent } from '../src/lib/events';
+import {
+  EventQuery,
+  EventStore,
+  EventStoreFileSystem,
+  FileEventStore,
+  MemoryEventStore,
+  createDefaultEventStore,
+  toStoredEvent
+} from '../src/lib/event-store';
+
+const ALICE = 'ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5';
+const BOB = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+
+const metadata = (block: number, txIndex: number, eventIndex = 0) => ({
+  txId: `0x${block.toString(16).padStart(8, '0')}${txIndex.toString(16).padStart(4, '0')}`,
+  eventIndex,
+  txIndex,
+  blockHeight: block,
+  blockHash: `0xhash${block}`,
+  blockTime: 1_700_000_000 + block * 5,
+});
+
+const claim = (user: string, block: number, txIndex = 0): ClaimEvent => ({
+  ...metadata(block, txIndex),
+  type: 'claim',
+  user,
+  amount: 50_000_000,
+  streak: 1,
+  totalClaims: 1,
+  block,
+});
+
+const deposit = (depositor: string, block: number, txIndex = 0): DepositEvent => ({
+  ...metadata(block, txIndex),
+  type: 'deposit',
+  depositor,
+  amount: 1_000_000_000,
+  block,
+});
+
+const idOf = (event: ParsedEvent) => `${event.txId}:${event.eventIndex}`;
+
+// Claims and deposits by two users over blocks 1-30, inserted out of chain order
+const history: ParsedEvent[] = [];
+for (let block = 1; block <= 30; block++) {
+  history.push(claim(block % 2 ? ALICE : BOB, block, 1));
+  if (block % 3 === 0) history.push(deposit(BOB, block, 0));
+}
+const shuffled = [...history].sort((a, b) => (a.blockHeight * 7919) % 31 - (b.blockHeight * 7919) % 31);
+const chainOrder = [...history].sort((a, b) => toStoredEvent(a).orderKey.localeCompare(toStoredEvent(b).orderKey));
+
+/**
+ * Every event of a query, following the cursors one page at a time
+ */
+async function readAll(store: EventStore, query: EventQuery): Promise<ParsedEvent[]> {
+  const events: ParsedEvent[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await store.getEvents({ ...query, cursor });
+    expect(page.events.length).toBeLessThanOrEqual(query.limit ?? 100);
+    events.push(...page.events);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return events;
+}
+
+/**
+ * In-memory stand-in for node:fs that counts writes
+ */
+function createFileSystem() {
+  const files = new Map<string, string>();
+  const calls = { write: 0, append: 0 };
+  const fs: EventStoreFileSystem = {
+    mkdirSync: () => undefined,
+    existsSync: path => files.has(path),
+    readFileSync: path => files.get(path) ?? '',
+    writeFileSync: (path, data) => {
+      calls.write++;
+      files.set(path, data);
+    },
+    appendFileSync: (path, data) => {
+      calls.append++;
+      files.set(path, (files.get(path) ?? '') + data);
+    },
+  };
+  return { files, calls, fs };
+}
+
+describe('Event Store Tests', () => {
+  it('should page through every event in chain order with cursors', async () => {
+    const store = new MemoryEventStore();
+    await store.putEvents(shuffled);
+
+    const newestFirst = await readAll(store, { limit: 7 });
+    expect(newestFirst.map(idOf)).toEqual([...chainOrder].reverse().map(idOf));
+
+    const oldestFirst = await readAll(store, { limit: 7, order: 'asc' });
+    expect(oldestFirst.map(idOf)).toEqual(chainOrder.map(idOf));
+  });
+
+  it('should page through user, type and block filters', async () => {
+    const store = new MemoryEventStore();
+    await store.putEvents(shuffled);
+
+    const expected = chainOrder.filter(event =>
+      event.type === 'claim' && event.user === ALICE && event.blockHeight >= 5 && event.blockHeight <= 25
+    );
+    const events = await readAll(store, { user: ALICE, type: 'claim', fromBlock: 5, toBlock: 25, limit: 3, order: 'asc' });
+    expect(events.map(idOf)).toEqual(expected.map(idOf));
+
+    const deposits = await readAll(store, { type: 'deposit', fromBlock: 10, limit: 2 });
+    expect(deposits.map(event => event.blockHeight)).toEqual([30, 27, 24, 21, 18, 15, 12]);
+  });
+
+  it('should return no cursor on the last page', async () => {
+    const store = new MemoryEventStore();
+    await store.putEvents(shuffled);
+
+    const page = await store.getEvents({ type: 'deposit', limit: 10 });
+    expect(page.events).toHaveLength(10);
+    expect(page.nextCursor).toBeNull();
+    expect(await store.getEvents({ fromBlock: 31 })).toEqual({ events: [], nextCursor: null });
+  });
+
+  it('should keep one record per event when events are stored again', async () => {
+    const store = new MemoryEventStore();
+    await store.putEvents(shuffled);
+    // The same event, now with its real position in the block
+    const moved = { ...history[0], txIndex: 9 };
+    await store.putEvents([moved]);
+
+    expect(await store.count()).toBe(history.length);
+    const events = await readAll(store, { fromBlock: 1, toBlock: 1, order: 'asc' });
+    expect(events).toEqual([moved]);
+    expect(await readAll(store, { user: ALICE, order: 'asc' })).toContainEqual(moved);
+  });
+
+  it('should roll back events from a block on', async () => {
+    const store = new MemoryEventStore();
+    await store.putEvents(shuffled);
+
+    const removed = await store.removeEventsFrom(21);
+    const kept = chainOrder.filter(event => event.blockHeight < 21);
+    expect(removed).toBe(history.length - kept.length);
+    expect(await store.count()).toBe(kept.length);
+    expect((await readAll(store, { order: 'asc', limit: 4 })).map(idOf)).toEqual(kept.map(idOf));
+    expect((await store.getEvents({ type: 'deposit', limit: 1 })).events[0].blockHeight).toBe(18);
+    expect((await store.getEvents({ user: ALICE, limit: 1 })).events[0].blockHeight).toBe(19);
+  });
+
+  it('should append new events to the file instead of rewriting it', async () => {
+    const { files, calls, fs } = createFileSystem();
+    const store = new FileEventStore('events.jsonl', fs);
+
+    await store.putEvents(history.slice(0, 10));
+    await store.putEvents(history.slice(10));
+    expect(calls).toEqual({ write: 0, append: 2 });
+    expect(files.get('events.jsonl')!.trim().split('\n')).toHaveLength(history.length);
+
+    const reloaded = new FileEventStore('events.jsonl', fs);
+    expect((await readAll(reloaded, { limit: 50 })).map(idOf)).toEqual([...chainOrder].reverse().map(idOf));
+  });
+
+  it('should replay rollbacks when the file is loaded', async () => {
+    const { files, fs } = createFileSystem();
+    const store = new FileEventStore('events.jsonl', fs);
+    await store.putEvents(history);
+    await store.removeEventsFrom(21);
+    await store.putEvents([claim(BOB, 21, 5)]);
+
+    expect(files.get('events.jsonl')).toContain('{"removeFrom":21}');
+    const reloaded = new FileEventStore('events.jsonl', fs);
+    expect(await reloaded.count()).toBe(await store.count());
+    expect((await reloaded.getEvents({ limit: 1 })).events).toEqual([claim(BOB, 21, 5)]);
+  });
+
+  it('should compact the file once stale lines pile up', async () => {
+    const { files, calls, fs } = createFileSystem();
+    const store = new FileEventStore('events.jsonl', fs);
+
+    // Storing the same events again leaves the old lines stale
+    for (let i = 0; i < 40; i++) {
+      await store.putEvents(history);
+    }
+    expect(calls.write).toBeGreaterThan(0);
+    const lines = files.get('events.jsonl')!.trim().split('\n');
+    expect(lines.length).toBeLessThan(2 * history.length + 1000);
+    expect(await new FileEventStore('events.jsonl', fs).count()).toBe(history.length);
+  });
+
+  it('should only keep default stores in a file when given a file system', async () => {
+    expect(createDefaultEventStore('devnet:faucet')).toBeInstanceOf(MemoryEventStore);
+    expect(createDefaultEventStore('devnet:faucet')).not.toBeInstanceOf(FileEventStore);
+
+    const { files, fs } = createFileSystem();
+    const store = createDefaultEventStore('devnet:faucet', fs);
+    expect(store).toBeInstanceOf(FileEventStore);
+    await store.putEvents(history.slice(0, 2));
+    expect([...files.keys()]).toEqual(['.cache/contract-events/devnet_faucet.jsonl']);
+  });
+
+  it('should skip torn lines when the file is loaded', async () => {
+    const { files, fs } = createFileSystem();
+    const lines = history.slice(0, 3).map(event => JSON.stringify(toStoredEvent(event)));
+    files.set('torn.jsonl', `${lines.join('\n')}\n{"id":"0x`);
+    const torn = new FileEventStore('torn.jsonl', fs);
+    expect(await torn.count()).toBe(3);
+    // The partial line is dropped before anything else is appended
+    await torn.putEvents([history[3]]);
+    expect(await new FileEventStore('torn.jsonl', fs).count()).toBe(4);
+  });
+});
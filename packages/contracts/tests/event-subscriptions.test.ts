@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ContractEventsService } from '../src/lib/events';
+import type { ParsedEvent } from '../src/lib/events';
+import { MemoryEventStore } from '../src/lib/event-store';
+import { MemoryCacheStore } from '../src/lib/cache-store';
+import { BlockFeed, BlockNotification, SseBlockFeed, StaticBlockFeed } from '../src/lib/event-stream';
+import { DEVNET_ACCOUNTS } from '../src/lib/network';
+import { MockStacksApi, startMockStacksApi } from '../scripts/mock-stacks-api';
+
+const { wallet_1, wallet_2 } = DEVNET_ACCOUNTS;
+
+// Covers the first reconnect delay (1s) with room to spare
+const RECONNECT_WAIT = { timeout: 5000 };
+
+describe('Event Subscription Tests', () => {
+  let api: MockStacksApi;
+
+  const createService = (blockFeed: BlockFeed) =>
+    new ContractEventsService(api.network, undefined, {
+      cacheStore: new MemoryCacheStore(),
+      eventStore: new MemoryEventStore(),
+      blockFeed
+    });
+
+  /**
+   * Wait until the first delivery has taken the current head as its starting point
+   */
+  const waitForHead = (service: ContractEventsService) =>
+    vi.waitFor(() => expect(service.getSyncState().headCursor).not.toBeNull());
+
+  beforeEach(async () => {
+    api = await startMockStacksApi();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await api.close();
+  });
+
+  it('should deliver new events to matching subscribers in chain order', async () => {
+    const service = createService(new SseBlockFeed(api.streamUrl));
+    api.mineSilently([api.claimEvent(wallet_1, 100)]);
+
+    const claims: ParsedEvent[] = [];
+    const deposits: ParsedEvent[] = [];
+    const blocks: BlockNotification[] = [];
+    const unsubscribe = [
+      service.subscribe({ user: wallet_1 }, event => claims.push(event)),
+      service.subscribe({ type: 'deposit' }, event => deposits.push(event)),
+      service.subscribeBlocks(block => blocks.push(block))
+    ];
+    await waitForHead(service);
+
+    const first = api.mineBlock([api.claimEvent(wallet_1, 100), api.claimEvent(wallet_2, 100), api.depositEvent(wallet_2, 500)]);
+    const second = api.mineBlock([api.claimEvent(wallet_1, 200)]);
+
+    await vi.waitFor(() => expect(claims).toHaveLength(2));
+    // The claim mined before subscribing is not replayed
+    expect(claims.map(event => [event.type, event.blockHeight])).toEqual([['claim', first], ['claim', second]]);
+    expect(deposits).toEqual([expect.objectContaining({ type: 'deposit', depositor: wallet_2, blockHeight: first })]);
+    expect(blocks.map(block => block.height)).toEqual([first, second]);
+    expect(blocks[0].hash).toBe(claims[0].blockHash);
+    // Block notifications keep the current height fresh without asking the API
+    expect(await service.getCurrentBlockHeight()).toBe(second);
+
+    unsubscribe.forEach(stop => stop());
+  });
+
+  it('should reconnect with a doubling backoff until the feed opens again', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.useFakeTimers();
+    const feed = new StaticBlockFeed();
+    const service = createService(feed);
+    const blocks: BlockNotification[] = [];
+
+    const unsubscribe = service.subscribeBlocks(block => blocks.push(block));
+    await vi.advanceTimersByTimeAsync(0);
+    const connect = vi.spyOn(feed, 'connect')
+      .mockImplementationOnce(() => { throw new Error('offline'); })
+      .mockImplementationOnce(() => { throw new Error('offline'); });
+
+    feed.disconnect(new Error('connection reset'));
+    // 1s, then 2s, then 4s
+    for (const [delay, calls] of [[999, 0], [1, 1], [1999, 1], [1, 2], [3999, 2], [1, 3]]) {
+      await vi.advanceTimersByTimeAsync(delay);
+      expect(connect).toHaveBeenCalledTimes(calls);
+    }
+    expect(feed.connectCount).toBe(2);
+
+    feed.emitBlock({ height: 120, hash: '0x78' });
+    expect(blocks).toEqual([{ height: 120, hash: '0x78' }]);
+
+    // An open connection resets the backoff
+    feed.disconnect();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(feed.connectCount).toBe(3);
+
+    // No reconnects once the last listener is gone
+    unsubscribe();
+    feed.disconnect();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should backfill the events missed while the feed was down', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const feed = new StaticBlockFeed();
+    const service = createService(feed);
+    api.mineSilently([api.claimEvent(wallet_1, 100)]);
+
+    const received: ParsedEvent[] = [];
+    const unsubscribe = service.subscribe({}, event => received.push(event));
+    await waitForHead(service);
+
+    feed.disconnect(new Error('connection reset'));
+    const missed = [
+      api.mineSilently([api.claimEvent(wallet_1, 100)]),
+      api.mineSilently([api.depositEvent(wallet_2, 500), api.claimEvent(wallet_2, 100)])
+    ];
+
+    // Reopening the feed syncs and delivers what landed meanwhile
+    await vi.waitFor(() => expect(received).toHaveLength(3), RECONNECT_WAIT);
+    expect(feed.connectCount).toBe(2);
+    expect(received.map(event => [event.type, event.blockHeight, event.eventIndex])).toEqual([
+      ['claim', missed[0], 0],
+      ['deposit', missed[1], 0],
+      ['claim', missed[1], 1]
+    ]);
+
+    // Then live delivery resumes
+    const live = api.mineSilently([api.claimEvent(wallet_2, 100)]);
+    feed.emitBlock({ height: live, hash: `0x${live.toString(16)}` });
+    await vi.waitFor(() => expect(received).toHaveLength(4));
+    expect(received[3]).toMatchObject({ type: 'claim', user: wallet_2, blockHeight: live });
+
+    unsubscribe();
+  });
+});
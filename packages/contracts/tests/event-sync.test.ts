@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ContractEventsService } from '../src/lib/events';
+import { MemoryEventStore } from '../src/lib/event-store';
+import { MemoryCacheStore } from '../src/lib/cache-store';
+import { DEFAULT_FAUCET_PARAMETERS } from '../src/lib/faucet-parameters';
+import { DEVNET_ACCOUNTS } from '../src/lib/network';
+import { MockStacksApi, startMockStacksApi } from '../scripts/mock-stacks-api';
+
+const { wallet_1, wallet_2 } = DEVNET_ACCOUNTS;
+
+// Past the time synced events stay fresh
+const STALE_AFTER = 6 * 60 * 1000;
+
+describe('Event Sync Tests', () => {
+  let api: MockStacksApi;
+  let service: ContractEventsService;
+
+  /**
+   * Mine `blocks` blocks of `perBlock` claims each without announcing them
+   */
+  const mineClaims = (blocks: number, perBlock: number) => {
+    for (let i = 0; i < blocks; i++) {
+      api.mineSilently(Array.from({ length: perBlock }, () => api.claimEvent(wallet_1, 100)));
+    }
+  };
+
+  /**
+   * Offsets of the contract event pages requested since the spy was installed
+   */
+  const pageOffsets = (fetchSpy: { mock: { calls: unknown[][] } }) =>
+    fetchSpy.mock.calls
+      .map(([url]) => new URL(String(url)))
+      .filter(url => url.pathname.endsWith('/events') && url.searchParams.has('offset'))
+      .map(url => Number(url.searchParams.get('offset')));
+
+  const eventKeys = (events: Array<{ txId: string; eventIndex: number }>) =>
+    new Set(events.map(event => `${event.txId}:${event.eventIndex}`));
+
+  beforeEach(async () => {
+    api = await startMockStacksApi();
+    service = new ContractEventsService(api.network, undefined, {
+      cacheStore: new MemoryCacheStore(),
+      eventStore: new MemoryEventStore()
+    });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await api.close();
+  });
+
+  it('should only fetch events newer than the head cursor once synced', async () => {
+    mineClaims(3, 40);
+    expect(await service.syncEvents()).toHaveLength(120);
+    expect(service.getSyncState()).toMatchObject({ isFullySynced: true, rawEventsSynced: 120 });
+
+    mineClaims(1, 2);
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    // Still fresh - served from the store
+    expect(await service.syncEvents()).toHaveLength(120);
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + STALE_AFTER);
+    const events = await service.syncEvents();
+
+    expect(events).toHaveLength(122);
+    expect(eventKeys(events).size).toBe(122);
+    expect(events[0].blockHeight).toBe(api.height);
+    expect(pageOffsets(fetchSpy)).toEqual([0]);
+    expect(service.getSyncState()).toMatchObject({
+      isFullySynced: true,
+      rawEventsSynced: 122,
+      headCursor: { blockHeight: api.height, eventIndex: 1 }
+    });
+  });
+
+  it('should resume the backfill from the verified tail cursor', async () => {
+    mineClaims(21, 50);
+
+    // The API call limit stops the first sync 50 events short of the oldest
+    expect(await service.syncEvents()).toHaveLength(1000);
+    const { tailCursor, isFullySynced } = service.getSyncState();
+    expect(isFullySynced).toBe(false);
+
+    // New events shift every offset by 5
+    mineClaims(1, 5);
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const events = await service.syncEvents();
+
+    expect(events).toHaveLength(1055);
+    expect(eventKeys(events).size).toBe(1055);
+    // The head page, then the backfill re-reading the tail event at its shifted offset
+    expect(pageOffsets(fetchSpy)).toEqual([0, 1004, 1054]);
+    expect(events.findIndex(event => event.txId === tailCursor?.txId && event.eventIndex === tailCursor.eventIndex)).toBe(1004);
+    expect(service.getSyncState()).toMatchObject({ isFullySynced: true, rawEventsSynced: 1055 });
+  });
+
+  it('should restart from the newest events when the head cursor is out of reach', async () => {
+    mineClaims(1, 10);
+    const [earlier] = await service.syncEvents();
+
+    // More new events than the API call limit can page through
+    mineClaims(21, 50);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + STALE_AFTER);
+
+    const restarted = await service.syncEvents();
+    expect(restarted).toHaveLength(1000);
+    expect(restarted[0].blockHeight).toBe(api.height);
+    expect(restarted.some(event => event.txId === earlier.txId)).toBe(false);
+    expect(service.getSyncState()).toMatchObject({ isFullySynced: false, isBackfillComplete: false, rawEventsSynced: 1000 });
+
+    // The next sync backfills the rest, including the events from before the restart
+    const events = await service.syncEvents();
+    expect(events).toHaveLength(1060);
+    expect(eventKeys(events).size).toBe(1060);
+    expect(events[events.length - 1].txId).toBe(earlier.txId);
+    expect(service.getSyncState().isFullySynced).toBe(true);
+  });
+
+  it('should roll back events of blocks that left the canonical chain', async () => {
+    // The mock doesn't serve read-only calls
+    vi.spyOn(service, 'getFaucetParameters').mockResolvedValue(DEFAULT_FAUCET_PARAMETERS);
+    mineClaims(5, 2);
+    expect(await service.syncEvents()).toHaveLength(10);
+    expect((await service.getUserAnalytics(wallet_1))?.totalClaims).toBe(10);
+    expect(service.getCacheStats().cacheKeys).toContain(`user_analytics:${wallet_1}:0`);
+
+    // The last two blocks are replaced by a fork of three, with one claim by another user
+    const orphanedFrom = api.height - 1;
+    const orphaned = (await service.getEvents({ fromBlock: orphanedFrom })).events;
+    api.reorg(orphanedFrom);
+    api.mineSilently([api.claimEvent(wallet_2, 100)]);
+    mineClaims(2, 0);
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + STALE_AFTER);
+    const events = await service.syncEvents();
+
+    expect(events).toHaveLength(7);
+    expect(orphaned).toHaveLength(4);
+    expect(events.some(event => eventKeys(orphaned).has(`${event.txId}:${event.eventIndex}`))).toBe(false);
+    expect(events[0]).toMatchObject({ type: 'claim', user: wallet_2, blockHeight: orphanedFrom });
+    expect(events[0].blockHash).not.toBe(orphaned[0].blockHash);
+    // Analytics computed from the orphaned blocks are gone
+    expect(service.getCacheStats().cacheKeys.some(key => key.startsWith('user_analytics:'))).toBe(false);
+    expect((await service.getUserAnalytics(wallet_1))?.totalClaims).toBe(6);
+
+    // The fork's first block has three confirmations
+    expect((await service.getEvents({}, { minConfirmations: 3 })).events).toHaveLength(7);
+    const confirmed = (await service.getEvents({}, { minConfirmations: 4 })).events;
+    expect(confirmed).toHaveLength(6);
+    expect(confirmed.every(event => event.blockHeight < orphanedFrom)).toBe(true);
+  });
+});
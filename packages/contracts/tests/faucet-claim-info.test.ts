@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ContractEventsService } from '../src/lib/events';
+import type { ClaimEvent, UserAnalytics } from '../src/lib/events';
+import { MemoryEventStore } from '../src/lib/event-store';
+import { MemoryCacheStore } from '../src/lib/cache-store';
+import { DEFAULT_FAUCET_PARAMETERS } from '../src/lib/faucet-parameters';
+import { DEVNET_ACCOUNTS } from '../src/lib/network';
+import { OnChainClaimData, TBBFaucetContract } from '../src/lib/spare-tomato-pelican';
+
+const { wallet_1 } = DEVNET_ACCOUNTS;
+
+const CURRENT_BLOCK = 100_000;
+const { cooldownBlocks, streakWindowBlocks } = DEFAULT_FAUCET_PARAMETERS;
+// Claimed three days running, then missed the streak window
+const LAST_CLAIM_BLOCK = CURRENT_BLOCK - streakWindowBlocks - 1;
+
+const claim = (block: number, streak: number): ClaimEvent => ({
+  txId: `0x${block.toString(16).padStart(64, '0')}`,
+  eventIndex: 0,
+  txIndex: 0,
+  blockHeight: block,
+  blockHash: `0x${block.toString(16).padStart(64, 'f')}`,
+  blockTime: 1_700_000_000 + block * 5,
+  type: 'claim',
+  user: wallet_1,
+  amount: 50_000_000,
+  streak,
+  totalClaims: streak,
+  block,
+});
+
+const claimHistory = [1, 2, 3].map(streak => claim(LAST_CLAIM_BLOCK - (3 - streak) * cooldownBlocks, streak));
+
+// The event view resets the current streak once the window has passed
+const analytics: UserAnalytics = {
+  address: wallet_1,
+  totalClaims: 3,
+  totalClaimed: 150_000_000,
+  currentStreak: 0,
+  maxStreak: 3,
+  lastClaimBlock: LAST_CLAIM_BLOCK,
+  canClaimNow: true,
+  streakMilestones: [],
+  claimHistory,
+};
+
+// The contract keeps the streak of the last claim until the next one
+const onChain: OnChainClaimData = {
+  lastClaimBlock: LAST_CLAIM_BLOCK,
+  streakCount: 3,
+  totalClaims: 3,
+  totalClaimed: 150_000_000,
+  canClaimNow: true,
+  blocksUntilNextClaim: 0,
+  nextClaimBlock: LAST_CLAIM_BLOCK + cooldownBlocks,
+  currentReward: 50_000_000,
+};
+
+describe('Faucet Claim Info Tests', () => {
+  let events: ContractEventsService;
+  let faucet: TBBFaucetContract;
+
+  beforeEach(() => {
+    events = new ContractEventsService('devnet', undefined, {
+      cacheStore: new MemoryCacheStore(),
+      eventStore: new MemoryEventStore()
+    });
+    faucet = new TBBFaucetContract('devnet', { cacheStore: new MemoryCacheStore(), eventsService: events });
+
+    vi.spyOn(faucet, 'loadFaucetParameters').mockResolvedValue(DEFAULT_FAUCET_PARAMETERS);
+    vi.spyOn(events, 'getCurrentBlockHeight').mockResolvedValue(CURRENT_BLOCK);
+    vi.spyOn(events, 'getBlockTimeEstimate').mockResolvedValue({ secondsPerBlock: 5, stdDev: 0, sampleBlocks: 0, source: 'default' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read the claim record from the contract, with history from events', async () => {
+    vi.spyOn(faucet, 'getOnChainClaimData').mockResolvedValue(onChain);
+    vi.spyOn(events, 'getUserAnalytics').mockResolvedValue(analytics);
+    const warn = vi.spyOn(console, 'warn');
+
+    const info = await faucet.getClaimInfo(wallet_1);
+
+    expect(info).toMatchObject({ source: 'contract', streakCount: 3, totalClaims: 3, maxStreak: 3, canClaimNow: true });
+    expect(info.totalClaimed.toBaseUnits()).toBe(150_000_000n);
+    expect(info.claimHistory).toEqual(claimHistory);
+    // The streak expired, so the next claim pays the first tier
+    expect(info.nextClaimReward.toBaseUnits()).toBe(50_000_000n);
+    // Diverging current streaks are expected, not reported
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the event history when the contract read fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(faucet, 'getOnChainClaimData').mockRejectedValue(new Error('node unreachable'));
+    vi.spyOn(events, 'getUserAnalytics').mockResolvedValue(analytics);
+
+    const info = await faucet.getClaimInfo(wallet_1);
+
+    expect(info).toMatchObject({
+      source: 'events',
+      lastClaimBlock: LAST_CLAIM_BLOCK,
+      streakCount: 0,
+      totalClaims: 3,
+      canClaimNow: true,
+      nextClaimBlock: LAST_CLAIM_BLOCK + cooldownBlocks
+    });
+  });
+
+  it('should block claims when neither source answers', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(faucet, 'getOnChainClaimData').mockRejectedValue(new Error('node unreachable'));
+    vi.spyOn(events, 'getUserAnalytics').mockRejectedValue(new Error('API unreachable'));
+
+    const info = await faucet.getClaimInfo(wallet_1);
+
+    expect(info).toMatchObject({ source: 'unavailable', canClaimNow: false, totalClaims: 0, claimHistory: [] });
+    expect(info.nextClaimReward.toBaseUnits()).toBe(50_000_000n);
+  });
+
+  it('should compare the contract streak with the streak of the last claim', async () => {
+    vi.spyOn(faucet, 'getOnChainClaimData').mockResolvedValue(onChain);
+    vi.spyOn(events, 'getUserAnalytics').mockResolvedValue(analytics);
+
+    expect(await faucet.getClaimReconciliation(wallet_1)).toMatchObject({ discrepancies: [], isConsistent: true });
+
+    vi.mocked(faucet.getOnChainClaimData).mockResolvedValue({ ...onChain, streakCount: 4, totalClaims: 4 });
+    const report = await faucet.getClaimReconciliation(wallet_1);
+
+    expect(report.isConsistent).toBe(false);
+    expect(report.discrepancies).toEqual([
+      { field: 'streakCount', contractValue: 4, eventsValue: 3 },
+      { field: 'totalClaims', contractValue: 4, eventsValue: 3 }
+    ]);
+  });
+});
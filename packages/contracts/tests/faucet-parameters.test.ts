@@ -0,0 +1,53 @@
+import { Cl, cvToJSON } from '@stacks/transactions';
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_FAUCET_PARAMETERS, discoverTierStreaks } from '../src/lib/faucet-parameters';
+
+// Reads the reward straight from the deployed contract
+const contractReward = async (streak: number) => {
+  const { result } = simnet.callReadOnlyFn('token-faucet', 'get-reward-for-streak', [Cl.uint(streak)], simnet.deployer);
+  return Number(cvToJSON(result).value);
+};
+
+// Pays the reward of the highest threshold reached
+const tieredReward = (thresholds: number[], rewards: number[]) => async (streak: number) => {
+  let reward = rewards[0];
+  thresholds.forEach((threshold, tier) => {
+    if (streak >= threshold) {
+      reward = rewards[tier];
+    }
+  });
+  return reward;
+};
+
+describe('Faucet Parameters Tests', () => {
+  it('should find the contract tier thresholds through get-reward-for-streak', async () => {
+    const tierStreaks = await discoverTierStreaks(DEFAULT_FAUCET_PARAMETERS.tierRewards, contractReward);
+    expect(tierStreaks).toEqual(DEFAULT_FAUCET_PARAMETERS.tierStreaks);
+  });
+
+  it('should find thresholds for any number of tiers', async () => {
+    const rewards = [10, 20, 30, 40, 50];
+    const thresholds = [1, 3, 10, 31, 365];
+    expect(await discoverTierStreaks(rewards, tieredReward(thresholds, rewards))).toEqual(thresholds);
+  });
+
+  it('should throw when the contract has more tiers than get-faucet-stats lists', async () => {
+    const reader = tieredReward([1, 4, 8, 15, 30], [1, 2, 3, 4, 5]);
+    await expect(discoverTierStreaks([1, 2, 3, 4], reader)).rejects.toThrow("Faucet tiers don't match");
+  });
+
+  it('should throw when a listed tier reward is never paid', async () => {
+    const reader = tieredReward([1, 4, 8], [1, 2, 4]);
+    await expect(discoverTierStreaks([1, 2, 3, 4], reader)).rejects.toThrow("Faucet tiers don't match");
+  });
+
+  it('should throw when a tier is out of reach', async () => {
+    const reader = tieredReward([1], [1]);
+    await expect(discoverTierStreaks([1, 2], reader)).rejects.toThrow('No streak up to');
+  });
+
+  it('should reject tier rewards that do not increase', async () => {
+    await expect(discoverTierStreaks([], contractReward)).rejects.toThrow('must be increasing');
+    await expect(discoverTierStreaks([2, 1], contractReward)).rejects.toThrow('must be increasing');
+  });
+});
@@ -0,0 +1,86 @@
+import { Cl } from '@stacks/transactions';
+import { describe, it, expect } from 'vitest';
+import { FeeEstimationError, FeeEstimator, FeeRateSource, StaticFeeRateSource } from '../src/lib/fees';
+
+const DEPLOYER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const RECIPIENT = 'ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5';
+
+const transferCall = {
+  contract: `${DEPLOYER}.token` as const,
+  functionName: 'transfer',
+  functionArgs: [Cl.uint(1_000_000), Cl.principal(DEPLOYER), Cl.principal(RECIPIENT), Cl.none()],
+};
+
+const estimator = (source: FeeRateSource) => new FeeEstimator('devnet', { source });
+
+describe('Fee Estimator Tests', () => {
+  it('should use the node estimate for the call', async () => {
+    const source = new StaticFeeRateSource({
+      estimations: [
+        { fee: 5_000, fee_rate: 20 },
+        { fee: 7_500.4, fee_rate: 30 },
+        { fee: 10_000, fee_rate: 40 },
+      ],
+    });
+    const estimate = await estimator(source).estimateContractCall(transferCall);
+
+    expect(estimate.method).toBe('execution-cost');
+    expect(estimate.low).toEqual({ priority: 'low', fee: 5_000n, feeRate: 20 });
+    // Fractional fees are rounded up to whole microSTX
+    expect(estimate.medium.fee).toBe(7_501n);
+    expect(estimate.high.fee).toBe(10_000n);
+
+    // The serialized call is sent with its signed size
+    expect(source.requests).toHaveLength(1);
+    expect(source.requests[0].estimatedLength).toBe(estimate.estimatedLength);
+    expect(estimate.estimatedLength).toBeGreaterThan(0);
+  });
+
+  it('should fall back to the per-byte rate on NoEstimateAvailable', async () => {
+    const source = new StaticFeeRateSource({ estimations: null, feeRate: 10 });
+    const estimate = await estimator(source).estimateContractCall(transferCall);
+    const length = BigInt(estimate.estimatedLength);
+
+    expect(estimate.method).toBe('byte-rate');
+    expect(estimate.low).toEqual({ priority: 'low', fee: 10n * length, feeRate: 10 });
+    expect(estimate.medium).toEqual({ priority: 'medium', fee: 15n * length, feeRate: 15 });
+    expect(estimate.high).toEqual({ priority: 'high', fee: 20n * length, feeRate: 20 });
+  });
+
+  it('should fall back when the node returns too few estimations', async () => {
+    const source = new StaticFeeRateSource({ estimations: [{ fee: 5_000, fee_rate: 20 }], feeRate: 2 });
+    const estimate = await estimator(source).estimateContractCall(transferCall);
+    expect(estimate.method).toBe('byte-rate');
+    expect(estimate.low.fee).toBe(2n * BigInt(estimate.estimatedLength));
+  });
+
+  it('should never go below one microSTX per byte', async () => {
+    const lowEstimates = new StaticFeeRateSource({
+      estimations: [
+        { fee: 1, fee_rate: 0 },
+        { fee: 2, fee_rate: 0 },
+        { fee: 3, fee_rate: 0 },
+      ],
+    });
+    const estimate = await estimator(lowEstimates).estimateContractCall(transferCall);
+    const minimumFee = BigInt(estimate.estimatedLength);
+    expect([estimate.low.fee, estimate.medium.fee, estimate.high.fee]).toEqual([minimumFee, minimumFee, minimumFee]);
+
+    // A zero per-byte rate is raised to the relay minimum too
+    const zeroRate = await estimator(new StaticFeeRateSource({ feeRate: 0 })).estimateContractCall(transferCall);
+    expect(zeroRate.low.fee).toBe(minimumFee);
+    expect(zeroRate.high.fee).toBe(2n * minimumFee);
+  });
+
+  it('should raise a FeeEstimationError when the node fails', async () => {
+    const failing: FeeRateSource = {
+      estimateTransaction: async () => null,
+      getFeeRate: async () => {
+        throw new Error('HTTP 503: Service Unavailable');
+      },
+    };
+    const estimate = estimator(failing).estimateContractCall(transferCall);
+    await expect(estimate).rejects.toThrow(FeeEstimationError);
+    await expect(estimate).rejects.toThrow(`${DEPLOYER}.token::transfer: HTTP 503`);
+  });
+});
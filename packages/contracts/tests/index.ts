@@ -1,4 +1,23 @@
 // Export all test files for vitest
 export * from './token.test';
 export * from './token-faucet.test';
-export * from './batch-transfer.test';
\ No newline at end of file
+export * from './batch-transfer.test';
+export * from './faucet-parameters.test';
+export * from './token-metadata.test';
+export * from './token-amount.test';
+export * from './memo.test';
+export * from './fees.test';
+export * from './validators.test';
+export * from './bns.test';
+export * from './event-store.test';
+export * from './token-ledger.test';
+export * from './block-time.test';
+export * from './runway.test';
+export * from './transactions.test';
+export * from './event-sync.test';
+export * from './faucet-claim-info.test';
+export * from './sip10-token.test';
+export * from './airdrop.test';
+export * from './signer.test';
+export * from './event-subscriptions.test';
+export * from './leaderboard.test';
\ No newline at end of file
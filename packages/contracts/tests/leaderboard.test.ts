@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { ContractEventsService } from '../src/lib/events';
+import { MemoryEventStore } from '../src/lib/event-store';
+import { MemoryCacheStore } from '../src/lib/cache-store';
+import { BlockTimeEstimator, StaticBlockTimeSource } from '../src/lib/block-time';
+import { DEFAULT_FAUCET_PARAMETERS } from '../src/lib/faucet-parameters';
+import { DEVNET_ACCOUNTS } from '../src/lib/network';
+import { MockStacksApi, startMockStacksApi } from '../scripts/mock-stacks-api';
+
+const { deployer, wallet_1, wallet_2, wallet_3 } = DEVNET_ACCOUNTS;
+
+// Streaks break after 10 blocks without a claim
+const PARAMETERS = { ...DEFAULT_FAUCET_PARAMETERS, cooldownBlocks: 5, streakWindowBlocks: 10 };
+
+describe('Leaderboard Tests', () => {
+  let api: MockStacksApi;
+  let leaderboard: ContractEventsService;
+
+  /**
+   * Events service whose learned block time fits `blocksPerDay` blocks in a day
+   */
+  const service = (blocksPerDay: number) => {
+    const events = new ContractEventsService(api.network, undefined, {
+      cacheStore: new MemoryCacheStore(),
+      eventStore: new MemoryEventStore(),
+      blockTimeEstimator: new BlockTimeEstimator(api.network, {
+        source: new StaticBlockTimeSource([{ height: 1, time: 1_700_000_000 }, { height: 1 + blocksPerDay, time: 1_700_086_400 }]),
+        cacheStore: new MemoryCacheStore()
+      })
+    });
+    // The mock doesn't serve read-only calls
+    vi.spyOn(events, 'getFaucetParameters').mockResolvedValue(PARAMETERS);
+    return events;
+  };
+
+  /**
+   * Mine empty blocks up to `height`, then a block holding the given print events there
+   */
+  const mineAt = (height: number, prints: Record<string, any>[]) => {
+    while (api.height < height - 1) {
+      api.mineSilently();
+    }
+    return api.mineSilently(prints);
+  };
+
+  beforeAll(async () => {
+    api = await startMockStacksApi();
+
+    mineAt(105, [api.claimEvent(wallet_3, 500)]);
+    mineAt(110, [api.claimEvent(wallet_1, 100)]);
+    mineAt(112, [api.depositEvent(deployer, 1000)]);
+    mineAt(115, [api.depositEvent(wallet_3, 1500)]);
+    mineAt(120, [api.claimEvent(wallet_1, 100)]);
+    mineAt(125, [api.claimEvent(wallet_2, 200)]);
+    mineAt(130, [api.claimEvent(wallet_1, 100)]);
+    mineAt(135, [api.claimEvent(wallet_2, 100)]);
+    mineAt(138, [api.depositEvent(deployer, 500)]);
+    mineAt(140, []);
+
+    leaderboard = service(10);
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await api.close();
+  });
+
+  it('should rank claimers by tokens claimed, listing ties by who got there first', async () => {
+    const board = await leaderboard.getLeaderboard({ metric: 'total_claimed' });
+
+    expect(board).toMatchObject({ metric: 'total_claimed', window: 'all', total: 3, offset: 0 });
+    expect(board.entries).toEqual([
+      { rank: 1, address: wallet_3, value: 500, count: 1, maxStreak: 1, lastActivityBlock: 105 },
+      { rank: 2, address: wallet_1, value: 300, count: 3, maxStreak: 3, lastActivityBlock: 130 },
+      { rank: 2, address: wallet_2, value: 300, count: 2, maxStreak: 2, lastActivityBlock: 135 }
+    ]);
+  });
+
+  it('should page through the cached ranking with limit and offset', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    const page = await leaderboard.getLeaderboard({ metric: 'total_claimed', limit: 2, offset: 1 });
+    expect(page).toMatchObject({ total: 3, offset: 1 });
+    expect(page.entries.map(entry => [entry.rank, entry.address])).toEqual([[2, wallet_1], [2, wallet_2]]);
+
+    const last = await leaderboard.getLeaderboard({ metric: 'total_claimed', limit: 1, offset: 2 });
+    expect(last.entries.map(entry => entry.address)).toEqual([wallet_2]);
+    expect(fetchSpy).not.toHaveBeenCalled();
+    fetchSpy.mockRestore();
+  });
+
+  it('should only rank streaks that are still alive', async () => {
+    const board = await leaderboard.getLeaderboard({ metric: 'active_streak' });
+
+    // wallet_3 last claimed 35 blocks ago
+    expect(board.total).toBe(2);
+    expect(board.entries.map(entry => [entry.rank, entry.address, entry.value])).toEqual([
+      [1, wallet_1, 3],
+      [2, wallet_2, 2]
+    ]);
+  });
+
+  it('should rank depositors by tokens deposited', async () => {
+    const board = await leaderboard.getLeaderboard({ metric: 'deposits' });
+
+    expect(board.entries).toEqual([
+      { rank: 1, address: wallet_3, value: 1500, count: 1, lastActivityBlock: 115 },
+      { rank: 1, address: deployer, value: 1500, count: 2, lastActivityBlock: 138 }
+    ]);
+
+    const day = await leaderboard.getLeaderboard({ metric: 'deposits', window: 'day' });
+    expect(day.entries).toEqual([{ rank: 1, address: deployer, value: 500, count: 1, lastActivityBlock: 138 }]);
+  });
+
+  it('should only count events of the window', async () => {
+    // A day is 10 blocks, so the day covers blocks 130-140
+    const day = await leaderboard.getLeaderboard({ metric: 'total_claimed', window: 'day' });
+    expect(day.entries).toEqual([
+      { rank: 1, address: wallet_1, value: 100, count: 1, maxStreak: 3, lastActivityBlock: 130 },
+      { rank: 1, address: wallet_2, value: 100, count: 1, maxStreak: 2, lastActivityBlock: 135 }
+    ]);
+
+    const week = await leaderboard.getLeaderboard({ metric: 'total_claimed', window: 'week' });
+    expect(week.entries.map(entry => [entry.address, entry.value])).toEqual([[wallet_3, 500], [wallet_1, 300], [wallet_2, 300]]);
+  });
+
+  it('should convert window days to blocks with the learned block time', async () => {
+    // Half the block time, so the day reaches back to block 120
+    const day = await service(20).getLeaderboard({ metric: 'total_claimed', window: 'day' });
+
+    expect(day.entries.map(entry => [entry.rank, entry.address, entry.value, entry.count])).toEqual([
+      [1, wallet_2, 300, 2],
+      [2, wallet_1, 200, 2]
+    ]);
+  });
+});
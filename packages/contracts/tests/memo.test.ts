@@ -0,0 +1,62 @@
+import { Cl, cvToHex } from '@stacks/transactions';
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_MEMO_BYTES,
+  MemoError,
+  decodeMemo,
+  decodeMemoFromClarityValue,
+  encodeMemo,
+  formatMemo,
+  memoToClarityValue,
+  validateMemo
+} from '../src/lib/memo';
+
+describe('Memo Tests', () => {
+  it('should round-trip each encoding', () => {
+    const memos = [
+      { encoding: 'text', text: 'Thanks! 🎉' },
+      { encoding: 'hex', hex: 'deadbeef' },
+      { encoding: 'structured', type: 'invoice', id: '1042' },
+    ] as const;
+    for (const memo of memos) {
+      expect(decodeMemo(encodeMemo(memo))).toEqual(memo);
+    }
+  });
+
+  it('should count bytes, not characters, against the 34-byte limit', () => {
+    expect(encodeMemo('a'.repeat(MAX_MEMO_BYTES))).toHaveLength(MAX_MEMO_BYTES);
+    // Nine 4-byte emoji are 36 bytes
+    const emoji = '🎉'.repeat(9);
+    expect(() => encodeMemo(emoji)).toThrow(MemoError);
+    expect(validateMemo(emoji)).toMatchObject({ isValid: false, byteLength: 36 });
+    expect(validateMemo('hello')).toEqual({ isValid: true, byteLength: 5 });
+  });
+
+  it('should reject malformed hex and structured memos', () => {
+    expect(() => encodeMemo({ encoding: 'hex', hex: 'abc' })).toThrow('Invalid hex memo');
+    expect(() => encodeMemo({ encoding: 'hex', hex: 'zz' })).toThrow('Invalid hex memo');
+    expect(() => encodeMemo({ encoding: 'structured', type: 'a:b', id: '1' })).toThrow('cannot contain ":"');
+    expect(() => encodeMemo({ encoding: 'structured', type: '', id: '1' })).toThrow(MemoError);
+  });
+
+  it('should build optional buffer arguments', () => {
+    expect(memoToClarityValue()).toEqual(Cl.none());
+    expect(memoToClarityValue('')).toEqual(Cl.none());
+    expect(memoToClarityValue('hi')).toEqual(Cl.some(Cl.bufferFromAscii('hi')));
+  });
+
+  it('should decode padded, binary and Clarity-wrapped memos', () => {
+    // Some wallets pad memos with zero bytes to the full 34
+    expect(decodeMemo('6869' + '00'.repeat(32))).toEqual({ encoding: 'text', text: 'hi' });
+    expect(decodeMemo('0x00ff10')).toEqual({ encoding: 'hex', hex: '00ff10' });
+    expect(decodeMemoFromClarityValue(Cl.some(Cl.bufferFromAscii('hi')))).toEqual({ encoding: 'text', text: 'hi' });
+    expect(decodeMemoFromClarityValue(cvToHex(Cl.none()))).toBeNull();
+    expect(decodeMemoFromClarityValue(Cl.uint(1))).toBeNull();
+  });
+
+  it('should format memos for display', () => {
+    expect(formatMemo({ encoding: 'text', text: 'Thanks!' })).toBe('Thanks!');
+    expect(formatMemo({ encoding: 'hex', hex: 'deadbeef' })).toBe('0xdeadbeef');
+    expect(formatMemo({ encoding: 'structured', type: 'invoice', id: '1042' })).toBe('invoice #1042');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import type { ClaimEvent, DepositEvent } from '../src/lib/events';
+import type { BlockTimeEstimate } from '../src/lib/block-time';
+import type { FaucetParameters } from '../src/lib/faucet-parameters';
+import { fitRunwayModel, forecastRunway, getRunwayHistoryStart } from '../src/lib/runway';
+
+const ALICE = 'ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5';
+const BOB = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG';
+const DEPOSITOR = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+
+// A round is 10 blocks, and 10 blocks take a day
+const parameters: FaucetParameters = {
+  cooldownBlocks: 10,
+  streakWindowBlocks: 20,
+  tierRewards: [100, 200],
+  tierStreaks: [1, 3],
+};
+const blockTime: BlockTimeEstimate = { secondsPerBlock: 8_640, stdDev: 0, sampleBlocks: 100, source: 'observed' };
+
+const CURRENT_BLOCK = 1000;
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const metadata = (block: number) => ({
+  txId: `0x${block.toString(16).padStart(8, '0')}`,
+  eventIndex: 0,
+  txIndex: 0,
+  blockHeight: block,
+  blockHash: `0xhash${block}`,
+  blockTime: 1_700_000_000 + block * 8_640,
+});
+
+const claim = (user: string, block: number, streak: number): ClaimEvent => ({
+  ...metadata(block),
+  type: 'claim',
+  user,
+  amount: 100,
+  streak,
+  totalClaims: streak,
+  block,
+});
+
+const deposit = (block: number, amount: number): DepositEvent => ({
+  ...metadata(block),
+  type: 'deposit',
+  depositor: DEPOSITOR,
+  amount,
+  block,
+});
+
+// Alice's streak lapsed after three claims; Bob's first claim is still within its streak window
+const claims = [claim(ALICE, 950, 1), claim(ALICE, 960, 2), claim(ALICE, 970, 3), claim(BOB, 990, 1)];
+const deposits = [deposit(960, 1_000), deposit(980, 300)];
+
+describe('Runway Forecast Tests', () => {
+  it('should start the history at the lookback window or the oldest live streak', () => {
+    expect(getRunwayHistoryStart(CURRENT_BLOCK, parameters)).toBe(700);
+    expect(getRunwayHistoryStart(CURRENT_BLOCK, { ...parameters, streakWindowBlocks: 500 }, 10)).toBe(500);
+  });
+
+  it('should fit retention, new streaks and deposits to the history', () => {
+    const model = fitRunwayModel(claims, deposits, CURRENT_BLOCK, parameters);
+
+    expect(model).toEqual({
+      activeClaimers: { 2: 1 },
+      // Two of Alice's three settled claims were followed by another, smoothed
+      retention: 3 / 5,
+      retentionSamples: 3,
+      // The faucet is five rounds old
+      newClaimersPerRound: 2 / 5,
+      depositsPerRound: 1_300 / 5,
+      // The largest deposit isn't assumed to recur
+      recurringDepositsPerRound: 300 / 5,
+      historyRounds: 5,
+    });
+  });
+
+  it('should measure the history from the earliest block when given', () => {
+    const model = fitRunwayModel(claims, deposits, CURRENT_BLOCK, parameters, 30, 100);
+    expect(model.historyRounds).toBe(30);
+    expect(model.newClaimersPerRound).toBe(2 / 30);
+  });
+
+  it('should not assume recurring deposits without any', () => {
+    const model = fitRunwayModel(claims, [], CURRENT_BLOCK, parameters);
+    expect(model.depositsPerRound).toBe(0);
+    expect(model.recurringDepositsPerRound).toBe(0);
+  });
+
+  it('should project when the balance runs out', () => {
+    const forecast = forecastRunway(
+      { balance: 40n, claims, deposits, currentBlock: CURRENT_BLOCK, parameters, blockTime },
+      { now: NOW }
+    );
+
+    // 0.4 new claimers and 0.6 of Bob each claim 100, against 60 deposited per day
+    expect(forecast.expected).toEqual({
+      daysRemaining: 1,
+      depletionDate: new Date('2026-01-02T00:00:00Z'),
+      dailyClaims: 100,
+      dailyDeposits: 60,
+      retention: 0.6,
+      newClaimersPerDay: 0.4,
+    });
+    expect(forecast.worst.dailyDeposits).toBe(0);
+    expect(forecast.worst.daysRemaining).toBeLessThan(1);
+    // Deposits at the observed rate outpace the fewest claims
+    expect(forecast.best.daysRemaining).toBeNull();
+    expect(forecast.confidence).toBe('low');
+    expect(forecast.generatedAt).toBe(NOW);
+  });
+
+  it('should keep balances beyond the safe integer range', () => {
+    const forecast = forecastRunway(
+      { balance: 2n ** 64n, claims, deposits: [], currentBlock: CURRENT_BLOCK, parameters, blockTime },
+      { now: NOW, horizonDays: 365 }
+    );
+
+    expect(forecast.horizonDays).toBe(365);
+    expect(forecast.worst.daysRemaining).toBeNull();
+    expect(forecast.worst.depletionDate).toBeNull();
+  });
+
+  it('should not run out without any claims', () => {
+    const forecast = forecastRunway(
+      { balance: 1_000n, claims: [], deposits: [], currentBlock: CURRENT_BLOCK, parameters, blockTime },
+      { now: NOW }
+    );
+
+    expect(forecast.model.historyRounds).toBe(1);
+    expect(forecast.expected.daysRemaining).toBeNull();
+    expect(forecast.expected.dailyClaims).toBe(0);
+  });
+});
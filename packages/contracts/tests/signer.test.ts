@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Cl, deserializeTransaction } from '@stacks/transactions';
+import { PrivateKeySigner, SignerError } from '../src/lib/signer';
+import { NETWORK_CONFIGS, getContractId } from '../src/lib/network';
+
+// secret_key of [accounts.wallet_1] in settings/Devnet.toml
+const WALLET_1_KEY = '7287ba251d44a4d3fd9276c88ce34c5c52a038955511cccaf77e61068649c17801';
+
+const network = NETWORK_CONFIGS.devnet;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const rejection = (reason: string, reasonData?: unknown) =>
+  json({ error: 'transaction rejected', reason, reason_data: reasonData, txid: `0x${'00'.repeat(32)}` }, 400);
+
+const claimCall = () => ({
+  contract: getContractId(network, 'faucet') as `${string}.${string}`,
+  functionName: 'claim',
+  functionArgs: [Cl.uint(1)],
+  network
+});
+
+describe('Private Key Signer Tests', () => {
+  let signer: PrivateKeySigner;
+  // Nonces of the broadcast transactions, in order
+  let broadcastNonces: bigint[];
+  let nonceLookups: number;
+  // Node answers for the next broadcasts (accepted once they run out)
+  let broadcastResponses: Array<() => Response>;
+
+  beforeEach(() => {
+    signer = new PrivateKeySigner(WALLET_1_KEY, { fee: 1000 });
+    broadcastNonces = [];
+    nonceLookups = 0;
+    broadcastResponses = [];
+
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+      const url = String(input);
+      if (url.endsWith('/nonces')) {
+        nonceLookups++;
+        return json({ possible_next_nonce: 5 });
+      }
+
+      const transaction = deserializeTransaction(JSON.parse(String(init?.body)).tx);
+      broadcastNonces.push(transaction.auth.spendingCondition.nonce);
+      const response = broadcastResponses.shift();
+      return response ? response() : json(transaction.txid());
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should give concurrent calls consecutive nonces', async () => {
+    const results = await Promise.all([signer.callContract(claimCall()), signer.callContract(claimCall()), signer.callContract(claimCall())]);
+
+    expect(broadcastNonces).toEqual([5n, 6n, 7n]);
+    expect(new Set(results.map(result => result.txId)).size).toBe(3);
+    expect(nonceLookups).toBe(1);
+  });
+
+  it('should keep the queue going after a rejected call', async () => {
+    broadcastResponses.push(() => rejection('NotEnoughFunds'));
+
+    const [first, second] = await Promise.allSettled([signer.callContract(claimCall()), signer.callContract(claimCall())]);
+
+    expect(first).toMatchObject({ status: 'rejected', reason: expect.any(SignerError) });
+    expect(second.status).toBe('fulfilled');
+    // The failed nonce is re-synced rather than skipped
+    expect(broadcastNonces).toEqual([5n, 5n]);
+    expect(nonceLookups).toBe(2);
+  });
+
+  it('should rebroadcast with the nonce the node expects after BadNonce', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    broadcastResponses.push(() => rejection('BadNonce', { expected: 9, actual: 5 }));
+
+    await signer.callContract(claimCall());
+    await signer.callContract(claimCall());
+
+    expect(broadcastNonces).toEqual([5n, 9n, 10n]);
+  });
+
+  it('should move past a nonce already taken in the mempool', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    broadcastResponses.push(() => rejection('ConflictingNonceInMempool'));
+
+    await signer.callContract(claimCall());
+
+    expect(broadcastNonces).toEqual([5n, 6n]);
+  });
+
+  it('should give up after the nonce retries and re-sync on the next call', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    broadcastResponses.push(...Array.from({ length: 3 }, () => () => rejection('ConflictingNonceInMempool')));
+
+    const error = await signer.callContract(claimCall()).catch(error => error);
+
+    expect(error).toBeInstanceOf(SignerError);
+    expect(error.reason).toBe('ConflictingNonceInMempool');
+    expect(broadcastNonces).toEqual([5n, 6n, 7n]);
+
+    await signer.callContract(claimCall());
+    expect(broadcastNonces.slice(3)).toEqual([5n]);
+    expect(nonceLookups).toBe(2);
+  });
+});
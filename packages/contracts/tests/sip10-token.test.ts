@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Cl, cvToHex } from '@stacks/transactions';
+import { Sip10Token } from '../src/lib/sip10-token';
+import { MemoryCacheStore } from '../src/lib/cache-store';
+import { TOKEN_ERRORS } from '../src/lib/errors';
+import { NETWORK_CONFIGS, getContractId } from '../src/lib/network';
+
+const TOKEN_ID = getContractId(NETWORK_CONFIGS.devnet, 'token');
+const OTHER_TOKEN_ID = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG.wrapped-gold';
+
+const json = (body: unknown) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Serve a contract interface with the given assets, and get-name/get-symbol results
+ */
+const stubContract = (assetNames: string[], labels: { name: string; symbol: string }) =>
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+    const url = String(input);
+    if (url.includes('/v2/contracts/interface/')) {
+      return json({ functions: [], fungible_tokens: assetNames.map(name => ({ name })) });
+    }
+    const label = url.endsWith('/get-name') ? labels.name : labels.symbol;
+    return json({ okay: true, result: cvToHex(Cl.ok(Cl.stringAscii(label))) });
+  });
+
+const token = (contractId: string) => new Sip10Token(contractId, 'devnet', { cacheStore: new MemoryCacheStore() });
+
+describe('SIP-10 Token Tests', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should use the only fungible token without reading name or symbol', async () => {
+    const fetchMock = stubContract(['gold'], { name: 'Gold', symbol: 'GLD' });
+
+    expect(await token(OTHER_TOKEN_ID).getAssetName()).toBe('gold');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pick the fungible token matching the symbol or name', async () => {
+    stubContract(['lp-share', 'wrapped-gold'], { name: 'Wrapped Gold', symbol: 'WGLD' });
+    expect(await token(OTHER_TOKEN_ID).getAssetName()).toBe('wrapped-gold');
+
+    vi.restoreAllMocks();
+    stubContract(['lp-share', 'wgld'], { name: 'Wrapped Gold', symbol: 'WGLD' });
+    expect(await token(OTHER_TOKEN_ID).getAssetName()).toBe('wgld');
+  });
+
+  it('should ask for the asset name when no fungible token matches', async () => {
+    stubContract(['lp-share', 'reward-points'], { name: 'Wrapped Gold', symbol: 'WGLD' });
+
+    await expect(token(OTHER_TOKEN_ID).getAssetName()).rejects.toThrow('pass assetName to choose one');
+  });
+
+  it('should skip the lookup when the asset name is given', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch');
+    const gold = new Sip10Token(OTHER_TOKEN_ID, 'devnet', { cacheStore: new MemoryCacheStore(), assetName: 'gold' });
+
+    expect(await gold.getAssetName()).toBe('gold');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should only decode error codes of the project token', () => {
+    expect(token(TOKEN_ID).decodeContractError(1)).toEqual(TOKEN_ERRORS.NOT_ENOUGH_BALANCE);
+    expect(token(OTHER_TOKEN_ID).decodeContractError(1)).toEqual({ code: 1, message: 'Unknown error code: 1' });
+  });
+});
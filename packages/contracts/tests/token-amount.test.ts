@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { TokenAmount, TokenAmountError } from '../src/lib/token-amount';
+
+describe('Token Amount Tests', () => {
+  it('should parse human-readable amounts into base units', () => {
+    expect(TokenAmount.parse('1,234.5', 6).toBaseUnits()).toBe(1_234_500_000n);
+    expect(TokenAmount.parse('.5', 6).toBaseUnits()).toBe(500_000n);
+    expect(TokenAmount.parse('-2', 6).toBaseUnits()).toBe(-2_000_000n);
+    expect(TokenAmount.parse('1_000', 0).toBaseUnits()).toBe(1000n);
+  });
+
+  it('should reject more fraction digits than the token has instead of rounding', () => {
+    expect(() => TokenAmount.parse('0.0000001', 6)).toThrow('more than 6 decimal places');
+    expect(() => TokenAmount.parse('1.5', 0)).toThrow('whole number');
+  });
+
+  it('should reject malformed amounts', () => {
+    for (const value of ['', '.', 'abc', '1.2.3', '1e6']) {
+      expect(() => TokenAmount.parse(value, 6)).toThrow(TokenAmountError);
+      expect(TokenAmount.tryParse(value, 6)).toBeNull();
+    }
+  });
+
+  it('should keep amounts beyond the safe integer range exact', () => {
+    const amount = TokenAmount.parse('123456789012345678.123456', 6);
+    expect(amount.toBaseUnits()).toBe(123456789012345678123456n);
+    expect(amount.toString()).toBe('123456789012345678.123456');
+    expect(amount.add(1n).toString()).toBe('123456789012345678.123457');
+  });
+
+  it('should only accept integer base units', () => {
+    expect(TokenAmount.fromBaseUnits(' 42 ', 6).toBaseUnits()).toBe(42n);
+    expect(() => TokenAmount.fromBaseUnits(1.5, 6)).toThrow('safe integer');
+    expect(() => TokenAmount.fromBaseUnits(2 ** 53, 6)).toThrow('safe integer');
+    expect(() => TokenAmount.fromBaseUnits('1.5', 6)).toThrow('must be an integer');
+  });
+
+  it('should refuse to mix amounts with different decimals', () => {
+    const amount = TokenAmount.parse('1', 6);
+    expect(() => amount.add(TokenAmount.parse('1', 8))).toThrow('Expected an amount with 6 decimals');
+    expect(() => new TokenAmount(1n, -1)).toThrow('Invalid decimals');
+  });
+
+  it('should do integer arithmetic like Clarity', () => {
+    const amount = TokenAmount.fromBaseUnits(10, 6);
+    expect(amount.sub(15).toBaseUnits()).toBe(-5n);
+    expect(amount.mul(3).toBaseUnits()).toBe(30n);
+    expect(amount.div(3).toBaseUnits()).toBe(3n);
+    expect(amount.sub(17).div(2).toBaseUnits()).toBe(-3n);
+    expect(() => amount.div(0)).toThrow('Division by zero');
+    expect(() => amount.mul(1.5)).toThrow('Expected an integer');
+  });
+
+  it('should compare, sum and pick extremes', () => {
+    const amounts = ['3', '1', '2'].map(value => TokenAmount.parse(value, 6));
+    expect(TokenAmount.sum(amounts, 6).toString()).toBe('6');
+    expect(TokenAmount.min(amounts[0], ...amounts.slice(1)).toString()).toBe('1');
+    expect(TokenAmount.max(amounts[0], ...amounts.slice(1)).toString()).toBe('3');
+    expect(amounts[0].gt(amounts[1])).toBe(true);
+    expect(amounts[1].lte(1_000_000)).toBe(true);
+    expect(amounts[2].compare(amounts[2])).toBe(0);
+    expect(amounts[1].ratio(amounts[0])).toBeCloseTo(1 / 3);
+    expect(TokenAmount.zero(6).ratio(TokenAmount.zero(6))).toBe(0);
+  });
+
+  it('should format with grouping, symbol and fraction digits', () => {
+    const amount = TokenAmount.parse('1234567.891', 6);
+    expect(amount.format()).toBe('1,234,567.891');
+    expect(amount.format({ symbol: 'TKN' })).toBe('1,234,567.891 TKN');
+    // Extra digits are truncated, not rounded up
+    expect(amount.format({ maxFractionDigits: 2 })).toBe('1,234,567.89');
+    expect(TokenAmount.parse('1.5', 6).format({ minFractionDigits: 2 })).toBe('1.50');
+    expect(TokenAmount.parse('-0.25', 6).format()).toBe('-0.25');
+    expect(amount.format({ compact: true })).toBe('1.2M');
+  });
+
+  it('should serialize to an exact token string', () => {
+    expect(JSON.stringify({ amount: TokenAmount.parse('1.10', 6) })).toBe('{"amount":"1.1"}');
+    expect(TokenAmount.parse('2', 6).toNumber()).toBe(2);
+  });
+});
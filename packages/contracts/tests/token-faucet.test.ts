@@ -1,12 +1,15 @@
 import { Cl } from '@stacks/transactions';
 import { describe, it, expect } from 'vitest';
+import { FAUCET_ERRORS } from '../src/lib/errors';
+import { DEFAULT_FAUCET_PARAMETERS } from '../src/lib/faucet-parameters';
 
+// Codes come from the shared registry so the tests catch any drift from the contract
 const errors = {
-  cooldownActive: Cl.uint(101),
-  insufficientFaucetBalance: Cl.uint(102),
-  invalidUser: Cl.uint(103),
-  transferFailed: Cl.uint(104),
-  invalidDeposit: Cl.uint(105),
+  cooldownActive: Cl.uint(FAUCET_ERRORS.COOLDOWN_ACTIVE.code),
+  insufficientFaucetBalance: Cl.uint(FAUCET_ERRORS.INSUFFICIENT_FAUCET_BALANCE.code),
+  invalidUser: Cl.uint(FAUCET_ERRORS.INVALID_USER.code),
+  transferFailed: Cl.uint(FAUCET_ERRORS.TRANSFER_FAILED.code),
+  invalidDeposit: Cl.uint(FAUCET_ERRORS.INVALID_DEPOSIT.code),
 }
 
 
@@ -65,6 +68,32 @@ describe('Token Faucet Contract Tests', () => {
     expect(tier4Result.result).toBeUint(125000000); // 125M tokens
   });
 
+  it('should match tier streak thresholds used by the wrappers', () => {
+    DEFAULT_FAUCET_PARAMETERS.tierStreaks.forEach((minStreak, tier) => {
+      const atThreshold = simnet.callReadOnlyFn('token-faucet', 'get-reward-for-streak', [Cl.uint(minStreak)], simnet.deployer);
+      expect(atThreshold.result).toBeUint(DEFAULT_FAUCET_PARAMETERS.tierRewards[tier]);
+
+      if (tier > 0) {
+        const belowThreshold = simnet.callReadOnlyFn('token-faucet', 'get-reward-for-streak', [Cl.uint(minStreak - 1)], simnet.deployer);
+        expect(belowThreshold.result).toBeUint(DEFAULT_FAUCET_PARAMETERS.tierRewards[tier - 1]);
+      }
+    });
+  });
+
+  it('should expose cooldown, streak window and tier rewards in faucet stats', () => {
+    const stats = simnet.callReadOnlyFn('token-faucet', 'get-faucet-stats', [], simnet.deployer);
+    expect(stats.result).toMatchObject(
+      Cl.tuple({
+        'cooldown-blocks': Cl.uint(DEFAULT_FAUCET_PARAMETERS.cooldownBlocks),
+        'streak-window-blocks': Cl.uint(DEFAULT_FAUCET_PARAMETERS.streakWindowBlocks),
+        'tier-1-reward': Cl.uint(DEFAULT_FAUCET_PARAMETERS.tierRewards[0]),
+        'tier-2-reward': Cl.uint(DEFAULT_FAUCET_PARAMETERS.tierRewards[1]),
+        'tier-3-reward': Cl.uint(DEFAULT_FAUCET_PARAMETERS.tierRewards[2]),
+        'tier-4-reward': Cl.uint(DEFAULT_FAUCET_PARAMETERS.tierRewards[3]),
+      })
+    );
+  });
+
   // Streak System Tests
   it('should start with streak 1 on first claim', () => {
     // Mine blocks and deposit tokens
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { ContractEventsService } from '../src/lib/events';
+import { MemoryEventStore } from '../src/lib/event-store';
+import { MemoryCacheStore } from '../src/lib/cache-store';
+import { DEVNET_ACCOUNTS, getContractId } from '../src/lib/network';
+import { MockStacksApi, startMockStacksApi } from '../scripts/mock-stacks-api';
+
+const { deployer, wallet_1, wallet_2, wallet_3 } = DEVNET_ACCOUNTS;
+
+// More than Number.MAX_SAFE_INTEGER base units
+const SUPPLY = 10_000_000_000_000_000_001n;
+
+describe('Token Ledger Tests', () => {
+  let api: MockStacksApi;
+  let ledger: ContractEventsService;
+  let deployBlock: number;
+  let transferBlock: number;
+  let sendManyBlock: number;
+
+  beforeAll(async () => {
+    api = await startMockStacksApi();
+    const tokenContractId = getContractId(api.network, 'token');
+    const service = (contract: 'token' | 'faucet' | 'batchTransfer', ledgerSources: ContractEventsService[] = []) =>
+      new ContractEventsService(api.network, getContractId(api.network, contract), {
+        eventSource: 'transactions',
+        tokenContractId,
+        ledgerSources,
+        cacheStore: new MemoryCacheStore(),
+        eventStore: new MemoryEventStore()
+      });
+    ledger = service('token', [service('faucet'), service('batchTransfer')]);
+
+    deployBlock = api.mineTransactions([api.deployTokenCall(deployer, SUPPLY)]);
+    transferBlock = api.mineTransactions([api.transferCall(deployer, wallet_1, 1_000_000n)]);
+    sendManyBlock = api.mineTransactions([
+      api.sendManyCall(wallet_1, [
+        { to: wallet_2, amount: 250_000n },
+        { to: wallet_3, amount: 100_000n }
+      ])
+    ]);
+  });
+
+  afterAll(async () => {
+    await api.close();
+  });
+
+  it('should replay transfers and send-many calls into holder balances', async () => {
+    const holders = await ledger.getHolders();
+
+    expect(holders).toEqual([
+      { address: deployer, balance: SUPPLY - 1_000_000n, lastActivityBlock: transferBlock },
+      { address: wallet_1, balance: 650_000n, lastActivityBlock: sendManyBlock },
+      { address: wallet_2, balance: 250_000n, lastActivityBlock: sendManyBlock },
+      { address: wallet_3, balance: 100_000n, lastActivityBlock: sendManyBlock }
+    ]);
+  });
+
+  it('should return the largest holders', async () => {
+    const top = await ledger.getTopHolders(2);
+    expect(top.map(holder => holder.address)).toEqual([deployer, wallet_1]);
+  });
+
+  it('should replay balances at a block', async () => {
+    expect(await ledger.getBalanceAtBlock(deployer, deployBlock)).toBe(SUPPLY);
+    expect(await ledger.getBalanceAtBlock(wallet_1, deployBlock)).toBe(0n);
+    expect(await ledger.getBalanceAtBlock(wallet_1, transferBlock)).toBe(1_000_000n);
+    expect(await ledger.getBalanceAtBlock(wallet_1, sendManyBlock)).toBe(650_000n);
+    expect(await ledger.getBalanceAtBlock(wallet_2, sendManyBlock)).toBe(250_000n);
+  });
+
+  it('should parse token movements from fungible_token_asset events', () => {
+    const event = ledger.parseEvent({
+      tx_id: '0x01',
+      event_index: 2,
+      event_type: 'fungible_token_asset',
+      asset: {
+        asset_event_type: 'transfer',
+        asset_id: `${getContractId(api.network, 'token')}::TKN`,
+        sender: wallet_1,
+        recipient: wallet_2,
+        amount: '9007199254740993'
+      }
+    });
+
+    expect(event).toMatchObject({
+      type: 'token_transfer',
+      action: 'transfer',
+      sender: wallet_1,
+      recipient: wallet_2,
+      amount: 9007199254740993n,
+      txId: '0x01',
+      eventIndex: 2
+    });
+  });
+
+  it('should skip unknown event types, invalid amounts and other tokens', () => {
+    const asset = {
+      asset_event_type: 'transfer',
+      asset_id: `${getContractId(api.network, 'token')}::TKN`,
+      sender: wallet_1,
+      recipient: wallet_2,
+      amount: '100'
+    };
+    const parse = (overrides: Record<string, unknown>) =>
+      ledger.parseEvent({ tx_id: '0x01', event_index: 0, event_type: 'fungible_token_asset', asset: { ...asset, ...overrides } });
+
+    expect(parse({})).not.toBeNull();
+    expect(parse({ asset_event_type: 'lock' })).toBeNull();
+    expect(parse({ amount: '-5' })).toBeNull();
+    expect(parse({ amount: 100 })).toBeNull();
+    expect(parse({ asset_id: `${deployer}.other-token::OTHER` })).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryCacheStore } from '../src/lib/cache-store';
+import {
+  GatewayMetadataFetcher,
+  StaticMetadataFetcher,
+  TokenMetadataResolver,
+  validateSip16Metadata
+} from '../src/lib/token-metadata';
+
+const METADATA_URI = 'https://example.com/token.json';
+const CID = 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi';
+
+const document = {
+  sip: 16,
+  name: 'Test Token',
+  description: 'A token for tests',
+  image: `ipfs://${CID}/logo.png`,
+};
+
+// Resolver serving https documents from memory, with its own cache
+const createResolver = (documents: Record<string, unknown>, strict = false) => {
+  const fetcher = new StaticMetadataFetcher(documents);
+  const resolver = new TokenMetadataResolver({
+    fetchers: { https: fetcher },
+    cacheStore: new MemoryCacheStore(),
+    strict,
+  });
+  return { fetcher, resolver };
+};
+
+describe('Token Metadata Tests', () => {
+  it('should accept a valid SIP-16 document', () => {
+    const result = validateSip16Metadata(document);
+    expect(result.isValid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.metadata).toEqual(document);
+  });
+
+  it('should drop fields with the wrong shape', () => {
+    const result = validateSip16Metadata({ ...document, description: 42, attributes: {} });
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(['`description` must be a string', '`attributes` must be an array']);
+    expect(result.metadata).not.toHaveProperty('description');
+    expect(result.metadata).not.toHaveProperty('attributes');
+    expect(result.metadata?.name).toBe('Test Token');
+  });
+
+  it('should reject documents without a name', () => {
+    const result = validateSip16Metadata({ sip: 16, description: 'Nameless' });
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('`name` is required');
+    expect(result.metadata).toBeUndefined();
+  });
+
+  it('should reject localization without a {locale} placeholder', () => {
+    const localization = { uri: 'https://example.com/token-fr.json', default: 'en', locales: ['en', 'fr'] };
+    const result = validateSip16Metadata({ ...document, localization });
+    expect(result.isValid).toBe(false);
+    expect(result.metadata).not.toHaveProperty('localization');
+  });
+
+  it('should rewrite IPFS and Arweave URIs to gateway URLs', () => {
+    const ipfs = new GatewayMetadataFetcher('ipfs', 'https://gateway.example.com/ipfs');
+    expect(ipfs.resolveUrl(`ipfs://${CID}/logo.png`)).toBe(`https://gateway.example.com/ipfs/${CID}/logo.png`);
+    // The redundant ipfs://ipfs/<cid> form points at the same content
+    expect(ipfs.resolveUrl(`ipfs://ipfs/${CID}`)).toBe(`https://gateway.example.com/ipfs/${CID}`);
+    expect(ipfs.resolveUrl('https://example.com/logo.png')).toBe('https://example.com/logo.png');
+
+    const arweave = new GatewayMetadataFetcher('ar', 'https://arweave.example.com/');
+    expect(arweave.resolveUrl('ar://abc123')).toBe('https://arweave.example.com/abc123');
+  });
+
+  it('should resolve the image through the IPFS gateway', async () => {
+    const { resolver } = createResolver({ [METADATA_URI]: document });
+    const metadata = await resolver.resolve(METADATA_URI);
+    expect(metadata.name).toBe('Test Token');
+    expect(metadata.image).toBe(`https://ipfs.io/ipfs/${CID}/logo.png`);
+  });
+
+  it('should build an SVG image from image_data', async () => {
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg"/>';
+    const { resolver } = createResolver({ [METADATA_URI]: { sip: 16, name: 'Test Token', image_data: svg } });
+    const metadata = await resolver.resolve(METADATA_URI);
+    expect(metadata.image).toBe(`data:image/svg+xml;utf8,${encodeURIComponent(svg)}`);
+  });
+
+  it('should decode data URIs without fetching', async () => {
+    const { fetcher, resolver } = createResolver({});
+    const uri = `data:application/json;base64,${btoa(JSON.stringify({ sip: 16, name: 'Inline Token' }))}`;
+    expect((await resolver.resolve(uri)).name).toBe('Inline Token');
+    expect(fetcher.requests).toEqual([]);
+  });
+
+  it('should cache resolved documents until the cache is cleared', async () => {
+    const { fetcher, resolver } = createResolver({ [METADATA_URI]: document });
+    await resolver.resolve(METADATA_URI);
+    await resolver.resolve(METADATA_URI);
+    expect(fetcher.requests).toEqual([METADATA_URI]);
+
+    fetcher.setDocument(METADATA_URI, { ...document, name: 'Renamed Token' });
+    resolver.clearCache();
+    expect((await resolver.resolve(METADATA_URI)).name).toBe('Renamed Token');
+    expect(fetcher.requests).toHaveLength(2);
+  });
+
+  it('should merge a listed locale over the default document', async () => {
+    const localization = { uri: 'https://example.com/token-{locale}.json', default: 'en', locales: ['en', 'fr'] };
+    const { resolver } = createResolver({
+      [METADATA_URI]: { ...document, localization },
+      'https://example.com/token-fr.json': { description: 'Un jeton de test' },
+    });
+    const metadata = await resolver.resolve(METADATA_URI, { locale: 'fr' });
+    expect(metadata.name).toBe('Test Token');
+    expect(metadata.description).toBe('Un jeton de test');
+  });
+
+  it('should reject schema errors in strict mode', async () => {
+    const { resolver } = createResolver({ [METADATA_URI]: { ...document, description: 42 } }, true);
+    await expect(resolver.resolve(METADATA_URI)).rejects.toThrow('Invalid SIP-16 metadata');
+  });
+
+  it('should reject unsupported URIs', async () => {
+    const { resolver } = createResolver({});
+    await expect(resolver.resolve('ftp://example.com/token.json')).rejects.toThrow('Unsupported token URI');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TransactionError, TransactionTimeoutError, TransactionTracker, TransactionUpdate } from '../src/lib/transactions';
+import { FaucetContractError } from '../src/lib/errors';
+import { NETWORK_CONFIGS, getContractId } from '../src/lib/network';
+
+const TX_ID = `0x${'ab'.repeat(32)}`;
+const FAUCET_ID = getContractId(NETWORK_CONFIGS.devnet, 'faucet');
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Answer status requests with the given responses in turn (the last one repeats)
+ */
+const stubStatuses = (...responses: Array<() => Response>) => {
+  let index = 0;
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async () => {
+    const response = responses[Math.min(index, responses.length - 1)];
+    index++;
+    return response();
+  });
+};
+
+const pending = () => json({ tx_id: TX_ID, tx_status: 'pending' });
+const success = () => json({ tx_id: TX_ID, tx_status: 'success', block_height: 120, tx_result: { repr: '(ok true)' } });
+
+const tracker = (options: { timeout?: number } = {}) =>
+  new TransactionTracker('devnet', { pollInterval: 1, ...options });
+
+describe('Transaction Tracker Tests', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report unindexed transactions as pending', async () => {
+    const fetchMock = stubStatuses(() => json({ error: 'not found' }, 404));
+
+    const update = await tracker().getStatus(TX_ID.slice(2));
+
+    expect(update).toEqual({ txId: TX_ID, status: 'pending', isFinal: false });
+    expect(fetchMock.mock.calls[0][0]).toBe(`http://localhost:3999/extended/v1/tx/${TX_ID}`);
+  });
+
+  it('should poll until the transaction confirms, reporting each status once', async () => {
+    stubStatuses(() => json({}, 404), pending, pending, success);
+    const updates: TransactionUpdate[] = [];
+
+    const final = await tracker().track(TX_ID, { onUpdate: update => updates.push(update) });
+
+    expect(final).toMatchObject({ status: 'success', isFinal: true, blockHeight: 120, result: '(ok true)' });
+    expect(updates.map(update => update.status)).toEqual(['pending', 'success']);
+  });
+
+  it('should keep polling through API failures', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    stubStatuses(() => json({ error: 'unavailable' }, 503), success);
+
+    await expect(tracker().waitForSuccess(TX_ID)).resolves.toMatchObject({ status: 'success' });
+  });
+
+  it('should decode abort_by_response errors of known contracts', async () => {
+    stubStatuses(() => json({
+      tx_id: TX_ID,
+      tx_status: 'abort_by_response',
+      block_height: 121,
+      tx_result: { repr: '(err u101)' },
+      contract_call: { contract_id: FAUCET_ID },
+    }));
+
+    const error = await tracker().waitForSuccess(TX_ID).catch(error => error);
+
+    expect(error).toBeInstanceOf(TransactionError);
+    expect(error.status).toBe('abort_by_response');
+    expect(error.errorCode).toBe(101);
+    expect(error.contractError).toBeInstanceOf(FaucetContractError);
+    expect(error.message).toBe(error.contractError.userMessage);
+  });
+
+  it('should keep the raw code of unknown contracts', () => {
+    const update = tracker().parseTransaction(TX_ID, {
+      tx_status: 'abort_by_response',
+      tx_result: { repr: '(err u7)' },
+      contract_call: { contract_id: 'SP000000000000000000002Q6VF78.other' },
+    });
+
+    expect(update.error?.errorCode).toBe(7);
+    expect(update.error?.contractError).toBeUndefined();
+    expect(update.error?.message).toBe('Contract call failed with error code u7');
+  });
+
+  it('should map post-condition aborts and dropped transactions', () => {
+    const postCondition = tracker().parseTransaction(TX_ID, { tx_status: 'abort_by_post_condition', block_height: 5 });
+    expect(postCondition).toMatchObject({ status: 'abort_by_post_condition', isFinal: true });
+    expect(postCondition.error).toBeInstanceOf(TransactionError);
+
+    const dropped = tracker().parseTransaction(TX_ID, { tx_status: 'dropped_replace_by_fee' });
+    expect(dropped).toMatchObject({ status: 'dropped', isFinal: true, apiStatus: 'dropped_replace_by_fee' });
+  });
+
+  it('should time out while the transaction is still pending', async () => {
+    stubStatuses(pending);
+
+    const error = await tracker({ timeout: 5 }).track(TX_ID).catch(error => error);
+
+    expect(error).toBeInstanceOf(TransactionTimeoutError);
+    expect(error.txId).toBe(TX_ID);
+  });
+
+  it('should stop when the signal aborts', async () => {
+    stubStatuses(pending);
+    const controller = new AbortController();
+
+    const tracking = new TransactionTracker('devnet', { pollInterval: 60_000 }).track(TX_ID, {
+      signal: controller.signal,
+      // Abort while the tracker waits out the (long) poll interval
+      onUpdate: () => setTimeout(() => controller.abort(), 0),
+    });
+
+    await expect(tracking).rejects.toThrow('Transaction tracking aborted');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { getAddressNetwork, isValidStacksAddress, validateStacksAddress } from '../src/lib/validators';
+
+const TESTNET_ADDRESS = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const MAINNET_ADDRESS = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+
+describe('Address Validator Tests', () => {
+  it('should accept standard and contract principals', () => {
+    expect(validateStacksAddress(TESTNET_ADDRESS)).toEqual({
+      isValid: true,
+      network: 'testnet',
+      isContract: false,
+      contractName: undefined,
+    });
+    expect(validateStacksAddress(` ${MAINNET_ADDRESS}.token-faucet `)).toMatchObject({
+      isValid: true,
+      network: 'mainnet',
+      isContract: true,
+      contractName: 'token-faucet',
+    });
+  });
+
+  it('should catch typos with the checksum', () => {
+    const typo = TESTNET_ADDRESS.slice(0, -1) + (TESTNET_ADDRESS.endsWith('M') ? 'N' : 'M');
+    expect(validateStacksAddress(typo)).toMatchObject({ isValid: false, reason: 'invalid-checksum' });
+  });
+
+  it('should report why malformed addresses are rejected', () => {
+    const cases: Array<[string, string]> = [
+      ['', 'empty'],
+      ['   ', 'empty'],
+      ['SX1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM', 'invalid-prefix'],
+      ['bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq', 'invalid-prefix'],
+      ['ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGO', 'invalid-characters'],
+      ['ST1PQHQKV0RJXZFY1DGX8', 'invalid-length'],
+      [`${TESTNET_ADDRESS}.1token`, 'invalid-contract-name'],
+      [`${TESTNET_ADDRESS}.token.extra`, 'invalid-contract-name'],
+      [`${TESTNET_ADDRESS}.${'a'.repeat(41)}`, 'invalid-contract-name'],
+    ];
+    for (const [address, reason] of cases) {
+      const result = validateStacksAddress(address);
+      expect(result, address).toMatchObject({ isValid: false, reason });
+      expect(result.error).toBeTruthy();
+    }
+  });
+
+  it('should reject contracts where they are not allowed', () => {
+    expect(validateStacksAddress(`${TESTNET_ADDRESS}.token`, { allowContracts: false }))
+      .toMatchObject({ isValid: false, reason: 'contract-not-allowed', isContract: true });
+    expect(isValidStacksAddress(TESTNET_ADDRESS, { allowContracts: false })).toBe(true);
+  });
+
+  it('should check the network, treating devnet as testnet', () => {
+    expect(validateStacksAddress(MAINNET_ADDRESS, { network: 'testnet' })).toMatchObject({
+      isValid: false,
+      reason: 'wrong-network',
+      network: 'mainnet',
+      error: 'This is a mainnet address - expected a testnet address',
+    });
+    expect(isValidStacksAddress(TESTNET_ADDRESS, { network: 'devnet' })).toBe(true);
+    expect(isValidStacksAddress(TESTNET_ADDRESS, { network: 'mainnet' })).toBe(false);
+    expect(isValidStacksAddress(MAINNET_ADDRESS, { network: 'mainnet' })).toBe(true);
+  });
+
+  it('should tell which network an address belongs to', () => {
+    expect(getAddressNetwork(MAINNET_ADDRESS)).toBe('mainnet');
+    expect(getAddressNetwork(TESTNET_ADDRESS)).toBe('testnet');
+    expect(getAddressNetwork('not-an-address')).toBeNull();
+  });
+});